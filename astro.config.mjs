@@ -3,7 +3,11 @@ import tailwind from '@astrojs/tailwind';
 import sitemap from '@astrojs/sitemap';
 
 export default defineConfig({
-  integrations: [tailwind(), sitemap()],
+  integrations: [
+    tailwind(),
+    // Embed pages are shown on other sites, not searched for (the generator is)
+    sitemap({ filter: (page) => !/^\/embed\/.+/.test(new URL(page).pathname) }),
+  ],
   output: 'static',
   site: 'https://n8n-pulse.gui.do',
   prefetch: {
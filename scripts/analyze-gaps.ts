@@ -0,0 +1,169 @@
+/**
+ * Gap Analysis Script
+ *
+ * Lists missing dates for every metric registered in the playground
+ * DATA_SOURCES, per granularity. With --fill, short daily/weekly gaps are
+ * filled by linear interpolation (tagged source: 'interpolated', shown as
+ * estimated in charts). Monthly gaps are only reported: a missing month in
+ * an events or ambassadors file usually means "no activity", not lost data.
+ *
+ * Run with: npx tsx scripts/analyze-gaps.ts [--fill] [--max-gap=7] [--source=<id>]
+ */
+
+import { join } from 'path';
+import { extractTimeSeries } from '../src/lib/playground/loaders';
+import { DATA_SOURCES, type DataSource, type MetricDefinition } from '../src/lib/playground/registry';
+import { fillGaps, findGaps, type DateGap } from '../src/lib/history/gaps';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../src/lib/history/store';
+import type { Granularity } from '../src/lib/history/types';
+
+const MAX_GAPS_LISTED = 10;
+const FILLABLE: Granularity[] = ['daily', 'weekly'];
+
+function getArg(name: string): string | undefined {
+  return process.argv.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+}
+
+const shouldFill = process.argv.includes('--fill');
+const maxGap = Number(getArg('max-gap') ?? 7);
+const sourceFilter = getArg('source');
+
+/** '/data/history/discord.json' -> absolute path in public/data */
+function resolveDataFile(file: string): string {
+  return join(DATA_DIR, file.replace(/^\/data\//, ''));
+}
+
+function granularitiesFor(source: DataSource, metric: MetricDefinition, data: any): Granularity[] {
+  // Nested paths (e.g. timeline.monthly) hold a single series
+  if (metric.path.includes('.')) {
+    return [source.defaultGranularity];
+  }
+  return source.granularities.filter(g => Array.isArray(data?.[g]));
+}
+
+function formatGap(gap: DateGap): string {
+  const first = gap.missing[0];
+  const last = gap.missing[gap.missing.length - 1];
+  const range = first === last ? first : `${first} .. ${last}`;
+  return `${range} (${gap.missing.length})`;
+}
+
+function reportSource(source: DataSource): number {
+  console.log(`\n${source.label}`);
+  let totalMissing = 0;
+
+  for (const metric of source.metrics) {
+    const file = metric.file || source.file;
+    const data = readJsonFile<any>(resolveDataFile(file));
+    if (!data) {
+      console.log(`  ${metric.id}: ${file} not found`);
+      continue;
+    }
+
+    for (const granularity of granularitiesFor(source, metric, data)) {
+      const series = extractTimeSeries(data, metric, granularity).filter(p =>
+        p.value !== undefined && p.value !== null && !(metric.excludeZero && p.value === 0)
+      );
+      if (series.length === 0) continue;
+
+      const gaps = findGaps(series.map(p => p.date), granularity);
+      const missing = gaps.reduce((sum, gap) => sum + gap.missing.length, 0);
+      totalMissing += missing;
+
+      const label = `  ${metric.id} [${granularity}] ${series.length} points`;
+      if (gaps.length === 0) {
+        console.log(`${label}, no gaps`);
+        continue;
+      }
+
+      console.log(`${label}, ${missing} missing in ${gaps.length} gap(s):`);
+      for (const gap of gaps.slice(0, MAX_GAPS_LISTED)) {
+        console.log(`    ${formatGap(gap)}`);
+      }
+      if (gaps.length > MAX_GAPS_LISTED) {
+        console.log(`    ...and ${gaps.length - MAX_GAPS_LISTED} more`);
+      }
+    }
+  }
+
+  return totalMissing;
+}
+
+/**
+ * Interpolate short gaps in each daily/weekly array of the source's files
+ */
+function fillSource(source: DataSource): number {
+  // Group metrics by the file and date key they read
+  const groups = new Map<string, MetricDefinition[]>();
+  for (const metric of source.metrics) {
+    if (metric.path.includes('.')) continue;
+    const key = `${metric.file || source.file}|${metric.dateKey || 'date'}`;
+    groups.set(key, [...(groups.get(key) ?? []), metric]);
+  }
+
+  let totalAdded = 0;
+  for (const [key, metrics] of groups) {
+    const [file, dateKey] = key.split('|');
+    const path = resolveDataFile(file);
+    const data = readJsonFile<any>(path);
+    if (!data) continue;
+
+    let changed = false;
+    for (const granularity of FILLABLE) {
+      if (!Array.isArray(data[granularity])) continue;
+
+      const { points, added, skipped } = fillGaps(
+        data[granularity],
+        granularity,
+        metrics.map(m => m.path),
+        { dateKey, maxGap, excludeZero: metrics.filter(m => m.excludeZero).map(m => m.path) }
+      );
+      if (added.length > 0) {
+        data[granularity] = points;
+        changed = true;
+        totalAdded += added.length;
+        console.log(`  Filled ${added.length} ${granularity} point(s) in ${file}`);
+      }
+      for (const gap of skipped) {
+        console.log(`  Skipped ${granularity} gap ${formatGap(gap)} in ${file} (longer than ${maxGap})`);
+      }
+    }
+
+    if (changed) {
+      writeJsonFile(path, data);
+    }
+  }
+
+  return totalAdded;
+}
+
+async function main() {
+  console.log('Analyzing gaps in time-series data...');
+
+  const sources = DATA_SOURCES.filter(s => s.type === 'timeseries' && (!sourceFilter || s.id === sourceFilter));
+  if (sources.length === 0) {
+    throw new Error(`Unknown source: ${sourceFilter}`);
+  }
+
+  let totalMissing = 0;
+  for (const source of sources) {
+    totalMissing += reportSource(source);
+  }
+  console.log(`\nTotal missing periods: ${totalMissing}`);
+
+  if (shouldFill) {
+    console.log(`\nFilling daily/weekly gaps of up to ${maxGap} periods...`);
+    let totalAdded = 0;
+    for (const source of sources) {
+      totalAdded += fillSource(source);
+    }
+    console.log(`\nAdded ${totalAdded} interpolated point(s)`);
+  }
+
+  console.log('\nDone!');
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -18,14 +18,15 @@
 
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
+import { HISTORY_DIR } from '../src/lib/history/store';
 
 // Constants
 const BLUESKY_PDS = 'https://bsky.social';
 const BLUESKY_SEARCH_API = `${BLUESKY_PDS}/xrpc/app.bsky.feed.searchPosts`;
 const BLUESKY_SESSION_API = `${BLUESKY_PDS}/xrpc/com.atproto.server.createSession`;
-const DATA_DIR = join(process.cwd(), 'public', 'data', 'history');
-const OUTPUT_FILE = join(DATA_DIR, 'bluesky-posts.json');
-const PROGRESS_FILE = join(DATA_DIR, 'bluesky-backfill-progress.json');
+const OUTPUT_FILE = join(HISTORY_DIR, 'bluesky-posts.json');
+const PROGRESS_FILE = join(HISTORY_DIR, 'bluesky-backfill-progress.json');
 
 // Bluesky public launch date
 const BLUESKY_LAUNCH = '2024-02-06';
@@ -107,7 +108,7 @@ async function authenticate(): Promise<void> {
 
   console.log(`Authenticating as @${handle}...`);
 
-  const response = await fetch(BLUESKY_SESSION_API, {
+  const response = await httpFetch(BLUESKY_SESSION_API, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -181,7 +182,7 @@ async function searchPosts(
     const url = `${BLUESKY_SEARCH_API}?${params}`;
 
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'User-Agent': 'n8n-stats/1.0 (community dashboard)',
@@ -270,7 +271,7 @@ async function fetchMentions(
     const url = `${BLUESKY_SEARCH_API}?${params}`;
 
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'User-Agent': 'n8n-stats/1.0 (community dashboard)',
@@ -403,8 +404,8 @@ function loadExistingData(): BackfillData | null {
 }
 
 function saveData(data: BackfillData): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
+  if (!existsSync(HISTORY_DIR)) {
+    mkdirSync(HISTORY_DIR, { recursive: true });
   }
   writeFileSync(OUTPUT_FILE, JSON.stringify(data, null, 2));
 }
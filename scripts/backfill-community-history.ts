@@ -13,6 +13,7 @@
 
 import { writeFileSync, readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 interface CommunityDataPoint {
   date: string;
@@ -122,7 +123,7 @@ function interpolateMonthly(knownPoints: CommunityDataPoint[]): CommunityDataPoi
 
 async function fetchCurrentStats(): Promise<CommunityDataPoint | null> {
   try {
-    const response = await fetch('https://community.n8n.io/about.json');
+    const response = await httpFetch('https://community.n8n.io/about.json');
     if (!response.ok) return null;
 
     const data = await response.json();
@@ -1,12 +1,18 @@
 /**
  * Backfill creator history from n8n Arena git history
  * Fetches weekly snapshots from their GitHub repository
+ *
+ * Writes the aggregate totals (creators-stats.json) and each week's
+ * leaderboard (creators-timeline.json, for the per-creator pages).
  */
 
 import { writeFileSync, readFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
+import { addTimelineSnapshot, type CreatorsTimeline } from '../src/lib/creators/profile';
 
 const HISTORY_PATH = join(process.cwd(), 'public', 'data', 'history', 'creators-stats.json');
+const TIMELINE_PATH = join(process.cwd(), 'public', 'data', 'history', 'creators-timeline.json');
 
 // Usernames to exclude (n8n team accounts and company/organization accounts)
 const EXCLUDED_USERNAMES = [
@@ -53,7 +59,7 @@ async function getCommits(page: number = 1): Promise<any[]> {
     headers['Authorization'] = `token ${process.env.GITHUB_TOKEN}`;
   }
 
-  const response = await fetch(url, { headers });
+  const response = await httpFetch(url, { headers });
 
   if (!response.ok) {
     throw new Error(`GitHub API error: ${response.status}`);
@@ -65,7 +71,7 @@ async function getCommits(page: number = 1): Promise<any[]> {
 async function getFileAtCommit(sha: string): Promise<any[]> {
   const url = `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}/${sha}/${FILE_PATH}`;
 
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: { 'User-Agent': 'n8n-pulse' },
   });
 
@@ -90,6 +96,18 @@ function calculateStats(data: any[], date: string, sha: string): CreatorStats {
   };
 }
 
+function getLeaderboard(data: any[]) {
+  return data
+    .filter((c: any) => c.user_username && !EXCLUDED_USERNAMES.includes(c.user_username))
+    .sort((a: any, b: any) => (b.sum_unique_inserters || 0) - (a.sum_unique_inserters || 0))
+    .map((c: any) => ({
+      username: c.user_username,
+      totalViews: c.sum_unique_visitors || 0,
+      totalInserters: c.sum_unique_inserters || 0,
+      templateCount: c.unique_count_template_url || 0,
+    }));
+}
+
 function getWeekNumber(date: Date): string {
   const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
   const dayNum = d.getUTCDay() || 7;
@@ -136,6 +154,9 @@ async function main() {
 
   // Fetch data for each weekly commit
   const weeklyStats: CreatorStats[] = [];
+  let timeline: CreatorsTimeline | null = existsSync(TIMELINE_PATH)
+    ? JSON.parse(readFileSync(TIMELINE_PATH, 'utf-8'))
+    : null;
   const sortedWeeks = Array.from(weeklyCommits.entries()).sort((a, b) => a[0].localeCompare(b[0]));
 
   for (const [week, commit] of sortedWeeks) {
@@ -146,6 +167,7 @@ async function main() {
       const data = await getFileAtCommit(commit.sha);
       const stats = calculateStats(data, dateStr, commit.sha);
       weeklyStats.push(stats);
+      timeline = addTimelineSnapshot(timeline, dateStr, getLeaderboard(data));
       console.log(`  -> ${stats.total} creators (${stats.verified} verified)`);
     } catch (error) {
       console.error(`  -> Error: ${error}`);
@@ -179,6 +201,11 @@ async function main() {
   writeFileSync(HISTORY_PATH, JSON.stringify(history, null, 2));
   console.log(`\nSaved ${weeklyStats.length} weekly entries to ${HISTORY_PATH}`);
 
+  if (timeline) {
+    writeFileSync(TIMELINE_PATH, JSON.stringify(timeline, null, 2));
+    console.log(`Saved ${timeline.weekly.length} weekly leaderboards to ${TIMELINE_PATH}`);
+  }
+
   // Summary
   console.log('\n--- Summary ---');
   console.log(`Earliest: ${weeklyStats[0]?.date} - ${weeklyStats[0]?.total} creators`);
@@ -9,6 +9,7 @@
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 interface GitHubDataPoint {
   date: string;
@@ -41,7 +42,7 @@ const RAW_LOG_PATH = join(DATA_DIR, 'github-raw-log.json');
 async function fetchOssInsightData(): Promise<OssInsightRow[]> {
   console.log('Fetching star history from ossinsight.io...');
 
-  const response = await fetch(
+  const response = await httpFetch(
     'https://api.ossinsight.io/v1/repos/n8n-io/n8n/stargazers/history',
     {
       headers: {
@@ -11,6 +11,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { httpFetch } from '../src/lib/http/client';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -39,7 +40,7 @@ const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 async function fetchWithRetry(url: string, retries = 3): Promise<string | null> {
   for (let i = 0; i < retries; i++) {
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'User-Agent': 'n8n-stats-backfill/1.0 (https://github.com/gxjansen/n8n-stats)'
         }
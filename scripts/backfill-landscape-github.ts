@@ -9,6 +9,7 @@
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 interface OssInsightRow {
   date: string;
@@ -57,7 +58,7 @@ const GITHUB_REPOS: Record<string, string> = {
 async function fetchOssInsightData(repo: string): Promise<OssInsightRow[]> {
   console.log(`  Fetching ${repo}...`);
 
-  const response = await fetch(
+  const response = await httpFetch(
     `https://api.ossinsight.io/v1/repos/${repo}/stargazers/history`,
     {
       headers: {
@@ -7,6 +7,7 @@
 
 import { writeFileSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 const OUTPUT_FILE = join(process.cwd(), 'public', 'data', 'history', 'npm-downloads.json');
 const PACKAGE_NAME = 'n8n';
@@ -35,7 +36,7 @@ async function sleep(ms: number): Promise<void> {
 
 async function fetchDownloadRange(startDate: string, endDate: string): Promise<DailyDownload[]> {
   const url = `https://api.npmjs.org/downloads/range/${startDate}:${endDate}/${PACKAGE_NAME}`;
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: { 'User-Agent': 'n8n-stats-backfill' },
   });
 
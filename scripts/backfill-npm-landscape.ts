@@ -7,6 +7,7 @@
 
 import { writeFileSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 const OUTPUT_FILE = join(process.cwd(), 'public', 'data', 'history', 'npm-landscape.json');
 
@@ -43,7 +44,7 @@ async function sleep(ms: number): Promise<void> {
 
 async function fetchDownloadRange(packageName: string, startDate: string, endDate: string): Promise<DailyDownload[]> {
   const url = `https://api.npmjs.org/downloads/range/${startDate}:${endDate}/${encodeURIComponent(packageName)}`;
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: { 'User-Agent': 'n8n-stats-backfill' },
   });
 
@@ -85,7 +86,7 @@ async function fetchPackageHistory(packageName: string, platformId: string): Pro
   // First, check when the package was created
   let startDate = '2019-01-01'; // Default start
   try {
-    const metaResponse = await fetch(`https://registry.npmjs.org/${encodeURIComponent(packageName)}`);
+    const metaResponse = await httpFetch(`https://registry.npmjs.org/${encodeURIComponent(packageName)}`);
     if (metaResponse.ok) {
       const meta = await metaResponse.json();
       const created = meta.time?.created;
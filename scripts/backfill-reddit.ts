@@ -10,6 +10,7 @@
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 const WAYBACK_CDX = 'https://web.archive.org/cdx/search/cdx';
 const WAYBACK_WEB = 'https://web.archive.org/web';
@@ -57,7 +58,7 @@ async function getSnapshots(): Promise<Snapshot[]> {
 
   for (const { cdxUrl, fullUrl } of SUBREDDIT_URLS) {
     const url = `${WAYBACK_CDX}?url=${cdxUrl}&output=json&filter=statuscode:200&filter=mimetype:text/html`;
-    const response = await fetch(url);
+    const response = await httpFetch(url);
 
     if (!response.ok) {
       console.log(`  Warning: CDX API error for ${cdxUrl}: ${response.status}`);
@@ -101,7 +102,7 @@ async function extractSubscribers(snapshot: Snapshot): Promise<number | null> {
   const url = `${WAYBACK_WEB}/${snapshot.timestamp}/${snapshot.fullUrl}`;
 
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       headers: {
         'User-Agent': 'n8n-stats/1.0 (historical data collection)',
       },
@@ -0,0 +1,74 @@
+/**
+ * Prediction Backtest Script
+ *
+ * Replays the stored histories the milestone predictions are made from
+ * (github-history.json stars, community-history.json users and
+ * history/creators-stats.json creators; history/creators.json is only a
+ * current snapshot). At every past cutoff it predicts the next milestones
+ * with each forecasting model and compares them with the date the milestone
+ * was actually reached.
+ *
+ * Writes the calibration report to public/data/prediction-calibration.json,
+ * which the predictions test suite asserts against. CI runs --check on every
+ * push so the committed report cannot drift from the histories and models.
+ *
+ * Run with: npx tsx scripts/backtest-predictions.ts [--check]
+ *   --check  Compare the replay with the committed report instead of writing
+ *            it, exiting with an error when they differ
+ */
+
+import { join } from 'path';
+import { isDeepStrictEqual } from 'util';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../src/lib/history/store';
+import { buildCalibrationReport, type CalibrationReport, type CalibrationStats } from '../src/lib/utils/backtesting';
+
+const REPORT_PATH = join(DATA_DIR, 'prediction-calibration.json');
+
+const checkOnly = process.argv.includes('--check');
+
+function formatStats(stats: CalibrationStats): string {
+  const error = stats.medianAbsErrorDays === null ? 'n/a' : `${stats.medianAbsErrorDays}d`;
+  const coverage = stats.coverage === null ? 'n/a' : `${Math.round(stats.coverage * 100)}%`;
+  return `${stats.predicted} predicted, ${stats.reached} reached, median error ${error}, coverage ${coverage}`;
+}
+
+async function main() {
+  console.log('Backtesting milestone predictions...');
+
+  const report = buildCalibrationReport(file => readJsonFile<any>(join(DATA_DIR, file)));
+
+  for (const metric of report.metrics) {
+    console.log(`\n${metric.label}: ${metric.points} points, ${metric.cutoffs} cutoffs, data until ${metric.dataEnd}`);
+    for (const entry of report.entries.filter(e => e.metric === metric.id)) {
+      console.log(`  ${entry.model.padEnd(12)} ${formatStats(entry)}`);
+      for (const [confidence, stats] of Object.entries(entry.byConfidence)) {
+        if (stats.predicted === 0) continue;
+        console.log(`    ${confidence.padEnd(10)} ${formatStats(stats)}`);
+      }
+    }
+  }
+
+  console.log(`\nNominal interval coverage: ${Math.round(report.level * 100)}%`);
+
+  if (checkOnly) {
+    const committed = readJsonFile<CalibrationReport>(REPORT_PATH);
+    const matches = committed !== null
+      && isDeepStrictEqual(committed.metrics, report.metrics)
+      && isDeepStrictEqual(committed.entries, report.entries);
+    if (!matches) {
+      console.error(`\n${REPORT_PATH} is out of date; run npm run backtest-predictions and commit it`);
+      process.exit(1);
+    }
+    console.log('\nCommitted report matches the replay');
+  } else {
+    writeJsonFile(REPORT_PATH, report);
+    console.log(`Saved report to ${REPORT_PATH}`);
+  }
+
+  console.log('\nDone!');
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Node Pairs Build Script
+ *
+ * Computes the node co-occurrence matrix across all published templates
+ * (node lists from history/template-snapshots.json) and scores each pair by
+ * lift, PMI and normalized PMI. Keeps each node's strongest pairs.
+ *
+ * Writes public/data/node-pairs.json, read by the node pages and /nodes/pairs.
+ * Run after fetch-all-templates.ts.
+ *
+ * Run with: npx tsx scripts/build-node-pairs.ts
+ */
+
+import { join } from 'path';
+import { DATA_DIR, HISTORY_DIR, readJsonFile, writeJsonFile } from '../src/lib/history/store';
+import { decodeTemplateSnapshots, type TemplateSnapshots } from '../src/lib/history/templateSnapshots';
+import { computeNodePairs, limitPairsPerNode } from '../src/lib/utils/cooccurrence';
+
+const SNAPSHOTS_PATH = join(HISTORY_DIR, 'template-snapshots.json');
+const OUTPUT_PATH = join(DATA_DIR, 'node-pairs.json');
+
+/** Pairs must appear together in at least this many templates */
+const MIN_SUPPORT = 10;
+
+/** Strongest pairs kept per node */
+const PAIRS_PER_NODE = 25;
+
+/** Present in almost every template, so it says nothing about a pair */
+const EXCLUDED_NODES = ['n8n-nodes-base.stickyNote'];
+
+async function main() {
+  console.log('Building node co-occurrence pairs...');
+
+  const snapshots = readJsonFile<TemplateSnapshots>(SNAPSHOTS_PATH);
+  if (!snapshots) {
+    throw new Error(`${SNAPSHOTS_PATH} not found. Run "npx tsx scripts/fetch-all-templates.ts" first.`);
+  }
+
+  const templates = decodeTemplateSnapshots(snapshots).filter(t => t.active);
+  const result = computeNodePairs(templates.map(t => t.nodes), {
+    minSupport: MIN_SUPPORT,
+    excluded: EXCLUDED_NODES,
+  });
+  const pairs = limitPairsPerNode(result.pairs, PAIRS_PER_NODE);
+
+  console.log(`Templates: ${result.totalTemplates.toLocaleString()}`);
+  console.log(`Nodes: ${Object.keys(result.nodeCounts).length.toLocaleString()}`);
+  console.log(`Associated pairs: ${result.pairs.length.toLocaleString()} (keeping ${pairs.length.toLocaleString()})`);
+
+  console.log('\nStrongest pairs:');
+  for (const pair of pairs.slice(0, 10)) {
+    console.log(`  ${pair.a} + ${pair.b}: ${pair.count} templates, lift ${pair.lift}, NPMI ${pair.npmi}`);
+  }
+
+  writeJsonFile(OUTPUT_PATH, {
+    lastUpdated: new Date().toISOString(),
+    snapshotDate: snapshots.dates[snapshots.dates.length - 1],
+    totalTemplates: result.totalTemplates,
+    minSupport: MIN_SUPPORT,
+    nodeCounts: result.nodeCounts,
+    pairs,
+  });
+  console.log(`\nSaved to ${OUTPUT_PATH}`);
+
+  console.log('\nDone!');
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -6,6 +6,8 @@
  * 2. Creation timeline (templates created per month)
  * 3. Node usage statistics (which nodes are used across all templates)
  * 4. Creator statistics
+ * 5. A per-template snapshot (views, nodes, category, creator) appended to
+ *    history/template-snapshots.json for the template pages
  *
  * Run weekly (not on every build) due to the large number of API calls.
  * Run with: npx tsx scripts/fetch-all-templates.ts
@@ -13,6 +15,14 @@
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
+import {
+  appendTemplateSnapshot,
+  getTemplateCategory,
+  serializeTemplateSnapshots,
+  type SnapshotTemplate,
+  type TemplateSnapshots,
+} from '../src/lib/history/templateSnapshots';
 
 // Types
 interface TemplateNode {
@@ -109,6 +119,7 @@ const PAGE_SIZE = 100;
 const RATE_LIMIT_DELAY = 500; // ms between requests
 const DATA_DIR = join(process.cwd(), 'public', 'data');
 const OUTPUT_PATH = join(DATA_DIR, 'all-templates-data.json');
+const SNAPSHOTS_PATH = join(DATA_DIR, 'history', 'template-snapshots.json');
 
 async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -117,7 +128,7 @@ async function sleep(ms: number): Promise<void> {
 async function fetchPage(page: number): Promise<{ workflows: Template[]; totalWorkflows: number }> {
   const url = `${API_BASE}/templates/search?rows=${PAGE_SIZE}&page=${page}&sort=createdAt:asc`;
 
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: { 'User-Agent': 'n8n-stats' },
   });
 
@@ -295,6 +306,29 @@ function calculateCreatorStats(templates: Template[]): AllTemplatesData['creator
   };
 }
 
+function toSnapshotTemplates(templates: Template[]): SnapshotTemplate[] {
+  return templates.map(template => ({
+    id: template.id,
+    name: template.name,
+    createdAt: template.createdAt || '',
+    creator: template.user?.username || '',
+    category: getTemplateCategory((template.nodes || []).map(node => node.codex?.data?.categories || [])),
+    nodes: (template.nodes || []).map(node => node.name),
+    views: template.totalViews || 0,
+  }));
+}
+
+function saveTemplateSnapshot(templates: Template[]): TemplateSnapshots {
+  const existing: TemplateSnapshots | null = existsSync(SNAPSHOTS_PATH)
+    ? JSON.parse(readFileSync(SNAPSHOTS_PATH, 'utf-8'))
+    : null;
+  const today = new Date().toISOString().split('T')[0];
+  const snapshots = appendTemplateSnapshot(existing, today, toSnapshotTemplates(templates));
+
+  writeFileSync(SNAPSHOTS_PATH, serializeTemplateSnapshots(snapshots));
+  return snapshots;
+}
+
 async function main() {
   const startTime = Date.now();
 
@@ -342,6 +376,9 @@ async function main() {
   // Save to file
   writeFileSync(OUTPUT_PATH, JSON.stringify(data, null, 2));
   console.log(`\nSaved to ${OUTPUT_PATH}`);
+
+  const snapshots = saveTemplateSnapshot(templates);
+  console.log(`Saved snapshot ${snapshots.dates.length} of ${templates.length.toLocaleString()} templates to ${SNAPSHOTS_PATH}`);
   console.log(`Completed in ${fetchDuration} seconds`);
 }
 
@@ -7,172 +7,14 @@
 import { chromium } from '@playwright/test';
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { findCity, findCountry, geocode, getCountryByCode } from '../src/lib/geo/geocode';
+import { writeGeocodingReport, type GeocodingLookup } from '../src/lib/geo/report';
+import { httpFetch } from '../src/lib/http/client';
 
 const NOTION_PAGE_URL = 'https://n8n.notion.site/9eefeb6356754725a1b2dd8ccecc4ffb';
 const AMBASSADORS_PATH = join(process.cwd(), 'public', 'data', 'history', 'ambassadors.json');
 const SNAPSHOTS_DIR = join(process.cwd(), 'public', 'data', 'snapshots');
 
-// City coordinates lookup (shared with events)
-const cityCoordinates: Record<string, { lat: number; lng: number }> = {
-  // US Cities
-  'San Francisco': { lat: 37.7749, lng: -122.4194 },
-  'Los Angeles': { lat: 34.0522, lng: -118.2437 },
-  'San Diego': { lat: 32.7157, lng: -117.1611 },
-  'New York': { lat: 40.7128, lng: -74.0060 },
-  'NYC': { lat: 40.7128, lng: -74.0060 },
-  'Chicago': { lat: 41.8781, lng: -87.6298 },
-  'Austin': { lat: 30.2672, lng: -97.7431 },
-  'Miami': { lat: 25.7617, lng: -80.1918 },
-  'Atlanta': { lat: 33.7490, lng: -84.3880 },
-  'Dallas': { lat: 32.7767, lng: -96.7970 },
-  'Seattle': { lat: 47.6062, lng: -122.3321 },
-  'Denver': { lat: 39.7392, lng: -104.9903 },
-  'Boston': { lat: 42.3601, lng: -71.0589 },
-  'Phoenix': { lat: 33.4484, lng: -112.0740 },
-  'Portland': { lat: 45.5152, lng: -122.6784 },
-  // Canada
-  'Toronto': { lat: 43.6532, lng: -79.3832 },
-  'Vancouver': { lat: 49.2827, lng: -123.1207 },
-  'Montreal': { lat: 45.5017, lng: -73.5673 },
-  // Europe
-  'Amsterdam': { lat: 52.3676, lng: 4.9041 },
-  'Berlin': { lat: 52.5200, lng: 13.4050 },
-  'London': { lat: 51.5074, lng: -0.1278 },
-  'Paris': { lat: 48.8566, lng: 2.3522 },
-  'Vienna': { lat: 48.2082, lng: 16.3738 },
-  'Barcelona': { lat: 41.3851, lng: 2.1734 },
-  'Madrid': { lat: 40.4168, lng: -3.7038 },
-  'Lisbon': { lat: 38.7223, lng: -9.1393 },
-  'Zürich': { lat: 47.3769, lng: 8.5417 },
-  'Zurich': { lat: 47.3769, lng: 8.5417 },
-  'Cologne': { lat: 50.9375, lng: 6.9603 },
-  'Frankfurt': { lat: 50.1109, lng: 8.6821 },
-  'Munich': { lat: 48.1351, lng: 11.5820 },
-  'Düsseldorf': { lat: 51.2277, lng: 6.7735 },
-  'Hamburg': { lat: 53.5511, lng: 9.9937 },
-  'Warsaw': { lat: 52.2297, lng: 21.0122 },
-  'Milan': { lat: 45.4642, lng: 9.1900 },
-  'Rome': { lat: 41.9028, lng: 12.4964 },
-  'Nantes': { lat: 47.2184, lng: -1.5536 },
-  'Lyon': { lat: 45.7640, lng: 4.8357 },
-  'Gent': { lat: 51.0543, lng: 3.7174 },
-  'Brussels': { lat: 50.8503, lng: 4.3517 },
-  'Budapest': { lat: 47.4979, lng: 19.0402 },
-  'Prague': { lat: 50.0755, lng: 14.4378 },
-  'København': { lat: 55.6761, lng: 12.5683 },
-  'Copenhagen': { lat: 55.6761, lng: 12.5683 },
-  'Stockholm': { lat: 59.3293, lng: 18.0686 },
-  'Oslo': { lat: 59.9139, lng: 10.7522 },
-  'Helsinki': { lat: 60.1699, lng: 24.9384 },
-  'Dublin': { lat: 53.3498, lng: -6.2603 },
-  'Istanbul': { lat: 41.0082, lng: 28.9784 },
-  'Athens': { lat: 37.9838, lng: 23.7275 },
-  'Kyiv': { lat: 50.4501, lng: 30.5234 },
-  'Bucharest': { lat: 44.4268, lng: 26.1025 },
-  'Sofia': { lat: 42.6977, lng: 23.3219 },
-  // Middle East
-  'Tel Aviv': { lat: 32.0853, lng: 34.7818 },
-  'Dubai': { lat: 25.2048, lng: 55.2708 },
-  'Abu Dhabi': { lat: 24.4539, lng: 54.3773 },
-  // Africa
-  'Nairobi': { lat: -1.2921, lng: 36.8219 },
-  'Accra': { lat: 5.6037, lng: -0.1870 },
-  'Lagos': { lat: 6.5244, lng: 3.3792 },
-  'Cape Town': { lat: -33.9249, lng: 18.4241 },
-  'Johannesburg': { lat: -26.2041, lng: 28.0473 },
-  'Cairo': { lat: 30.0444, lng: 31.2357 },
-  // Asia
-  'Seoul': { lat: 37.5665, lng: 126.9780 },
-  'Tokyo': { lat: 35.6762, lng: 139.6503 },
-  'Singapore': { lat: 1.3521, lng: 103.8198 },
-  'Hong Kong': { lat: 22.3193, lng: 114.1694 },
-  'Taipei': { lat: 25.0330, lng: 121.5654 },
-  'Bangkok': { lat: 13.7563, lng: 100.5018 },
-  'Mumbai': { lat: 19.0760, lng: 72.8777 },
-  'Bangalore': { lat: 12.9716, lng: 77.5946 },
-  'Delhi': { lat: 28.6139, lng: 77.2090 },
-  'Jakarta': { lat: -6.2088, lng: 106.8456 },
-  'Kuala Lumpur': { lat: 3.1390, lng: 101.6869 },
-  'Manila': { lat: 14.5995, lng: 120.9842 },
-  'Ho Chi Minh City': { lat: 10.8231, lng: 106.6297 },
-  'Beijing': { lat: 39.9042, lng: 116.4074 },
-  'Shanghai': { lat: 31.2304, lng: 121.4737 },
-  'Islamabad': { lat: 33.6844, lng: 73.0479 },
-  'Karachi': { lat: 24.8607, lng: 67.0011 },
-  // South America
-  'São Paulo': { lat: -23.5505, lng: -46.6333 },
-  'Sao Paulo': { lat: -23.5505, lng: -46.6333 },
-  'Rio de Janeiro': { lat: -22.9068, lng: -43.1729 },
-  'Buenos Aires': { lat: -34.6037, lng: -58.3816 },
-  'Santiago': { lat: -33.4489, lng: -70.6693 },
-  'Lima': { lat: -12.0464, lng: -77.0428 },
-  'Bogota': { lat: 4.7110, lng: -74.0721 },
-  'Mexico City': { lat: 19.4326, lng: -99.1332 },
-  // Australia/Oceania
-  'Sydney': { lat: -33.8688, lng: 151.2093 },
-  'Melbourne': { lat: -37.8136, lng: 144.9631 },
-  'Brisbane': { lat: -27.4698, lng: 153.0251 },
-  'Auckland': { lat: -36.8485, lng: 174.7633 },
-};
-
-// Country coordinates fallback
-const countryCoordinates: Record<string, { lat: number; lng: number }> = {
-  'Netherlands': { lat: 52.1326, lng: 5.2913 },
-  'Germany': { lat: 51.1657, lng: 10.4515 },
-  'United States': { lat: 37.0902, lng: -95.7129 },
-  'USA': { lat: 37.0902, lng: -95.7129 },
-  'France': { lat: 46.2276, lng: 2.2137 },
-  'Spain': { lat: 40.4637, lng: -3.7492 },
-  'Austria': { lat: 47.5162, lng: 14.5501 },
-  'Switzerland': { lat: 46.8182, lng: 8.2275 },
-  'United Kingdom': { lat: 55.3781, lng: -3.4360 },
-  'UK': { lat: 55.3781, lng: -3.4360 },
-  'Poland': { lat: 51.9194, lng: 19.1451 },
-  'Portugal': { lat: 39.3999, lng: -8.2245 },
-  'Italy': { lat: 41.8719, lng: 12.5674 },
-  'Belgium': { lat: 50.5039, lng: 4.4699 },
-  'Hungary': { lat: 47.1625, lng: 19.5033 },
-  'Czech Republic': { lat: 49.8175, lng: 15.4730 },
-  'Denmark': { lat: 56.2639, lng: 9.5018 },
-  'Sweden': { lat: 60.1282, lng: 18.6435 },
-  'Norway': { lat: 60.4720, lng: 8.4689 },
-  'Finland': { lat: 61.9241, lng: 25.7482 },
-  'Ireland': { lat: 53.1424, lng: -7.6921 },
-  'Turkey': { lat: 38.9637, lng: 35.2433 },
-  'Greece': { lat: 39.0742, lng: 21.8243 },
-  'Romania': { lat: 45.9432, lng: 24.9668 },
-  'Bulgaria': { lat: 42.7339, lng: 25.4858 },
-  'Ukraine': { lat: 48.3794, lng: 31.1656 },
-  'Israel': { lat: 31.0461, lng: 34.8516 },
-  'UAE': { lat: 23.4241, lng: 53.8478 },
-  'Kenya': { lat: -0.0236, lng: 37.9062 },
-  'Ghana': { lat: 7.9465, lng: -1.0232 },
-  'Nigeria': { lat: 9.0820, lng: 8.6753 },
-  'South Africa': { lat: -30.5595, lng: 22.9375 },
-  'Egypt': { lat: 26.8206, lng: 30.8025 },
-  'South Korea': { lat: 35.9078, lng: 127.7669 },
-  'Japan': { lat: 36.2048, lng: 138.2529 },
-  'Singapore': { lat: 1.3521, lng: 103.8198 },
-  'Taiwan': { lat: 23.6978, lng: 120.9605 },
-  'Thailand': { lat: 15.8700, lng: 100.9925 },
-  'India': { lat: 20.5937, lng: 78.9629 },
-  'Indonesia': { lat: -0.7893, lng: 113.9213 },
-  'Malaysia': { lat: 4.2105, lng: 101.9758 },
-  'Philippines': { lat: 12.8797, lng: 121.7740 },
-  'Vietnam': { lat: 14.0583, lng: 108.2772 },
-  'China': { lat: 35.8617, lng: 104.1954 },
-  'Pakistan': { lat: 30.3753, lng: 69.3451 },
-  'Brazil': { lat: -14.2350, lng: -51.9253 },
-  'Argentina': { lat: -38.4161, lng: -63.6167 },
-  'Chile': { lat: -35.6751, lng: -71.5430 },
-  'Peru': { lat: -9.1900, lng: -75.0152 },
-  'Colombia': { lat: 4.5709, lng: -74.2973 },
-  'Mexico': { lat: 23.6345, lng: -102.5528 },
-  'Australia': { lat: -25.2744, lng: 133.7751 },
-  'New Zealand': { lat: -40.9006, lng: 174.8860 },
-  'Canada': { lat: 56.1304, lng: -106.3468 },
-};
-
 interface Ambassador {
   id: string;
   name: string;
@@ -224,41 +66,17 @@ interface AmbassadorData {
   }>;
 }
 
+// Locations geocoded this run, for the geocoding report
+const geocodingLookups: GeocodingLookup[] = [];
+
 /**
- * Get coordinates for a city/country combination
+ * Get coordinates for a city/country combination (see src/lib/geo/)
  */
 function getCoordinates(city?: string, country?: string): { lat: number; lng: number } | undefined {
-  // Try city first
-  if (city) {
-    const cityNormalized = city.trim();
-    if (cityCoordinates[cityNormalized]) {
-      return cityCoordinates[cityNormalized];
-    }
-    // Try partial match
-    for (const [name, coords] of Object.entries(cityCoordinates)) {
-      if (cityNormalized.toLowerCase().includes(name.toLowerCase()) ||
-          name.toLowerCase().includes(cityNormalized.toLowerCase())) {
-        return coords;
-      }
-    }
-  }
-
-  // Fall back to country
-  if (country) {
-    const countryNormalized = country.trim();
-    if (countryCoordinates[countryNormalized]) {
-      return countryCoordinates[countryNormalized];
-    }
-    // Try partial match
-    for (const [name, coords] of Object.entries(countryCoordinates)) {
-      if (countryNormalized.toLowerCase().includes(name.toLowerCase()) ||
-          name.toLowerCase().includes(countryNormalized.toLowerCase())) {
-        return coords;
-      }
-    }
-  }
-
-  return undefined;
+  const query = { city, country };
+  const result = geocode(query);
+  geocodingLookups.push({ query, result });
+  return result ? { lat: result.lat, lng: result.lng } : undefined;
 }
 
 /**
@@ -433,9 +251,11 @@ function aggregateByCountry(ambassadors: Ambassador[]): AmbassadorData['byCountr
     if (!ambassador.country) continue;
 
     const existing = countryMap.get(ambassador.country) || { count: 0 };
+    const country = findCountry(ambassador.country);
     countryMap.set(ambassador.country, {
       count: existing.count + 1,
-      coordinates: existing.coordinates || ambassador.coordinates || getCoordinates(undefined, ambassador.country),
+      // Country centroid; the first ambassador's city if the country is unknown
+      coordinates: country ? { lat: country.lat, lng: country.lng } : existing.coordinates || ambassador.coordinates,
     });
   }
 
@@ -569,75 +389,6 @@ async function extractAmbassadorLinks(page: any): Promise<Array<{ name: string;
   });
 }
 
-// City to country mapping for common ambassador locations
-const cityToCountry: Record<string, string> = {
-  // Europe
-  'Amsterdam': 'Netherlands', 'Rotterdam': 'Netherlands', 'Utrecht': 'Netherlands', 'Eindhoven': 'Netherlands', 'Groenlo': 'Netherlands',
-  'Berlin': 'Germany', 'Munich': 'Germany', 'Hamburg': 'Germany', 'Frankfurt': 'Germany', 'Cologne': 'Germany', 'Dresden': 'Germany', 'Düsseldorf': 'Germany',
-  'London': 'United Kingdom', 'Manchester': 'United Kingdom', 'Birmingham': 'United Kingdom', 'Edinburgh': 'Scotland', 'Glasgow': 'Scotland',
-  'Paris': 'France', 'Lyon': 'France', 'Nantes': 'France', 'Marseille': 'France', 'Toulouse': 'France', 'Lille': 'France',
-  'Madrid': 'Spain', 'Barcelona': 'Spain', 'Valencia': 'Spain', 'Seville': 'Spain',
-  'Rome': 'Italy', 'Milan': 'Italy', 'Naples': 'Italy', 'Turin': 'Italy', 'Florence': 'Italy',
-  'Vienna': 'Austria', 'Graz': 'Austria', 'Salzburg': 'Austria',
-  'Zürich': 'Switzerland', 'Zurich': 'Switzerland', 'Geneva': 'Switzerland', 'Bern': 'Switzerland', 'Lausanne': 'Switzerland', 'Basel': 'Switzerland',
-  'Brussels': 'Belgium', 'Antwerp': 'Belgium', 'Ghent': 'Belgium', 'Gent': 'Belgium', 'Wallonia': 'Belgium',
-  'Copenhagen': 'Denmark', 'København': 'Denmark', 'Aarhus': 'Denmark',
-  'Stockholm': 'Sweden', 'Gothenburg': 'Sweden', 'Malmö': 'Sweden',
-  'Oslo': 'Norway', 'Bergen': 'Norway',
-  'Helsinki': 'Finland', 'Espoo': 'Finland',
-  'Dublin': 'Ireland', 'Cork': 'Ireland',
-  'Warsaw': 'Poland', 'Krakow': 'Poland', 'Kraków': 'Poland', 'Poznan': 'Poland',
-  'Prague': 'Czech Republic', 'Brno': 'Czech Republic',
-  'Budapest': 'Hungary',
-  'Bucharest': 'Romania', 'Cluj': 'Romania',
-  'Sofia': 'Bulgaria',
-  'Athens': 'Greece', 'Thessaloniki': 'Greece',
-  'Lisbon': 'Portugal', 'Porto': 'Portugal',
-  'Istanbul': 'Turkey', 'Ankara': 'Turkey', 'Izmir': 'Turkey',
-  'Kyiv': 'Ukraine', 'Lviv': 'Ukraine',
-  // Middle East
-  'Tel Aviv': 'Israel', 'Jerusalem': 'Israel', 'Haifa': 'Israel',
-  'Dubai': 'UAE', 'Abu Dhabi': 'UAE',
-  'Doha': 'Qatar',
-  'Riyadh': 'Saudi Arabia',
-  // Africa
-  'Nairobi': 'Kenya', 'Mombasa': 'Kenya',
-  'Accra': 'Ghana',
-  'Lagos': 'Nigeria', 'Abuja': 'Nigeria',
-  'Cairo': 'Egypt', 'Alexandria': 'Egypt',
-  'Cape Town': 'South Africa', 'Johannesburg': 'South Africa', 'Pretoria': 'South Africa',
-  'Casablanca': 'Morocco', 'Marrakech': 'Morocco',
-  // Asia
-  'Tokyo': 'Japan', 'Osaka': 'Japan', 'Kyoto': 'Japan', 'Nagoya': 'Japan',
-  'Seoul': 'South Korea', 'Busan': 'South Korea',
-  'Singapore': 'Singapore',
-  'Hong Kong': 'Hong Kong',
-  'Taipei': 'Taiwan', 'Kaohsiung': 'Taiwan',
-  'Bangkok': 'Thailand', 'Chiang Mai': 'Thailand',
-  'Kuala Lumpur': 'Malaysia', 'Penang': 'Malaysia',
-  'Jakarta': 'Indonesia', 'Bali': 'Indonesia',
-  'Manila': 'Philippines', 'Cebu': 'Philippines',
-  'Ho Chi Minh City': 'Vietnam', 'Hanoi': 'Vietnam',
-  'Mumbai': 'India', 'Bangalore': 'India', 'Bengaluru': 'India', 'Delhi': 'India', 'Hyderabad': 'India', 'Chennai': 'India', 'Pune': 'India',
-  'Shanghai': 'China', 'Beijing': 'China', 'Shenzhen': 'China', 'Guangzhou': 'China',
-  'Islamabad': 'Pakistan', 'Karachi': 'Pakistan', 'Lahore': 'Pakistan',
-  // Americas
-  'New York': 'United States', 'NYC': 'United States', 'Los Angeles': 'United States', 'San Francisco': 'United States',
-  'Chicago': 'United States', 'Houston': 'United States', 'Dallas': 'United States', 'Austin': 'United States',
-  'Miami': 'United States', 'Atlanta': 'United States', 'Seattle': 'United States', 'Denver': 'United States',
-  'Boston': 'United States', 'Phoenix': 'United States', 'Portland': 'United States', 'San Diego': 'United States',
-  'Toronto': 'Canada', 'Vancouver': 'Canada', 'Montreal': 'Canada', 'Calgary': 'Canada', 'Ottawa': 'Canada',
-  'Mexico City': 'Mexico', 'Guadalajara': 'Mexico', 'Monterrey': 'Mexico',
-  'São Paulo': 'Brazil', 'Sao Paulo': 'Brazil', 'Rio de Janeiro': 'Brazil', 'Brasilia': 'Brazil',
-  'Buenos Aires': 'Argentina', 'Córdoba': 'Argentina',
-  'Santiago': 'Chile',
-  'Lima': 'Peru',
-  'Bogota': 'Colombia', 'Bogotá': 'Colombia', 'Medellín': 'Colombia',
-  // Oceania
-  'Sydney': 'Australia', 'Melbourne': 'Australia', 'Brisbane': 'Australia', 'Perth': 'Australia',
-  'Auckland': 'New Zealand', 'Wellington': 'New Zealand',
-};
-
 /**
  * Extract detailed ambassador info from their detail page
  */
@@ -736,9 +487,9 @@ async function extractAmbassadorDetails(
       details.city = city;
 
       // Look up country from city
-      const country = cityToCountry[city];
-      if (country) {
-        details.country = country;
+      const match = findCity(city);
+      if (match) {
+        details.country = getCountryByCode(match.country)?.name;
       }
     }
 
@@ -772,7 +523,7 @@ async function fetchCommunityAvatar(communityProfileUrl: string): Promise<string
     // Discourse API endpoint for user info
     const apiUrl = `https://community.n8n.io/u/${username}.json`;
 
-    const response = await fetch(apiUrl, {
+    const response = await httpFetch(apiUrl, {
       headers: { 'Accept': 'application/json' },
     });
 
@@ -1131,6 +882,7 @@ async function main() {
   // Save data
   writeFileSync(AMBASSADORS_PATH, JSON.stringify(ambassadorData, null, 2));
   console.log(`\nSaved ambassador data to ${AMBASSADORS_PATH}`);
+  writeGeocodingReport('ambassadors', geocodingLookups);
 
   // Summary
   console.log('\n--- Summary ---');
@@ -7,16 +7,28 @@
  * Data flow:
  * 1. Search npm for packages with n8n-community-node-package keyword
  * 2. Batch fetch download counts (128 packages per request)
- * 3. Store in public/data/community-nodes.json
+ * 3. Read the registry document of the same packages for health checks
+ *    (release cadence, deprecation, declared nodes, n8n-workflow range;
+ *    see src/lib/community-nodes/health.ts) and their README headline
+ * 4. Categorize every package with the classifier trained on the built-in
+ *    nodes (src/lib/community-nodes/classifier.ts); categories pinned in
+ *    public/data/external/community-category-overrides.json win
+ * 5. Store in public/data/community-nodes.json
  *
  * Run weekly: npx tsx scripts/fetch-community-nodes.ts
  */
 
-import { writeFileSync, existsSync, mkdirSync } from 'fs';
+import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { categorizePackages, readmeHeadline } from '../src/lib/community-nodes/classifier';
+import { assessPackageHealth, summarizeHealth, type HealthStatus, type Packument, type PackageHealth } from '../src/lib/community-nodes/health';
+import { aggregateMaintainers } from '../src/lib/community-nodes/maintainers';
+import { httpFetch } from '../src/lib/http/client';
+import { KNOWN_NODES } from '../src/lib/nodes/knownNodes';
 
 const NPM_SEARCH_API = 'https://registry.npmjs.org/-/v1/search';
 const NPM_DOWNLOADS_API = 'https://api.npmjs.org/downloads/point';
+const NPM_REGISTRY = 'https://registry.npmjs.org';
 const SEARCH_KEYWORD = 'n8n-community-node-package';
 const PAGE_SIZE = 250; // Max allowed by npm
 const DOWNLOAD_BATCH_SIZE = 50; // Smaller batches to avoid rate limits
@@ -26,25 +38,17 @@ const RETRY_DELAY = 5000; // ms to wait before retry after rate limit
 
 const DATA_DIR = join(process.cwd(), 'public', 'data');
 const OUTPUT_PATH = join(DATA_DIR, 'community-nodes.json');
+const OVERRIDES_PATH = join(DATA_DIR, 'external', 'community-category-overrides.json');
 
-// Category inference keywords
-const CATEGORY_KEYWORDS: Record<string, string[]> = {
-  'AI': ['ai', 'llm', 'openai', 'gpt', 'anthropic', 'langchain', 'machine-learning', 'ml', 'chatgpt', 'ollama', 'embedding', 'vector'],
-  'Database': ['database', 'sql', 'postgres', 'mysql', 'mongodb', 'redis', 'sqlite', 'supabase', 'firebase', 'dynamodb', 'fauna', 'prisma'],
-  'Communication': ['email', 'slack', 'telegram', 'whatsapp', 'sms', 'twilio', 'discord', 'teams', 'chat', 'messaging', 'notification'],
-  'Cloud': ['aws', 'azure', 'gcp', 's3', 'lambda', 'cloudflare', 'digitalocean', 'vercel', 'netlify', 'heroku'],
-  'DevTools': ['github', 'gitlab', 'bitbucket', 'docker', 'kubernetes', 'jenkins', 'ci', 'cd', 'git', 'jira', 'sentry'],
-  'CRM': ['crm', 'hubspot', 'salesforce', 'pipedrive', 'zoho', 'freshdesk', 'zendesk', 'customer'],
-  'E-Commerce': ['shopify', 'woocommerce', 'stripe', 'paypal', 'payment', 'ecommerce', 'store', 'order', 'magento'],
-  'Social Media': ['twitter', 'facebook', 'instagram', 'linkedin', 'tiktok', 'youtube', 'social', 'meta', 'bluesky'],
-  'Productivity': ['notion', 'airtable', 'trello', 'asana', 'clickup', 'monday', 'todoist', 'calendar', 'sheets'],
-  'Automation': ['webhook', 'http', 'api', 'automation', 'workflow', 'integration', 'trigger', 'schedule'],
-  'Files': ['file', 'pdf', 'excel', 'csv', 'document', 'storage', 'drive', 'dropbox', 'box', 'onedrive'],
-  'Finance': ['finance', 'accounting', 'invoice', 'quickbooks', 'xero', 'bank', 'crypto', 'bitcoin', 'ethereum'],
-  'Marketing': ['mailchimp', 'sendgrid', 'marketing', 'campaign', 'newsletter', 'analytics', 'seo', 'ads'],
-  'IoT': ['iot', 'mqtt', 'home-assistant', 'smart-home', 'sensor', 'device', 'raspberry', 'arduino'],
-  'Security': ['auth', 'oauth', 'security', 'password', 'encryption', 'vault', 'keycloak', 'ldap'],
-};
+// Load pinned categories (package name -> category)
+let categoryOverrides: Record<string, string> = {};
+try {
+  if (existsSync(OVERRIDES_PATH)) {
+    categoryOverrides = JSON.parse(readFileSync(OVERRIDES_PATH, 'utf-8')).overrides || {};
+  }
+} catch (e) {
+  console.warn('Could not load category overrides file:', e);
+}
 
 interface NpmPackage {
   name: string;
@@ -57,7 +61,12 @@ interface NpmPackage {
   lastUpdated: string;
   repository?: string;
   category: string;
+  /** Classifier posterior for the category (0-1); 1 when pinned */
+  categoryConfidence: number;
+  categoryPinned?: boolean;
   keywords: string[];
+  /** Only for the packages whose downloads are fetched */
+  health?: PackageHealth;
 }
 
 interface CommunityNodesData {
@@ -67,6 +76,9 @@ interface CommunityNodesData {
   totalDownloadsWeekly: number;
   totalDownloadsMonthly: number;
   byCategory: Record<string, number>;
+  /** Latest n8n-workflow release the peer ranges were checked against */
+  n8nWorkflowVersion: string | null;
+  healthSummary: Record<HealthStatus, number>;
   packages: NpmPackage[];
 }
 
@@ -116,23 +128,9 @@ async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-function inferCategory(name: string, description: string, keywords: string[]): string {
-  const text = `${name} ${description} ${keywords.join(' ')}`.toLowerCase();
-
-  for (const [category, categoryKeywords] of Object.entries(CATEGORY_KEYWORDS)) {
-    for (const keyword of categoryKeywords) {
-      if (text.includes(keyword)) {
-        return category;
-      }
-    }
-  }
-
-  return 'Other';
-}
-
 async function fetchWithRetry(url: string, retries = MAX_RETRIES): Promise<Response> {
   for (let attempt = 0; attempt <= retries; attempt++) {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       headers: { 'User-Agent': 'n8n-stats' },
     });
 
@@ -215,7 +213,7 @@ async function fetchDownloadsIndividual(packageNames: string[], period: 'last-we
     const url = `${NPM_DOWNLOADS_API}/${period}/${encodeURIComponent(name)}`;
 
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: { 'User-Agent': 'n8n-stats' },
       });
 
@@ -241,6 +239,62 @@ async function fetchDownloadsIndividual(packageNames: string[], period: 'last-we
   return downloads;
 }
 
+/**
+ * Latest n8n-workflow version, for the peer dependency check
+ */
+async function fetchCurrentN8nWorkflowVersion(): Promise<string | null> {
+  try {
+    const response = await fetchWithRetry(`${NPM_REGISTRY}/n8n-workflow/latest`);
+    const data = await response.json();
+    return typeof data.version === 'string' ? data.version : null;
+  } catch (error) {
+    console.warn('Could not fetch the current n8n-workflow version, compatibility is unspecified:', error);
+    return null;
+  }
+}
+
+/**
+ * Health and README headline of each package, from its registry document
+ */
+async function fetchPackageHealth(
+  packageNames: string[],
+  weeklyDownloads: Map<string, number>,
+  currentN8nWorkflow: string | null
+): Promise<{ health: Map<string, PackageHealth>; readmeHeadlines: Map<string, string> }> {
+  const health = new Map<string, PackageHealth>();
+  const readmeHeadlines = new Map<string, string>();
+
+  for (let i = 0; i < packageNames.length; i++) {
+    const name = packageNames[i];
+    // Scoped names keep their '@' but escape the slash
+    const url = `${NPM_REGISTRY}/${name.replace('/', '%2F')}`;
+
+    try {
+      const response = await fetchWithRetry(url);
+      const packument: Packument & { readme?: string } = await response.json();
+      const result = assessPackageHealth(packument, weeklyDownloads.get(name) || 0, currentN8nWorkflow);
+      if (result) {
+        health.set(name, result);
+      }
+      const headline = readmeHeadline(packument.readme);
+      if (headline) {
+        readmeHeadlines.set(name, headline);
+      }
+    } catch {
+      // Ignore individual package failures
+    }
+
+    if ((i + 1) % 50 === 0 || i === packageNames.length - 1) {
+      process.stdout.write(`\rChecking package health: ${i + 1}/${packageNames.length}`);
+    }
+
+    await sleep(100);
+  }
+
+  console.log('');
+  return { health, readmeHeadlines };
+}
+
 async function main() {
   const startTime = Date.now();
 
@@ -274,12 +328,31 @@ async function main() {
   const weeklyDownloads = await fetchDownloadsIndividual(topPackageNames, 'last-week');
   const monthlyDownloads = await fetchDownloadsIndividual(topPackageNames, 'last-month');
 
+  // Health checks for the same packages
+  const n8nWorkflowVersion = await fetchCurrentN8nWorkflowVersion();
+  console.log(`Checking package health against n8n-workflow ${n8nWorkflowVersion ?? '(unknown)'}...`);
+  const { health: packageHealth, readmeHeadlines } = await fetchPackageHealth(topPackageNames, weeklyDownloads, n8nWorkflowVersion);
+
+  // Categorize from name, description, keywords and README headline
+  console.log(`Categorizing packages (${Object.keys(categoryOverrides).length} pinned)...`);
+  const categories = categorizePackages(
+    searchResults.map(({ package: pkg }) => ({
+      name: pkg.name,
+      description: pkg.description,
+      keywords: pkg.keywords,
+      readmeHeadline: readmeHeadlines.get(pkg.name),
+    })),
+    KNOWN_NODES,
+    categoryOverrides
+  );
+
   // Build package data
   const packages: NpmPackage[] = searchResults.map(result => {
     const pkg = result.package;
     const name = pkg.name;
     const description = pkg.description || '';
     const keywords = pkg.keywords || [];
+    const category = categories.get(name)!;
 
     return {
       name,
@@ -291,8 +364,11 @@ async function main() {
       score: Math.round(result.score.final * 100) / 100,
       lastUpdated: pkg.date.split('T')[0],
       repository: pkg.links?.repository,
-      category: inferCategory(name, description, keywords),
+      category: category.category,
+      categoryConfidence: category.confidence,
+      ...(category.source === 'override' ? { categoryPinned: true } : {}),
       keywords: keywords.slice(0, 10), // Limit keywords
+      health: packageHealth.get(name),
     };
   });
 
@@ -319,6 +395,8 @@ async function main() {
     totalDownloadsWeekly,
     totalDownloadsMonthly,
     byCategory,
+    n8nWorkflowVersion,
+    healthSummary: summarizeHealth(packages),
     packages,
   };
 
@@ -338,6 +416,26 @@ async function main() {
     console.log(`  ${category}: ${count}`);
   }
 
+  console.log('\nLeast certain categories among the top 50 (pin in external/community-category-overrides.json):');
+  const uncertain = packages
+    .slice(0, 50)
+    .filter(pkg => !pkg.categoryPinned)
+    .sort((a, b) => a.categoryConfidence - b.categoryConfidence)
+    .slice(0, 10);
+  for (const pkg of uncertain) {
+    console.log(`  ${pkg.name}: ${pkg.category} (${pkg.categoryConfidence})`);
+  }
+
+  console.log(`\nHealth (${packageHealth.size} packages checked):`);
+  for (const [status, count] of Object.entries(data.healthSummary)) {
+    console.log(`  ${status}: ${count}`);
+  }
+
+  console.log('\nTop 5 maintainers by weekly downloads:');
+  for (const maintainer of aggregateMaintainers(packages).slice(0, 5)) {
+    console.log(`  ${maintainer.username}: ${maintainer.packageCount} packages, ${maintainer.downloadsWeekly.toLocaleString()} downloads/week`);
+  }
+
   console.log('\nTop 10 packages by weekly downloads:');
   for (const pkg of packages.slice(0, 10)) {
     console.log(`  ${pkg.name}: ${pkg.downloadsWeekly.toLocaleString()} downloads/week`);
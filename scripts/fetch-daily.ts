@@ -6,6 +6,7 @@
 
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 const SNAPSHOTS_DIR = join(process.cwd(), 'public', 'data', 'snapshots');
 
@@ -87,7 +88,7 @@ async function fetchGitHub(): Promise<GitHubSnapshot> {
     headers['Authorization'] = `token ${process.env.GITHUB_TOKEN}`;
   }
 
-  const response = await fetch(APIS.github, { headers });
+  const response = await httpFetch(APIS.github, { headers });
 
   if (!response.ok) {
     throw new Error(`GitHub API error: ${response.status}`);
@@ -107,7 +108,7 @@ async function fetchGitHub(): Promise<GitHubSnapshot> {
 async function fetchDiscourse(): Promise<DiscourseSnapshot> {
   console.log('Fetching Discourse stats...');
 
-  const response = await fetch(APIS.discourse, {
+  const response = await httpFetch(APIS.discourse, {
     headers: { 'User-Agent': 'n8n-stats' },
   });
 
@@ -131,7 +132,7 @@ async function fetchDiscourse(): Promise<DiscourseSnapshot> {
 async function fetchNpm(): Promise<NpmSnapshot> {
   console.log('Fetching npm stats...');
 
-  const response = await fetch(APIS.npm, {
+  const response = await httpFetch(APIS.npm, {
     headers: { 'User-Agent': 'n8n-stats' },
   });
 
@@ -150,7 +151,7 @@ async function fetchNpm(): Promise<NpmSnapshot> {
 async function fetchTemplates(): Promise<TemplatesSnapshot> {
   console.log('Fetching template stats...');
 
-  const response = await fetch(APIS.templates, {
+  const response = await httpFetch(APIS.templates, {
     headers: { 'User-Agent': 'n8n-stats' },
   });
 
@@ -183,7 +184,7 @@ async function fetchTemplates(): Promise<TemplatesSnapshot> {
 async function fetchCreators(): Promise<CreatorsSnapshot> {
   console.log('Fetching creators stats (n8n Arena)...');
 
-  const response = await fetch(APIS.creators, {
+  const response = await httpFetch(APIS.creators, {
     headers: { 'User-Agent': 'n8n-pulse' },
   });
 
@@ -6,11 +6,15 @@
 
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { findCountry, geocode } from '../src/lib/geo/geocode';
+import { writeGeocodingReport, type GeocodingLookup } from '../src/lib/geo/report';
+import { DATA_DIR, HISTORY_DIR } from '../src/lib/history/store';
+import { httpFetch } from '../src/lib/http/client';
 
 const LUMA_CALENDAR_API_ID = 'cal-rKZGvZjZWgFjKWW'; // n8n-events calendar
 const LUMA_API_BASE = 'https://api.lu.ma/calendar/get-items';
-const EVENTS_PATH = join(process.cwd(), 'public', 'data', 'history', 'events.json');
-const LUMA_MAPPING_PATH = join(process.cwd(), 'public', 'data', 'external', 'luma-n8n-mapping.json');
+const EVENTS_PATH = join(HISTORY_DIR, 'events.json');
+const LUMA_MAPPING_PATH = join(DATA_DIR, 'external', 'luma-n8n-mapping.json');
 
 // Load Luma to n8n username mapping
 let lumaN8nMapping: Record<string, string> = {};
@@ -86,6 +90,9 @@ const AMBIGUOUS_LOCATION_TYPES = [
 // Track unknown location types encountered during fetch (for logging)
 const encounteredLocationTypes = new Set<string>();
 
+// Locations geocoded this run, for the geocoding report
+const geocodingLookups: GeocodingLookup[] = [];
+
 /**
  * Detect if an event is online based on name, location, or API location_type
  *
@@ -288,6 +295,14 @@ function parseEventFromApi(entry: LumaApiEntry): LumaEvent {
       lat: event.coordinate.latitude,
       lng: event.coordinate.longitude,
     };
+  } else if (!isOnline) {
+    // Luma hides the coordinates of some events; place them by city instead
+    const query = { city, country };
+    const result = geocode(query);
+    geocodingLookups.push({ query, result });
+    if (result) {
+      coordinates = { lat: result.lat, lng: result.lng };
+    }
   }
 
   // Extract hosts (skip official n8n account)
@@ -350,7 +365,7 @@ async function fetchLumaEvents(period: 'upcoming' | 'past'): Promise<LumaEvent[]
 
     const url = `${LUMA_API_BASE}?${params}`;
 
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       headers: {
         'User-Agent': 'n8n-stats/1.0 (https://github.com/gxjansen/n8n-stats)',
         'Accept': 'application/json',
@@ -438,6 +453,14 @@ function groupByMonth(events: LumaEvent[]): EventsData['byMonth'] {
     .sort((a, b) => a.month.localeCompare(b.month));
 }
 
+/**
+ * Centroid of a country, for its marker in byCountry
+ */
+function countryCoordinates(country: string): { lat: number; lng: number } | undefined {
+  const match = findCountry(country);
+  return match ? { lat: match.lat, lng: match.lng } : undefined;
+}
+
 /**
  * Group events by country
  */
@@ -454,13 +477,14 @@ function groupByCountry(events: LumaEvent[]): EventsData['byCountry'] {
       country,
       count: 0,
       registrations: 0,
-      coordinates: event.location.coordinates,
+      coordinates: countryCoordinates(country),
     };
 
     byCountry.set(country, {
       ...existing,
       count: existing.count + 1,
       registrations: existing.registrations + event.registrations,
+      // The first event's location if the country isn't in the gazetteer
       coordinates: existing.coordinates || event.location.coordinates,
     });
   }
@@ -562,9 +586,8 @@ async function main() {
   console.log('Fetching n8n community events from Luma API...\n');
 
   // Ensure directory exists
-  const historyDir = join(process.cwd(), 'public', 'data', 'history');
-  if (!existsSync(historyDir)) {
-    mkdirSync(historyDir, { recursive: true });
+  if (!existsSync(HISTORY_DIR)) {
+    mkdirSync(HISTORY_DIR, { recursive: true });
   }
 
   // Fetch events with pagination
@@ -622,6 +645,7 @@ async function main() {
   // Save data
   writeFileSync(EVENTS_PATH, JSON.stringify(eventsData, null, 2));
   console.log(`\nSaved events data to ${EVENTS_PATH}`);
+  writeGeocodingReport('events', geocodingLookups);
 
   // Summary
   console.log('\n--- Summary ---');
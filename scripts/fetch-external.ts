@@ -5,6 +5,8 @@
 
 import { writeFileSync, mkdirSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
+import { TIMELINE_CREATOR_LIMIT, type CreatorTemplate, type CreatorTemplatesFile } from '../src/lib/creators/profile';
 
 const DATA_DIR = join(process.cwd(), 'public', 'data', 'external');
 
@@ -125,7 +127,7 @@ interface WeightedNodesData {
 async function fetchN8nArenaCreators(): Promise<N8nArenaCreator[]> {
   console.log('Fetching n8n Arena creators data...');
 
-  const response = await fetch(N8N_ARENA_CREATORS_URL);
+  const response = await httpFetch(N8N_ARENA_CREATORS_URL);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch n8n Arena data: ${response.status}`);
@@ -143,7 +145,7 @@ async function fetchN8nArenaCreators(): Promise<N8nArenaCreator[]> {
  */
 async function fetchN8nTemplateCount(username: string): Promise<number | null> {
   try {
-    const response = await fetch(`${N8N_IO_CREATORS_API}/${username}`, {
+    const response = await httpFetch(`${N8N_IO_CREATORS_API}/${username}`, {
       headers: { 'User-Agent': 'n8n-pulse' },
     });
     if (response.ok) {
@@ -218,7 +220,7 @@ async function processCreators(rawCreators: N8nArenaCreator[]): Promise<Processe
 async function fetchN8nArenaWorkflows(): Promise<N8nArenaWorkflow[]> {
   console.log('Fetching n8n Arena workflows data...');
 
-  const response = await fetch(N8N_ARENA_WORKFLOWS_URL);
+  const response = await httpFetch(N8N_ARENA_WORKFLOWS_URL);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch n8n Arena workflows: ${response.status}`);
@@ -291,6 +293,31 @@ function calculateWeightedNodeScores(workflows: N8nArenaWorkflow[]): WeightedNod
   };
 }
 
+function collectCreatorTemplates(workflows: N8nArenaWorkflow[], usernames: string[]): CreatorTemplatesFile {
+  const wanted = new Set(usernames);
+  const creators: Record<string, CreatorTemplate[]> = {};
+
+  for (const workflow of workflows) {
+    const username = workflow.user?.username;
+    if (!username || !wanted.has(username)) continue;
+
+    (creators[username] ??= []).push({
+      id: workflow.template_id,
+      name: workflow.template_name,
+      createdAt: workflow.wf_detais?.createdAt || '',
+      views: workflow.unique_visitors || 0,
+      inserters: workflow.unique_inserters || 0,
+      nodes: Object.keys(workflow.wf_detais?.workflowInfo?.nodeTypes ?? {}),
+    });
+  }
+
+  for (const templates of Object.values(creators)) {
+    templates.sort((a, b) => b.inserters - a.inserters);
+  }
+
+  return { lastUpdated: new Date().toISOString(), creators };
+}
+
 async function main() {
   // Ensure directory exists
   if (!existsSync(DATA_DIR)) {
@@ -316,6 +343,15 @@ async function main() {
     writeFileSync(weightedNodesPath, JSON.stringify(weightedNodes, null, 2));
     console.log(`Saved ${weightedNodes.nodes.length} weighted node scores to ${weightedNodesPath}`);
 
+    // Templates of the leaderboard creators (for creator pages)
+    const creatorTemplates = collectCreatorTemplates(
+      workflows,
+      creators.slice(0, TIMELINE_CREATOR_LIMIT).map(c => c.username)
+    );
+    const creatorTemplatesPath = join(DATA_DIR, 'n8narena-creator-templates.json');
+    writeFileSync(creatorTemplatesPath, JSON.stringify(creatorTemplates, null, 2));
+    console.log(`Saved templates of ${Object.keys(creatorTemplates.creators).length} creators to ${creatorTemplatesPath}`);
+
     // === METADATA ===
     const meta: ExternalDataMeta = {
       fetchedAt: new Date().toISOString(),
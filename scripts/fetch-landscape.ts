@@ -8,6 +8,7 @@
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 const LANDSCAPE_FILE = join(process.cwd(), 'public', 'data', 'history', 'landscape.json');
 
@@ -91,7 +92,7 @@ function getGitHubHeaders(): Record<string, string> {
 }
 
 async function fetchGitHubStars(repo: string): Promise<number> {
-  const response = await fetch(`https://api.github.com/repos/${repo}`, {
+  const response = await httpFetch(`https://api.github.com/repos/${repo}`, {
     headers: getGitHubHeaders(),
   });
   if (!response.ok) throw new Error(`GitHub API error: ${response.status}`);
@@ -101,7 +102,7 @@ async function fetchGitHubStars(repo: string): Promise<number> {
 
 async function fetchGitHubCommitActivity(repo: string): Promise<{ weeklyCommits: number; totalLast90Days: number }> {
   // Get commit activity for the last year (weekly breakdown)
-  const response = await fetch(`https://api.github.com/repos/${repo}/stats/commit_activity`, {
+  const response = await httpFetch(`https://api.github.com/repos/${repo}/stats/commit_activity`, {
     headers: getGitHubHeaders(),
   });
   if (!response.ok) throw new Error(`GitHub commit activity error: ${response.status}`);
@@ -122,7 +123,7 @@ async function fetchGitHubCommitActivity(repo: string): Promise<{ weeklyCommits:
 }
 
 async function fetchGitHubReleases(repo: string): Promise<{ releasesLast90Days: number; latestRelease: string | null }> {
-  const response = await fetch(`https://api.github.com/repos/${repo}/releases?per_page=50`, {
+  const response = await httpFetch(`https://api.github.com/repos/${repo}/releases?per_page=50`, {
     headers: getGitHubHeaders(),
   });
   if (!response.ok) throw new Error(`GitHub releases error: ${response.status}`);
@@ -147,7 +148,7 @@ async function fetchGitHubReleases(repo: string): Promise<{ releasesLast90Days:
 
 // npm API
 async function fetchNpmDownloads(packageName: string): Promise<number> {
-  const response = await fetch(`https://api.npmjs.org/downloads/point/last-week/${packageName}`, {
+  const response = await httpFetch(`https://api.npmjs.org/downloads/point/last-week/${packageName}`, {
     headers: { 'User-Agent': 'n8n-stats-landscape' },
   });
   if (!response.ok) throw new Error(`npm API error: ${response.status}`);
@@ -159,7 +160,7 @@ async function fetchNpmDownloads(packageName: string): Promise<number> {
 async function fetchDockerPulls(image: string): Promise<number> {
   // Docker Hub format: namespace/repo
   const [namespace, repo] = image.split('/');
-  const response = await fetch(`https://hub.docker.com/v2/repositories/${namespace}/${repo}/`, {
+  const response = await httpFetch(`https://hub.docker.com/v2/repositories/${namespace}/${repo}/`, {
     headers: { 'User-Agent': 'n8n-stats-landscape' },
   });
   if (!response.ok) throw new Error(`Docker Hub API error: ${response.status}`);
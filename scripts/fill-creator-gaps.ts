@@ -55,6 +55,7 @@
 
 import { writeFileSync, readFileSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 // Configuration
 const HISTORY_PATH = join(process.cwd(), 'public', 'data', 'history', 'creators-stats.json');
@@ -124,7 +125,7 @@ async function getCommitsForDate(targetDate: string): Promise<any> {
     headers['Authorization'] = `token ${process.env.GITHUB_TOKEN}`;
   }
 
-  const response = await fetch(url, { headers });
+  const response = await httpFetch(url, { headers });
   if (!response.ok) {
     throw new Error(`GitHub API error: ${response.status}`);
   }
@@ -156,7 +157,7 @@ async function getCommitsForDate(targetDate: string): Promise<any> {
 async function getFileAtCommit(sha: string): Promise<any[]> {
   const url = `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}/${sha}/${FILE_PATH}`;
 
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: { 'User-Agent': 'n8n-pulse' },
   });
 
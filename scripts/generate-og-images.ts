@@ -0,0 +1,95 @@
+/**
+ * Generate Per-Page OG Images
+ *
+ * Renders a social sharing image for every section page, saved
+ * playground view and node, creator and template page, showing current
+ * numbers and a chart of the recent history (see src/lib/og/). Each card is drawn by Chart.js in headless
+ * Chromium and saved as public/og/<page>.png, which BaseLayout picks up
+ * during the Astro build. Runs before every build.
+ *
+ * Needs the Playwright Chromium browser (npx playwright install chromium).
+ * Without it the script only warns: pages keep the static og-image.png
+ * from generate-og-image.ts.
+ *
+ * Run with: npx tsx scripts/generate-og-images.ts
+ */
+
+import { existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { chromium, type Browser, type Page } from '@playwright/test';
+import { buildDetailCards, buildOgCard, getCardSpecs, ogImagePath, OG_HEIGHT, OG_IMAGE_DIR, OG_WIDTH, type OgCard } from '../src/lib/og/cards';
+import { renderOgHtml, type OgRenderAssets } from '../src/lib/og/render';
+
+const PUBLIC_DIR = join(process.cwd(), 'public');
+const OUTPUT_DIR = join(PUBLIC_DIR, OG_IMAGE_DIR);
+const FONT_PATH = join(PUBLIC_DIR, 'fonts', 'inter-latin.woff2');
+
+function loadAssets(): OgRenderAssets {
+  const require = createRequire(import.meta.url);
+  return {
+    chartScript: readFileSync(require.resolve('chart.js/dist/chart.umd.js'), 'utf-8'),
+    fontUrl: existsSync(FONT_PATH)
+      ? `data:font/woff2;base64,${readFileSync(FONT_PATH).toString('base64')}`
+      : undefined,
+  };
+}
+
+async function renderCard(page: Page, card: OgCard, assets: OgRenderAssets): Promise<void> {
+  await page.setContent(renderOgHtml(card, assets));
+  await page.waitForFunction(() => window.ogReady === true, undefined, { timeout: 10_000 });
+  await page.screenshot({ path: join(PUBLIC_DIR, ogImagePath(card.path)), type: 'png' });
+}
+
+async function main() {
+  console.log('Generating OG images...');
+
+  // Start clean so images of removed pages don't linger
+  rmSync(OUTPUT_DIR, { recursive: true, force: true });
+
+  let browser: Browser;
+  try {
+    browser = await chromium.launch();
+  } catch (error) {
+    console.warn('⚠ Could not start Chromium, pages keep the default og-image.png');
+    console.warn('  Install it with: npx playwright install chromium');
+    console.warn(`  ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+    return;
+  }
+
+  try {
+    mkdirSync(OUTPUT_DIR, { recursive: true });
+    const assets = loadAssets();
+    const page = await browser.newPage({ viewport: { width: OG_WIDTH, height: OG_HEIGHT } });
+
+    for (const spec of getCardSpecs()) {
+      const card = buildOgCard(spec);
+      if (card.series.length === 0) {
+        console.warn(`  ⚠ ${spec.path}: no data, skipped`);
+        continue;
+      }
+
+      await renderCard(page, card, assets);
+      console.log(`  ✓ ${spec.path} → ${ogImagePath(spec.path)}`);
+    }
+
+    // Detail pages are too many to list one by one
+    const detailCards = buildDetailCards();
+    let rendered = 0;
+    for (const card of detailCards) {
+      if (card.series.length === 0) continue;
+      await renderCard(page, card, assets);
+      rendered++;
+    }
+    console.log(`  ✓ ${rendered} of ${detailCards.length} node, creator and template pages`);
+  } finally {
+    await browser.close();
+  }
+
+  console.log('\nDone!');
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
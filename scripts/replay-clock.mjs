@@ -0,0 +1,27 @@
+/**
+ * Replay Clock
+ *
+ * Preloaded by replay-history.ts (node --import) into every script of an
+ * offline replay. Shifts the clock to REPLAY_NOW so requests built from
+ * the current date (e.g. the Bluesky search window) match the recorded
+ * fixtures and replayed entries carry the recording date. Time keeps
+ * running from there, so delays and timeouts behave as usual.
+ */
+
+const replayNow = Date.parse(process.env.REPLAY_NOW ?? '');
+
+if (!Number.isNaN(replayNow)) {
+  const RealDate = Date;
+  const realNow = RealDate.now;
+  const offset = replayNow - realNow();
+
+  RealDate.now = () => realNow() + offset;
+  globalThis.Date = new Proxy(RealDate, {
+    construct(target, args, newTarget) {
+      return Reflect.construct(target, args.length > 0 ? args : [RealDate.now()], newTarget);
+    },
+    apply() {
+      return new RealDate(RealDate.now()).toString();
+    },
+  });
+}
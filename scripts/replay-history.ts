@@ -0,0 +1,80 @@
+/**
+ * Offline History Replay Script
+ *
+ * Runs update-all-history against the recorded HTTP fixtures
+ * (HTTP_MODE=replay) without touching public/data: the data files are
+ * copied to an output directory first and the update scripts write there
+ * through DATA_DIR. The clock is shifted to when the fixtures were
+ * recorded (scripts/replay-clock.mjs), so date-based requests match and
+ * the replayed entries carry the recording date.
+ *
+ * Run with: npx tsx scripts/replay-history.ts [--out <dir>]
+ *   --out  Output directory (default: .replay/data)
+ */
+
+import { execSync } from 'child_process';
+import { cpSync, readdirSync, rmSync } from 'fs';
+import { join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { DATA_DIR, readJsonFile } from '../src/lib/history/store';
+import { DEFAULT_FIXTURES_DIR, type HttpFixture } from '../src/lib/http/client';
+
+const CLOCK_PRELOAD = pathToFileURL(join(process.cwd(), 'scripts', 'replay-clock.mjs')).href;
+
+function outputDir(): string {
+  const index = process.argv.indexOf('--out');
+  return resolve(index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : '.replay/data');
+}
+
+/** Latest recordedAt across the fixture set */
+function recordedAt(fixturesDir: string): string {
+  const times = readdirSync(fixturesDir, { recursive: true, encoding: 'utf-8' })
+    .filter(file => file.endsWith('.json'))
+    .map(file => readJsonFile<HttpFixture>(join(fixturesDir, file))?.recordedAt)
+    .filter((time): time is string => Boolean(time))
+    .sort();
+  if (times.length === 0) {
+    throw new Error(`No HTTP fixtures in ${fixturesDir} (record them with npm run update-all-history:record)`);
+  }
+  return times[times.length - 1];
+}
+
+function main() {
+  const out = outputDir();
+  if (out === DATA_DIR) {
+    console.error(`Refusing to replay into ${DATA_DIR}`);
+    process.exit(1);
+  }
+
+  console.log(`Copying ${DATA_DIR} to ${out}...`);
+  rmSync(out, { recursive: true, force: true });
+  cpSync(DATA_DIR, out, { recursive: true });
+
+  const fixturesDir = process.env.HTTP_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR;
+  const now = recordedAt(fixturesDir);
+
+  console.log(`Replaying update-all-history from fixtures recorded at ${now}...\n`);
+  execSync('npm run update-all-history', {
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      HTTP_MODE: 'replay',
+      DATA_DIR: out,
+      REPLAY_NOW: now,
+      TZ: 'UTC',
+      // Credentials are redacted from fixture keys, so any value replays
+      BLUESKY_HANDLE: process.env.BLUESKY_HANDLE || 'replay.invalid',
+      BLUESKY_APP_PASSWORD: process.env.BLUESKY_APP_PASSWORD || 'replay',
+      NODE_OPTIONS: [process.env.NODE_OPTIONS, `--import ${CLOCK_PRELOAD}`].filter(Boolean).join(' '),
+    },
+  });
+
+  console.log(`\nReplayed data written to ${out}`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,89 @@
+/**
+ * Quarantine Review Script
+ *
+ * Lists history values held back by anomaly checks and accepts or rejects them:
+ * - accept: write the held-back fields into their log (history files pick them up on the next update)
+ * - reject: drop them, keeping the last accepted values
+ *
+ * Run with:
+ *   npx tsx scripts/review-quarantine.ts                 # list
+ *   npx tsx scripts/review-quarantine.ts accept <id...>  # or --all
+ *   npx tsx scripts/review-quarantine.ts reject <id...>  # or --all
+ */
+
+import {
+  acceptQuarantined,
+  loadQuarantine,
+  saveQuarantine,
+  type QuarantinedPoint,
+} from '../src/lib/history/store';
+
+function printEntry(entry: QuarantinedPoint): void {
+  console.log(`${entry.id}  (${entry.file}, quarantined ${entry.quarantinedAt.split('T')[0]})`);
+  for (const anomaly of entry.anomalies) {
+    console.log(`  [${anomaly.reason}] ${anomaly.message}`);
+  }
+}
+
+function selectEntries(entries: QuarantinedPoint[], args: string[]): QuarantinedPoint[] {
+  if (args.includes('--all')) {
+    return entries;
+  }
+
+  const unknown = args.filter(id => !entries.some(e => e.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Not in quarantine: ${unknown.join(', ')}`);
+  }
+  return entries.filter(e => args.includes(e.id));
+}
+
+async function main() {
+  const [command = 'list', ...args] = process.argv.slice(2);
+  const quarantine = loadQuarantine();
+
+  if (command === 'list') {
+    if (quarantine.entries.length === 0) {
+      console.log('Quarantine is empty');
+      return;
+    }
+    console.log(`${quarantine.entries.length} quarantined point(s):\n`);
+    for (const entry of quarantine.entries) {
+      printEntry(entry);
+    }
+    console.log('\nAccept or reject with: npm run review-quarantine -- accept|reject <id...|--all>');
+    return;
+  }
+
+  if (command !== 'accept' && command !== 'reject') {
+    throw new Error(`Unknown command "${command}" (expected list, accept or reject)`);
+  }
+  if (args.length === 0) {
+    throw new Error(`Usage: review-quarantine ${command} <id...|--all>`);
+  }
+
+  const selected = selectEntries(quarantine.entries, args);
+  for (const entry of selected) {
+    if (command === 'accept') {
+      acceptQuarantined(entry);
+      console.log(`Accepted ${entry.id} into ${entry.file}`);
+    } else {
+      console.log(`Rejected ${entry.id}`);
+    }
+  }
+
+  saveQuarantine({
+    ...quarantine,
+    entries: quarantine.entries.filter(e => !selected.includes(e)),
+  });
+
+  if (command === 'accept' && selected.length > 0) {
+    console.log('\nRe-run the matching update-*-history script to regenerate aggregated history.');
+  }
+
+  console.log('\nDone!');
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
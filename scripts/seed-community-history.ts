@@ -9,6 +9,7 @@
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { httpFetch } from '../src/lib/http/client';
 
 interface CommunityDataPoint {
   date: string;
@@ -35,7 +36,7 @@ function sleep(ms: number): Promise<void> {
 async function fetchWaybackSnapshots(): Promise<string[]> {
   const cdxUrl = 'http://web.archive.org/cdx/search/cdx?url=community.n8n.io/about&output=json';
 
-  const response = await fetch(cdxUrl);
+  const response = await httpFetch(cdxUrl);
   if (!response.ok) {
     throw new Error(`Failed to fetch CDX: ${response.status}`);
   }
@@ -50,7 +51,7 @@ async function fetchArchivedStats(timestamp: string): Promise<CommunityDataPoint
   const url = `http://web.archive.org/web/${timestamp}/https://community.n8n.io/about`;
 
   try {
-    const response = await fetch(url);
+    const response = await httpFetch(url);
     if (!response.ok) {
       console.log(`  Skipping ${timestamp}: HTTP ${response.status}`);
       return null;
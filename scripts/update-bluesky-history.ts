@@ -4,7 +4,8 @@
  * This script runs daily to:
  * 1. Fetch today's n8n mentions from Bluesky
  * 2. Append new posts to the history file
- * 3. Recalculate daily/weekly/monthly aggregations
+ * 3. Screen the daily stats of the fetched days for glitches (quarantine)
+ * 4. Recalculate daily/weekly/monthly aggregations
  *
  * Requires:
  *   BLUESKY_HANDLE - Your Bluesky handle (e.g., gui.do)
@@ -13,22 +14,31 @@
  * Run with: npx tsx scripts/update-bluesky-history.ts
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { aggregateByPeriod, getMonthKey, getWeekKey, sortByDate, upsertByDate } from '../src/lib/history/aggregate';
+import type { MetricCheck } from '../src/lib/history/anomalies';
+import { missingBetween } from '../src/lib/history/gaps';
+import { HISTORY_DIR, readJsonFile, screenPoint, writeJsonFile } from '../src/lib/history/store';
+import type { HistoryPoint } from '../src/lib/history/types';
+import { httpFetch } from '../src/lib/http/client';
 
 // Constants
 const BLUESKY_PDS = 'https://bsky.social';
 const BLUESKY_SEARCH_API = `${BLUESKY_PDS}/xrpc/app.bsky.feed.searchPosts`;
 const BLUESKY_SESSION_API = `${BLUESKY_PDS}/xrpc/com.atproto.server.createSession`;
 
-const DATA_DIR = join(process.cwd(), 'public', 'data');
-const HISTORY_DIR = join(DATA_DIR, 'history');
 const POSTS_FILE = join(HISTORY_DIR, 'bluesky-posts.json');
 const HISTORY_FILE = join(HISTORY_DIR, 'bluesky.json');
 
 const N8N_HANDLE = 'n8n.io';
 const DELAY_BETWEEN_REQUESTS = 500;
 
+// A failed search shows up as a day with no or far fewer posts
+const ANOMALY_CHECKS: MetricCheck[] = [
+  { field: 'posts', excludeZero: true },
+  { field: 'uniqueAuthors', excludeZero: true },
+];
+
 // Session token
 let accessToken: string | null = null;
 
@@ -53,8 +63,7 @@ interface BlueskyPost {
   fetchedAt: string;
 }
 
-interface DailyStats {
-  date: string;
+interface DailyStats extends HistoryPoint {
   posts: number;
   uniqueAuthors: number;
   totalLikes: number;
@@ -74,25 +83,15 @@ interface BlueskyPostsData {
   };
 }
 
+interface PeriodStats extends DailyStats {
+  avgPostsPerDay: number;
+}
+
 interface BlueskyHistory {
   lastUpdated: string;
   daily: DailyStats[];
-  weekly: Array<{
-    date: string;
-    posts: number;
-    uniqueAuthors: number;
-    totalLikes: number;
-    totalReposts: number;
-    avgPostsPerDay: number;
-  }>;
-  monthly: Array<{
-    date: string;
-    posts: number;
-    uniqueAuthors: number;
-    totalLikes: number;
-    totalReposts: number;
-    avgPostsPerDay: number;
-  }>;
+  weekly: PeriodStats[];
+  monthly: PeriodStats[];
   totals: {
     posts: number;
     uniqueAuthors: number;
@@ -117,7 +116,7 @@ async function authenticate(): Promise<void> {
 
   console.log(`Authenticating as @${handle}...`);
 
-  const response = await fetch(BLUESKY_SESSION_API, {
+  const response = await httpFetch(BLUESKY_SESSION_API, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -164,7 +163,7 @@ async function searchPosts(
     }
 
     try {
-      const response = await fetch(`${BLUESKY_SEARCH_API}?${params}`, {
+      const response = await httpFetch(`${BLUESKY_SEARCH_API}?${params}`, {
         headers: {
           'Authorization': `Bearer ${accessToken}`,
           'User-Agent': 'n8n-stats/1.0',
@@ -220,21 +219,6 @@ async function searchPosts(
   return posts;
 }
 
-function loadPostsData(): BlueskyPostsData | null {
-  if (!existsSync(POSTS_FILE)) {
-    return null;
-  }
-  try {
-    return JSON.parse(readFileSync(POSTS_FILE, 'utf-8'));
-  } catch {
-    return null;
-  }
-}
-
-function savePostsData(data: BlueskyPostsData): void {
-  writeFileSync(POSTS_FILE, JSON.stringify(data, null, 2));
-}
-
 function calculateDailyStats(posts: BlueskyPost[]): DailyStats[] {
   const byDate = new Map<string, BlueskyPost[]>();
 
@@ -259,56 +243,63 @@ function calculateDailyStats(posts: BlueskyPost[]): DailyStats[] {
     });
   }
 
-  return stats.sort((a, b) => a.date.localeCompare(b.date));
+  return sortByDate(stats);
 }
 
-function getWeekKey(dateStr: string): string {
-  const date = new Date(dateStr);
-  const year = date.getFullYear();
-  const startOfYear = new Date(year, 0, 1);
-  const days = Math.floor((date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-  const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-  return `${year}-W${week.toString().padStart(2, '0')}`;
-}
-
-function generateHistory(dailyStats: DailyStats[], posts: BlueskyPost[]): BlueskyHistory {
-  // Weekly aggregation
-  const weeklyMap = new Map<string, DailyStats[]>();
-  for (const day of dailyStats) {
-    const week = getWeekKey(day.date);
-    if (!weeklyMap.has(week)) {
-      weeklyMap.set(week, []);
+/**
+ * Daily stats for the saved posts. Days before the fetch window keep their
+ * stored stats; the complete days in the window (today is still filling in)
+ * are screened against earlier days, including days without any posts.
+ */
+function screenDailyStats(
+  posts: BlueskyPost[],
+  existing: DailyStats[],
+  fromDate: string,
+  toDate: string
+): DailyStats[] {
+  const dailyStats = [...existing];
+  const calculated = new Map(calculateDailyStats(posts).map(day => [day.date, day]));
+  const window = new Set([fromDate, ...missingBetween(fromDate, toDate, 'daily')]);
+
+  for (const date of window) {
+    if (!calculated.has(date)) {
+      calculated.set(date, { date, posts: 0, uniqueAuthors: 0, totalLikes: 0, totalReposts: 0, totalReplies: 0 });
     }
-    weeklyMap.get(week)!.push(day);
   }
 
-  const weekly = Array.from(weeklyMap.entries()).map(([week, days]) => ({
-    date: week,
-    posts: days.reduce((sum, d) => sum + d.posts, 0),
-    uniqueAuthors: days.reduce((sum, d) => sum + d.uniqueAuthors, 0),
-    totalLikes: days.reduce((sum, d) => sum + d.totalLikes, 0),
-    totalReposts: days.reduce((sum, d) => sum + d.totalReposts, 0),
-    avgPostsPerDay: Math.round(days.reduce((sum, d) => sum + d.posts, 0) / days.length * 10) / 10,
-  })).sort((a, b) => a.date.localeCompare(b.date));
-
-  // Monthly aggregation
-  const monthlyMap = new Map<string, DailyStats[]>();
+  for (const day of sortByDate(Array.from(calculated.values()))) {
+    if (day.date < fromDate && dailyStats.some(d => d.date === day.date)) continue;
+    const { point } = window.has(day.date)
+      ? screenPoint({ metric: 'bluesky', path: POSTS_FILE, key: 'dailyStats', history: dailyStats, point: day, checks: ANOMALY_CHECKS })
+      : { point: day };
+    upsertByDate(dailyStats, point);
+  }
+
+  return dailyStats;
+}
+
+/**
+ * Sum daily stats per period and add the average posts per day
+ */
+function summarizePeriods(
+  dailyStats: DailyStats[],
+  getKey: (date: string) => string
+): PeriodStats[] {
+  const daysPerPeriod = new Map<string, number>();
   for (const day of dailyStats) {
-    const month = day.date.slice(0, 7);
-    if (!monthlyMap.has(month)) {
-      monthlyMap.set(month, []);
-    }
-    monthlyMap.get(month)!.push(day);
+    const key = getKey(day.date);
+    daysPerPeriod.set(key, (daysPerPeriod.get(key) || 0) + 1);
   }
 
-  const monthly = Array.from(monthlyMap.entries()).map(([month, days]) => ({
-    date: month,
-    posts: days.reduce((sum, d) => sum + d.posts, 0),
-    uniqueAuthors: days.reduce((sum, d) => sum + d.uniqueAuthors, 0),
-    totalLikes: days.reduce((sum, d) => sum + d.totalLikes, 0),
-    totalReposts: days.reduce((sum, d) => sum + d.totalReposts, 0),
-    avgPostsPerDay: Math.round(days.reduce((sum, d) => sum + d.posts, 0) / days.length * 10) / 10,
-  })).sort((a, b) => a.date.localeCompare(b.date));
+  return aggregateByPeriod(dailyStats, getKey, 'sum').map(period => ({
+    ...period,
+    avgPostsPerDay: Math.round(period.posts / daysPerPeriod.get(period.date)! * 10) / 10,
+  }));
+}
+
+function generateHistory(dailyStats: DailyStats[], posts: BlueskyPost[]): BlueskyHistory {
+  const weekly = summarizePeriods(dailyStats, getWeekKey);
+  const monthly = summarizePeriods(dailyStats, getMonthKey);
 
   // Totals
   const totals = {
@@ -341,16 +332,11 @@ function deduplicatePosts(posts: BlueskyPost[]): BlueskyPost[] {
 async function main() {
   console.log('Updating Bluesky history...\n');
 
-  // Ensure directories exist
-  if (!existsSync(HISTORY_DIR)) {
-    mkdirSync(HISTORY_DIR, { recursive: true });
-  }
-
   // Authenticate
   await authenticate();
 
   // Load existing data
-  const existingData = loadPostsData();
+  const existingData = readJsonFile<BlueskyPostsData>(POSTS_FILE);
   let allPosts = existingData?.posts || [];
   console.log(`Loaded ${allPosts.length} existing posts`);
 
@@ -386,8 +372,8 @@ async function main() {
   // Sort by date
   combinedPosts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 
-  // Calculate stats
-  const dailyStats = calculateDailyStats(combinedPosts);
+  // Calculate stats, holding back glitch days for review
+  const dailyStats = screenDailyStats(combinedPosts, existingData?.dailyStats || [], fromDate, toDate);
   const uniqueAuthors = new Set(combinedPosts.map(p => p.author.did)).size;
 
   // Get date range
@@ -410,12 +396,12 @@ async function main() {
     },
   };
 
-  savePostsData(postsData);
+  writeJsonFile(POSTS_FILE, postsData);
   console.log(`Saved ${combinedPosts.length} posts to ${POSTS_FILE}`);
 
   // Generate and save aggregated history
   const history = generateHistory(dailyStats, combinedPosts);
-  writeFileSync(HISTORY_FILE, JSON.stringify(history, null, 2));
+  writeJsonFile(HISTORY_FILE, history);
   console.log(`\nGenerated history:`);
   console.log(`  Daily: ${history.daily.length} entries (last 90 days)`);
   console.log(`  Weekly: ${history.weekly.length} entries`);
@@ -11,17 +11,23 @@
  * Run with: npx tsx scripts/update-bluesky-profile-history.ts
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { todayKey, upsertByDate } from '../src/lib/history/aggregate';
+import { HISTORY_DIR, readJsonFile, screenPoint, writeJsonFile } from '../src/lib/history/store';
+import type { MetricCheck } from '../src/lib/history/anomalies';
+import type { HistoryPoint } from '../src/lib/history/types';
+import { httpFetch } from '../src/lib/http/client';
 
 const BLUESKY_PUBLIC_API = 'https://public.api.bsky.app/xrpc/app.bsky.actor.getProfile';
 const N8N_HANDLE = 'n8n.io';
 
-const DATA_DIR = join(process.cwd(), 'public', 'data', 'history');
-const HISTORY_FILE = join(DATA_DIR, 'bluesky-profile.json');
+const HISTORY_FILE = join(HISTORY_DIR, 'bluesky-profile.json');
 
-interface DailySnapshot {
-  date: string;
+const ANOMALY_CHECKS: MetricCheck[] = [
+  { field: 'followers', cumulative: true, excludeZero: true },
+];
+
+interface DailySnapshot extends HistoryPoint {
   followers: number;
   following: number;
   posts: number;
@@ -47,7 +53,7 @@ async function fetchProfile(): Promise<any> {
 
   console.log(`Fetching profile for @${N8N_HANDLE}...`);
 
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: {
       'User-Agent': 'n8n-stats/1.0',
       'Accept': 'application/json',
@@ -61,33 +67,13 @@ async function fetchProfile(): Promise<any> {
   return response.json();
 }
 
-function loadHistory(): BlueskyProfileHistory | null {
-  if (!existsSync(HISTORY_FILE)) {
-    return null;
-  }
-  try {
-    return JSON.parse(readFileSync(HISTORY_FILE, 'utf-8'));
-  } catch {
-    return null;
-  }
-}
-
-function saveHistory(data: BlueskyProfileHistory): void {
-  writeFileSync(HISTORY_FILE, JSON.stringify(data, null, 2));
-}
-
 async function main() {
   console.log('Updating Bluesky profile history...\n');
 
-  // Ensure directory exists
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-
   // Fetch current profile
   const profile = await fetchProfile();
 
-  const today = new Date().toISOString().split('T')[0];
+  const today = todayKey();
   const snapshot: DailySnapshot = {
     date: today,
     followers: profile.followersCount || 0,
@@ -100,24 +86,19 @@ async function main() {
   console.log(`  Posts: ${snapshot.posts.toLocaleString()}`);
 
   // Load existing history
-  const existing = loadHistory();
-  let daily = existing?.daily || [];
-
-  // Check if we already have today's entry
-  const existingIndex = daily.findIndex(d => d.date === today);
-  if (existingIndex >= 0) {
-    // Update today's entry
-    daily[existingIndex] = snapshot;
+  const existing = readJsonFile<BlueskyProfileHistory>(HISTORY_FILE);
+  const daily = existing?.daily || [];
+
+  // Hold back glitch values (e.g. a sudden halving) for review
+  const { point: accepted } = screenPoint({ metric: 'bluesky-profile', path: HISTORY_FILE, key: 'daily', history: daily, point: snapshot, checks: ANOMALY_CHECKS });
+
+  // Replace today's entry if we already have one
+  if (upsertByDate(daily, accepted)) {
     console.log(`\n  Updated existing entry for ${today}`);
   } else {
-    // Add new entry
-    daily.push(snapshot);
     console.log(`\n  Added new entry for ${today}`);
   }
 
-  // Sort by date
-  daily.sort((a, b) => a.date.localeCompare(b.date));
-
   // Build history object
   const history: BlueskyProfileHistory = {
     lastUpdated: new Date().toISOString(),
@@ -128,14 +109,14 @@ async function main() {
     createdAt: profile.createdAt || '',
     daily,
     current: {
-      followers: snapshot.followers,
-      following: snapshot.following,
-      posts: snapshot.posts,
+      followers: accepted.followers,
+      following: accepted.following,
+      posts: accepted.posts,
     },
   };
 
   // Save
-  saveHistory(history);
+  writeJsonFile(HISTORY_FILE, history);
   console.log(`\nSaved ${daily.length} entries to ${HISTORY_FILE}`);
 
   // Show growth if we have history
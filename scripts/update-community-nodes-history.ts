@@ -4,14 +4,21 @@
  * This script runs after fetch-community-nodes.ts to:
  * 1. Read the current community-nodes.json snapshot
  * 2. Append to weekly history in community-nodes-history.json
+ * 3. Append each package's weekly downloads and new versions to
+ *    history/community-packages.json (src/lib/history/packageSnapshots.ts)
  *
  * Data format follows playground standards (weekly array with date field).
  *
  * Run weekly: npx tsx scripts/update-community-nodes-history.ts
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import { join } from 'path';
+import { getWeekStart, upsertByDate } from '../src/lib/history/aggregate';
+import { appendPackageSnapshot, serializePackageSnapshots, type PackageSnapshots } from '../src/lib/history/packageSnapshots';
+import { DATA_DIR, HISTORY_DIR, readJsonFile, screenPoint, writeJsonFile } from '../src/lib/history/store';
+import type { MetricCheck } from '../src/lib/history/anomalies';
+import type { HistoryPoint } from '../src/lib/history/types';
 
 // Types
 interface CommunityNodesSnapshot {
@@ -22,14 +29,16 @@ interface CommunityNodesSnapshot {
   byCategory: Record<string, number>;
   packages: Array<{
     name: string;
+    version: string;
+    lastUpdated: string;
     downloadsWeekly: number;
     downloadsMonthly: number;
     category: string;
   }>;
 }
 
-interface WeeklyDataPoint {
-  date: string; // YYYY-MM-DD (start of week)
+// Weekly point, dated by the Monday of its week (YYYY-MM-DD)
+interface WeeklyDataPoint extends HistoryPoint {
   totalPackages: number;
   newPackages: number;
   totalDownloadsWeekly: number;
@@ -48,47 +57,46 @@ interface CommunityNodesHistory {
 }
 
 // Paths
-const DATA_DIR = join(process.cwd(), 'public', 'data');
-const HISTORY_DIR = join(DATA_DIR, 'history');
 const SNAPSHOT_PATH = join(DATA_DIR, 'community-nodes.json');
 const HISTORY_PATH = join(HISTORY_DIR, 'community-nodes.json');
+const PACKAGES_PATH = join(HISTORY_DIR, 'community-packages.json');
 
-function getWeekStart(dateStr: string): string {
-  // Get the Monday of the week containing this date
-  const date = new Date(dateStr);
-  const day = date.getDay();
-  const diff = date.getDate() - day + (day === 0 ? -6 : 1); // Adjust for Sunday
-  date.setDate(diff);
-  return date.toISOString().split('T')[0];
-}
+const ANOMALY_CHECKS: MetricCheck[] = [
+  { field: 'totalPackages', cumulative: true, excludeZero: true },
+  { field: 'totalDownloadsWeekly', excludeZero: true },
+];
 
 function loadSnapshot(): CommunityNodesSnapshot | null {
-  if (!existsSync(SNAPSHOT_PATH)) {
+  const snapshot = readJsonFile<CommunityNodesSnapshot>(SNAPSHOT_PATH);
+  if (!snapshot) {
     console.log('No snapshot file found at', SNAPSHOT_PATH);
-    return null;
   }
-  const content = readFileSync(SNAPSHOT_PATH, 'utf-8');
-  return JSON.parse(content);
+  return snapshot;
 }
 
 function loadHistory(): CommunityNodesHistory {
-  if (!existsSync(HISTORY_PATH)) {
-    return {
-      lastUpdated: new Date().toISOString(),
-      measuredSince: new Date().toISOString().split('T')[0],
-      weekly: [],
-    };
-  }
-  const content = readFileSync(HISTORY_PATH, 'utf-8');
-  return JSON.parse(content);
+  return readJsonFile<CommunityNodesHistory>(HISTORY_PATH) ?? {
+    lastUpdated: new Date().toISOString(),
+    measuredSince: new Date().toISOString().split('T')[0],
+    weekly: [],
+  };
 }
 
-function saveHistory(history: CommunityNodesHistory): void {
-  // Ensure history directory exists
-  if (!existsSync(HISTORY_DIR)) {
-    mkdirSync(HISTORY_DIR, { recursive: true });
-  }
-  writeFileSync(HISTORY_PATH, JSON.stringify(history, null, 2));
+function updatePackageHistory(snapshot: CommunityNodesSnapshot, weekStart: string) {
+  const existing: PackageSnapshots | null = existsSync(PACKAGES_PATH)
+    ? JSON.parse(readFileSync(PACKAGES_PATH, 'utf-8'))
+    : null;
+  const packages = appendPackageSnapshot(existing, weekStart, snapshot.packages.map(p => ({
+    name: p.name,
+    version: p.version,
+    lastUpdated: p.lastUpdated,
+    downloadsWeekly: p.downloadsWeekly,
+  })));
+
+  writeFileSync(PACKAGES_PATH, serializePackageSnapshots(packages));
+  const measured = snapshot.packages.filter(p => p.downloadsWeekly > 0).length;
+  console.log(`\nPer-package history: ${Object.keys(packages.packages).length.toLocaleString()} packages, ${measured} with downloads this week`);
+  console.log(`Saved to ${PACKAGES_PATH}`);
 }
 
 function main() {
@@ -112,18 +120,11 @@ function main() {
   const snapshotDate = snapshot.lastUpdated.split('T')[0];
   const weekStart = getWeekStart(snapshotDate);
 
-  // Calculate new packages since last week (if we have history)
-  let newPackages = 0;
-  if (history.weekly.length > 0) {
-    const lastEntry = history.weekly[history.weekly.length - 1];
-    newPackages = Math.max(0, snapshot.totalPackages - lastEntry.totalPackages);
-  }
-
   // Create data point for this week
   const dataPoint: WeeklyDataPoint = {
     date: weekStart,
     totalPackages: snapshot.totalPackages,
-    newPackages,
+    newPackages: 0, // Set from the accepted total below
     totalDownloadsWeekly: snapshot.totalDownloadsWeekly,
     totalDownloadsMonthly: snapshot.totalDownloadsMonthly,
     byCategory: snapshot.byCategory,
@@ -133,16 +134,18 @@ function main() {
     })),
   };
 
-  // Check if we already have an entry for this week
-  const existingIndex = history.weekly.findIndex(w => w.date === weekStart);
-  if (existingIndex >= 0) {
+  // Hold back glitch values (e.g. a failed npm search) for review
+  const { point: accepted, anomalies } = screenPoint({ metric: 'community-nodes', path: HISTORY_PATH, key: 'weekly', history: history.weekly, point: dataPoint, checks: ANOMALY_CHECKS });
+
+  // New packages since last week (if we have history), from the accepted total
+  const lastEntry = history.weekly[history.weekly.length - 1];
+  const newPackages = lastEntry ? Math.max(0, accepted.totalPackages - lastEntry.totalPackages) : 0;
+
+  // Replace this week's entry if we already have one
+  if (upsertByDate(history.weekly, { ...accepted, newPackages })) {
     console.log(`\nUpdating existing entry for week ${weekStart}`);
-    history.weekly[existingIndex] = dataPoint;
   } else {
     console.log(`\nAdding new entry for week ${weekStart}`);
-    history.weekly.push(dataPoint);
-    // Sort by date
-    history.weekly.sort((a, b) => a.date.localeCompare(b.date));
   }
 
   // Update metadata
@@ -152,13 +155,20 @@ function main() {
   }
 
   // Save history
-  saveHistory(history);
+  writeJsonFile(HISTORY_PATH, history);
 
   console.log(`\nHistory summary:`);
   console.log(`  Total entries: ${history.weekly.length}`);
   console.log(`  Date range: ${history.weekly[0]?.date} to ${history.weekly[history.weekly.length - 1]?.date}`);
   console.log(`  New packages this week: ${newPackages}`);
   console.log(`\nSaved to ${HISTORY_PATH}`);
+
+  // The per-package downloads come from the same npm search as the totals
+  if (anomalies.length > 0) {
+    console.log('Package history left unchanged');
+    return;
+  }
+  updatePackageHistory(snapshot, weekStart);
 }
 
 main();
@@ -3,13 +3,17 @@
  *
  * This script transforms the enriched n8n Arena data
  * (n8narena-creators.json) into the history format
- * (creators.json) that the creators page reads.
+ * (creators.json) that the creators page reads, and adds this week's
+ * leaderboard to the creators timeline (creators-timeline.json) that the
+ * per-creator pages chart.
  *
  * Run with: npx tsx scripts/update-creators-history.ts
  */
 
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { addTimelineSnapshot, type CreatorsTimeline } from '../src/lib/creators/profile';
+import { DATA_DIR } from '../src/lib/history/store';
 
 // Types
 interface Creator {
@@ -40,10 +44,10 @@ interface CreatorsHistory {
 }
 
 // Paths
-const DATA_DIR = join(process.cwd(), 'public', 'data');
 const EXTERNAL_FILE = join(DATA_DIR, 'external', 'n8narena-creators.json');
 const META_FILE = join(DATA_DIR, 'external', 'n8narena.meta.json');
 const HISTORY_FILE = join(DATA_DIR, 'history', 'creators.json');
+const TIMELINE_FILE = join(DATA_DIR, 'history', 'creators-timeline.json');
 
 function main() {
   console.log('Updating creators history...\n');
@@ -93,6 +97,14 @@ function main() {
   writeFileSync(HISTORY_FILE, JSON.stringify(history, null, 2));
   console.log(`Saved ${topCreators.length} creators to history file`);
 
+  // Add this week's leaderboard to the timeline
+  const existingTimeline: CreatorsTimeline | null = existsSync(TIMELINE_FILE)
+    ? JSON.parse(readFileSync(TIMELINE_FILE, 'utf-8'))
+    : null;
+  const timeline = addTimelineSnapshot(existingTimeline, fetchedAt.slice(0, 10), creators);
+  writeFileSync(TIMELINE_FILE, JSON.stringify(timeline, null, 2));
+  console.log(`Saved timeline with ${timeline.weekly.length} weekly snapshots`);
+
   // Log stats
   console.log(`\nAggregate stats:`);
   console.log(`  Total creators: ${creators.length}`);
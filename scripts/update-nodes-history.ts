@@ -7,10 +7,11 @@
  * Output: public/data/nodes-history.json
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
+import { todayKey, upsertByDate } from '../src/lib/history/aggregate';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../src/lib/history/store';
+import type { HistoryPoint } from '../src/lib/history/types';
 
-const DATA_DIR = join(process.cwd(), 'public', 'data');
 const NODES_DATA_PATH = join(DATA_DIR, 'all-nodes-data.json');
 const HISTORY_PATH = join(DATA_DIR, 'nodes-history.json');
 
@@ -32,8 +33,7 @@ interface AllNodesData {
   };
 }
 
-interface HistoryEntry {
-  date: string;
+interface HistoryEntry extends HistoryPoint {
   totalTemplates: number;
   nodes: Record<string, number>; // type -> count
 }
@@ -54,34 +54,21 @@ interface NodesHistory {
 }
 
 function loadCurrentData(): AllNodesData | null {
-  try {
-    return JSON.parse(readFileSync(NODES_DATA_PATH, 'utf-8'));
-  } catch (e) {
-    console.error('Failed to load all-nodes-data.json:', e);
-    return null;
+  const data = readJsonFile<AllNodesData>(NODES_DATA_PATH);
+  if (!data) {
+    console.error('Failed to load all-nodes-data.json');
   }
+  return data;
 }
 
 function loadHistory(): NodesHistory {
-  try {
-    if (existsSync(HISTORY_PATH)) {
-      return JSON.parse(readFileSync(HISTORY_PATH, 'utf-8'));
-    }
-  } catch (e) {
-    console.warn('Failed to load existing history, starting fresh');
-  }
-
-  return {
+  return readJsonFile<NodesHistory>(HISTORY_PATH) ?? {
     lastUpdated: new Date().toISOString(),
     entries: [],
     nodeStats: {},
   };
 }
 
-function getDateKey(date: Date): string {
-  return date.toISOString().split('T')[0];
-}
-
 function updateHistory(): void {
   console.log('Updating nodes history...\n');
 
@@ -92,16 +79,13 @@ function updateHistory(): void {
   }
 
   const history = loadHistory();
-  const today = getDateKey(new Date(currentData.lastUpdated));
+  const today = todayKey(new Date(currentData.lastUpdated));
 
   console.log(`Loaded ${history.entries.length} existing entries`);
   console.log(`Current data from: ${today}`);
   console.log(`Total templates: ${currentData.totalTemplates}`);
   console.log(`Nodes with data: ${currentData.nodes.withData}\n`);
 
-  // Check if we already have an entry for today
-  const existingIndex = history.entries.findIndex(e => e.date === today);
-
   // Create new entry
   const newEntry: HistoryEntry = {
     date: today,
@@ -115,17 +99,12 @@ function updateHistory(): void {
   }
 
   // Add or update entry
-  if (existingIndex >= 0) {
+  if (upsertByDate(history.entries, newEntry)) {
     console.log(`Updating existing entry for ${today}`);
-    history.entries[existingIndex] = newEntry;
   } else {
     console.log(`Adding new entry for ${today}`);
-    history.entries.push(newEntry);
   }
 
-  // Sort entries by date
-  history.entries.sort((a, b) => a.date.localeCompare(b.date));
-
   // Keep last 52 weeks of data (1 year)
   if (history.entries.length > 52) {
     history.entries = history.entries.slice(-52);
@@ -173,7 +152,7 @@ function updateHistory(): void {
   history.lastUpdated = new Date().toISOString();
 
   // Save history
-  writeFileSync(HISTORY_PATH, JSON.stringify(history, null, 2));
+  writeJsonFile(HISTORY_PATH, history);
   console.log(`\nSaved history with ${history.entries.length} entries`);
   console.log(`Tracking ${Object.keys(history.nodeStats).length} nodes`);
 
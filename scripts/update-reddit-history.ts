@@ -12,18 +12,24 @@
  * Run with: npx tsx scripts/update-reddit-history.ts
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { todayKey, upsertByDate } from '../src/lib/history/aggregate';
+import { HISTORY_DIR, readJsonFile, screenPoint, writeJsonFile } from '../src/lib/history/store';
+import type { MetricCheck } from '../src/lib/history/anomalies';
+import type { HistoryPoint } from '../src/lib/history/types';
+import { httpFetch } from '../src/lib/http/client';
 
 const SUBREDDIT = 'n8n';
 const REDDIT_API = `https://www.reddit.com/r/${SUBREDDIT}`;
 const USER_AGENT = 'n8n-stats/1.0 (community dashboard)';
 
-const DATA_DIR = join(process.cwd(), 'public', 'data', 'history');
-const HISTORY_FILE = join(DATA_DIR, 'reddit.json');
+const HISTORY_FILE = join(HISTORY_DIR, 'reddit.json');
 
-interface DailySnapshot {
-  date: string;
+const ANOMALY_CHECKS: MetricCheck[] = [
+  { field: 'subscribers', cumulative: true, excludeZero: true },
+];
+
+interface DailySnapshot extends HistoryPoint {
   subscribers: number;
   activeUsers: number | null;
   postsLast24h: number;
@@ -45,7 +51,7 @@ interface RedditHistory {
 async function fetchWithRetry(url: string, retries = 3): Promise<any> {
   for (let i = 0; i < retries; i++) {
     try {
-      const response = await fetch(url, {
+      const response = await httpFetch(url, {
         headers: {
           'User-Agent': USER_AGENT,
           'Accept': 'application/json',
@@ -95,29 +101,9 @@ function countLast24h(posts: any[]): { posts: number; comments: number } {
   };
 }
 
-function loadHistory(): RedditHistory | null {
-  if (!existsSync(HISTORY_FILE)) {
-    return null;
-  }
-  try {
-    return JSON.parse(readFileSync(HISTORY_FILE, 'utf-8'));
-  } catch {
-    return null;
-  }
-}
-
-function saveHistory(data: RedditHistory): void {
-  writeFileSync(HISTORY_FILE, JSON.stringify(data, null, 2));
-}
-
 async function main() {
   console.log('Updating Reddit history...\n');
 
-  // Ensure directory exists
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-
   // Fetch subreddit info
   const subredditInfo = await fetchSubredditInfo();
 
@@ -134,7 +120,7 @@ async function main() {
   console.log(`  Posts (24h): ${activity.posts}`);
   console.log(`  Comments (24h): ${activity.comments}`);
 
-  const today = new Date().toISOString().split('T')[0];
+  const today = todayKey();
   const snapshot: DailySnapshot = {
     date: today,
     subscribers: subredditInfo.subscribers,
@@ -144,22 +130,19 @@ async function main() {
   };
 
   // Load existing history
-  const existing = loadHistory();
-  let daily = existing?.daily || [];
+  const existing = readJsonFile<RedditHistory>(HISTORY_FILE);
+  const daily = existing?.daily || [];
 
-  // Check if we already have today's entry
-  const existingIndex = daily.findIndex(d => d.date === today);
-  if (existingIndex >= 0) {
-    daily[existingIndex] = snapshot;
+  // Hold back glitch values (e.g. a sudden halving) for review
+  const { point: accepted } = screenPoint({ metric: 'reddit', path: HISTORY_FILE, key: 'daily', history: daily, point: snapshot, checks: ANOMALY_CHECKS });
+
+  // Replace today's entry if we already have one
+  if (upsertByDate(daily, accepted)) {
     console.log(`\n  Updated existing entry for ${today}`);
   } else {
-    daily.push(snapshot);
     console.log(`\n  Added new entry for ${today}`);
   }
 
-  // Sort by date
-  daily.sort((a, b) => a.date.localeCompare(b.date));
-
   // Build history object
   const history: RedditHistory = {
     lastUpdated: new Date().toISOString(),
@@ -168,13 +151,13 @@ async function main() {
     created: new Date(subredditInfo.created_utc * 1000).toISOString(),
     daily,
     current: {
-      subscribers: snapshot.subscribers,
-      activeUsers: snapshot.activeUsers,
+      subscribers: accepted.subscribers,
+      activeUsers: accepted.activeUsers,
     },
   };
 
   // Save
-  saveHistory(history);
+  writeJsonFile(HISTORY_FILE, history);
   console.log(`\nSaved ${daily.length} entries to ${HISTORY_FILE}`);
 
   // Show growth if we have history
@@ -0,0 +1,104 @@
+/**
+ * Data Validation Script
+ *
+ * Runs before astro build to:
+ * 1. Check every JSON file in public/data has a registered schema
+ * 2. Upgrade files written in an older format (versioned migrations)
+ * 3. Validate each file against its schema
+ *
+ * Run with: npx tsx scripts/validate-data.ts [--check]
+ *   --check  Report files needing migration instead of rewriting them
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import { DATA_DIR, writeJsonFile } from '../src/lib/history/store';
+import { findDataFile, migrateData, validateData } from '../src/lib/schemas/registry';
+
+const MAX_ISSUES_PER_FILE = 5;
+
+const checkOnly = process.argv.includes('--check');
+
+function listJsonFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const name of readdirSync(dir).sort()) {
+    const path = join(dir, name);
+    if (statSync(path).isDirectory()) {
+      files.push(...listJsonFiles(path));
+    } else if (name.endsWith('.json')) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+function validateFile(path: string): string[] {
+  const relativePath = relative(DATA_DIR, path).replace(/\\/g, '/');
+  const def = findDataFile(relativePath);
+  if (!def) {
+    return ['No schema registered (add it to src/lib/schemas/registry.ts)'];
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    return [`Invalid JSON: ${(error as Error).message}`];
+  }
+
+  const { data: migrated, from, to, applied } = migrateData(def, data);
+  if (to !== def.version) {
+    return [`No migration path from version ${from} to ${def.version}`];
+  }
+  if (applied.length > 0) {
+    if (checkOnly) {
+      return [`Needs migration from version ${from} to ${to}`];
+    }
+    writeJsonFile(path, migrated);
+    console.log(`  Migrated ${relativePath} (v${from} -> v${to})`);
+    for (const step of applied) {
+      console.log(`    ${step}`);
+    }
+  }
+
+  return validateData(def, migrated).map(issue => `${issue.path}: ${issue.message}`);
+}
+
+async function main() {
+  console.log(`Validating data files${checkOnly ? ' (check only)' : ''}...\n`);
+
+  const files = listJsonFiles(DATA_DIR);
+  let failed = 0;
+
+  for (const path of files) {
+    let errors: string[];
+    try {
+      errors = validateFile(path);
+    } catch (error) {
+      errors = [(error as Error).message];
+    }
+    if (errors.length === 0) continue;
+
+    failed++;
+    console.error(`  ✗ ${relative(DATA_DIR, path)}`);
+    for (const error of errors.slice(0, MAX_ISSUES_PER_FILE)) {
+      console.error(`      ${error}`);
+    }
+    if (errors.length > MAX_ISSUES_PER_FILE) {
+      console.error(`      ...and ${errors.length - MAX_ISSUES_PER_FILE} more`);
+    }
+  }
+
+  console.log(`\nChecked ${files.length} files: ${files.length - failed} valid, ${failed} invalid`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+
+  console.log('\nDone!');
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
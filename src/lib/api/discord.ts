@@ -1,4 +1,5 @@
 import type { DiscordStats } from '../types';
+import { httpFetch } from '../http/client';
 
 const DISCORD_INVITE_CODE = 'n8n';
 
@@ -7,7 +8,7 @@ const DISCORD_INVITE_CODE = 'n8n';
  * This endpoint is public and doesn't require authentication
  */
 export async function fetchDiscordStats(): Promise<DiscordStats> {
-  const response = await fetch(
+  const response = await httpFetch(
     `https://discord.com/api/v9/invites/${DISCORD_INVITE_CODE}?with_counts=true`
   );
 
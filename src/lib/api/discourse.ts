@@ -1,4 +1,5 @@
 import type { ForumStats, ForumCategory } from '../types';
+import { httpFetch } from '../http/client';
 
 const FORUM_BASE = 'https://community.n8n.io';
 
@@ -6,7 +7,7 @@ const FORUM_BASE = 'https://community.n8n.io';
  * Fetch forum statistics from Discourse
  */
 export async function fetchForumStats(): Promise<ForumStats> {
-  const response = await fetch(`${FORUM_BASE}/about.json`);
+  const response = await httpFetch(`${FORUM_BASE}/about.json`);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch forum stats: ${response.status}`);
@@ -29,7 +30,7 @@ export async function fetchForumStats(): Promise<ForumStats> {
  * Fetch forum categories from Discourse
  */
 export async function fetchForumCategories(): Promise<ForumCategory[]> {
-  const response = await fetch(`${FORUM_BASE}/categories.json`);
+  const response = await httpFetch(`${FORUM_BASE}/categories.json`);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch forum categories: ${response.status}`);
@@ -51,7 +52,7 @@ export async function fetchForumCategories(): Promise<ForumCategory[]> {
  * Fetch top contributors from Discourse
  */
 export async function fetchTopContributors(period: 'all' | 'yearly' | 'quarterly' | 'monthly' | 'weekly' = 'all') {
-  const response = await fetch(`${FORUM_BASE}/directory_items.json?period=${period}&order=post_count`);
+  const response = await httpFetch(`${FORUM_BASE}/directory_items.json?period=${period}&order=post_count`);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch top contributors: ${response.status}`);
@@ -1,4 +1,5 @@
 import type { GitHubStats, GitHubRelease } from '../types';
+import { httpFetch } from '../http/client';
 
 const REPO = 'n8n-io/n8n';
 
@@ -8,7 +9,7 @@ const REPO = 'n8n-io/n8n';
  */
 export async function fetchGitHubStats(): Promise<GitHubStats> {
   try {
-    const response = await fetch(`https://api.github.com/repos/${REPO}`, {
+    const response = await httpFetch(`https://api.github.com/repos/${REPO}`, {
       headers: {
         'Accept': 'application/vnd.github.v3+json',
         // Add token if available for higher rate limits
@@ -58,7 +59,7 @@ function getFallbackStats(): GitHubStats {
  */
 export async function fetchGitHubReleases(limit = 10): Promise<GitHubRelease[]> {
   try {
-    const response = await fetch(`https://api.github.com/repos/${REPO}/releases?per_page=${limit}`, {
+    const response = await httpFetch(`https://api.github.com/repos/${REPO}/releases?per_page=${limit}`, {
       headers: {
         'Accept': 'application/vnd.github.v3+json',
         ...(import.meta.env.GITHUB_TOKEN && {
@@ -100,7 +101,7 @@ export async function fetchAllGitHubReleases(): Promise<GitHubRelease[]> {
     const perPage = 100;
 
     while (true) {
-      const response = await fetch(
+      const response = await httpFetch(
         `https://api.github.com/repos/${REPO}/releases?per_page=${perPage}&page=${page}`,
         {
           headers: {
@@ -149,7 +150,7 @@ export async function fetchAllGitHubReleases(): Promise<GitHubRelease[]> {
  */
 export async function fetchContributorCount(): Promise<number> {
   try {
-    const response = await fetch(`https://api.github.com/repos/${REPO}/contributors?per_page=1&anon=true`, {
+    const response = await httpFetch(`https://api.github.com/repos/${REPO}/contributors?per_page=1&anon=true`, {
       headers: {
         'Accept': 'application/vnd.github.v3+json',
         ...(import.meta.env.GITHUB_TOKEN && {
@@ -4,6 +4,8 @@
  * by parsing JSON-LD structured data embedded in the HTML
  */
 
+import { httpFetch } from '../http/client';
+
 export interface LumaEvent {
   id: string;
   name: string;
@@ -176,7 +178,7 @@ export async function fetchLumaEvents(period: 'upcoming' | 'past' = 'upcoming'):
     ? `${LUMA_CALENDAR_URL}?k=c&period=past`
     : `${LUMA_CALENDAR_URL}?k=c`;
 
-  const response = await fetch(url, {
+  const response = await httpFetch(url, {
     headers: {
       'User-Agent': 'n8n-stats/1.0',
       'Accept': 'text/html',
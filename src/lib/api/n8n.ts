@@ -1,4 +1,5 @@
 import type { Template, TemplatesResponse, NodeUsage } from '../types';
+import { httpFetch } from '../http/client';
 
 const API_BASE = 'https://api.n8n.io/api';
 
@@ -55,7 +56,7 @@ export async function fetchTemplates(options: FetchTemplatesOptions = {}): Promi
     params.set('search', search);
   }
 
-  const response = await fetch(`${API_BASE}/templates/search?${params}`);
+  const response = await httpFetch(`${API_BASE}/templates/search?${params}`);
 
   if (!response.ok) {
     throw new Error(`Failed to fetch templates: ${response.status}`);
@@ -176,7 +177,7 @@ export function getTopCreators(templates: Template[]): Array<{
  * Fetch template statistics including category and node counts from API filters
  */
 export async function fetchTemplateStats(): Promise<TemplateStats> {
-  const response = await fetch(`${API_BASE}/templates/search?rows=1`, {
+  const response = await httpFetch(`${API_BASE}/templates/search?rows=1`, {
     headers: {
       'User-Agent': 'n8n-pulse',
     },
@@ -289,7 +290,7 @@ export interface TemplateAnalytics {
  */
 export async function fetchTemplateAnalytics(): Promise<TemplateAnalytics> {
   // Fetch templates with full data (100 for trending sample)
-  const response = await fetch(`${API_BASE}/templates/search?rows=100`, {
+  const response = await httpFetch(`${API_BASE}/templates/search?rows=100`, {
     headers: {
       'User-Agent': 'n8n-pulse',
     },
@@ -452,7 +453,7 @@ export async function fetchTemplateAnalytics(): Promise<TemplateAnalytics> {
   const topCreators = await Promise.all(
     topCreatorsBase.map(async (creator) => {
       try {
-        const response = await fetch(`${API_BASE}/creators/${creator.username}`, {
+        const response = await httpFetch(`${API_BASE}/creators/${creator.username}`, {
           headers: { 'User-Agent': 'n8n-pulse' },
         });
         if (response.ok) {
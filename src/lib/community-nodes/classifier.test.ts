@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  categorizePackages,
+  classify,
+  knownNodeDocuments,
+  packageText,
+  readmeHeadline,
+  selfTrainClassifier,
+  tokenize,
+  trainClassifier,
+} from './classifier';
+import type { KnownNode } from '../nodes/knownNodes';
+
+const NODES: KnownNode[] = [
+  { type: 'n8n-nodes-base.slack', displayName: 'Slack', category: 'Communication' },
+  { type: 'n8n-nodes-base.telegram', displayName: 'Telegram', category: 'Communication' },
+  { type: 'n8n-nodes-base.whatsApp', displayName: 'WhatsApp Business Cloud', category: 'Communication' },
+  { type: '@n8n/n8n-nodes-langchain.lmChatOpenAi', displayName: 'OpenAI Chat Model', category: 'AI' },
+  { type: '@n8n/n8n-nodes-langchain.agent', displayName: 'AI Agent', category: 'AI' },
+  { type: 'n8n-nodes-base.postgres', displayName: 'Postgres', category: 'Database & Storage' },
+  { type: 'n8n-nodes-base.mySql', displayName: 'MySQL', category: 'Database & Storage' },
+  { type: 'n8n-nodes-base.openWeatherMap', displayName: 'OpenWeatherMap', category: 'Other' },
+];
+
+describe('tokenize', () => {
+  it('splits camelCase and punctuation and drops stop words', () => {
+    expect(tokenize('lmChatOpenAi for the n8n-nodes WhatsApp API')).toEqual(['lm', 'chat', 'open', 'ai', 'whats', 'app']);
+    expect(tokenize('Integração com o WhatsApp 2024')).toEqual(['integracao', 'whats', 'app']);
+  });
+});
+
+describe('packageText', () => {
+  it('strips scope and n8n prefixes and URLs', () => {
+    expect(packageText({
+      name: '@acme/n8n-nodes-telegram-bot',
+      description: 'Bots, see https://example.com/docs',
+      keywords: ['chat'],
+      readmeHeadline: 'Telegram bot',
+    })).toBe('telegram-bot Bots, see   chat Telegram bot');
+  });
+});
+
+describe('readmeHeadline', () => {
+  it('takes the first heading and paragraph without markup', () => {
+    const readme = [
+      '[![npm](https://img.shields.io/npm/v/x.svg)](https://npmjs.com/x)',
+      '# n8n-nodes-telegram',
+      'Send **Telegram** messages from [n8n](https://n8n.io).',
+      '## Installation',
+    ].join('\n\n');
+    expect(readmeHeadline(readme)).toBe('n8n-nodes-telegram Send Telegram messages from n8n.');
+    expect(readmeHeadline(undefined)).toBeUndefined();
+    expect(readmeHeadline('![logo](x.png)')).toBeUndefined();
+  });
+});
+
+describe('knownNodeDocuments', () => {
+  it('builds one document per node outside Other', () => {
+    const documents = knownNodeDocuments(NODES);
+    expect(documents).toHaveLength(7);
+    expect(documents[0]).toEqual({ text: 'Slack slack Communication', label: 'Communication' });
+  });
+});
+
+describe('classify', () => {
+  const model = trainClassifier(knownNodeDocuments(NODES));
+
+  it('picks the category whose nodes share the terms', () => {
+    expect(classify(model, 'Send Telegram and Slack alerts')).toMatchObject({ category: 'Communication' });
+    expect(classify(model, 'Postgres vector search').category).toBe('Database & Storage');
+    expect(classify(model, 'OpenAI agent').confidence).toBeGreaterThan(0.9);
+  });
+
+  it('falls back with confidence 0 when no term is known', () => {
+    expect(classify(model, 'Weather forecasts for farms')).toEqual({ category: 'Other', confidence: 0 });
+  });
+});
+
+describe('selfTrainClassifier', () => {
+  it('learns terms that recur in confidently labelled texts', () => {
+    const texts = [
+      'Telegram chatbot builder',
+      'Slack chatbot helper',
+      'WhatsApp chatbot sender',
+      'Postgres backups',
+    ];
+    const before = trainClassifier(knownNodeDocuments(NODES));
+    const after = selfTrainClassifier(knownNodeDocuments(NODES), texts);
+
+    expect(classify(before, 'chatbot').confidence).toBe(0);
+    expect(classify(after, 'chatbot').category).toBe('Communication');
+    // Seen in a single text only, so not learned
+    expect(classify(after, 'backups').confidence).toBe(0);
+  });
+});
+
+describe('categorizePackages', () => {
+  it('applies overrides and leaves uncertain packages in Other', () => {
+    const categories = categorizePackages([
+      { name: 'n8n-nodes-telegram-pro', description: 'Telegram bots' },
+      { name: 'n8n-nodes-weather', description: 'Forecasts' },
+      { name: 'n8n-nodes-pinned', description: 'Telegram bots' },
+    ], NODES, { 'n8n-nodes-pinned': 'Productivity' });
+
+    expect(categories.get('n8n-nodes-telegram-pro')).toMatchObject({ category: 'Communication', source: 'model' });
+    expect(categories.get('n8n-nodes-weather')).toEqual({ category: 'Other', confidence: 0, source: 'model' });
+    expect(categories.get('n8n-nodes-pinned')).toEqual({ category: 'Productivity', confidence: 1, source: 'override' });
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Community node package classifier
+ *
+ * Pure functions. A multinomial naive Bayes text classifier over TF-IDF
+ * weighted terms, trained on the built-in nodes in KNOWN_NODES (display
+ * name, node type and category name) so packages share the categories
+ * used on /nodes. Built-in node names are a small vocabulary, so the model
+ * is then self-trained: packages it already labels confidently are added
+ * as training documents and the model is refit, which picks up words like
+ * "llm" or "whatsapp" from package descriptions.
+ *
+ * Each package gets the most likely category and its posterior probability
+ * as confidence; below MIN_CONFIDENCE it is 'Other'. Overrides pinned in
+ * external/community-category-overrides.json always win.
+ */
+
+import type { KnownNode } from '../nodes/knownNodes';
+
+// Types
+
+export interface TrainingDocument {
+  text: string;
+  label: string;
+  /** How much the document counts towards its label's term weights (default 1) */
+  weight?: number;
+}
+
+export interface CategoryModel {
+  labels: string[];
+  /** Inverse document frequency per term over the training documents */
+  idf: Record<string, number>;
+  /** log P(term | label) per label, for terms seen in training */
+  termLogProb: Record<string, Record<string, number>>;
+  /** log P(term | label) of a vocabulary term never seen with the label */
+  unseenLogProb: Record<string, number>;
+}
+
+export interface Classification {
+  category: string;
+  /** Posterior probability of the category (0-1); 0 with no known terms */
+  confidence: number;
+}
+
+export interface CategorizedPackage extends Classification {
+  source: 'model' | 'override';
+}
+
+/** The parts of a package the classifier reads */
+export interface PackageText {
+  name: string;
+  description?: string;
+  keywords?: string[];
+  /** First heading and paragraph of the README, when known */
+  readmeHeadline?: string;
+}
+
+/** Category for packages the model can't place */
+export const FALLBACK_CATEGORY = 'Other';
+
+/** Posterior below which a package is left in FALLBACK_CATEGORY */
+export const MIN_CONFIDENCE = 0.5;
+
+/** Posterior a package needs to become a self-training document */
+const SELF_TRAINING_CONFIDENCE = 0.9;
+const SELF_TRAINING_ROUNDS = 2;
+
+/** Weight of a self-training document relative to a built-in node, so one package can't redefine a category */
+const SELF_TRAINING_WEIGHT = 0.3;
+
+/** Confidently labelled packages a new term must appear in before self-training learns it */
+const MIN_NEW_TERM_DOCUMENTS = 3;
+
+/** Laplace smoothing for term probabilities */
+const SMOOTHING = 0.01;
+
+/**
+ * Words that say nothing about the category: English, Portuguese and
+ * Spanish function words, and the boilerplate of the n8n node starter
+ * ("This is an n8n community node. It lets you use X in your n8n workflows.")
+ */
+const STOP_WORDS = new Set([
+  'a', 'all', 'allow', 'allows', 'also', 'an', 'and', 'any', 'api', 'are', 'as', 'at', 'base', 'based', 'be',
+  'by', 'can', 'com', 'community', 'custom', 'da', 'de', 'do', 'e', 'el', 'em', 'en', 'for', 'from', 'has',
+  'in', 'integrate', 'integration', 'integrations', 'into', 'is', 'it', 'its', 'la', 'langchain', 'lets', 'los',
+  'more', 'n8n', 'new', 'no', 'node', 'nodes', 'o', 'of', 'official', 'on', 'or', 'os', 'package', 'para',
+  'plugin', 'por', 'provides', 'que', 'simple', 'support', 'that', 'the', 'this', 'to', 'trigger', 'um', 'uma',
+  'use', 'using', 'via', 'with', 'workflow', 'workflows', 'you', 'your',
+  // Too generic in package descriptions, though they appear in category or node names
+  'data', 'tool', 'tools',
+]);
+
+// Text
+
+/**
+ * Lowercase terms: camelCase and punctuation split words, stop words and
+ * single characters dropped
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term) && !/^\d+$/.test(term));
+}
+
+/**
+ * Text of a package: name without scope and n8n prefixes, description,
+ * keywords and README headline
+ */
+export function packageText(pkg: PackageText): string {
+  const name = pkg.name.replace(/^@[^/]+\//, '').replace(/^(@?n8n-nodes-|n8n-)/, '');
+  return [name, pkg.description ?? '', ...(pkg.keywords ?? []), pkg.readmeHeadline ?? '']
+    .join(' ')
+    .replace(/\bhttps?:\/\/\S+/g, ' ');
+}
+
+/**
+ * First heading and first paragraph of a markdown README, without markup,
+ * at most 200 characters
+ */
+export function readmeHeadline(readme: string | undefined): string | undefined {
+  if (!readme) return undefined;
+  const blocks = readme
+    .replace(/<[^>]+>/g, ' ')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block && !/^(!\[|\[!\[|```|\||---)/.test(block));
+
+  const heading = blocks.find(block => block.startsWith('#'));
+  const paragraph = blocks.find(block => !block.startsWith('#'));
+  const text = [heading, paragraph]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/[#*_`>]/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text ? text.slice(0, 200) : undefined;
+}
+
+/**
+ * One training document per built-in node, skipping the catch-all category
+ */
+export function knownNodeDocuments(nodes: KnownNode[]): TrainingDocument[] {
+  return nodes
+    .filter(node => node.category !== FALLBACK_CATEGORY)
+    .map(node => ({
+      text: `${node.displayName} ${node.type.split('.').pop() ?? ''} ${node.category}`,
+      label: node.category,
+    }));
+}
+
+// Model
+
+/**
+ * TF-IDF weights of the known terms, scaled to unit length so long
+ * descriptions don't produce overconfident posteriors
+ */
+function termWeights(terms: string[], idf: Record<string, number>): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const term of terms) {
+    if (idf[term] === undefined) continue;
+    weights.set(term, (weights.get(term) ?? 0) + idf[term]);
+  }
+  const norm = Math.sqrt([...weights.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  for (const [term, weight] of weights) weights.set(term, weight / norm);
+  return weights;
+}
+
+/**
+ * Fit the model. Priors are uniform: built-in node counts per category
+ * say little about how common each category is among community packages.
+ */
+export function trainClassifier(documents: TrainingDocument[]): CategoryModel {
+  const tokenized = documents.map(doc => ({ terms: tokenize(doc.text), label: doc.label, weight: doc.weight ?? 1 }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const { terms } of tokenized) {
+    for (const term of new Set(terms)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf: Record<string, number> = {};
+  for (const [term, df] of documentFrequency) {
+    idf[term] = Math.log((1 + tokenized.length) / (1 + df)) + 1;
+  }
+
+  const labels = [...new Set(documents.map(doc => doc.label))].sort();
+  const totals = new Map<string, Map<string, number>>(labels.map(label => [label, new Map()]));
+  for (const { terms, label, weight: documentWeight } of tokenized) {
+    const counts = totals.get(label)!;
+    for (const [term, weight] of termWeights(terms, idf)) counts.set(term, (counts.get(term) ?? 0) + weight * documentWeight);
+  }
+
+  const vocabularySize = documentFrequency.size;
+  const termLogProb: CategoryModel['termLogProb'] = {};
+  const unseenLogProb: CategoryModel['unseenLogProb'] = {};
+  for (const label of labels) {
+    const counts = totals.get(label)!;
+    const total = [...counts.values()].reduce((sum, weight) => sum + weight, 0);
+    const denominator = Math.log(total + SMOOTHING * vocabularySize);
+    termLogProb[label] = {};
+    for (const [term, weight] of counts) termLogProb[label][term] = Math.log(weight + SMOOTHING) - denominator;
+    unseenLogProb[label] = Math.log(SMOOTHING) - denominator;
+  }
+
+  return { labels, idf, termLogProb, unseenLogProb };
+}
+
+/**
+ * Most likely category and its posterior. Terms outside the training
+ * vocabulary are ignored; text with none left is FALLBACK_CATEGORY with
+ * confidence 0.
+ */
+export function classify(model: CategoryModel, text: string): Classification {
+  const weights = termWeights(tokenize(text), model.idf);
+  if (weights.size === 0 || model.labels.length === 0) return { category: FALLBACK_CATEGORY, confidence: 0 };
+
+  const scores = model.labels.map(label => {
+    let score = 0;
+    for (const [term, weight] of weights) {
+      score += weight * (model.termLogProb[label][term] ?? model.unseenLogProb[label]);
+    }
+    return score;
+  });
+
+  // Softmax over the log scores
+  const max = Math.max(...scores);
+  const exp = scores.map(score => Math.exp(score - max));
+  const sum = exp.reduce((total, value) => total + value, 0);
+  const best = scores.indexOf(max);
+  return { category: model.labels[best], confidence: exp[best] / sum };
+}
+
+/**
+ * Train on the labelled documents, then refit with the texts the model
+ * labels with at least SELF_TRAINING_CONFIDENCE. Those texts only teach
+ * terms found in MIN_NEW_TERM_DOCUMENTS of them (or in the labelled
+ * documents), so one-off words don't become evidence.
+ */
+export function selfTrainClassifier(
+  documents: TrainingDocument[],
+  texts: string[],
+  rounds: number = SELF_TRAINING_ROUNDS
+): CategoryModel {
+  const seedTerms = new Set(documents.flatMap(doc => tokenize(doc.text)));
+  let model = trainClassifier(documents);
+
+  for (let round = 0; round < rounds; round++) {
+    const confident = texts.flatMap(text => {
+      const { category, confidence } = classify(model, text);
+      return confidence >= SELF_TRAINING_CONFIDENCE ? [{ terms: tokenize(text), label: category }] : [];
+    });
+
+    const documentFrequency = new Map<string, number>();
+    for (const { terms } of confident) {
+      for (const term of new Set(terms)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    const learnable = (term: string) => seedTerms.has(term) || (documentFrequency.get(term) ?? 0) >= MIN_NEW_TERM_DOCUMENTS;
+
+    model = trainClassifier([
+      ...documents,
+      ...confident.map(({ terms, label }) => ({ text: terms.filter(learnable).join(' '), label, weight: SELF_TRAINING_WEIGHT })),
+    ]);
+  }
+  return model;
+}
+
+// Packages
+
+/**
+ * Category and confidence for every package, by name. Pinned overrides
+ * win with confidence 1; model predictions below MIN_CONFIDENCE become
+ * FALLBACK_CATEGORY.
+ */
+export function categorizePackages(
+  packages: PackageText[],
+  trainingNodes: KnownNode[],
+  overrides: Record<string, string> = {}
+): Map<string, CategorizedPackage> {
+  const texts = packages.map(packageText);
+  const model = selfTrainClassifier(knownNodeDocuments(trainingNodes), texts);
+
+  const result = new Map<string, CategorizedPackage>();
+  packages.forEach((pkg, i) => {
+    const pinned = overrides[pkg.name];
+    if (pinned) {
+      result.set(pkg.name, { category: pinned, confidence: 1, source: 'override' });
+      return;
+    }
+    const { category, confidence } = classify(model, texts[i]);
+    result.set(pkg.name, {
+      category: confidence >= MIN_CONFIDENCE ? category : FALLBACK_CATEGORY,
+      confidence: Math.round(confidence * 100) / 100,
+      source: 'model',
+    });
+  });
+  return result;
+}
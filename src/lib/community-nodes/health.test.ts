@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { assessPackageHealth, checkCompatibility, healthStatus, summarizeHealth, type Packument } from './health';
+
+const NOW = new Date('2026-10-01T00:00:00Z');
+
+/** Packument with one version per release date; the last one is latest */
+function packument(dates: string[], latest: Partial<NonNullable<Packument['versions']>[string]> = {}): Packument {
+  const versions: NonNullable<Packument['versions']> = {};
+  const time: Record<string, string> = { created: `${dates[0]}T00:00:00Z`, modified: '2026-09-30T00:00:00Z' };
+  dates.forEach((date, i) => {
+    versions[`0.${i}.0`] = {};
+    time[`0.${i}.0`] = `${date}T00:00:00Z`;
+  });
+  const latestVersion = `0.${dates.length - 1}.0`;
+  versions[latestVersion] = {
+    n8n: { nodes: ['dist/nodes/A.node.js', 'dist/nodes/B.node.js'], credentials: ['dist/credentials/A.credentials.js'] },
+    peerDependencies: { 'n8n-workflow': '*' },
+    ...latest,
+  };
+  return { 'dist-tags': { latest: latestVersion }, time, versions };
+}
+
+describe('healthStatus', () => {
+  it('grades by time since the last release', () => {
+    expect(healthStatus(new Date('2026-06-01'), false, NOW)).toBe('active');
+    expect(healthStatus(new Date('2025-06-01'), false, NOW)).toBe('stale');
+    expect(healthStatus(new Date('2024-06-01'), false, NOW)).toBe('abandoned');
+    expect(healthStatus(new Date('2026-09-01'), true, NOW)).toBe('deprecated');
+  });
+});
+
+describe('checkCompatibility', () => {
+  it('checks the peer range against the current version', () => {
+    expect(checkCompatibility('*', '1.98.0')).toBe('compatible');
+    expect(checkCompatibility('^0.x', '1.98.0')).toBe('incompatible');
+    expect(checkCompatibility(null, '1.98.0')).toBe('unspecified');
+    expect(checkCompatibility('^1.0.0', null)).toBe('unspecified');
+    expect(checkCompatibility('workspace:*', '1.98.0')).toBe('unspecified');
+  });
+});
+
+describe('assessPackageHealth', () => {
+  it('reads cadence, nodes and compatibility from the packument', () => {
+    const health = assessPackageHealth(packument(['2025-01-01', '2025-11-01', '2026-03-01', '2026-09-01']), 5000, '1.98.0', NOW)!;
+
+    expect(health).toMatchObject({
+      status: 'active',
+      lastPublished: '2026-09-01',
+      firstPublished: '2025-01-01',
+      versionCount: 4,
+      releasesLastYear: 3,
+      nodeCount: 2,
+      credentialCount: 1,
+      n8nWorkflowRange: '*',
+      compatibility: 'compatible',
+    });
+    expect(health.medianReleaseIntervalDays).toBe(184);
+    expect(health.score).toBeGreaterThan(80);
+  });
+
+  it('scores old, unused packages low', () => {
+    const health = assessPackageHealth(packument(['2023-01-01'], { peerDependencies: {} }), 0, '1.98.0', NOW)!;
+    expect(health.status).toBe('abandoned');
+    expect(health.compatibility).toBe('unspecified');
+    expect(health.medianReleaseIntervalDays).toBeNull();
+    expect(health.score).toBeLessThan(25);
+  });
+
+  it('scores deprecated packages 0 and keeps the message', () => {
+    const health = assessPackageHealth(packument(['2026-09-01'], { deprecated: 'Use n8n-nodes-other' }), 50000, '1.98.0', NOW)!;
+    expect(health).toMatchObject({ status: 'deprecated', score: 0, deprecated: 'Use n8n-nodes-other' });
+  });
+
+  it('returns null without a latest version', () => {
+    expect(assessPackageHealth({ versions: {} }, 0, null, NOW)).toBeNull();
+  });
+});
+
+describe('summarizeHealth', () => {
+  it('counts checked packages per status', () => {
+    const summary = summarizeHealth([
+      { health: assessPackageHealth(packument(['2026-09-01']), 0, null, NOW)! },
+      { health: assessPackageHealth(packument(['2023-09-01']), 0, null, NOW)! },
+      {},
+    ]);
+    expect(summary).toEqual({ active: 1, stale: 0, abandoned: 1, deprecated: 0 });
+  });
+});
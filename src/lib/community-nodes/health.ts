@@ -0,0 +1,188 @@
+/**
+ * Community node package health
+ *
+ * Pure functions. scripts/fetch-community-nodes.ts reads each package's
+ * registry document (the "packument": every version with its publish
+ * time and package.json) and condenses it to PackageHealth: how recently
+ * and how often it is released, whether it is deprecated, how many n8n
+ * nodes it declares and whether its n8n-workflow peer range accepts the
+ * current n8n-workflow release. The score weighs those facts together
+ * with adoption (weekly downloads) into 0-100.
+ */
+
+import { calculateStats } from '../utils/statistics';
+import { satisfies } from '../utils/semver';
+
+export type HealthStatus = 'active' | 'stale' | 'abandoned' | 'deprecated';
+
+export type Compatibility = 'compatible' | 'incompatible' | 'unspecified';
+
+export interface PackageHealth {
+  /** 0-100; 0 for deprecated packages */
+  score: number;
+  status: HealthStatus;
+  /** Publish date of the latest version (YYYY-MM-DD) */
+  lastPublished: string;
+  firstPublished: string;
+  versionCount: number;
+  releasesLastYear: number;
+  /** Median days between the last releases; null with fewer than two */
+  medianReleaseIntervalDays: number | null;
+  /** Entries in package.json's n8n.nodes */
+  nodeCount: number;
+  credentialCount: number;
+  /** peerDependencies['n8n-workflow'] of the latest version */
+  n8nWorkflowRange: string | null;
+  compatibility: Compatibility;
+  /** Deprecation message of the latest version */
+  deprecated?: string;
+}
+
+/** The parts of an npm packument used here */
+export interface Packument {
+  'dist-tags'?: { latest?: string };
+  time?: Record<string, string>;
+  versions?: Record<string, {
+    deprecated?: string | boolean;
+    peerDependencies?: Record<string, string>;
+    n8n?: { nodes?: string[]; credentials?: string[] };
+  }>;
+}
+
+/** Months without a release before a package counts as stale, then abandoned */
+export const STALE_AFTER_MONTHS = 12;
+export const ABANDONED_AFTER_MONTHS = 24;
+
+/** Releases considered for the median interval */
+const CADENCE_WINDOW = 10;
+
+/** Weekly downloads that earn full adoption marks */
+const FULL_ADOPTION_DOWNLOADS = 10_000;
+
+const WEIGHTS = {
+  recency: 0.3,
+  cadence: 0.15,
+  compatibility: 0.2,
+  nodes: 0.1,
+  adoption: 0.25,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (DAY_MS * 30.44);
+}
+
+export function healthStatus(lastPublished: Date, deprecated: boolean, now: Date): HealthStatus {
+  if (deprecated) return 'deprecated';
+  const months = monthsBetween(lastPublished, now);
+  if (months > ABANDONED_AFTER_MONTHS) return 'abandoned';
+  if (months > STALE_AFTER_MONTHS) return 'stale';
+  return 'active';
+}
+
+/**
+ * Whether the peer range accepts the current n8n-workflow version.
+ * Packages without the peer dependency (or an unparseable range, or no
+ * known current version) are 'unspecified'.
+ */
+export function checkCompatibility(range: string | null, currentVersion: string | null): Compatibility {
+  if (!range || !currentVersion) return 'unspecified';
+  const result = satisfies(currentVersion, range);
+  if (result === null) return 'unspecified';
+  return result ? 'compatible' : 'incompatible';
+}
+
+/**
+ * Score from 0 to 100. Each factor is 0-1:
+ * - recency: 1 within 3 months of the last release, falling to 0 at 24
+ * - cadence: releases in the last year, 4 or more is full marks
+ * - compatibility: 1 compatible, 0.5 unspecified, 0 incompatible
+ * - nodes: declares at least one node (otherwise n8n can't load it)
+ * - adoption: log-scaled weekly downloads, full marks at 10k
+ */
+export function scoreHealth(
+  health: Omit<PackageHealth, 'score' | 'status'>,
+  downloadsWeekly: number,
+  now: Date
+): number {
+  if (health.deprecated) return 0;
+
+  const months = monthsBetween(new Date(health.lastPublished), now);
+  const recency = Math.max(0, Math.min(1, 1 - (months - 3) / (ABANDONED_AFTER_MONTHS - 3)));
+  const cadence = Math.min(1, health.releasesLastYear / 4);
+  const compatibility = { compatible: 1, unspecified: 0.5, incompatible: 0 }[health.compatibility];
+  const nodes = health.nodeCount > 0 ? 1 : 0;
+  const adoption = Math.min(1, Math.log10(downloadsWeekly + 1) / Math.log10(FULL_ADOPTION_DOWNLOADS));
+
+  const score =
+    WEIGHTS.recency * recency +
+    WEIGHTS.cadence * cadence +
+    WEIGHTS.compatibility * compatibility +
+    WEIGHTS.nodes * nodes +
+    WEIGHTS.adoption * adoption;
+  return Math.round(score * 100);
+}
+
+/**
+ * Health of a package from its packument; null when the packument has no
+ * latest version or publish times
+ */
+export function assessPackageHealth(
+  packument: Packument,
+  downloadsWeekly: number,
+  currentN8nWorkflow: string | null,
+  now: Date = new Date()
+): PackageHealth | null {
+  const latest = packument['dist-tags']?.latest;
+  const manifest = latest ? packument.versions?.[latest] : undefined;
+  if (!latest || !manifest) return null;
+
+  // Publish times per version; 'created' and 'modified' aren't versions
+  const releases = Object.entries(packument.time ?? {})
+    .filter(([version]) => version !== 'created' && version !== 'modified' && packument.versions?.[version])
+    .map(([, time]) => new Date(time))
+    .filter(date => !isNaN(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+  const lastPublished = packument.time?.[latest] ? new Date(packument.time[latest]) : releases[releases.length - 1];
+  if (!lastPublished || releases.length === 0) return null;
+
+  const yearAgo = now.getTime() - 365 * DAY_MS;
+  const recent = releases.slice(-CADENCE_WINDOW);
+  const intervals = recent.slice(1).map((date, i) => (date.getTime() - recent[i].getTime()) / DAY_MS);
+
+  const range = manifest.peerDependencies?.['n8n-workflow'] ?? null;
+  const deprecated = manifest.deprecated
+    ? (typeof manifest.deprecated === 'string' ? manifest.deprecated : 'Deprecated')
+    : undefined;
+
+  const facts: Omit<PackageHealth, 'score' | 'status'> = {
+    lastPublished: lastPublished.toISOString().split('T')[0],
+    firstPublished: releases[0].toISOString().split('T')[0],
+    versionCount: releases.length,
+    releasesLastYear: releases.filter(date => date.getTime() >= yearAgo).length,
+    medianReleaseIntervalDays: intervals.length > 0 ? Math.round(calculateStats(intervals).median) : null,
+    nodeCount: manifest.n8n?.nodes?.length ?? 0,
+    credentialCount: manifest.n8n?.credentials?.length ?? 0,
+    n8nWorkflowRange: range,
+    compatibility: checkCompatibility(range, currentN8nWorkflow),
+    ...(deprecated ? { deprecated } : {}),
+  };
+
+  return {
+    score: scoreHealth(facts, downloadsWeekly, now),
+    status: healthStatus(lastPublished, !!deprecated, now),
+    ...facts,
+  };
+}
+
+/**
+ * Packages per status, over the packages that have a health check
+ */
+export function summarizeHealth(packages: Array<{ health?: PackageHealth }>): Record<HealthStatus, number> {
+  const summary: Record<HealthStatus, number> = { active: 0, stale: 0, abandoned: 0, deprecated: 0 };
+  for (const pkg of packages) {
+    if (pkg.health) summary[pkg.health.status]++;
+  }
+  return summary;
+}
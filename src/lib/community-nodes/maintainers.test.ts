@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateMaintainers, rankMaintainers, type MaintainedPackage } from './maintainers';
+
+const PACKAGES: MaintainedPackage[] = [
+  { name: 'n8n-nodes-a', author: 'alice', downloadsWeekly: 1000, health: { score: 80, status: 'active', nodeCount: 2 } },
+  { name: 'n8n-nodes-b', author: 'alice', downloadsWeekly: 200, health: { score: 40, status: 'stale', nodeCount: 1 } },
+  { name: 'n8n-nodes-c', author: 'bob', downloadsWeekly: 50 },
+  { name: 'n8n-nodes-d', author: 'bob', downloadsWeekly: 10 },
+  { name: 'n8n-nodes-e', author: 'bob', downloadsWeekly: 5 },
+  { name: 'n8n-nodes-f', author: 'unknown', downloadsWeekly: 99999 },
+];
+
+describe('aggregateMaintainers', () => {
+  it('groups packages by publisher, most downloaded first', () => {
+    const [alice, bob, ...rest] = aggregateMaintainers(PACKAGES);
+
+    expect(rest).toEqual([]);
+    expect(alice).toEqual({
+      username: 'alice',
+      packageCount: 2,
+      downloadsWeekly: 1200,
+      nodeCount: 3,
+      avgHealth: 60,
+      activePackages: 1,
+      topPackage: 'n8n-nodes-a',
+    });
+    expect(bob).toMatchObject({ packageCount: 3, downloadsWeekly: 65, avgHealth: null, topPackage: 'n8n-nodes-c' });
+  });
+});
+
+describe('rankMaintainers', () => {
+  it('ranks by downloads or by package count', () => {
+    const maintainers = aggregateMaintainers(PACKAGES);
+    expect(rankMaintainers(maintainers, 'downloads').map(m => m.username)).toEqual(['alice', 'bob']);
+    expect(rankMaintainers(maintainers, 'packages').map(m => m.username)).toEqual(['bob', 'alice']);
+    expect(rankMaintainers(maintainers, 'packages', 1)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Community node maintainers
+ *
+ * Pure functions. Groups community node packages by npm publisher (the
+ * `author` field written by fetch-community-nodes.ts) for the maintainer
+ * leaderboards on /nodes/community.
+ */
+
+import type { PackageHealth } from './health';
+
+export interface MaintainedPackage {
+  name: string;
+  author: string;
+  downloadsWeekly: number;
+  health?: Pick<PackageHealth, 'score' | 'status' | 'nodeCount'>;
+}
+
+export interface Maintainer {
+  username: string;
+  packageCount: number;
+  downloadsWeekly: number;
+  /** Nodes declared across their health-checked packages */
+  nodeCount: number;
+  /** Mean health score of their health-checked packages; null if none were checked */
+  avgHealth: number | null;
+  /** Health-checked packages released in the last year */
+  activePackages: number;
+  /** Their most downloaded package */
+  topPackage: string;
+}
+
+export type MaintainerRanking = 'downloads' | 'packages';
+
+/**
+ * One entry per publisher, most downloaded first. Packages without a
+ * known publisher are left out.
+ */
+export function aggregateMaintainers(packages: MaintainedPackage[]): Maintainer[] {
+  const byUser = new Map<string, { packages: MaintainedPackage[]; downloads: number }>();
+
+  for (const pkg of packages) {
+    if (!pkg.author || pkg.author === 'unknown') continue;
+    const entry = byUser.get(pkg.author) ?? { packages: [], downloads: 0 };
+    entry.packages.push(pkg);
+    entry.downloads += pkg.downloadsWeekly;
+    byUser.set(pkg.author, entry);
+  }
+
+  return [...byUser.entries()]
+    .map(([username, { packages: owned, downloads }]) => {
+      const checked = owned.filter(p => p.health);
+      const top = owned.reduce((best, p) => (p.downloadsWeekly > best.downloadsWeekly ? p : best));
+      return {
+        username,
+        packageCount: owned.length,
+        downloadsWeekly: downloads,
+        nodeCount: checked.reduce((sum, p) => sum + p.health!.nodeCount, 0),
+        avgHealth: checked.length > 0
+          ? Math.round(checked.reduce((sum, p) => sum + p.health!.score, 0) / checked.length)
+          : null,
+        activePackages: checked.filter(p => p.health!.status === 'active').length,
+        topPackage: top.name,
+      };
+    })
+    .sort((a, b) => b.downloadsWeekly - a.downloadsWeekly || b.packageCount - a.packageCount || a.username.localeCompare(b.username));
+}
+
+/**
+ * Top maintainers by weekly downloads or by number of packages
+ */
+export function rankMaintainers(maintainers: Maintainer[], by: MaintainerRanking, limit = 20): Maintainer[] {
+  const sorted = [...maintainers].sort((a, b) => by === 'downloads'
+    ? b.downloadsWeekly - a.downloadsWeekly || b.packageCount - a.packageCount
+    : b.packageCount - a.packageCount || b.downloadsWeekly - a.downloadsWeekly);
+  return sorted.slice(0, limit);
+}
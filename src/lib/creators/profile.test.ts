@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addTimelineSnapshot,
+  getCreatorHistory,
+  getLinkedAmbassadors,
+  getLinkedEvents,
+  getNodeMix,
+  getRankMovement,
+  type CreatorTemplate,
+  type LinkableEvent,
+} from './profile';
+
+function leaderboard(...usernames: string[]) {
+  return usernames.map((username, i) => ({
+    username,
+    totalViews: 1000 - i * 100,
+    totalInserters: 100 - i * 10,
+    templateCount: 5,
+  }));
+}
+
+function template(id: number, nodes: string[]): CreatorTemplate {
+  return { id, name: `Template ${id}`, createdAt: '2025-01-01', views: 10, inserters: 1, nodes };
+}
+
+function event(id: string, startDate: string, hosts: LinkableEvent['hosts']): LinkableEvent {
+  return { id, name: `Event ${id}`, startDate, hosts };
+}
+
+describe('addTimelineSnapshot', () => {
+  it('ranks creators in order and caps the leaderboard', () => {
+    const timeline = addTimelineSnapshot(null, '2026-01-05', leaderboard('a', 'b', 'c'), 2);
+
+    expect(timeline.weekly).toHaveLength(1);
+    expect(timeline.weekly[0].creators.map(c => [c.username, c.rank])).toEqual([['a', 1], ['b', 2]]);
+  });
+
+  it('replaces the snapshot of the same week and keeps dates sorted', () => {
+    let timeline = addTimelineSnapshot(null, '2026-01-14', leaderboard('a', 'b'));
+    timeline = addTimelineSnapshot(timeline, '2026-01-06', leaderboard('a', 'b'));
+    timeline = addTimelineSnapshot(timeline, '2026-01-15', leaderboard('b', 'a'));
+
+    expect(timeline.weekly.map(s => s.date)).toEqual(['2026-01-06', '2026-01-15']);
+    expect(timeline.weekly[1].creators[0].username).toBe('b');
+  });
+});
+
+describe('getCreatorHistory', () => {
+  it('skips weeks the creator was off the leaderboard', () => {
+    let timeline = addTimelineSnapshot(null, '2026-01-05', leaderboard('a', 'b'));
+    timeline = addTimelineSnapshot(timeline, '2026-01-12', leaderboard('a'));
+    timeline = addTimelineSnapshot(timeline, '2026-01-19', leaderboard('b', 'a'));
+
+    const history = getCreatorHistory(timeline, 'b');
+    expect(history.map(p => [p.date, p.rank])).toEqual([['2026-01-05', 2], ['2026-01-19', 1]]);
+    expect(history[0]).not.toHaveProperty('username');
+  });
+
+  it('returns nothing without a timeline', () => {
+    expect(getCreatorHistory(null, 'a')).toEqual([]);
+  });
+});
+
+describe('getRankMovement', () => {
+  const history = ['2026-01-05', '2026-01-12', '2026-01-19', '2026-01-26'].map((date, i) => ({
+    date,
+    rank: [9, 7, 4, 5][i],
+    totalViews: 0,
+    totalInserters: 0,
+    templateCount: 0,
+  }));
+
+  it('compares with the snapshot the given weeks back', () => {
+    expect(getRankMovement(history, 5, 1)).toEqual({ current: 5, previous: 4, change: -1, since: '2026-01-19' });
+    expect(getRankMovement(history, 5, 2).change).toBe(2);
+  });
+
+  it('falls back to the oldest snapshot for longer windows', () => {
+    expect(getRankMovement(history, 5, 12)).toMatchObject({ previous: 9, change: 4, since: '2026-01-05' });
+  });
+
+  it('has no movement with a single snapshot', () => {
+    expect(getRankMovement(history.slice(0, 1), 9, 1).change).toBeNull();
+  });
+});
+
+describe('getNodeMix', () => {
+  it('counts each node once per template and leaves out sticky notes', () => {
+    const mix = getNodeMix([
+      template(1, ['n8n-nodes-base.httpRequest', 'n8n-nodes-base.stickyNote', 'n8n-nodes-base.set']),
+      template(2, ['n8n-nodes-base.httpRequest', 'n8n-nodes-base.httpRequest']),
+    ]);
+
+    expect(mix).toEqual([
+      { type: 'n8n-nodes-base.httpRequest', count: 2, share: 1 },
+      { type: 'n8n-nodes-base.set', count: 1, share: 0.5 },
+    ]);
+  });
+});
+
+describe('linked events and ambassadors', () => {
+  const events = [
+    event('e1', '2025-03-01T18:00:00Z', [{ name: 'Ada Lovelace', lumaUsername: 'usr-ada' }]),
+    event('e2', '2025-06-01T18:00:00Z', [{ name: 'Someone Else', lumaUsername: 'usr-other', n8nUsername: 'Ada' }]),
+    event('e3', '2025-05-01T18:00:00Z', [{ name: 'Nobody', lumaUsername: 'usr-nobody' }]),
+  ];
+  const mappings = { 'usr-ada': 'ada' };
+
+  it('links events through the mapping or the recorded n8n username, newest first', () => {
+    expect(getLinkedEvents(events, mappings, 'ada').map(e => e.id)).toEqual(['e2', 'e1']);
+    expect(getLinkedEvents(events, {}, 'nobody')).toEqual([]);
+  });
+
+  it('matches ambassadors by the linked host names', () => {
+    const ambassadors = [
+      { id: 'a1', name: ' ada  lovelace' },
+      { id: 'a2', name: 'Nobody' },
+    ];
+    const linked = getLinkedEvents(events, mappings, 'ada');
+
+    expect(getLinkedAmbassadors(ambassadors, linked, mappings, 'ada').map(a => a.id)).toEqual(['a1']);
+  });
+});
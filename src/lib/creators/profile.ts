@@ -0,0 +1,229 @@
+/**
+ * Creator Profiles
+ *
+ * Builds what a single creator's page shows from the shared data files:
+ * - weekly snapshots of the leaderboard (history/creators-timeline.json)
+ *   for views/inserters history and rank movement
+ * - the creator's templates (external/n8narena-creator-templates.json)
+ *   for the template list and node mix
+ * - events they hosted and ambassador entries, linked through the Luma
+ *   usernames in external/luma-n8n-mapping.json
+ */
+
+import { getWeekKey } from '../history/aggregate';
+
+// Types
+
+export interface CreatorSnapshot {
+  username: string;
+  /** Position by total inserters (1 = most) */
+  rank: number;
+  totalViews: number;
+  totalInserters: number;
+  templateCount: number;
+}
+
+export interface CreatorsTimeline {
+  lastUpdated: string;
+  /** One leaderboard snapshot per week, oldest first */
+  weekly: Array<{ date: string; creators: CreatorSnapshot[] }>;
+}
+
+export interface CreatorHistoryPoint extends Omit<CreatorSnapshot, 'username'> {
+  date: string;
+}
+
+export interface CreatorTemplate {
+  id: number;
+  name: string;
+  createdAt: string;
+  views: number;
+  inserters: number;
+  /** Node types used, e.g. n8n-nodes-base.httpRequest */
+  nodes: string[];
+}
+
+export interface CreatorTemplatesFile {
+  lastUpdated: string;
+  creators: Record<string, CreatorTemplate[]>;
+}
+
+export interface NodeShare {
+  type: string;
+  /** Templates using the node */
+  count: number;
+  /** Share of the creator's templates (0-1) */
+  share: number;
+}
+
+export interface RankMovement {
+  current: number;
+  previous: number | null;
+  /** Places gained (positive) or lost (negative) */
+  change: number | null;
+  since: string | null;
+}
+
+export interface LinkableEvent {
+  id: string;
+  name: string;
+  startDate: string;
+  hosts: Array<{ name: string; lumaUsername: string; n8nUsername?: string }>;
+}
+
+export interface LinkableAmbassador {
+  id: string;
+  name: string;
+}
+
+/** Snapshots keep this many creators (the leaderboard the site shows) */
+export const TIMELINE_CREATOR_LIMIT = 100;
+
+/** Nodes left out of the node mix (present in almost every template) */
+const NODE_MIX_EXCLUDED = ['n8n-nodes-base.stickyNote'];
+
+// Timeline
+
+/**
+ * Add a leaderboard snapshot, replacing any earlier snapshot in the same week.
+ * `creators` must be sorted by rank.
+ */
+export function addTimelineSnapshot(
+  timeline: CreatorsTimeline | null,
+  date: string,
+  creators: Array<Omit<CreatorSnapshot, 'rank'>>,
+  limit: number = TIMELINE_CREATOR_LIMIT
+): CreatorsTimeline {
+  const week = getWeekKey(date);
+  const snapshot = {
+    date,
+    creators: creators.slice(0, limit).map((c, i) => ({
+      username: c.username,
+      rank: i + 1,
+      totalViews: c.totalViews,
+      totalInserters: c.totalInserters,
+      templateCount: c.templateCount,
+    })),
+  };
+
+  const weekly = (timeline?.weekly ?? []).filter(s => getWeekKey(s.date) !== week);
+  weekly.push(snapshot);
+  weekly.sort((a, b) => a.date.localeCompare(b.date));
+
+  return { lastUpdated: new Date().toISOString(), weekly };
+}
+
+/**
+ * A creator's weekly history; weeks they were off the leaderboard are skipped
+ */
+export function getCreatorHistory(timeline: CreatorsTimeline | null, username: string): CreatorHistoryPoint[] {
+  return (timeline?.weekly ?? []).flatMap(snapshot => {
+    const entry = snapshot.creators.find(c => c.username === username);
+    if (!entry) return [];
+    const { username: _username, ...values } = entry;
+    return [{ date: snapshot.date, ...values }];
+  });
+}
+
+/**
+ * Rank change against the snapshot `weeksBack` weeks before the latest one
+ */
+export function getRankMovement(history: CreatorHistoryPoint[], currentRank: number, weeksBack: number): RankMovement {
+  if (history.length < 2) {
+    return { current: currentRank, previous: null, change: null, since: null };
+  }
+
+  const latest = history[history.length - 1];
+  const cutoff = new Date(latest.date);
+  cutoff.setDate(cutoff.getDate() - weeksBack * 7);
+  const cutoffDate = cutoff.toISOString().slice(0, 10);
+
+  // Latest snapshot at or before the cutoff, else the oldest one
+  const earlier = history.slice(0, -1);
+  const previous = [...earlier].reverse().find(p => p.date <= cutoffDate) ?? earlier[0];
+
+  return {
+    current: currentRank,
+    previous: previous.rank,
+    change: previous.rank - currentRank,
+    since: previous.date,
+  };
+}
+
+// Templates
+
+/**
+ * Nodes a creator uses, by how many of their templates use them
+ */
+export function getNodeMix(templates: CreatorTemplate[], limit: number = 12): NodeShare[] {
+  if (templates.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  for (const template of templates) {
+    for (const type of new Set(template.nodes)) {
+      if (NODE_MIX_EXCLUDED.includes(type)) continue;
+      counts.set(type, (counts.get(type) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([type, count]) => ({ type, count, share: count / templates.length }))
+    .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type))
+    .slice(0, limit);
+}
+
+// Events and ambassadors
+
+/**
+ * Luma usernames mapped to this creator
+ */
+export function getLumaUsernames(mappings: Record<string, string>, username: string): string[] {
+  return Object.entries(mappings)
+    .filter(([, n8nUsername]) => n8nUsername.toLowerCase() === username.toLowerCase())
+    .map(([lumaUsername]) => lumaUsername);
+}
+
+/**
+ * Events hosted by the creator, newest first. A host matches through the
+ * current mapping or the n8nUsername recorded when the event was fetched.
+ */
+export function getLinkedEvents<T extends LinkableEvent>(
+  events: T[],
+  mappings: Record<string, string>,
+  username: string
+): T[] {
+  const lumaUsernames = getLumaUsernames(mappings, username);
+  const seen = new Set<string>();
+
+  return events
+    .filter(event => event.hosts.some(host =>
+      lumaUsernames.includes(host.lumaUsername) ||
+      host.n8nUsername?.toLowerCase() === username.toLowerCase()
+    ))
+    .filter(event => !seen.has(event.id) && Boolean(seen.add(event.id)))
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Ambassador entries with the same name as one of the creator's linked event hosts
+ */
+export function getLinkedAmbassadors<T extends LinkableAmbassador>(
+  ambassadors: T[],
+  linkedEvents: LinkableEvent[],
+  mappings: Record<string, string>,
+  username: string
+): T[] {
+  const lumaUsernames = getLumaUsernames(mappings, username);
+  const hostNames = new Set(
+    linkedEvents
+      .flatMap(event => event.hosts)
+      .filter(host => lumaUsernames.includes(host.lumaUsername) || host.n8nUsername?.toLowerCase() === username.toLowerCase())
+      .map(host => normalizeName(host.name))
+  );
+
+  return ambassadors.filter(ambassador => hostNames.has(normalizeName(ambassador.name)));
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { elementSnippet, embedUrl, iframeSnippet, playgroundStateFromUrl } from './charts';
+
+const ORIGIN = 'https://n8n-pulse.gui.do';
+
+describe('playgroundStateFromUrl', () => {
+  it('takes the query string from playground URLs, paths or bare query strings', () => {
+    expect(playgroundStateFromUrl('https://n8n-pulse.gui.do/playground?s=github-stars:c:l&r=2y')).toBe('s=github-stars:c:l&r=2y');
+    expect(playgroundStateFromUrl('/playground/?mode=lag')).toBe('mode=lag');
+    expect(playgroundStateFromUrl('?mode=network&nlimit=30')).toBe('mode=network&nlimit=30');
+    expect(playgroundStateFromUrl('')).toBe('');
+  });
+
+  it('rejects links to other pages', () => {
+    expect(playgroundStateFromUrl('https://n8n-pulse.gui.do/dev?x=1')).toBeNull();
+  });
+});
+
+describe('embed snippets', () => {
+  it('keeps the playground state and drops it for history charts', () => {
+    expect(embedUrl(ORIGIN, { chartId: 'playground', state: '?mode=lag&la=bluesky-posts' }))
+      .toBe('https://n8n-pulse.gui.do/embed/playground?mode=lag&la=bluesky-posts');
+    expect(embedUrl(`${ORIGIN}/`, { chartId: 'github', state: 'r=2y' })).toBe('https://n8n-pulse.gui.do/embed/github');
+  });
+
+  it('escapes state in attributes', () => {
+    const options = { chartId: 'playground', state: 's=github-stars:c:l&r=2y' };
+
+    expect(iframeSnippet(ORIGIN, options)).toBe(
+      '<iframe src="https://n8n-pulse.gui.do/embed/playground?s=github-stars:c:l&amp;r=2y" title="n8n Pulse chart" width="100%" height="480" style="border: 0;" loading="lazy"></iframe>'
+    );
+    expect(elementSnippet(ORIGIN, options)).toBe(
+      '<script src="https://n8n-pulse.gui.do/embed.js" async></script>\n<n8n-pulse-chart chart="playground" state="s=github-stars:c:l&amp;r=2y"></n8n-pulse-chart>'
+    );
+  });
+
+  it('sets a height on the element only when it differs from the default', () => {
+    expect(elementSnippet(ORIGIN, { chartId: 'github', height: 480 })).not.toContain('height=');
+    expect(elementSnippet(ORIGIN, { chartId: 'github', height: 300 })).toContain('<n8n-pulse-chart chart="github" height="300">');
+    expect(iframeSnippet(ORIGIN, { chartId: 'github', height: 300 })).toContain('title="GitHub Star History | n8n Pulse" width="100%" height="300"');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Embeddable Charts
+ *
+ * The charts other sites can show through /embed/[chartId], either as a
+ * plain iframe or with the <n8n-pulse-chart> element from /embed.js.
+ * History charts are embedded by ID; 'playground' embeds whatever a
+ * playground URL shows, passed on as its query string.
+ */
+
+export interface EmbedChart {
+  id: string;
+  title: string;
+  description: string;
+  /** Page the chart comes from, linked from the embed */
+  page: string;
+}
+
+/** Chart ID for playground views; the query string holds the state */
+export const PLAYGROUND_EMBED_ID = 'playground';
+
+export const EMBED_CHARTS: EmbedChart[] = [
+  { id: 'github', title: 'GitHub Star History', description: 'Cumulative stars of n8n-io/n8n, with new stars per month', page: '/dev' },
+  { id: 'github-issues', title: 'GitHub Issue Activity', description: 'Issues opened and closed per month, with open issues', page: '/dev' },
+  { id: 'npm-downloads', title: 'npm Downloads', description: 'Weekly npm downloads of n8n', page: '/dev' },
+  { id: 'releases', title: 'Release Timeline', description: 'n8n releases since 1.0', page: '/dev' },
+  { id: 'templates', title: 'Workflow Templates', description: 'Cumulative templates, with new templates per month', page: '/templates' },
+  { id: 'community', title: 'Community Forum', description: 'Forum members, topics, posts and likes', page: '/discussions' },
+  { id: 'reddit', title: 'Reddit r/n8n', description: 'r/n8n subscriber growth', page: '/discussions' },
+  { id: 'bluesky', title: 'Bluesky Mentions', description: 'Bluesky posts mentioning n8n', page: '/discussions' },
+  { id: 'creators', title: 'Template Creators', description: 'Total and verified template creators', page: '/creators' },
+  { id: 'events', title: 'Community Events', description: 'Events and registrations per month, in-person and online', page: '/events' },
+  { id: 'ambassadors', title: 'Ambassadors', description: 'Ambassador count and new joins per month', page: '/ambassadors' },
+];
+
+/** Initial iframe height in pixels; embeds resize to fit once loaded */
+export const DEFAULT_EMBED_HEIGHT = 480;
+
+/** postMessage type an embed uses to report its height to the parent page */
+export const EMBED_RESIZE_MESSAGE = 'n8n-pulse:resize';
+
+export function getEmbedChart(chartId: string): EmbedChart | undefined {
+  return EMBED_CHARTS.find(c => c.id === chartId);
+}
+
+export interface EmbedOptions {
+  chartId: string;
+  /** Playground query string (with or without the leading '?') */
+  state?: string;
+  height?: number;
+}
+
+function normalizeState(state?: string): string {
+  return (state ?? '').trim().replace(/^\?/, '');
+}
+
+/**
+ * Query string of a playground link, which may be a full URL, a path or
+ * just the query string; null if it isn't a playground link
+ */
+export function playgroundStateFromUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed.includes('/')) return normalizeState(trimmed);
+  try {
+    const url = new URL(trimmed, 'https://example.invalid');
+    return url.pathname.replace(/\/$/, '') === '/playground' ? url.search.slice(1) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Absolute URL of an embed page. Only playground embeds carry a state.
+ */
+export function embedUrl(origin: string, options: EmbedOptions): string {
+  const state = options.chartId === PLAYGROUND_EMBED_ID ? normalizeState(options.state) : '';
+  const base = `${origin.replace(/\/$/, '')}/embed/${encodeURIComponent(options.chartId)}`;
+  return state ? `${base}?${state}` : base;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function embedTitle(chartId: string): string {
+  const chart = getEmbedChart(chartId);
+  return chart ? `${chart.title} | n8n Pulse` : 'n8n Pulse chart';
+}
+
+/**
+ * Plain iframe markup, for sites that don't allow scripts
+ */
+export function iframeSnippet(origin: string, options: EmbedOptions): string {
+  const height = options.height ?? DEFAULT_EMBED_HEIGHT;
+  return `<iframe src="${escapeAttribute(embedUrl(origin, options))}" title="${escapeAttribute(embedTitle(options.chartId))}" width="100%" height="${height}" style="border: 0;" loading="lazy"></iframe>`;
+}
+
+/**
+ * <n8n-pulse-chart> markup plus its loader script. The element sizes
+ * itself to the chart.
+ */
+export function elementSnippet(origin: string, options: EmbedOptions): string {
+  const base = origin.replace(/\/$/, '');
+  const state = options.chartId === PLAYGROUND_EMBED_ID ? normalizeState(options.state) : '';
+  const attributes = [
+    `chart="${escapeAttribute(options.chartId)}"`,
+    ...(state ? [`state="${escapeAttribute(state)}"`] : []),
+    ...(options.height && options.height !== DEFAULT_EMBED_HEIGHT ? [`height="${options.height}"`] : []),
+  ];
+  return `<script src="${base}/embed.js" async></script>\n<n8n-pulse-chart ${attributes.join(' ')}></n8n-pulse-chart>`;
+}
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { buildEmbedScript, EMBED_ELEMENT_NAME } from './element';
+import { EMBED_RESIZE_MESSAGE } from './charts';
+
+const ORIGIN = 'https://n8n-pulse.gui.do';
+
+function createChart(attributes: Record<string, string>): { element: HTMLElement; iframe: HTMLIFrameElement } {
+  const element = document.createElement(EMBED_ELEMENT_NAME);
+  for (const [name, value] of Object.entries(attributes)) element.setAttribute(name, value);
+  document.body.appendChild(element);
+  return { element, iframe: element.shadowRoot!.querySelector('iframe')! };
+}
+
+function postResize(iframe: HTMLIFrameElement, height: number, origin = ORIGIN): void {
+  window.dispatchEvent(new MessageEvent('message', {
+    data: { type: EMBED_RESIZE_MESSAGE, height },
+    origin,
+    source: iframe.contentWindow,
+  }));
+}
+
+describe('<n8n-pulse-chart>', () => {
+  beforeAll(() => {
+    // Don't fetch the embed pages
+    (window as any).happyDOM.settings.disableIframePageLoading = true;
+    new Function(buildEmbedScript(`${ORIGIN}/`))();
+    // Loading the script twice must not redefine the element
+    new Function(buildEmbedScript(ORIGIN))();
+  });
+
+  it('points its iframe at the embed page', () => {
+    const { element, iframe } = createChart({ chart: 'github' });
+    expect(iframe.getAttribute('src')).toBe('https://n8n-pulse.gui.do/embed/github');
+    expect(iframe.getAttribute('title')).toBe('GitHub Star History | n8n Pulse');
+
+    element.setAttribute('chart', 'playground');
+    element.setAttribute('state', '?s=github-stars:c:l&r=2y');
+    expect(iframe.getAttribute('src')).toBe('https://n8n-pulse.gui.do/embed/playground?s=github-stars:c:l&r=2y');
+  });
+
+  it('follows the height its embed reports, unless a height is set', () => {
+    const auto = createChart({ chart: 'reddit' });
+    expect(auto.iframe.style.height).toBe('480px');
+    postResize(auto.iframe, 612.4);
+    expect(auto.iframe.style.height).toBe('613px');
+    postResize(auto.iframe, 900, 'https://example.com');
+    expect(auto.iframe.style.height).toBe('613px');
+
+    const fixed = createChart({ chart: 'reddit', height: '300' });
+    postResize(fixed.iframe, 612);
+    expect(fixed.iframe.style.height).toBe('300px');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * <n8n-pulse-chart> Custom Element
+ *
+ * Source of /embed.js: a dependency-free script that defines the
+ * <n8n-pulse-chart> element on other sites. It wraps an iframe of
+ * /embed/[chartId] and, unless a height attribute fixes its size,
+ * follows the height the embed page reports via postMessage.
+ *
+ *   <script src="https://n8n-pulse.gui.do/embed.js" async></script>
+ *   <n8n-pulse-chart chart="github"></n8n-pulse-chart>
+ *   <n8n-pulse-chart chart="playground" state="s=github-stars:c:l&r=2y"></n8n-pulse-chart>
+ */
+
+import { DEFAULT_EMBED_HEIGHT, EMBED_CHARTS, EMBED_RESIZE_MESSAGE, PLAYGROUND_EMBED_ID } from './charts';
+
+export const EMBED_ELEMENT_NAME = 'n8n-pulse-chart';
+
+/**
+ * Script text for /embed.js. Runs as-is in any browser, so it is plain
+ * ES2017 with no imports; chart titles are inlined from the registry.
+ */
+export function buildEmbedScript(origin: string): string {
+  const config = {
+    origin: origin.replace(/\/$/, ''),
+    element: EMBED_ELEMENT_NAME,
+    message: EMBED_RESIZE_MESSAGE,
+    playground: PLAYGROUND_EMBED_ID,
+    defaultHeight: DEFAULT_EMBED_HEIGHT,
+    titles: Object.fromEntries(EMBED_CHARTS.map(c => [c.id, c.title])),
+  };
+
+  return `/* n8n Pulse embeddable charts: ${config.origin}/embed */
+(function () {
+  'use strict';
+  var config = ${JSON.stringify(config)};
+  if (typeof customElements === 'undefined' || customElements.get(config.element)) return;
+
+  class PulseChart extends HTMLElement {
+    static get observedAttributes() {
+      return ['chart', 'state', 'height'];
+    }
+
+    constructor() {
+      super();
+      this._onMessage = this._onMessage.bind(this);
+      var root = this.attachShadow({ mode: 'open' });
+      var style = document.createElement('style');
+      style.textContent = ':host { display: block; } iframe { display: block; width: 100%; border: 0; color-scheme: dark; }';
+      this._iframe = document.createElement('iframe');
+      this._iframe.setAttribute('loading', 'lazy');
+      root.appendChild(style);
+      root.appendChild(this._iframe);
+    }
+
+    connectedCallback() {
+      window.addEventListener('message', this._onMessage);
+      this._render();
+    }
+
+    disconnectedCallback() {
+      window.removeEventListener('message', this._onMessage);
+    }
+
+    attributeChangedCallback() {
+      if (this.isConnected) this._render();
+    }
+
+    _fixedHeight() {
+      var height = parseInt(this.getAttribute('height') || '', 10);
+      return height > 0 ? height : null;
+    }
+
+    _render() {
+      var chart = (this.getAttribute('chart') || '').trim();
+      if (!chart) return;
+      var state = chart === config.playground ? (this.getAttribute('state') || '').trim().replace(/^\\?/, '') : '';
+      var src = config.origin + '/embed/' + encodeURIComponent(chart) + (state ? '?' + state : '');
+      if (this._iframe.getAttribute('src') !== src) this._iframe.setAttribute('src', src);
+      this._iframe.setAttribute('title', (config.titles[chart] || 'Chart') + ' | n8n Pulse');
+      this._iframe.style.height = (this._fixedHeight() || config.defaultHeight) + 'px';
+    }
+
+    _onMessage(event) {
+      if (event.source !== this._iframe.contentWindow || event.origin !== config.origin) return;
+      var data = event.data;
+      if (!data || data.type !== config.message || this._fixedHeight()) return;
+      var height = Number(data.height);
+      if (height > 0) this._iframe.style.height = Math.ceil(height) + 'px';
+    }
+  }
+
+  customElements.define(config.element, PulseChart);
+})();
+`;
+}
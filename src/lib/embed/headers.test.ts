@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+interface HeaderRule {
+  path: string;
+  values: Record<string, string>;
+}
+
+function readHeaderRules(): HeaderRule[] {
+  const toml = readFileSync(join(process.cwd(), 'netlify.toml'), 'utf-8');
+  return toml.split('[[headers]]').slice(1).map(block => {
+    const path = block.match(/^\s*for\s*=\s*"([^"]+)"/m)?.[1] ?? '';
+    const values: Record<string, string> = {};
+    const body = block.split('[headers.values]')[1] ?? '';
+    for (const match of body.matchAll(/^\s*([\w-]+)\s*=\s*"([^"]*)"/gm)) {
+      values[match[1]] = match[2];
+    }
+    return { path, values };
+  });
+}
+
+describe('netlify.toml framing headers', () => {
+  const rules = readHeaderRules();
+
+  it('denies framing site-wide', () => {
+    const global = rules.find(r => r.path === '/*');
+    expect(global?.values['X-Frame-Options']).toBe('DENY');
+    expect(global?.values['Content-Security-Policy']).not.toMatch(/frame-ancestors/);
+  });
+
+  it('lets any site frame embeds', () => {
+    const embed = rules.find(r => r.path === '/embed/*');
+    expect(embed?.values['Content-Security-Policy']).toBe('frame-ancestors *');
+    expect(embed?.values).not.toHaveProperty('X-Frame-Options');
+  });
+
+  it('keeps frame-ancestors to the embed rule', () => {
+    const framing = rules.filter(r => /frame-ancestors/.test(r.values['Content-Security-Policy'] ?? ''));
+    expect(framing.map(r => r.path)).toEqual(['/embed/*']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { countryCode, findCity, findCountry, geocode, normalizePlaceName } from './geocode';
+import gazetteer from './gazetteer.json';
+
+describe('normalizePlaceName', () => {
+  it('drops case, accents and punctuation', () => {
+    expect(normalizePlaceName('Zürich')).toBe('zurich');
+    expect(normalizePlaceName('  St. Gallen ')).toBe('st gallen');
+    expect(normalizePlaceName("Xi'an")).toBe('xi an');
+    expect(normalizePlaceName('Łódź')).toBe('lodz');
+    expect(normalizePlaceName('Düsseldorf')).toBe(normalizePlaceName('Dusseldorf'));
+  });
+});
+
+describe('gazetteer', () => {
+  it('has valid coordinates and known countries for every city', () => {
+    const codes = new Set(gazetteer.countries.map(c => c.code));
+    for (const city of gazetteer.cities) {
+      expect(codes.has(city.country), city.name).toBe(true);
+      expect(Math.abs(city.lat)).toBeLessThanOrEqual(90);
+      expect(Math.abs(city.lng)).toBeLessThanOrEqual(180);
+    }
+  });
+});
+
+describe('findCountry', () => {
+  it('matches names, aliases and ISO codes', () => {
+    expect(findCountry('Germany')?.code).toBe('DE');
+    expect(findCountry('USA')?.code).toBe('US');
+    expect(findCountry('UAE')?.code).toBe('AE');
+    expect(findCountry('Scotland')?.code).toBe('GB');
+    expect(findCountry('Czech Republic')?.code).toBe('CZ');
+    expect(findCountry('Turkey')?.code).toBe('TR');
+    expect(findCountry('Turkiye')?.code).toBe('TR');
+    expect(findCountry('the Netherlands')?.code).toBe('NL');
+    expect(findCountry('ch')?.code).toBe('CH');
+  });
+
+  it('tolerates a typo in longer names unless it fits two countries', () => {
+    expect(findCountry('Switzerlnd')?.code).toBe('CH');
+    expect(findCountry('Argentna')?.code).toBe('AR');
+    // One edit from both Nigeria and Niger
+    expect(findCountry('Nigera')).toBeUndefined();
+  });
+
+  it('returns undefined for non-countries', () => {
+    expect(findCountry('Online')).toBeUndefined();
+    expect(findCountry('')).toBeUndefined();
+    expect(countryCode('Atlantis')).toBeUndefined();
+  });
+});
+
+describe('findCity', () => {
+  it('matches with or without accents and by alias', () => {
+    expect(findCity('Zurich')?.name).toBe('Zürich');
+    expect(findCity('ZÜRICH')?.name).toBe('Zürich');
+    expect(findCity('NYC')?.name).toBe('New York');
+    expect(findCity('Bengaluru')?.name).toBe('Bangalore');
+    expect(findCity('Köln')?.name).toBe('Cologne');
+  });
+
+  it('prefers the given country, then the largest city', () => {
+    expect(findCity('Cambridge')?.country).toBe('GB');
+    expect(findCity('Cambridge', 'US')?.country).toBe('US');
+    expect(findCity('Córdoba', 'ES')?.country).toBe('ES');
+    expect(findCity('Valencia', 'VE')).toBeUndefined();
+  });
+
+  it('handles "City, Country" names and qualifiers', () => {
+    expect(findCity('Hamilton, New Zealand')?.country).toBe('NZ');
+    expect(findCity('Greater London')?.name).toBe('London');
+    expect(findCity('Mexico City')?.name).toBe('Mexico City');
+  });
+
+  it('tolerates a single typo only when it is unambiguous', () => {
+    expect(findCity('Amsterdm')?.name).toBe('Amsterdam');
+    expect(findCity('Barcelonna')?.name).toBe('Barcelona');
+    // Too short to guess
+    expect(findCity('Lyin')).toBeUndefined();
+    expect(findCity('Country')).toBeUndefined();
+  });
+});
+
+describe('geocode', () => {
+  it('places a known city', () => {
+    const result = geocode({ city: 'Berlin', country: 'Germany' });
+    expect(result).toMatchObject({ precision: 'city', city: 'Berlin', countryCode: 'DE', country: 'Germany' });
+    expect(result?.lat).toBeCloseTo(52.52, 1);
+  });
+
+  it('falls back to the country centroid', () => {
+    const result = geocode({ city: 'Groningen-Noord Business Park', country: 'Netherlands' });
+    expect(result).toMatchObject({ precision: 'country', countryCode: 'NL' });
+    expect(result?.city).toBeUndefined();
+  });
+
+  it('names the country of a city found without one', () => {
+    expect(geocode({ city: 'Edinburgh' })).toMatchObject({ countryCode: 'GB', country: 'United Kingdom' });
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(geocode({ city: 'Nowhere Special' })).toBeNull();
+    expect(geocode({})).toBeNull();
+  });
+});
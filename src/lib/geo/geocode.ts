@@ -0,0 +1,273 @@
+/**
+ * Offline geocoding
+ *
+ * Resolves the free-text city and country names the fetch scripts get
+ * from Luma and the ambassador directory to coordinates, using the
+ * bundled gazetteer.json (countries with ISO codes and centroids, cities
+ * with population). Matching ignores case, accents and punctuation, knows
+ * common aliases ("NYC", "UK", "Köln") and tolerates a single typo in
+ * longer names. Coordinates are approximate city centers: good enough for
+ * map markers, not for directions.
+ */
+
+import gazetteer from './gazetteer.json';
+
+export interface GazetteerCountry {
+  /** ISO 3166-1 alpha-2 code */
+  code: string;
+  name: string;
+  /** Geographic centroid */
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export interface GazetteerCity {
+  name: string;
+  /** ISO code of the city's country */
+  country: string;
+  lat: number;
+  lng: number;
+  /** Approximate, only used to pick between cities with the same name */
+  population: number;
+  aliases?: string[];
+}
+
+export interface GeocodeQuery {
+  city?: string;
+  country?: string;
+}
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  /** 'country' when only the country could be placed (its centroid) */
+  precision: 'city' | 'country';
+  /** Gazetteer name of the matched city */
+  city?: string;
+  countryCode: string;
+  /** Gazetteer name of the country, e.g. 'United Kingdom' for 'Scotland' */
+  country: string;
+}
+
+const COUNTRIES = gazetteer.countries as GazetteerCountry[];
+const CITIES = gazetteer.cities as GazetteerCity[];
+
+/** Words around a city name that don't change the place ("Greater London", "Bay Area") */
+const CITY_QUALIFIERS = new Set(['greater', 'metro', 'metropolitan', 'area', 'region', 'downtown', 'city', 'centre', 'center']);
+
+/** Shorter names only match exactly; one edit turns 'Lima' into 'Lime' */
+const MIN_FUZZY_LENGTH = 5;
+
+/** Letters NFD doesn't decompose into a base letter plus accent */
+const LETTER_REPLACEMENTS: Record<string, string> = {
+  ß: 'ss', ø: 'o', æ: 'ae', œ: 'oe', ł: 'l', đ: 'd', ı: 'i', þ: 'th',
+};
+
+/**
+ * Comparison key for a place name: lowercase ASCII words separated by
+ * single spaces ('Zürich' → 'zurich', "Xi'an" → 'xi an', 'St. Gallen' →
+ * 'st gallen')
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[ßøæœłđıþ]/g, char => LETTER_REPLACEMENTS[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Indexes, built on first use
+
+let countryIndex: Map<string, GazetteerCountry> | null = null;
+let cityIndex: Map<string, GazetteerCity[]> | null = null;
+
+function getCountryIndex(): Map<string, GazetteerCountry> {
+  if (!countryIndex) {
+    countryIndex = new Map();
+    for (const country of COUNTRIES) {
+      for (const name of [country.name, ...(country.aliases ?? [])]) {
+        countryIndex.set(normalizePlaceName(name), country);
+      }
+    }
+  }
+  return countryIndex;
+}
+
+function getCityIndex(): Map<string, GazetteerCity[]> {
+  if (!cityIndex) {
+    cityIndex = new Map();
+    for (const city of CITIES) {
+      for (const name of [city.name, ...(city.aliases ?? [])]) {
+        const key = normalizePlaceName(name);
+        const entries = cityIndex.get(key) ?? [];
+        if (!entries.includes(city)) entries.push(city);
+        cityIndex.set(key, entries);
+      }
+    }
+  }
+  return cityIndex;
+}
+
+/**
+ * Edit distance between two strings, giving up once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Typos tolerated in a name of this length */
+function maxTypos(key: string): number {
+  if (key.length < MIN_FUZZY_LENGTH) return 0;
+  return key.length >= 10 ? 2 : 1;
+}
+
+/**
+ * Index entries closest to key within the typo allowance, or none if
+ * nothing is that close
+ */
+function closestEntries<T>(index: Map<string, T>, key: string, accept: (value: T) => boolean = () => true): T[] {
+  const max = maxTypos(key);
+  if (max === 0) return [];
+
+  let closest: T[] = [];
+  let bestDistance = max + 1;
+  for (const [name, value] of index) {
+    if (!accept(value)) continue;
+    const distance = editDistance(key, name, max);
+    if (distance < bestDistance) {
+      closest = [value];
+      bestDistance = distance;
+    } else if (distance === bestDistance && distance <= max) {
+      closest.push(value);
+    }
+  }
+  return closest;
+}
+
+// Countries
+
+export function getCountryByCode(code: string): GazetteerCountry | undefined {
+  const upper = code.toUpperCase();
+  return COUNTRIES.find(c => c.code === upper);
+}
+
+/**
+ * Country for a name, alias or ISO code ('Deutschland', 'UAE', 'cz')
+ */
+export function findCountry(name: string): GazetteerCountry | undefined {
+  const trimmed = name.trim();
+  if (/^[a-z]{2}$/i.test(trimmed)) {
+    const byCode = getCountryByCode(trimmed);
+    if (byCode) return byCode;
+  }
+
+  const key = normalizePlaceName(trimmed);
+  if (!key) return undefined;
+  const index = getCountryIndex();
+  const exact = index.get(key) ?? index.get(key.replace(/^the /, ''));
+  if (exact) return exact;
+
+  // A typo only counts if it is closest to a single country
+  const closest = new Set(closestEntries(index, key));
+  return closest.size === 1 ? [...closest][0] : undefined;
+}
+
+/**
+ * ISO code for a country name, e.g. for flags and map highlighting
+ */
+export function countryCode(name: string): string | undefined {
+  return findCountry(name)?.code;
+}
+
+// Cities
+
+function largest(cities: GazetteerCity[]): GazetteerCity | undefined {
+  return cities.reduce<GazetteerCity | undefined>(
+    (best, city) => (!best || city.population > best.population ? city : best),
+    undefined
+  );
+}
+
+function withoutQualifiers(key: string): string {
+  return key.split(' ').filter(word => !CITY_QUALIFIERS.has(word)).join(' ');
+}
+
+/**
+ * City for a name or alias. With a country code only cities in that
+ * country match ('Cambridge' in GB, not the US); otherwise the largest
+ * city of that name wins. 'Berlin, Germany' style names are split.
+ */
+export function findCity(name: string, countryCode?: string): GazetteerCity | undefined {
+  const parts = name.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return undefined;
+  if (parts.length > 1 && !countryCode) {
+    countryCode = findCountry(parts[parts.length - 1])?.code;
+  }
+
+  const inCountry = (city: GazetteerCity) => !countryCode || city.country === countryCode;
+  const index = getCityIndex();
+  const key = normalizePlaceName(parts[0]);
+  if (!key) return undefined;
+
+  for (const candidate of [key, withoutQualifiers(key)]) {
+    const match = largest((index.get(candidate) ?? []).filter(inCountry));
+    if (match) return match;
+  }
+
+  // A typo only counts if it is closest to a single name; same-named
+  // cities ('Cambrige') go to the largest as above
+  const closest = [...new Set(closestEntries(index, key, cities => cities.some(inCountry)).flat())]
+    .filter(inCountry);
+  const names = new Set(closest.map(city => normalizePlaceName(city.name)));
+  return names.size === 1 ? largest(closest) : undefined;
+}
+
+/**
+ * Coordinates for a location: the city if it can be found (in the given
+ * country, when that is known), else the country's centroid, else null.
+ */
+export function geocode(query: GeocodeQuery): GeocodeResult | null {
+  const country = query.country ? findCountry(query.country) : undefined;
+  const city = query.city ? findCity(query.city, country?.code) : undefined;
+
+  if (city) {
+    const cityCountry = getCountryByCode(city.country);
+    return {
+      lat: city.lat,
+      lng: city.lng,
+      precision: 'city',
+      city: city.name,
+      countryCode: city.country,
+      country: cityCountry?.name ?? city.country,
+    };
+  }
+
+  if (country) {
+    return {
+      lat: country.lat,
+      lng: country.lng,
+      precision: 'country',
+      countryCode: country.code,
+      country: country.name,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { geocode, type GeocodeQuery } from './geocode';
+import { mergeGeocodingReport, summarizeGeocoding } from './report';
+
+const NOW = new Date('2026-10-01T00:00:00Z');
+
+function lookup(query: GeocodeQuery) {
+  return { query, result: geocode(query) };
+}
+
+describe('summarizeGeocoding', () => {
+  it('lists lookups that missed their city, most frequent first', () => {
+    const section = summarizeGeocoding([
+      lookup({ city: 'Berlin', country: 'Germany' }),
+      lookup({ city: 'Country', country: 'USA' }),
+      lookup({ city: 'Country', country: 'USA' }),
+      lookup({ city: 'Atlantis', country: 'Atlantis' }),
+      lookup({ country: 'France' }),
+      lookup({ city: '', country: '' }),
+    ], NOW);
+
+    expect(section.checkedAt).toBe(NOW.toISOString());
+    expect(section.checked).toBe(5);
+    expect(section.unresolved).toEqual([
+      { city: 'Country', country: 'USA', count: 2, resolvedTo: 'country' },
+      { city: 'Atlantis', country: 'Atlantis', count: 1, resolvedTo: null },
+    ]);
+  });
+});
+
+describe('mergeGeocodingReport', () => {
+  it('replaces only the given source', () => {
+    const events = summarizeGeocoding([lookup({ city: 'Atlantis' })], new Date('2026-09-01T00:00:00Z'));
+    const ambassadors = summarizeGeocoding([lookup({ city: 'Paris' })], NOW);
+
+    const first = mergeGeocodingReport(null, 'events', events);
+    const merged = mergeGeocodingReport(first, 'ambassadors', ambassadors);
+
+    expect(merged.lastUpdated).toBe(NOW.toISOString());
+    expect(merged.sources.events).toEqual(events);
+    expect(merged.sources.ambassadors).toEqual(ambassadors);
+  });
+});
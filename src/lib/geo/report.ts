@@ -0,0 +1,109 @@
+/**
+ * Geocoding report
+ *
+ * Node-only (uses fs). The fetch scripts record every location they had
+ * to geocode; names the gazetteer couldn't place at city level end up in
+ * public/data/geocoding-report.json, one section per script, so missing
+ * cities and aliases can be added to gazetteer.json.
+ */
+
+import { join } from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '../history/store';
+import type { GeocodeQuery, GeocodeResult } from './geocode';
+
+export const GEOCODING_REPORT_PATH = join(DATA_DIR, 'geocoding-report.json');
+
+export type GeocodingSource = 'events' | 'ambassadors';
+
+export interface GeocodingLookup {
+  query: GeocodeQuery;
+  result: GeocodeResult | null;
+}
+
+export interface UnresolvedLocation {
+  city: string;
+  country: string;
+  /** Lookups with this city and country */
+  count: number;
+  /** 'country' when the country centroid was used instead, null when nothing matched */
+  resolvedTo: 'country' | null;
+}
+
+export interface GeocodingSourceReport {
+  checkedAt: string;
+  /** Lookups with a city or country to go on */
+  checked: number;
+  unresolved: UnresolvedLocation[];
+}
+
+export interface GeocodingReport {
+  lastUpdated: string;
+  sources: Partial<Record<GeocodingSource, GeocodingSourceReport>>;
+}
+
+/**
+ * Group the lookups that missed their city (or had no city and an
+ * unknown country), most frequent first. Empty lookups are not counted.
+ */
+export function summarizeGeocoding(lookups: GeocodingLookup[], now: Date = new Date()): GeocodingSourceReport {
+  const unresolved = new Map<string, UnresolvedLocation>();
+  let checked = 0;
+
+  for (const { query, result } of lookups) {
+    const city = query.city?.trim() ?? '';
+    const country = query.country?.trim() ?? '';
+    if (!city && !country) continue;
+    checked++;
+
+    const missed = !result || (city !== '' && result.precision !== 'city');
+    if (!missed) continue;
+
+    const key = `${city}|${country}`;
+    const existing = unresolved.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      unresolved.set(key, { city, country, count: 1, resolvedTo: result ? 'country' : null });
+    }
+  }
+
+  return {
+    checkedAt: now.toISOString(),
+    checked,
+    unresolved: [...unresolved.values()].sort((a, b) => b.count - a.count || a.city.localeCompare(b.city)),
+  };
+}
+
+/**
+ * Replace one script's section of the report, keeping the others
+ */
+export function mergeGeocodingReport(
+  existing: GeocodingReport | null,
+  source: GeocodingSource,
+  section: GeocodingSourceReport
+): GeocodingReport {
+  return {
+    lastUpdated: section.checkedAt,
+    sources: { ...existing?.sources, [source]: section },
+  };
+}
+
+/**
+ * Write a script's lookups to the report and log what was missed
+ */
+export function writeGeocodingReport(source: GeocodingSource, lookups: GeocodingLookup[]): GeocodingSourceReport {
+  const section = summarizeGeocoding(lookups);
+  const existing = readJsonFile<GeocodingReport>(GEOCODING_REPORT_PATH);
+  writeJsonFile(GEOCODING_REPORT_PATH, mergeGeocodingReport(existing, source, section));
+
+  if (section.unresolved.length > 0) {
+    console.warn(`\n⚠ ${section.unresolved.length} location(s) not found in the gazetteer:`);
+    for (const location of section.unresolved.slice(0, 10)) {
+      const fallback = location.resolvedTo === 'country' ? ' (placed at country)' : '';
+      console.warn(`  ${[location.city, location.country].filter(Boolean).join(', ')} ×${location.count}${fallback}`);
+    }
+    console.warn('  Full list: public/data/geocoding-report.json');
+  }
+
+  return section;
+}
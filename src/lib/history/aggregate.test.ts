@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWeekKey,
+  getMonthKey,
+  upsertByDate,
+  dedupeByDate,
+  aggregateByPeriod,
+  mergePoint,
+  mergeByDate,
+  buildHistory,
+} from './aggregate';
+
+interface TestPoint {
+  date: string;
+  value: number | null;
+  extra?: number;
+  source?: string;
+}
+
+describe('period keys', () => {
+  it('formats week keys with zero-padded week numbers', () => {
+    expect(getWeekKey('2026-01-08')).toMatch(/^2026-W0\d$/);
+  });
+
+  it('formats month keys as YYYY-MM', () => {
+    expect(getMonthKey('2026-01-31')).toBe('2026-01');
+  });
+});
+
+describe('upsertByDate', () => {
+  it('appends new dates in sorted order', () => {
+    const entries: TestPoint[] = [{ date: '2026-01-02', value: 2 }];
+    const updated = upsertByDate(entries, { date: '2026-01-01', value: 1 });
+
+    expect(updated).toBe(false);
+    expect(entries.map(e => e.date)).toEqual(['2026-01-01', '2026-01-02']);
+  });
+
+  it('replaces an existing entry for the same date', () => {
+    const entries: TestPoint[] = [{ date: '2026-01-01', value: 1, extra: 5 }];
+    const updated = upsertByDate(entries, { date: '2026-01-01', value: 3 });
+
+    expect(updated).toBe(true);
+    expect(entries).toEqual([{ date: '2026-01-01', value: 3, extra: 5 }]);
+  });
+});
+
+describe('dedupeByDate', () => {
+  it('keeps the last entry per date', () => {
+    const result = dedupeByDate<TestPoint>([
+      { date: '2026-01-02', value: 1 },
+      { date: '2026-01-01', value: 1 },
+      { date: '2026-01-02', value: 2 },
+    ]);
+
+    expect(result).toEqual([
+      { date: '2026-01-01', value: 1 },
+      { date: '2026-01-02', value: 2 },
+    ]);
+  });
+});
+
+describe('aggregateByPeriod', () => {
+  const entries: TestPoint[] = [
+    { date: '2026-01-30', value: 3 },
+    { date: '2026-01-01', value: 1 },
+    { date: '2026-02-01', value: 5 },
+  ];
+
+  it('takes the last value of each period by default', () => {
+    expect(aggregateByPeriod(entries, getMonthKey)).toEqual([
+      { date: '2026-01', value: 3 },
+      { date: '2026-02', value: 5 },
+    ]);
+  });
+
+  it('sums numeric fields in sum mode', () => {
+    expect(aggregateByPeriod(entries, getMonthKey, 'sum')).toEqual([
+      { date: '2026-01', value: 4 },
+      { date: '2026-02', value: 5 },
+    ]);
+  });
+});
+
+describe('mergePoint', () => {
+  it('lets fresh values win', () => {
+    const merged = mergePoint<TestPoint>(
+      { date: '2026-01', value: 1 },
+      { date: '2026-01', value: 2 }
+    );
+    expect(merged.value).toBe(2);
+  });
+
+  it('keeps backfilled fields the fresh point lacks', () => {
+    const merged = mergePoint<TestPoint>(
+      { date: '2026-01', value: 1, extra: 7 },
+      { date: '2026-01', value: 2 }
+    );
+    expect(merged.extra).toBe(7);
+  });
+
+  it('treats zeros as missing only when asked', () => {
+    const existing = { date: '2026-01', value: 10 };
+    const fresh = { date: '2026-01', value: 0 };
+
+    expect(mergePoint<TestPoint>(existing, fresh).value).toBe(0);
+    expect(mergePoint<TestPoint>(existing, fresh, true).value).toBe(10);
+  });
+});
+
+describe('mergeByDate', () => {
+  it('keeps existing dates not present in fresh data', () => {
+    const result = mergeByDate<TestPoint>(
+      [{ date: '2019-06', value: 1, source: 'seed' }],
+      [{ date: '2026-01', value: 2, source: 'api' }]
+    );
+
+    expect(result.map(e => e.date)).toEqual(['2019-06', '2026-01']);
+  });
+});
+
+describe('buildHistory', () => {
+  const now = new Date('2026-01-31T12:00:00Z');
+
+  it('limits daily entries to the retention window', () => {
+    const history = buildHistory<TestPoint>(
+      [
+        { date: '2025-06-01', value: 1 },
+        { date: '2026-01-30', value: 2 },
+      ],
+      { now }
+    );
+
+    expect(history.daily.map(e => e.date)).toEqual(['2026-01-30']);
+    expect(history.monthly.map(e => e.date)).toEqual(['2025-06', '2026-01']);
+  });
+
+  it('preserves backfilled monthly history', () => {
+    const history = buildHistory<TestPoint>(
+      [{ date: '2026-01-30', value: 2 }],
+      {
+        now,
+        existing: {
+          lastUpdated: '',
+          daily: [],
+          weekly: [],
+          monthly: [{ date: '2020-01', value: 1, source: 'wayback' }],
+        },
+      }
+    );
+
+    expect(history.monthly).toEqual([
+      { date: '2020-01', value: 1, source: 'wayback' },
+      { date: '2026-01', value: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * History aggregation utilities
+ *
+ * Pure functions shared by the update-*-history scripts: dedupe-by-date,
+ * weekly/monthly rollups and merging fresh data over backfilled history.
+ */
+
+import type { HistoryFile, HistoryPoint, RollupMode } from './types';
+
+export const DAILY_RETENTION_DAYS = 90;
+export const WEEKLY_RETENTION_DAYS = 730; // ~2 years
+
+/**
+ * Today's date as YYYY-MM-DD (UTC)
+ */
+export function todayKey(now: Date = new Date()): string {
+  return now.toISOString().split('T')[0];
+}
+
+/**
+ * Week key (YYYY-Www) used by all history files
+ */
+export function getWeekKey(dateStr: string): string {
+  const date = new Date(dateStr);
+  const year = date.getFullYear();
+  const startOfYear = new Date(year, 0, 1);
+  const days = Math.floor((date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
+  const week = Math.ceil((days + startOfYear.getDay() + 1) / 7);
+  return `${year}-W${week.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Monday of the week containing this date (YYYY-MM-DD)
+ */
+export function getWeekStart(dateStr: string): string {
+  const date = new Date(dateStr);
+  const day = date.getDay();
+  const diff = date.getDate() - day + (day === 0 ? -6 : 1); // Adjust for Sunday
+  date.setDate(diff);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Month key (YYYY-MM)
+ */
+export function getMonthKey(dateStr: string): string {
+  return dateStr.slice(0, 7);
+}
+
+/**
+ * Sort points chronologically (date keys sort lexically)
+ */
+export function sortByDate<T extends HistoryPoint>(entries: T[]): T[] {
+  return entries.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Insert a point, replacing any existing point for the same date.
+ * Returns whether an existing entry was updated.
+ */
+export function upsertByDate<T extends HistoryPoint>(entries: T[], point: T): boolean {
+  const index = entries.findIndex(e => e.date === point.date);
+  if (index >= 0) {
+    entries[index] = { ...entries[index], ...point };
+  } else {
+    entries.push(point);
+  }
+  sortByDate(entries);
+  return index >= 0;
+}
+
+/**
+ * Collapse duplicate dates, keeping the last occurrence
+ */
+export function dedupeByDate<T extends HistoryPoint>(entries: T[]): T[] {
+  const byDate = new Map<string, T>();
+  for (const entry of entries) {
+    byDate.set(entry.date, entry);
+  }
+  return sortByDate(Array.from(byDate.values()));
+}
+
+/**
+ * Combine the entries of one period into a single point.
+ * 'last' takes the most recent entry (cumulative metrics),
+ * 'sum' adds up every numeric field (activity counts).
+ */
+function rollup<T extends HistoryPoint>(key: string, entries: T[], mode: RollupMode): T {
+  const last = entries[entries.length - 1];
+  if (mode === 'last') {
+    return { ...last, date: key };
+  }
+
+  const summed: Record<string, unknown> = { ...(last as Record<string, unknown>), date: key };
+  for (const [field, value] of Object.entries(last)) {
+    if (typeof value !== 'number') continue;
+    summed[field] = entries.reduce((sum, e) => {
+      const v = (e as Record<string, unknown>)[field];
+      return sum + (typeof v === 'number' ? v : 0);
+    }, 0);
+  }
+  return summed as T;
+}
+
+/**
+ * Group entries by period key and roll each group up into one point
+ */
+export function aggregateByPeriod<T extends HistoryPoint>(
+  entries: T[],
+  getKey: (date: string) => string,
+  mode: RollupMode = 'last'
+): T[] {
+  const grouped = new Map<string, T[]>();
+
+  for (const entry of sortByDate([...entries])) {
+    const key = getKey(entry.date);
+    if (!grouped.has(key)) {
+      grouped.set(key, []);
+    }
+    grouped.get(key)!.push(entry);
+  }
+
+  const aggregated: T[] = [];
+  for (const [key, periodEntries] of grouped) {
+    aggregated.push(rollup(key, periodEntries, mode));
+  }
+
+  return sortByDate(aggregated);
+}
+
+function isMissing(value: unknown, zeroIsMissing: boolean): boolean {
+  return value === undefined || value === null || (zeroIsMissing && value === 0);
+}
+
+/**
+ * Merge a fresh point over an existing one for the same date.
+ * Fresh values win, but fields the fresh point lacks (or reports as 0 when
+ * zeroIsMissing is set, mirroring the playground's excludeZero) keep their
+ * backfilled value.
+ */
+export function mergePoint<T extends HistoryPoint>(
+  existing: T,
+  fresh: T,
+  zeroIsMissing = false
+): T {
+  const merged = { ...fresh } as Record<string, unknown>;
+  for (const [field, value] of Object.entries(existing)) {
+    if (isMissing(merged[field], zeroIsMissing) && !isMissing(value, zeroIsMissing)) {
+      merged[field] = value;
+    }
+  }
+  return merged as T;
+}
+
+/**
+ * Merge fresh points into existing points by date
+ */
+export function mergeByDate<T extends HistoryPoint>(
+  existing: T[],
+  fresh: T[],
+  merge: (existing: T, fresh: T) => T = mergePoint
+): T[] {
+  const byDate = new Map(existing.map(e => [e.date, e]));
+  for (const point of fresh) {
+    const current = byDate.get(point.date);
+    byDate.set(point.date, current ? merge(current, point) : point);
+  }
+  return sortByDate(Array.from(byDate.values()));
+}
+
+function cutoffKey(now: Date, days: number): string {
+  const cutoff = new Date(now);
+  cutoff.setDate(cutoff.getDate() - days);
+  return todayKey(cutoff);
+}
+
+export interface BuildHistoryOptions<T extends HistoryPoint> {
+  /** Existing history file; its points are kept where the raw log has no data (backfills) */
+  existing?: HistoryFile<T> | null;
+  /** How to combine entries within a week/month */
+  rollup?: RollupMode;
+  /** Treat 0 in fresh data as missing when merging over backfilled values */
+  zeroIsMissing?: boolean;
+  /** Custom merge for points present in both existing history and raw log */
+  mergePoint?: (existing: T, fresh: T) => T;
+  dailyRetentionDays?: number;
+  weeklyRetentionDays?: number;
+  now?: Date;
+}
+
+/**
+ * Generate daily (last 90 days), weekly (last 2 years) and monthly (all time)
+ * history from raw log entries, preserving backfilled points.
+ */
+export function buildHistory<T extends HistoryPoint>(
+  entries: T[],
+  options: BuildHistoryOptions<T> = {}
+): HistoryFile<T> {
+  const {
+    existing,
+    rollup: mode = 'last',
+    zeroIsMissing = false,
+    dailyRetentionDays = DAILY_RETENTION_DAYS,
+    weeklyRetentionDays = WEEKLY_RETENTION_DAYS,
+    now = new Date(),
+  } = options;
+  const merge = options.mergePoint ?? ((a: T, b: T) => mergePoint(a, b, zeroIsMissing));
+
+  const sorted = dedupeByDate(entries);
+  const dailyCutoff = cutoffKey(now, dailyRetentionDays);
+  const weeklyCutoff = cutoffKey(now, weeklyRetentionDays);
+
+  let daily = sorted.filter(e => e.date >= dailyCutoff);
+  let weekly = aggregateByPeriod(sorted.filter(e => e.date >= weeklyCutoff), getWeekKey, mode);
+  let monthly = aggregateByPeriod(sorted, getMonthKey, mode);
+
+  if (existing) {
+    daily = mergeByDate(existing.daily ?? [], daily, merge).filter(e => e.date >= dailyCutoff);
+    weekly = mergeByDate(existing.weekly ?? [], weekly, merge);
+    monthly = mergeByDate(existing.monthly ?? [], monthly, merge);
+  }
+
+  return {
+    lastUpdated: now.toISOString(),
+    daily,
+    weekly,
+    monthly,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies, detectPersistentAnomalies, type MetricCheck } from './anomalies';
+
+interface TestPoint {
+  date: string;
+  members: number | null;
+  online?: number;
+}
+
+const MEMBERS: MetricCheck[] = [{ field: 'members', cumulative: true, excludeZero: true }];
+
+/** Steady growth of ~100/day with small noise */
+function steadyHistory(days: number, start = 10000): TestPoint[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: `2026-01-${String(i + 1).padStart(2, '0')}`,
+    members: start + i * 100 + (i % 3) * 5,
+  }));
+}
+
+describe('detectAnomalies', () => {
+  it('accepts values in line with recent growth', () => {
+    const history = steadyHistory(20);
+    const point = { date: '2026-01-21', members: 12005 };
+    expect(detectAnomalies(history, point, MEMBERS)).toEqual([]);
+  });
+
+  it('flags zero for excludeZero metrics', () => {
+    const history = steadyHistory(20);
+    const [anomaly] = detectAnomalies(history, { date: '2026-01-21', members: 0 }, MEMBERS);
+
+    expect(anomaly.reason).toBe('zero');
+    expect(anomaly.previous).toBe(11905);
+  });
+
+  it('flags large drops in cumulative metrics', () => {
+    const history = steadyHistory(3);
+    const [anomaly] = detectAnomalies(history, { date: '2026-01-04', members: 5100 }, MEMBERS);
+
+    expect(anomaly.reason).toBe('drop');
+    expect(anomaly.message).toContain('dropped 50.0%');
+  });
+
+  it('tolerates small decreases in cumulative metrics', () => {
+    const history = steadyHistory(3);
+    expect(detectAnomalies(history, { date: '2026-01-04', members: 10150 }, MEMBERS)).toEqual([]);
+  });
+
+  it('flags spikes far outside recent daily deltas', () => {
+    const history = steadyHistory(20);
+    const [anomaly] = detectAnomalies(history, { date: '2026-01-21', members: 50000 }, MEMBERS);
+
+    expect(anomaly.reason).toBe('z-score');
+  });
+
+  it('skips the z-score check without enough history', () => {
+    const history = steadyHistory(5);
+    expect(detectAnomalies(history, { date: '2026-01-06', members: 50000 }, MEMBERS)).toEqual([]);
+  });
+
+  it('normalises deltas by the gap between points', () => {
+    const history = steadyHistory(20);
+    // 10 days later at the usual ~100/day is not a spike
+    expect(detectAnomalies(history, { date: '2026-01-30', members: 12900 }, MEMBERS)).toEqual([]);
+  });
+
+  it('ignores the point\'s own date and missing values in history', () => {
+    const history: TestPoint[] = [
+      ...steadyHistory(20),
+      { date: '2026-01-21', members: 0 },
+      { date: '2026-01-15', members: null },
+    ];
+    expect(detectAnomalies(history, { date: '2026-01-21', members: 12005 }, MEMBERS)).toEqual([]);
+  });
+
+  it('skips fields missing from the fetched point', () => {
+    const history = steadyHistory(20);
+    expect(detectAnomalies(history, { date: '2026-01-21', members: null }, MEMBERS)).toEqual([]);
+  });
+});
+
+describe('detectPersistentAnomalies', () => {
+  it('accepts a value in line with a pending quarantined level', () => {
+    const history = steadyHistory(20);
+    const pending = [{ date: '2026-01-21', members: 6000 }];
+    const point = { date: '2026-01-22', members: 6050 };
+
+    expect(detectAnomalies(history, point, MEMBERS)).toHaveLength(1);
+    expect(detectPersistentAnomalies(history, pending, point, MEMBERS)).toEqual([]);
+  });
+
+  it('accepts a return to the old level after a quarantined glitch', () => {
+    const history = steadyHistory(20);
+    const pending = [{ date: '2026-01-21', members: 6000 }];
+    expect(detectPersistentAnomalies(history, pending, { date: '2026-01-22', members: 12105 }, MEMBERS)).toEqual([]);
+  });
+
+  it('still flags values that fail against both', () => {
+    const history = steadyHistory(20);
+    const pending = [{ date: '2026-01-21', members: 6000 }];
+    const anomalies = detectPersistentAnomalies(history, pending, { date: '2026-01-22', members: 0 }, MEMBERS);
+
+    expect(anomalies.map(a => a.reason)).toEqual(['zero']);
+  });
+});
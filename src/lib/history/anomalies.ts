@@ -0,0 +1,182 @@
+/**
+ * Anomaly detection for fetched history points
+ *
+ * Pure functions. Before a freshly fetched value is appended to a raw log
+ * it is compared with recent history: zero values for metrics where zero
+ * means "missing" (the playground's excludeZero), large drops in cumulative
+ * counts, and day-over-day changes far outside the recent distribution.
+ */
+
+import { calculateStats } from '../utils/statistics';
+import type { HistoryPoint } from './types';
+
+export interface MetricCheck {
+  /** Numeric field on the data point, e.g. 'stars' */
+  field: string;
+  /** Running total that should only grow (stars, members, subscribers) */
+  cumulative?: boolean;
+  /** 0 is never a real value for this metric (matches registry excludeZero) */
+  excludeZero?: boolean;
+}
+
+export interface AnomalyOptions {
+  /** Number of recent points whose daily deltas form the baseline */
+  window?: number;
+  /** Minimum deltas needed before the z-score check applies */
+  minDeltas?: number;
+  /** |z| above which a daily delta is suspicious */
+  zThreshold?: number;
+  /** Fraction a cumulative metric may drop before it is suspicious */
+  maxDrop?: number;
+}
+
+export type AnomalyReason = 'zero' | 'drop' | 'z-score';
+
+export interface Anomaly {
+  field: string;
+  value: number;
+  previous: number | null;
+  reason: AnomalyReason;
+  /** Human-readable explanation for the quarantine file */
+  message: string;
+}
+
+export const DEFAULT_ANOMALY_OPTIONS: Required<AnomalyOptions> = {
+  window: 30,
+  minDeltas: 7,
+  zThreshold: 6,
+  maxDrop: 0.05,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function numericValue(point: HistoryPoint, field: string): number | null {
+  const value = (point as unknown as Record<string, unknown>)[field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(1, Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS));
+}
+
+/**
+ * Recent valid values for a field before the given date, oldest first
+ */
+function recentValues(
+  history: HistoryPoint[],
+  date: string,
+  check: MetricCheck,
+  window: number
+): Array<{ date: string; value: number }> {
+  const values: Array<{ date: string; value: number }> = [];
+  for (const point of history) {
+    if (point.date >= date) continue;
+    const value = numericValue(point, check.field);
+    if (value === null || (check.excludeZero && value === 0)) continue;
+    values.push({ date: point.date, value });
+  }
+  return values
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-(window + 1));
+}
+
+/**
+ * Check one fetched point against its history.
+ * History may include the point's own date (re-runs); it is ignored.
+ */
+export function detectAnomalies<T extends HistoryPoint>(
+  history: T[],
+  point: T,
+  checks: MetricCheck[],
+  options: AnomalyOptions = {}
+): Anomaly[] {
+  const { window, minDeltas, zThreshold, maxDrop } = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const anomalies: Anomaly[] = [];
+
+  for (const check of checks) {
+    const value = numericValue(point, check.field);
+    if (value === null) continue;
+
+    const recent = recentValues(history, point.date, check, window);
+    const last = recent[recent.length - 1] ?? null;
+    const previous = last?.value ?? null;
+
+    if (check.excludeZero && value === 0) {
+      anomalies.push({
+        field: check.field,
+        value,
+        previous,
+        reason: 'zero',
+        message: `${check.field} is 0, which this metric never reports`,
+      });
+      continue;
+    }
+
+    if (!last) continue;
+
+    if (check.cumulative && value < last.value * (1 - maxDrop)) {
+      const dropPercent = ((1 - value / last.value) * 100).toFixed(1);
+      anomalies.push({
+        field: check.field,
+        value,
+        previous,
+        reason: 'drop',
+        message: `${check.field} dropped ${dropPercent}% (${last.value} -> ${value}) since ${last.date}`,
+      });
+      continue;
+    }
+
+    // Per-day deltas, so gaps in the log don't look like spikes
+    const deltas: number[] = [];
+    for (let i = 1; i < recent.length; i++) {
+      deltas.push((recent[i].value - recent[i - 1].value) / daysBetween(recent[i - 1].date, recent[i].date));
+    }
+    if (deltas.length < minDeltas) continue;
+
+    const { mean, stdDev } = calculateStats(deltas);
+    if (stdDev === 0) continue;
+
+    const delta = (value - last.value) / daysBetween(last.date, point.date);
+    const z = (delta - mean) / stdDev;
+    if (Math.abs(z) > zThreshold) {
+      anomalies.push({
+        field: check.field,
+        value,
+        previous,
+        reason: 'z-score',
+        message: `${check.field} changed by ${delta.toFixed(1)}/day (z = ${z.toFixed(1)}, recent mean ${mean.toFixed(1)}/day)`,
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Check a point against its history and against points still waiting in
+ * quarantine. A field is only suspicious if it fails both: a value in line
+ * with an earlier quarantined value means the level really changed (e.g. a
+ * spam purge), so the history doesn't stay frozen at the old level.
+ */
+export function detectPersistentAnomalies<T extends HistoryPoint>(
+  history: T[],
+  pending: HistoryPoint[],
+  point: T,
+  checks: MetricCheck[],
+  options: AnomalyOptions = {}
+): Anomaly[] {
+  const anomalies = detectAnomalies(history, point, checks, options);
+  if (anomalies.length === 0 || pending.length === 0) {
+    return anomalies;
+  }
+
+  // Quarantined values take the place of the values held back on their date
+  const byDate = new Map<string, HistoryPoint>(history.map(p => [p.date, p]));
+  for (const held of pending) {
+    byDate.set(held.date, { ...byDate.get(held.date), ...held });
+  }
+  const failing = new Set(
+    detectAnomalies(Array.from(byDate.values()), point, checks, options).map(a => a.field)
+  );
+  return anomalies.filter(a => failing.has(a.field));
+}
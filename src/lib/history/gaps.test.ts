@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { getWeekKey } from './aggregate';
+import { findGaps, missingBetween, interpolateValues, fillGaps } from './gaps';
+
+describe('missingBetween', () => {
+  it('lists missing days', () => {
+    expect(missingBetween('2026-01-11', '2026-01-15', 'daily')).toEqual([
+      '2026-01-12',
+      '2026-01-13',
+      '2026-01-14',
+    ]);
+    expect(missingBetween('2026-01-11', '2026-01-12', 'daily')).toEqual([]);
+  });
+
+  it('lists missing months across year boundaries', () => {
+    expect(missingBetween('2025-11', '2026-02', 'monthly')).toEqual(['2025-12', '2026-01']);
+  });
+
+  it('lists missing week keys using the history week scheme', () => {
+    const after = getWeekKey('2026-01-05');
+    const before = getWeekKey('2026-01-26');
+    const missing = missingBetween(after, before, 'weekly');
+
+    expect(missing).toEqual([getWeekKey('2026-01-12'), getWeekKey('2026-01-19')]);
+  });
+
+  it('steps weekly date series by 7 days and tolerates late snapshots', () => {
+    expect(missingBetween('2026-01-04', '2026-01-25', 'weekly')).toEqual(['2026-01-11', '2026-01-18']);
+    expect(missingBetween('2026-01-04', '2026-01-12', 'weekly')).toEqual([]);
+  });
+});
+
+describe('findGaps', () => {
+  it('groups consecutive missing dates into gaps', () => {
+    const gaps = findGaps(['2026-01-01', '2026-01-02', '2026-01-05', '2026-01-07'], 'daily');
+
+    expect(gaps).toEqual([
+      { after: '2026-01-02', before: '2026-01-05', missing: ['2026-01-03', '2026-01-04'] },
+      { after: '2026-01-05', before: '2026-01-07', missing: ['2026-01-06'] },
+    ]);
+  });
+
+  it('handles unsorted input and duplicates', () => {
+    expect(findGaps(['2026-03', '2026-01', '2026-01'], 'monthly')).toEqual([
+      { after: '2026-01', before: '2026-03', missing: ['2026-02'] },
+    ]);
+  });
+
+  it('returns no gaps for complete or tiny series', () => {
+    expect(findGaps(['2026-01-01', '2026-01-02'], 'daily')).toEqual([]);
+    expect(findGaps([], 'daily')).toEqual([]);
+  });
+});
+
+describe('interpolateValues', () => {
+  it('spaces values evenly between the ends', () => {
+    expect(interpolateValues(100, 200, 3)).toEqual([125, 150, 175]);
+  });
+
+  it('rounds when both ends are integers', () => {
+    expect(interpolateValues(1, 2, 2)).toEqual([1, 2]);
+    expect(interpolateValues(1, 2.5, 1)).toEqual([1.75]);
+  });
+});
+
+describe('fillGaps', () => {
+  const points = [
+    { date: '2026-01-01', members: 100, online: 10, source: 'discord-api' },
+    { date: '2026-01-04', members: 130, online: null, source: 'discord-api' },
+    { date: '2026-01-20', members: 200, online: 20, source: 'discord-api' },
+  ];
+
+  it('adds interpolated points tagged as interpolated', () => {
+    const { points: filled, added } = fillGaps(points, 'daily', ['members', 'online'], { maxGap: 7 });
+
+    expect(added).toEqual([
+      { date: '2026-01-02', members: 110, source: 'interpolated' },
+      { date: '2026-01-03', members: 120, source: 'interpolated' },
+    ]);
+    expect(filled.map(p => p.date)).toEqual([
+      '2026-01-01',
+      '2026-01-02',
+      '2026-01-03',
+      '2026-01-04',
+      '2026-01-20',
+    ]);
+  });
+
+  it('skips gaps longer than maxGap', () => {
+    const { skipped } = fillGaps(points, 'daily', ['members'], { maxGap: 7 });
+
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0].missing).toHaveLength(15);
+  });
+
+  it('does not interpolate from excluded zero values', () => {
+    const withZero = [
+      { date: '2026-01-01', members: 0 },
+      { date: '2026-01-03', members: 100 },
+    ];
+    const { added } = fillGaps(withZero, 'daily', ['members'], { excludeZero: ['members'] });
+
+    expect(added).toEqual([]);
+  });
+
+  it('supports custom date keys', () => {
+    const weekly = [
+      { weekStart: '2026-01-05', n8n: 100 },
+      { weekStart: '2026-01-19', n8n: 300 },
+    ];
+    const { added } = fillGaps(weekly, 'weekly', ['n8n'], { dateKey: 'weekStart' });
+
+    expect(added).toEqual([{ weekStart: '2026-01-12', n8n: 200, source: 'interpolated' }]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Gap detection and interpolation for time series
+ *
+ * Pure functions. Daily logs miss a day whenever the scheduled build
+ * fails; these helpers list the missing periods of a series and can fill
+ * short gaps by linear interpolation, tagging the new points with
+ * `source: 'interpolated'` so charts render them as estimated.
+ */
+
+import { getWeekKey } from './aggregate';
+import type { Granularity } from './types';
+
+export const INTERPOLATED_SOURCE = 'interpolated';
+
+const WEEK_KEY = /^\d{4}-W\d{2}$/;
+const MONTH_KEY = /^\d{4}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateGap {
+  /** Last date present before the gap */
+  after: string;
+  /** First date present after the gap */
+  before: string;
+  /** Expected dates with no data, in order */
+  missing: string[];
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setTime(next.getTime() + days * DAY_MS);
+  return next.toISOString().split('T')[0];
+}
+
+function nextMonth(month: string): string {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Week keys strictly between two week keys. Walks day by day because the
+ * week key scheme is calendar-based, not ISO.
+ */
+function weekKeysBetween(after: string, before: string): string[] {
+  const keys: string[] = [];
+  const year = Number(after.slice(0, 4));
+  let day = `${year}-01-01`;
+  // Find a day inside the `after` week, then step forward
+  while (getWeekKey(day) !== after && day < `${year + 1}-01-08`) {
+    day = addDays(day, 1);
+  }
+  for (let guard = 0; guard < 3700; guard++) {
+    day = addDays(day, 1);
+    const key = getWeekKey(day);
+    if (key >= before) break;
+    if (key !== after && key !== keys[keys.length - 1]) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Expected dates strictly between two consecutive dates of a series
+ */
+export function missingBetween(after: string, before: string, granularity: Granularity): string[] {
+  if (MONTH_KEY.test(after)) {
+    const missing: string[] = [];
+    for (let month = nextMonth(after); month < before; month = nextMonth(month)) {
+      missing.push(month);
+    }
+    return missing;
+  }
+
+  if (WEEK_KEY.test(after)) {
+    return weekKeysBetween(after, before);
+  }
+
+  // YYYY-MM-DD: daily series step 1 day, weekly series (weekStart dates) step 7
+  const step = granularity === 'weekly' ? 7 : 1;
+  const missing: string[] = [];
+  for (let date = addDays(after, step); date < before; date = addDays(date, step)) {
+    // Weekly snapshots taken a day or two late are not gaps
+    if (step > 1 && addDays(date, step) > before) break;
+    missing.push(date);
+  }
+  return missing;
+}
+
+/**
+ * List gaps in a series of dates (any order, duplicates allowed)
+ */
+export function findGaps(dates: string[], granularity: Granularity): DateGap[] {
+  const sorted = Array.from(new Set(dates)).sort();
+  const gaps: DateGap[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const missing = missingBetween(sorted[i - 1], sorted[i], granularity);
+    if (missing.length > 0) {
+      gaps.push({ after: sorted[i - 1], before: sorted[i], missing });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Evenly spaced values strictly between two known values.
+ * Rounded when both ends are integers (counts stay counts).
+ */
+export function interpolateValues(start: number, end: number, count: number): number[] {
+  const round = Number.isInteger(start) && Number.isInteger(end);
+  return Array.from({ length: count }, (_, i) => {
+    const value = start + ((end - start) * (i + 1)) / (count + 1);
+    return round ? Math.round(value) : value;
+  });
+}
+
+export interface FillGapsOptions {
+  /** Key holding the date (default 'date', npm files use 'weekStart') */
+  dateKey?: string;
+  /** Only fill gaps of at most this many missing periods */
+  maxGap?: number;
+  /** Fields where 0 means missing (the registry's excludeZero) */
+  excludeZero?: string[];
+}
+
+export interface FillGapsResult<T> {
+  points: T[];
+  /** Interpolated points that were added */
+  added: T[];
+  /** Gaps left open because they exceed maxGap */
+  skipped: DateGap[];
+}
+
+/**
+ * Fill gaps between existing points with linearly interpolated points.
+ * Each numeric field is interpolated between the points either side of
+ * the gap; fields missing on either side are left out of the new points.
+ */
+export function fillGaps<T extends Record<string, any>>(
+  points: T[],
+  granularity: Granularity,
+  fields: string[],
+  options: FillGapsOptions = {}
+): FillGapsResult<T> {
+  const { dateKey = 'date', maxGap = 7, excludeZero = [] } = options;
+  const byDate = new Map<string, T>(points.map(p => [p[dateKey] as string, p]));
+  const added: T[] = [];
+  const skipped: DateGap[] = [];
+
+  const isUsable = (field: string, value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && !(value === 0 && excludeZero.includes(field));
+
+  for (const gap of findGaps(Array.from(byDate.keys()), granularity)) {
+    if (gap.missing.length > maxGap) {
+      skipped.push(gap);
+      continue;
+    }
+
+    const start = byDate.get(gap.after)!;
+    const end = byDate.get(gap.before)!;
+    const filled = gap.missing.map(date => ({ [dateKey]: date } as Record<string, unknown>));
+
+    for (const field of fields) {
+      if (!isUsable(field, start[field]) || !isUsable(field, end[field])) continue;
+      interpolateValues(start[field], end[field], gap.missing.length).forEach((value, i) => {
+        filled[i][field] = value;
+      });
+    }
+
+    for (const point of filled) {
+      if (Object.keys(point).length === 1) continue; // nothing to interpolate
+      point.source = INTERPOLATED_SOURCE;
+      added.push(point as T);
+    }
+  }
+
+  const merged = [...points, ...added].sort((a, b) =>
+    String(a[dateKey]).localeCompare(String(b[dateKey]))
+  );
+  return { points: merged, added, skipped };
+}
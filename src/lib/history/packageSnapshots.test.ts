@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendPackageSnapshot,
+  decodePackageSnapshots,
+  findAbandonedPackages,
+  findRisingPackages,
+  getDownloadTrend,
+  serializePackageSnapshots,
+  type SnapshotPackage,
+  type TrackedPackage,
+} from './packageSnapshots';
+
+function pkg(name: string, downloadsWeekly: number, overrides: Partial<SnapshotPackage> = {}): SnapshotPackage {
+  return { name, version: '1.0.0', lastUpdated: '2025-01-10', downloadsWeekly, ...overrides };
+}
+
+/** A tracked package with consecutive weekly downloads ending in 2026-03-02 */
+function tracked(name: string, downloads: number[], overrides: Partial<TrackedPackage> = {}): TrackedPackage {
+  const end = new Date('2026-03-02T00:00:00Z').getTime();
+  return {
+    name,
+    downloads: downloads.map((value, i) => ({
+      week: new Date(end - (downloads.length - 1 - i) * 7 * 86400000).toISOString().slice(0, 10),
+      downloads: value,
+    })),
+    versions: [{ version: '1.0.0', date: '2024-06-01' }],
+    lastPublished: '2024-06-01',
+    active: true,
+    ...overrides,
+  };
+}
+
+describe('appendPackageSnapshot', () => {
+  it('appends weekly downloads and new versions', () => {
+    let file = appendPackageSnapshot(null, '2026-01-05', [pkg('a', 100), pkg('b', 0)]);
+    file = appendPackageSnapshot(file, '2026-01-12', [pkg('a', 120, { version: '1.1.0', lastUpdated: '2026-01-08' }), pkg('b', 0)]);
+
+    expect(file.weeks).toEqual(['2026-01-05', '2026-01-12']);
+    expect(file.packages.a).toEqual({
+      downloadsFrom: 0,
+      downloads: [100, 120],
+      versions: [['1.0.0', '2025-01-10'], ['1.1.0', '2026-01-08']],
+      lastSeen: 1,
+    });
+    // Never measured: no downloads, still tracked for versions
+    expect(file.packages.b).toEqual({ downloadsFrom: 1, downloads: [], versions: [['1.0.0', '2025-01-10']], lastSeen: 1 });
+  });
+
+  it('fills unmeasured weeks between measurements with null', () => {
+    let file = appendPackageSnapshot(null, '2026-01-05', [pkg('a', 100)]);
+    file = appendPackageSnapshot(file, '2026-01-12', [pkg('a', 0)]);
+    expect(file.packages.a.downloads).toEqual([100]);
+    file = appendPackageSnapshot(file, '2026-01-19', [pkg('a', 90)]);
+    expect(file.packages.a.downloads).toEqual([100, null, 90]);
+  });
+
+  it('starts downloads at the first measured week', () => {
+    let file = appendPackageSnapshot(null, '2026-01-05', [pkg('a', 0)]);
+    file = appendPackageSnapshot(file, '2026-01-12', [pkg('a', 50)]);
+    expect(file.packages.a).toMatchObject({ downloadsFrom: 1, downloads: [50] });
+  });
+
+  it('replaces values when the same week runs again', () => {
+    let file = appendPackageSnapshot(null, '2026-01-05', [pkg('a', 100)]);
+    file = appendPackageSnapshot(file, '2026-01-12', [pkg('a', 120)]);
+    file = appendPackageSnapshot(file, '2026-01-12', [pkg('a', 130)]);
+    expect(file.weeks).toHaveLength(2);
+    expect(file.packages.a.downloads).toEqual([100, 130]);
+  });
+
+  it('rejects weeks older than the latest', () => {
+    const file = appendPackageSnapshot(null, '2026-01-12', [pkg('a', 100)]);
+    expect(() => appendPackageSnapshot(file, '2026-01-05', [])).toThrow(/older/);
+  });
+
+  it('serializes to valid JSON with one package per line', () => {
+    const file = appendPackageSnapshot(null, '2026-01-05', [pkg('b', 1), pkg('a', 2)]);
+    const text = serializePackageSnapshots(file);
+    expect(JSON.parse(text)).toEqual(file);
+    expect(text.split('\n').filter(line => line.startsWith('    "'))).toHaveLength(2);
+  });
+});
+
+describe('decodePackageSnapshots', () => {
+  it('dates downloads and skips unmeasured weeks', () => {
+    let file = appendPackageSnapshot(null, '2026-01-05', [pkg('a', 100), pkg('gone', 5)]);
+    file = appendPackageSnapshot(file, '2026-01-12', [pkg('a', 0)]);
+    file = appendPackageSnapshot(file, '2026-01-19', [pkg('a', 90, { version: '2.0.0', lastUpdated: '2026-01-15' })]);
+
+    const [a, gone] = decodePackageSnapshots(file);
+    expect(a).toEqual({
+      name: 'a',
+      downloads: [{ week: '2026-01-05', downloads: 100 }, { week: '2026-01-19', downloads: 90 }],
+      versions: [{ version: '1.0.0', date: '2025-01-10' }, { version: '2.0.0', date: '2026-01-15' }],
+      lastPublished: '2026-01-15',
+      active: true,
+    });
+    expect(gone.active).toBe(false);
+  });
+});
+
+describe('findRisingPackages', () => {
+  it('ranks week-over-week growth above the download floor', () => {
+    const rising = findRisingPackages([
+      tracked('doubled', [200, 400]),
+      tracked('grew', [1000, 1500]),
+      tracked('tiny', [10, 100]),
+      tracked('fell', [500, 400]),
+    ], '2026-03-02');
+    expect(rising).toEqual([
+      { name: 'doubled', downloads: 400, previous: 200, growth: 1 },
+      { name: 'grew', downloads: 1500, previous: 1000, growth: 0.5 },
+    ]);
+  });
+
+  it('needs the two latest weeks measured', () => {
+    const gap = tracked('gap', [200, 400]);
+    gap.downloads[0].week = '2026-02-16';
+    expect(findRisingPackages([gap, tracked('old', [200, 400])], '2026-03-09')).toEqual([]);
+    expect(findRisingPackages([gap], '2026-03-02')).toEqual([]);
+  });
+});
+
+describe('getDownloadTrend', () => {
+  it('gives the fitted weekly change relative to the mean', () => {
+    expect(getDownloadTrend(tracked('a', [1100, 1000, 900, 800, 700]).downloads)).toBeCloseTo(-100 / 900);
+    expect(getDownloadTrend(tracked('a', [500, 500, 500, 500]).downloads)).toBe(0);
+    expect(getDownloadTrend(tracked('a', [500, 400, 300]).downloads)).toBeNull();
+  });
+});
+
+describe('findAbandonedPackages', () => {
+  it('finds decaying packages without a publish in 12 months', () => {
+    const abandoned = findAbandonedPackages([
+      tracked('decaying', [1000, 900, 800, 700]),
+      tracked('steady', [1000, 1000, 1000, 1000]),
+      tracked('maintained', [1000, 900, 800, 700], { lastPublished: '2025-12-01' }),
+      tracked('short', [1000, 900]),
+      tracked('removed', [1000, 900, 800, 700], { active: false }),
+    ], '2026-03-02');
+
+    expect(abandoned).toHaveLength(1);
+    expect(abandoned[0]).toMatchObject({ name: 'decaying', downloads: 700, lastPublished: '2024-06-01' });
+    expect(abandoned[0].weeklyTrend).toBeCloseTo(-100 / 850);
+  });
+
+  it('needs downloads measured in the latest week', () => {
+    expect(findAbandonedPackages([tracked('a', [1000, 900, 800, 700])], '2026-03-09')).toEqual([]);
+  });
+});
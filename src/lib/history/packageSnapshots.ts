@@ -0,0 +1,256 @@
+/**
+ * Per-package community node history
+ *
+ * community-nodes.json is replaced by every weekly npm scan; after each
+ * scan update-community-nodes-history.ts adds it to
+ * history/community-packages.json. The file is columnar and compact:
+ * - week start dates are listed once and referenced by index
+ * - a package's weekly downloads are one array starting at the first week
+ *   they were measured; weeks without a measurement in between are null
+ *   and nothing is stored after the last measured week
+ * - versions get a [version, publishedDate] entry when a new one shows up
+ *
+ * npm downloads are only fetched for the top packages, so a package with
+ * 0 downloads in the snapshot counts as not measured.
+ */
+
+import { linearRegression } from '../utils/statistics';
+
+// Types
+
+export interface PackageRecord {
+  /** Week index of downloads[0] */
+  downloadsFrom: number;
+  /** Weekly downloads per week from downloadsFrom on; null when not measured */
+  downloads: Array<number | null>;
+  /** [version, YYYY-MM-DD] in the order they were published */
+  versions: Array<[string, string]>;
+  /** Index of the last week the package was on npm */
+  lastSeen: number;
+}
+
+export interface PackageSnapshots {
+  lastUpdated: string;
+  /** Week start dates (YYYY-MM-DD), oldest first */
+  weeks: string[];
+  packages: Record<string, PackageRecord>;
+}
+
+/** One package in a new snapshot */
+export interface SnapshotPackage {
+  name: string;
+  version: string;
+  /** Publish date of the version (YYYY-MM-DD) */
+  lastUpdated: string;
+  downloadsWeekly: number;
+}
+
+/** A decoded package with its history */
+export interface TrackedPackage {
+  name: string;
+  downloads: Array<{ week: string; downloads: number }>;
+  versions: Array<{ version: string; date: string }>;
+  /** Publish date of the latest version */
+  lastPublished: string | null;
+  /** Whether the package was in the latest snapshot */
+  active: boolean;
+}
+
+export interface RisingPackage {
+  name: string;
+  downloads: number;
+  previous: number;
+  /** Week-over-week change as a fraction (0.5 = +50%) */
+  growth: number;
+}
+
+export interface AbandonedPackage {
+  name: string;
+  downloads: number;
+  lastPublished: string;
+  /** Fitted weekly change over the trend window, as a fraction of its mean */
+  weeklyTrend: number;
+}
+
+/** Downloads last week needed to count as rising (filters out tiny packages doubling) */
+export const RISING_MIN_DOWNLOADS = 100;
+
+/** Months without a publish before a package can count as abandoned */
+export const NO_PUBLISH_MONTHS = 12;
+
+/** Weeks of downloads the decay trend is fitted over, and the fewest it needs */
+const TREND_WEEKS = 8;
+const MIN_TREND_WEEKS = 4;
+
+/** Fitted weekly change below which downloads count as decaying (-2% a week) */
+const DECAY_THRESHOLD = -0.02;
+
+// Recording
+
+/**
+ * Add a weekly snapshot of every package. Running again in the same week
+ * replaces that week's values.
+ */
+export function appendPackageSnapshot(
+  existing: PackageSnapshots | null,
+  week: string,
+  packages: SnapshotPackage[]
+): PackageSnapshots {
+  const file: PackageSnapshots = existing
+    ? { ...existing, weeks: [...existing.weeks], packages: { ...existing.packages } }
+    : { lastUpdated: '', weeks: [], packages: {} };
+
+  const lastWeek = file.weeks[file.weeks.length - 1];
+  if (lastWeek && week < lastWeek) {
+    throw new Error(`Snapshot week ${week} is older than the latest week ${lastWeek}`);
+  }
+  if (week !== lastWeek) file.weeks.push(week);
+  const weekIndex = file.weeks.length - 1;
+
+  for (const pkg of packages) {
+    const previous = file.packages[pkg.name];
+    let downloadsFrom = previous?.downloadsFrom ?? weekIndex;
+    let downloads = previous ? [...previous.downloads] : [];
+
+    // Drop a value already recorded for this week before re-recording it
+    if (downloadsFrom + downloads.length - 1 === weekIndex) downloads.pop();
+    while (downloads.length > 0 && downloads[downloads.length - 1] === null) downloads.pop();
+    if (downloads.length === 0) downloadsFrom = weekIndex;
+
+    if (pkg.downloadsWeekly > 0) {
+      while (downloadsFrom + downloads.length < weekIndex) downloads.push(null);
+      downloads.push(pkg.downloadsWeekly);
+    }
+
+    const versions = previous ? [...previous.versions] : [];
+    const latest = versions[versions.length - 1];
+    if (!latest || latest[0] !== pkg.version) versions.push([pkg.version, pkg.lastUpdated.slice(0, 10)]);
+
+    file.packages[pkg.name] = { downloadsFrom, downloads, versions, lastSeen: weekIndex };
+  }
+
+  file.lastUpdated = new Date().toISOString();
+  return file;
+}
+
+/**
+ * JSON with one package per line, so weekly appends diff line by line
+ */
+export function serializePackageSnapshots(file: PackageSnapshots): string {
+  const entries = Object.entries(file.packages)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, record]) => `    ${JSON.stringify(name)}: ${JSON.stringify(record)}`);
+
+  return [
+    '{',
+    `  "lastUpdated": ${JSON.stringify(file.lastUpdated)},`,
+    `  "weeks": ${JSON.stringify(file.weeks)},`,
+    '  "packages": {',
+    entries.join(',\n'),
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+// Reading
+
+/**
+ * Expand the snapshot file into packages with dated downloads and versions
+ */
+export function decodePackageSnapshots(file: PackageSnapshots): TrackedPackage[] {
+  const latest = file.weeks.length - 1;
+  return Object.entries(file.packages).map(([name, record]) => {
+    const downloads = record.downloads.flatMap((value, i) =>
+      value === null ? [] : [{ week: file.weeks[record.downloadsFrom + i], downloads: value }]
+    );
+    const versions = record.versions.map(([version, date]) => ({ version, date }));
+    return {
+      name,
+      downloads,
+      versions,
+      lastPublished: versions[versions.length - 1]?.date ?? null,
+      active: record.lastSeen === latest,
+    };
+  });
+}
+
+/**
+ * Biggest week-over-week download growth. Both weeks must be measured,
+ * consecutive and the latest week in the file.
+ */
+export function findRisingPackages(
+  packages: TrackedPackage[],
+  latestWeek: string,
+  limit: number = 20,
+  minDownloads: number = RISING_MIN_DOWNLOADS
+): RisingPackage[] {
+  const previousWeek = shiftWeek(latestWeek, -1);
+
+  return packages
+    .flatMap(pkg => {
+      const [previous, current] = pkg.downloads.slice(-2);
+      if (!pkg.active || !previous || current.week !== latestWeek || previous.week !== previousWeek) return [];
+      if (previous.downloads < minDownloads) return [];
+      const growth = (current.downloads - previous.downloads) / previous.downloads;
+      return growth > 0 ? [{ name: pkg.name, downloads: current.downloads, previous: previous.downloads, growth }] : [];
+    })
+    .sort((a, b) => b.growth - a.growth || b.downloads - a.downloads)
+    .slice(0, limit);
+}
+
+/**
+ * Fitted weekly change of the last TREND_WEEKS measured weeks, as a
+ * fraction of their mean; null with fewer than MIN_TREND_WEEKS
+ */
+export function getDownloadTrend(downloads: TrackedPackage['downloads']): number | null {
+  const recent = downloads.slice(-TREND_WEEKS);
+  if (recent.length < MIN_TREND_WEEKS) return null;
+
+  const origin = new Date(recent[0].week).getTime();
+  const points = recent.map(point => ({
+    x: (new Date(point.week).getTime() - origin) / (7 * 24 * 60 * 60 * 1000),
+    y: point.downloads,
+  }));
+  const mean = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const fit = linearRegression(points);
+  if (!fit || mean === 0) return null;
+  return fit.slope / mean;
+}
+
+/**
+ * Packages still on npm with no publish in NO_PUBLISH_MONTHS and
+ * decaying downloads, most downloaded first. Downloads must be measured
+ * in the latest week.
+ */
+export function findAbandonedPackages(
+  packages: TrackedPackage[],
+  latestWeek: string,
+  limit: number = 20
+): AbandonedPackage[] {
+  const cutoff = new Date(`${latestWeek}T00:00:00Z`);
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - NO_PUBLISH_MONTHS);
+  const cutoffDate = cutoff.toISOString().slice(0, 10);
+
+  return packages
+    .flatMap(pkg => {
+      if (!pkg.active || !pkg.lastPublished || pkg.lastPublished >= cutoffDate) return [];
+      if (pkg.downloads[pkg.downloads.length - 1]?.week !== latestWeek) return [];
+      const weeklyTrend = getDownloadTrend(pkg.downloads);
+      if (weeklyTrend === null || weeklyTrend > DECAY_THRESHOLD) return [];
+      return [{
+        name: pkg.name,
+        downloads: pkg.downloads[pkg.downloads.length - 1].downloads,
+        lastPublished: pkg.lastPublished,
+        weeklyTrend,
+      }];
+    })
+    .sort((a, b) => b.downloads - a.downloads)
+    .slice(0, limit);
+}
+
+function shiftWeek(week: string, weeks: number): string {
+  const date = new Date(`${week}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + weeks * 7);
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MetricCheck } from './anomalies';
+
+interface RepoPoint {
+  date: string;
+  stars: number;
+  openIssues: number;
+}
+
+const CHECKS: MetricCheck[] = [
+  { field: 'stars', cumulative: true, excludeZero: true },
+  { field: 'openIssues', excludeZero: true },
+];
+
+/** Steady star growth with open issues wobbling around 1000 */
+function repoHistory(days: number): RepoPoint[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: `2026-01-${String(i + 1).padStart(2, '0')}`,
+    stars: 50000 + i * 40 + (i % 3) * 2,
+    openIssues: 1000 + (i % 4) * 3,
+  }));
+}
+
+// DATA_DIR is read when the store loads, so each test imports it fresh
+let dataDir: string;
+
+async function loadStore() {
+  vi.resetModules();
+  return import('./store');
+}
+
+beforeEach(() => {
+  dataDir = mkdtempSync(join(tmpdir(), 'store-test-'));
+  vi.stubEnv('DATA_DIR', dataDir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe('screenPoint', () => {
+  it('passes clean points through unchanged', async () => {
+    const { screenPoint, loadQuarantine } = await loadStore();
+    const point = { date: '2026-01-21', stars: 50802, openIssues: 1003 };
+    const screened = screenPoint({
+      metric: 'github', path: join(dataDir, 'github.json'), key: 'entries',
+      history: repoHistory(20), point, checks: CHECKS,
+    });
+
+    expect(screened).toEqual({ point, anomalies: [] });
+    expect(loadQuarantine().entries).toEqual([]);
+  });
+
+  it('quarantines only the failing field', async () => {
+    const { screenPoint, loadQuarantine } = await loadStore();
+    const screened = screenPoint({
+      metric: 'github', path: join(dataDir, 'github.json'), key: 'entries',
+      history: repoHistory(20), point: { date: '2026-01-21', stars: 50802, openIssues: 9000 }, checks: CHECKS,
+    });
+
+    // Stars are written; open issues keep the last accepted value
+    expect(screened.point).toEqual({ date: '2026-01-21', stars: 50802, openIssues: 1009 });
+    expect(screened.anomalies.map(a => a.field)).toEqual(['openIssues']);
+
+    const [entry] = loadQuarantine().entries;
+    expect(entry).toMatchObject({ id: 'github-2026-01-21', file: 'github.json', key: 'entries' });
+    expect(entry.point).toEqual({ date: '2026-01-21', openIssues: 9000 });
+  });
+
+  it('accepts a drop that persists past its quarantined day', async () => {
+    const { screenPoint } = await loadStore();
+    const history = repoHistory(20);
+    const options = { metric: 'github', path: join(dataDir, 'github.json'), key: 'entries', checks: CHECKS };
+
+    const first = screenPoint({ ...options, history, point: { date: '2026-01-21', stars: 40000, openIssues: 1003 } });
+    expect(first.point.stars).toBe(50762);
+    history.push(first.point);
+
+    const second = screenPoint({ ...options, history, point: { date: '2026-01-22', stars: 40030, openIssues: 1006 } });
+    expect(second.anomalies).toEqual([]);
+    expect(second.point.stars).toBe(40030);
+  });
+});
+
+describe('acceptQuarantined', () => {
+  it('merges the held-back fields into the written point', async () => {
+    const { acceptQuarantined, readJsonFile, screenPoint, writeJsonFile, loadQuarantine } = await loadStore();
+    const path = join(dataDir, 'github.json');
+    const history = repoHistory(20);
+    const screened = screenPoint({
+      metric: 'github', path, key: 'entries',
+      history, point: { date: '2026-01-21', stars: 50802, openIssues: 9000 }, checks: CHECKS,
+    });
+    writeJsonFile(path, { entries: [...history, screened.point] });
+
+    acceptQuarantined(loadQuarantine().entries[0]);
+
+    const log = readJsonFile<{ entries: RepoPoint[] }>(path);
+    expect(log?.entries.at(-1)).toEqual({ date: '2026-01-21', stars: 50802, openIssues: 9000 });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * History file storage and update runner
+ *
+ * Node-only (uses fs). Each update-*-history script describes its metric
+ * with a HistoryConfig and hands it to updateHistory(), which appends
+ * today's value to the raw log and regenerates the aggregated history.
+ * Values failing anomaly checks are held in a quarantine file instead.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import { buildHistory, upsertByDate } from './aggregate';
+import { detectPersistentAnomalies, type Anomaly, type AnomalyOptions, type MetricCheck } from './anomalies';
+import type { HistoryFile, HistoryPoint, HistorySource, RawLog, RollupMode } from './types';
+
+// Paths. DATA_DIR points scripts at a copy of public/data (offline replay).
+export const DATA_DIR = process.env.DATA_DIR
+  ? resolve(process.env.DATA_DIR)
+  : join(process.cwd(), 'public', 'data');
+export const HISTORY_DIR = join(DATA_DIR, 'history');
+export const QUARANTINE_PATH = join(DATA_DIR, 'quarantine.json');
+
+/**
+ * Read a JSON file, returning null if it is missing or unparseable
+ */
+export function readJsonFile<T>(path: string): T | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a JSON file, creating the parent directory if needed
+ */
+export function writeJsonFile(path: string, data: unknown): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(data, null, 2));
+}
+
+export function loadRawLog<T extends HistoryPoint>(path: string): RawLog<T> {
+  return readJsonFile<RawLog<T>>(path) ?? { entries: [] };
+}
+
+export function loadHistoryFile<T extends HistoryPoint>(path: string): HistoryFile<T> | null {
+  return readJsonFile<HistoryFile<T>>(path);
+}
+
+// Quarantine
+
+export interface QuarantinedPoint {
+  /** `<metric>-<date>`; re-running a script on the same day replaces the entry */
+  id: string;
+  metric: string;
+  /** Log the point belongs to, relative to public/data */
+  file: string;
+  /** Array in that file the point is upserted into */
+  key: string;
+  /** Date and source plus only the fields that failed their checks */
+  point: HistoryPoint;
+  anomalies: Anomaly[];
+  quarantinedAt: string;
+}
+
+export interface QuarantineFile {
+  lastUpdated: string;
+  entries: QuarantinedPoint[];
+}
+
+export interface ScreenPointOptions<T extends HistoryPoint> {
+  /** Short metric name, e.g. 'discord' */
+  metric: string;
+  /** Absolute path of the log the point is destined for */
+  path: string;
+  /** Array key in that file ('entries' for raw logs, 'daily' for snapshot files) */
+  key: string;
+  history: T[];
+  point: T;
+  checks: MetricCheck[];
+  options?: AnomalyOptions;
+}
+
+export interface ScreenedPoint<T extends HistoryPoint> {
+  /** The point to write: quarantined fields keep their last accepted value */
+  point: T;
+  /** Why fields were held back; empty if the whole point passed */
+  anomalies: Anomaly[];
+}
+
+export function loadQuarantine(): QuarantineFile {
+  return readJsonFile<QuarantineFile>(QUARANTINE_PATH) ?? { lastUpdated: new Date().toISOString(), entries: [] };
+}
+
+export function saveQuarantine(quarantine: QuarantineFile): void {
+  writeJsonFile(QUARANTINE_PATH, { ...quarantine, lastUpdated: new Date().toISOString() });
+}
+
+/**
+ * Values quarantined for the same log before this point's date
+ */
+function pendingPoints(quarantine: QuarantineFile, file: string, key: string, date: string): HistoryPoint[] {
+  return quarantine.entries
+    .filter(e => e.file === file && e.key === key && e.point.date < date)
+    .map(e => e.point);
+}
+
+/**
+ * Run anomaly checks on a fetched point. Each failing field is added to
+ * the quarantine file on its own and keeps its last accepted value in the
+ * returned point, so one glitch doesn't hold back the other fields.
+ */
+export function screenPoint<T extends HistoryPoint>(options: ScreenPointOptions<T>): ScreenedPoint<T> {
+  const file = relative(DATA_DIR, options.path).replace(/\\/g, '/');
+  const quarantine = loadQuarantine();
+  const anomalies = detectPersistentAnomalies(
+    options.history,
+    pendingPoints(quarantine, file, options.key, options.point.date),
+    options.point,
+    options.checks,
+    options.options
+  );
+  if (anomalies.length === 0) {
+    return { point: options.point, anomalies };
+  }
+
+  const held: Record<string, unknown> = { date: options.point.date, source: options.point.source };
+  const accepted = { ...options.point } as Record<string, unknown>;
+  for (const anomaly of anomalies) {
+    held[anomaly.field] = anomaly.value;
+    if (anomaly.previous === null) {
+      delete accepted[anomaly.field];
+    } else {
+      accepted[anomaly.field] = anomaly.previous;
+    }
+  }
+
+  const entry: QuarantinedPoint = {
+    id: `${options.metric}-${options.point.date}`,
+    metric: options.metric,
+    file,
+    key: options.key,
+    point: held as unknown as HistoryPoint,
+    anomalies,
+    quarantinedAt: new Date().toISOString(),
+  };
+
+  quarantine.entries = [...quarantine.entries.filter(e => e.id !== entry.id), entry];
+  saveQuarantine(quarantine);
+
+  console.warn(`\n  ⚠ Quarantined ${anomalies.map(a => a.field).join(', ')} for ${entry.id}:`);
+  for (const anomaly of anomalies) {
+    console.warn(`    ${anomaly.message}`);
+  }
+  console.warn('  Review with: npm run review-quarantine');
+
+  return { point: accepted as T, anomalies };
+}
+
+/**
+ * Write a quarantined point into its log
+ */
+export function acceptQuarantined(entry: QuarantinedPoint): void {
+  const path = join(DATA_DIR, entry.file);
+  const data = readJsonFile<Record<string, unknown>>(path) ?? {};
+  const points = Array.isArray(data[entry.key]) ? (data[entry.key] as HistoryPoint[]) : [];
+  upsertByDate(points, entry.point);
+  writeJsonFile(path, { ...data, [entry.key]: points });
+}
+
+// Update runner
+
+export interface HistoryConfig<T extends HistoryPoint> {
+  /** Display name for log output, e.g. 'GitHub' */
+  name: string;
+  rawLogPath: string;
+  historyPath: string;
+  /** Source tag stamped on fetched points that don't set one */
+  source: HistorySource;
+  /** Fetch today's data point */
+  fetch: () => Promise<T>;
+  /** Labelled values to print after fetching */
+  describe?: (point: T) => Record<string, number | null | undefined>;
+  /** Merge over the existing history file instead of regenerating it from the raw log */
+  preserveExisting?: boolean;
+  rollup?: RollupMode;
+  /** Treat 0 in fresh data as missing when merging over backfilled values */
+  zeroIsMissing?: boolean;
+  mergePoint?: (existing: T, fresh: T) => T;
+  /** Format version stamped on the raw log and history file */
+  schemaVersion?: number;
+  /** Fields checked for glitches before the point is written; failing fields are quarantined */
+  anomalyChecks?: MetricCheck[];
+}
+
+export interface HistoryUpdateResult<T extends HistoryPoint> {
+  point: T;
+  rawLog: RawLog<T>;
+  history: HistoryFile<T>;
+  /** True if any field failed anomaly checks and was held back */
+  quarantined: boolean;
+}
+
+/**
+ * Fetch today's value, append it to the raw log and regenerate the history file
+ */
+export async function updateHistory<T extends HistoryPoint>(
+  config: HistoryConfig<T>
+): Promise<HistoryUpdateResult<T>> {
+  console.log(`Updating ${config.name} history...\n`);
+
+  // Load existing raw log
+  const loaded = loadRawLog<T>(config.rawLogPath);
+  const rawLog: RawLog<T> = config.schemaVersion
+    ? { ...loaded, schemaVersion: config.schemaVersion }
+    : loaded;
+  console.log(`Loaded ${rawLog.entries.length} existing entries`);
+
+  // Fetch current stats
+  console.log(`Fetching current ${config.name} stats...`);
+  const fetched = await config.fetch();
+  const point: T = { ...fetched, source: fetched.source ?? config.source };
+  for (const [label, value] of Object.entries(config.describe?.(point) ?? {})) {
+    console.log(`  ${label}: ${value?.toLocaleString() ?? 'N/A'}`);
+  }
+
+  // Hold back glitch values (0 members, reset stars) for review
+  const screened: ScreenedPoint<T> = config.anomalyChecks === undefined
+    ? { point, anomalies: [] }
+    : screenPoint({
+      metric: config.name.toLowerCase(),
+      path: config.rawLogPath,
+      key: 'entries',
+      history: rawLog.entries,
+      point,
+      checks: config.anomalyChecks,
+    });
+
+  // Append or replace today's entry
+  const updated = upsertByDate(rawLog.entries, screened.point);
+  console.log(updated
+    ? `\nEntry for ${point.date} already exists, updating...`
+    : `\nAdding new entry for ${point.date}`);
+
+  writeJsonFile(config.rawLogPath, rawLog);
+  console.log(`Saved raw log (${rawLog.entries.length} entries)`);
+
+  // Generate and save aggregated history
+  const history: HistoryFile<T> = {
+    ...(config.schemaVersion && { schemaVersion: config.schemaVersion }),
+    ...buildHistory(rawLog.entries, {
+      existing: config.preserveExisting ? loadHistoryFile<T>(config.historyPath) : null,
+      rollup: config.rollup,
+      zeroIsMissing: config.zeroIsMissing,
+      mergePoint: config.mergePoint,
+    }),
+  };
+  writeJsonFile(config.historyPath, history);
+  console.log(`\nGenerated history:`);
+  console.log(`  Daily: ${history.daily.length} entries`);
+  console.log(`  Weekly: ${history.weekly.length} entries`);
+  console.log(`  Monthly: ${history.monthly.length} entries`);
+
+  return { point: screened.point, rawLog, history, quarantined: screened.anomalies.length > 0 };
+}
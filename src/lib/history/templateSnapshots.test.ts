@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendTemplateSnapshot,
+  buildNodeIndex,
+  decodeTemplateSnapshots,
+  findSimilarTemplates,
+  getCategoryRanks,
+  getLifetimeVelocity,
+  getTemplateCategory,
+  getViewVelocity,
+  selectPagedTemplates,
+  serializeTemplateSnapshots,
+  type SnapshotTemplate,
+  type TrackedTemplate,
+} from './templateSnapshots';
+
+function template(id: number, views: number, overrides: Partial<SnapshotTemplate> = {}): SnapshotTemplate {
+  return {
+    id,
+    name: `Template ${id}`,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    creator: 'ada',
+    category: 'AI',
+    nodes: ['n8n-nodes-base.stickyNote', 'n8n-nodes-base.httpRequest'],
+    views,
+    ...overrides,
+  };
+}
+
+function tracked(id: number, nodes: string[], overrides: Partial<TrackedTemplate> = {}): TrackedTemplate {
+  return {
+    id,
+    name: `Template ${id}`,
+    createdAt: '2025-01-01',
+    creator: 'ada',
+    category: 'AI',
+    nodes,
+    views: 100,
+    history: [],
+    active: true,
+    ...overrides,
+  };
+}
+
+describe('getTemplateCategory', () => {
+  it('picks the most common specific node category', () => {
+    expect(getTemplateCategory([
+      ['AI', 'Langchain'],
+      ['Communication', 'HITL'],
+      ['Communication'],
+      ['Core Nodes'],
+    ])).toBe('Communication');
+  });
+
+  it('falls back to Other for core-only templates', () => {
+    expect(getTemplateCategory([['Core Nodes'], []])).toBe('Other');
+  });
+});
+
+describe('appendTemplateSnapshot', () => {
+  it('records views only when they change and interns node types', () => {
+    let file = appendTemplateSnapshot(null, '2026-01-05', [template(1, 100), template(2, 50)]);
+    file = appendTemplateSnapshot(file, '2026-01-12', [template(1, 100), template(2, 80)]);
+
+    expect(file.dates).toEqual(['2026-01-05', '2026-01-12']);
+    expect(file.nodeTypes).toEqual(['n8n-nodes-base.stickyNote', 'n8n-nodes-base.httpRequest']);
+    expect(file.templates['1'].views).toEqual([[0, 100]]);
+    expect(file.templates['2'].views).toEqual([[0, 50], [1, 80]]);
+    expect(file.templates['1'].createdAt).toBe('2025-01-01');
+  });
+
+  it('replaces values when run again on the same date', () => {
+    let file = appendTemplateSnapshot(null, '2026-01-05', [template(1, 100)]);
+    file = appendTemplateSnapshot(file, '2026-01-12', [template(1, 120)]);
+    file = appendTemplateSnapshot(file, '2026-01-12', [template(1, 130)]);
+
+    expect(file.dates).toHaveLength(2);
+    expect(file.templates['1'].views).toEqual([[0, 100], [1, 130]]);
+  });
+
+  it('keeps removed templates but marks them inactive', () => {
+    let file = appendTemplateSnapshot(null, '2026-01-05', [template(1, 100), template(2, 50)]);
+    file = appendTemplateSnapshot(file, '2026-01-12', [template(1, 110)]);
+
+    const decoded = decodeTemplateSnapshots(file);
+    expect(decoded.find(t => t.id === 2)).toMatchObject({ active: false, views: 50 });
+    expect(decoded.find(t => t.id === 1)).toMatchObject({ active: true, views: 110 });
+  });
+
+  it('rejects snapshots older than the latest one', () => {
+    const file = appendTemplateSnapshot(null, '2026-01-12', [template(1, 100)]);
+    expect(() => appendTemplateSnapshot(file, '2026-01-05', [])).toThrow(/older/);
+  });
+
+  it('serializes to parseable JSON with one template per line', () => {
+    const file = appendTemplateSnapshot(null, '2026-01-05', [template(2, 50), template(1, 100)]);
+    const text = serializeTemplateSnapshots(file);
+
+    expect(JSON.parse(text)).toEqual(file);
+    expect(text.split('\n').filter(line => line.startsWith('    "'))).toHaveLength(2);
+  });
+});
+
+describe('getViewVelocity', () => {
+  const history = [
+    { date: '2026-01-01', views: 100 },
+    { date: '2026-01-15', views: 240 },
+    { date: '2026-01-29', views: 380 },
+  ];
+
+  it('measures views per day over the window', () => {
+    expect(getViewVelocity(history, '2026-01-29', 14)).toBe(10);
+  });
+
+  it('uses the last stored point before the window start', () => {
+    // Views were still 100 at the window start (2026-01-09)
+    expect(getViewVelocity(history, '2026-01-29', 20)).toBeCloseTo(280 / 20);
+  });
+
+  it('uses the whole history when it is shorter than the window', () => {
+    expect(getViewVelocity(history, '2026-01-29', 90)).toBe(10);
+  });
+
+  it('returns null for a single snapshot', () => {
+    expect(getViewVelocity(history.slice(0, 1), '2026-01-01', 7)).toBeNull();
+  });
+});
+
+describe('getLifetimeVelocity', () => {
+  it('averages views since publishing', () => {
+    expect(getLifetimeVelocity({ views: 300, createdAt: '2026-01-01' }, '2026-01-31')).toBe(10);
+    expect(getLifetimeVelocity({ views: 300, createdAt: '2026-01-31' }, '2026-01-31')).toBeNull();
+  });
+});
+
+describe('getCategoryRanks', () => {
+  it('ranks templates by views within their category', () => {
+    const ranks = getCategoryRanks([
+      tracked(1, [], { views: 10 }),
+      tracked(2, [], { views: 30 }),
+      tracked(3, [], { views: 20, category: 'Communication' }),
+    ]);
+
+    expect(ranks.get(1)).toEqual({ rank: 2, of: 2 });
+    expect(ranks.get(2)).toEqual({ rank: 1, of: 2 });
+    expect(ranks.get(3)).toEqual({ rank: 1, of: 1 });
+  });
+});
+
+describe('findSimilarTemplates', () => {
+  const templates = [
+    tracked(1, ['slack', 'gmail', 'openAi', 'n8n-nodes-base.stickyNote']),
+    tracked(2, ['slack', 'gmail', 'openAi'], { views: 5 }),
+    tracked(3, ['slack', 'gmail', 'openAi'], { views: 50 }),
+    tracked(4, ['slack', 'notion', 'airtable', 'code']),
+    tracked(5, ['n8n-nodes-base.stickyNote', 'postgres']),
+  ];
+  const index = buildNodeIndex(templates);
+
+  it('ranks by node overlap, then views, ignoring sticky notes', () => {
+    const similar = findSimilarTemplates(templates[0], index);
+
+    expect(similar.map(s => s.id)).toEqual([3, 2, 4]);
+    expect(similar[0]).toEqual({ id: 3, similarity: 1, sharedNodes: ['slack', 'gmail', 'openAi'] });
+    expect(similar[2].similarity).toBeCloseTo(1 / 6, 3);
+  });
+
+  it('finds nothing for templates without shared nodes', () => {
+    expect(findSimilarTemplates(templates[4], index)).toEqual([]);
+  });
+});
+
+describe('selectPagedTemplates', () => {
+  it('keeps the most viewed active templates', () => {
+    const paged = selectPagedTemplates([
+      tracked(1, [], { views: 10 }),
+      tracked(2, [], { views: 90, active: false }),
+      tracked(3, [], { views: 50 }),
+    ], 1);
+
+    expect(paged.map(t => t.id)).toEqual([3]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Per-template snapshot history
+ *
+ * fetch-all-templates.ts pulls every template each week; this keeps what
+ * the template pages need from each pull in history/template-snapshots.json.
+ * The file is append-only and compact:
+ * - snapshot dates are listed once and referenced by index
+ * - node types are interned into a shared list and referenced by index
+ * - a template's views get a new [dateIndex, views] point only when they
+ *   changed since its previous point
+ * Name, creator, category and nodes are the latest seen values.
+ */
+
+// Types
+
+/** A template as recorded in the snapshot file */
+export interface TemplateRecord {
+  name: string;
+  /** YYYY-MM-DD */
+  createdAt: string;
+  creator: string;
+  category: string;
+  /** Indices into TemplateSnapshots.nodeTypes */
+  nodes: number[];
+  /** [dateIndex, totalViews] points, one per change */
+  views: Array<[number, number]>;
+  /** Index of the last snapshot the template was in */
+  lastSeen: number;
+}
+
+export interface TemplateSnapshots {
+  lastUpdated: string;
+  /** Snapshot dates (YYYY-MM-DD), oldest first */
+  dates: string[];
+  nodeTypes: string[];
+  templates: Record<string, TemplateRecord>;
+}
+
+/** One template in a new snapshot */
+export interface SnapshotTemplate {
+  id: number;
+  name: string;
+  createdAt: string;
+  creator: string;
+  category: string;
+  nodes: string[];
+  views: number;
+}
+
+/** A decoded template with its views history */
+export interface TrackedTemplate extends Omit<SnapshotTemplate, 'views'> {
+  views: number;
+  history: Array<{ date: string; views: number }>;
+  /** Whether the template was in the latest snapshot */
+  active: boolean;
+}
+
+export interface SimilarTemplate {
+  id: number;
+  /** Jaccard similarity of the node sets (0-1) */
+  similarity: number;
+  sharedNodes: string[];
+}
+
+/** Templates that get a /templates/[id] page (by views) */
+export const TEMPLATE_PAGE_LIMIT = 1000;
+
+/** Node categories too broad to describe a template */
+const GENERIC_CATEGORIES = ['Core Nodes', 'Langchain', 'HITL', 'Miscellaneous', 'Utility'];
+
+/** Nodes ignored when comparing templates (present in almost every template) */
+const SIMILARITY_EXCLUDED = ['n8n-nodes-base.stickyNote'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Recording
+
+/**
+ * A template's category: the most common specific category among its
+ * nodes' codex categories (one list per node), or 'Other'
+ */
+export function getTemplateCategory(nodeCategories: string[][]): string {
+  const counts = new Map<string, number>();
+  for (const categories of nodeCategories) {
+    for (const category of new Set(categories)) {
+      if (GENERIC_CATEGORIES.includes(category)) continue;
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+  }
+
+  let best = 'Other';
+  let bestCount = 0;
+  for (const [category, count] of counts) {
+    if (count > bestCount || (count === bestCount && category < best)) {
+      best = category;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Add a snapshot of every template. Running again on the same date
+ * replaces that date's values.
+ */
+export function appendTemplateSnapshot(
+  existing: TemplateSnapshots | null,
+  date: string,
+  templates: SnapshotTemplate[]
+): TemplateSnapshots {
+  const file: TemplateSnapshots = existing
+    ? { ...existing, dates: [...existing.dates], nodeTypes: [...existing.nodeTypes], templates: { ...existing.templates } }
+    : { lastUpdated: '', dates: [], nodeTypes: [], templates: {} };
+
+  const lastDate = file.dates[file.dates.length - 1];
+  if (lastDate && date < lastDate) {
+    throw new Error(`Snapshot ${date} is older than the latest snapshot ${lastDate}`);
+  }
+  if (date !== lastDate) file.dates.push(date);
+  const dateIndex = file.dates.length - 1;
+
+  const nodeIndex = new Map(file.nodeTypes.map((type, i) => [type, i]));
+  const intern = (type: string): number => {
+    let index = nodeIndex.get(type);
+    if (index === undefined) {
+      index = file.nodeTypes.push(type) - 1;
+      nodeIndex.set(type, index);
+    }
+    return index;
+  };
+
+  for (const template of templates) {
+    const previous = file.templates[String(template.id)];
+    const views = (previous?.views ?? []).filter(([i]) => i !== dateIndex);
+    const last = views[views.length - 1];
+    if (!last || last[1] !== template.views) views.push([dateIndex, template.views]);
+
+    file.templates[String(template.id)] = {
+      name: template.name,
+      createdAt: template.createdAt.slice(0, 10),
+      creator: template.creator,
+      category: template.category,
+      nodes: [...new Set(template.nodes)].map(intern),
+      views,
+      lastSeen: dateIndex,
+    };
+  }
+
+  file.lastUpdated = new Date().toISOString();
+  return file;
+}
+
+/**
+ * JSON with one template per line, so weekly appends diff line by line
+ */
+export function serializeTemplateSnapshots(file: TemplateSnapshots): string {
+  const entries = Object.entries(file.templates)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([id, record]) => `    ${JSON.stringify(id)}: ${JSON.stringify(record)}`);
+
+  return [
+    '{',
+    `  "lastUpdated": ${JSON.stringify(file.lastUpdated)},`,
+    `  "dates": ${JSON.stringify(file.dates)},`,
+    `  "nodeTypes": ${JSON.stringify(file.nodeTypes)},`,
+    '  "templates": {',
+    entries.join(',\n'),
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+// Reading
+
+/**
+ * Expand the snapshot file into templates with dated views history
+ */
+export function decodeTemplateSnapshots(file: TemplateSnapshots): TrackedTemplate[] {
+  const latest = file.dates.length - 1;
+  return Object.entries(file.templates).map(([id, record]) => {
+    const history = record.views.map(([i, views]) => ({ date: file.dates[i], views }));
+    return {
+      id: Number(id),
+      name: record.name,
+      createdAt: record.createdAt,
+      creator: record.creator,
+      category: record.category,
+      nodes: record.nodes.map(i => file.nodeTypes[i]),
+      views: history[history.length - 1]?.views ?? 0,
+      history,
+      active: record.lastSeen === latest,
+    };
+  });
+}
+
+/**
+ * Average views per day over the last `windowDays` before `asOf` (the
+ * latest snapshot date); shorter histories use all of it, and a history
+ * starting at `asOf` gives null. Points are only stored on change, so the
+ * value at the window start is the last point at or before it.
+ */
+export function getViewVelocity(
+  history: TrackedTemplate['history'],
+  asOf: string,
+  windowDays: number
+): number | null {
+  if (history.length === 0) return null;
+
+  const end = new Date(asOf).getTime();
+  const start = end - windowDays * MS_PER_DAY;
+  const before = [...history].reverse().find(p => new Date(p.date).getTime() <= start);
+  const first = before ?? history[0];
+  const firstTime = before ? start : new Date(first.date).getTime();
+
+  const days = (end - firstTime) / MS_PER_DAY;
+  if (days <= 0) return null;
+
+  const latest = history[history.length - 1];
+  return (latest.views - first.views) / days;
+}
+
+/**
+ * Average views per day since the template was published
+ */
+export function getLifetimeVelocity(template: Pick<TrackedTemplate, 'views' | 'createdAt'>, asOf: string): number | null {
+  const days = (new Date(asOf).getTime() - new Date(template.createdAt).getTime()) / MS_PER_DAY;
+  return days >= 1 ? template.views / days : null;
+}
+
+/**
+ * Rank of every template within its category by views (1 = most viewed)
+ */
+export function getCategoryRanks(templates: TrackedTemplate[]): Map<number, { rank: number; of: number }> {
+  const byCategory = new Map<string, TrackedTemplate[]>();
+  for (const template of templates) {
+    const list = byCategory.get(template.category) ?? [];
+    list.push(template);
+    byCategory.set(template.category, list);
+  }
+
+  const ranks = new Map<number, { rank: number; of: number }>();
+  for (const list of byCategory.values()) {
+    list.sort((a, b) => b.views - a.views || a.id - b.id);
+    list.forEach((template, i) => ranks.set(template.id, { rank: i + 1, of: list.length }));
+  }
+  return ranks;
+}
+
+/**
+ * Node type to the templates using it, for finding similar templates
+ */
+export function buildNodeIndex(templates: TrackedTemplate[]): Map<string, TrackedTemplate[]> {
+  const index = new Map<string, TrackedTemplate[]>();
+  for (const template of templates) {
+    for (const type of template.nodes) {
+      if (SIMILARITY_EXCLUDED.includes(type)) continue;
+      const list = index.get(type) ?? [];
+      list.push(template);
+      index.set(type, list);
+    }
+  }
+  return index;
+}
+
+/**
+ * Templates with the most node overlap (Jaccard similarity), most viewed first on ties
+ */
+export function findSimilarTemplates(
+  target: TrackedTemplate,
+  index: Map<string, TrackedTemplate[]>,
+  limit: number = 6
+): SimilarTemplate[] {
+  const targetNodes = [...new Set(target.nodes)].filter(type => !SIMILARITY_EXCLUDED.includes(type));
+  if (targetNodes.length === 0) return [];
+
+  const shared = new Map<TrackedTemplate, string[]>();
+  for (const type of targetNodes) {
+    for (const other of index.get(type) ?? []) {
+      if (other.id === target.id) continue;
+      const list = shared.get(other) ?? [];
+      list.push(type);
+      shared.set(other, list);
+    }
+  }
+
+  const countNodes = (template: TrackedTemplate) =>
+    new Set(template.nodes.filter(type => !SIMILARITY_EXCLUDED.includes(type))).size;
+
+  return Array.from(shared.entries())
+    .map(([other, nodes]) => ({
+      template: other,
+      similarity: nodes.length / (targetNodes.length + countNodes(other) - nodes.length),
+      sharedNodes: nodes,
+    }))
+    .sort((a, b) => b.similarity - a.similarity || b.template.views - a.template.views)
+    .slice(0, limit)
+    .map(({ template, similarity, sharedNodes }) => ({
+      id: template.id,
+      similarity: Number(similarity.toFixed(3)),
+      sharedNodes,
+    }));
+}
+
+/**
+ * Templates that get a page: the most viewed of those still published
+ */
+export function selectPagedTemplates(templates: TrackedTemplate[], limit: number = TEMPLATE_PAGE_LIMIT): TrackedTemplate[] {
+  return templates
+    .filter(template => template.active)
+    .sort((a, b) => b.views - a.views || a.id - b.id)
+    .slice(0, limit);
+}
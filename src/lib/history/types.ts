@@ -0,0 +1,48 @@
+/**
+ * Shared types for history data files
+ *
+ * Every update-*-history script writes the same shapes: a raw log of
+ * daily entries plus a history file with daily/weekly/monthly arrays.
+ */
+
+export type Granularity = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Where a data point came from.
+ * API sources are tagged per service (e.g. 'github-api', 'discord-api'),
+ * backfills keep the name of the archive they came from (e.g. 'wayback').
+ */
+export type HistorySource =
+  | 'api'
+  | `${string}-api`
+  | 'external'
+  | 'seed'
+  | 'daily-log'
+  | (string & {});
+
+/** Base shape of every history data point */
+export interface HistoryPoint {
+  /** YYYY-MM-DD for daily, YYYY-Www for weekly, YYYY-MM for monthly */
+  date: string;
+  source?: HistorySource;
+  sourceDetail?: string;
+}
+
+/** Raw append-only log of daily entries */
+export interface RawLog<T extends HistoryPoint> {
+  /** Format version, see src/lib/schemas/registry.ts (absent means 1) */
+  schemaVersion?: number;
+  entries: T[];
+}
+
+/** Aggregated history file read by charts and the playground */
+export interface HistoryFile<T extends HistoryPoint> {
+  schemaVersion?: number;
+  lastUpdated: string;
+  daily: T[];
+  weekly: T[];
+  monthly: T[];
+}
+
+/** How entries within one week/month are combined into a single point */
+export type RollupMode = 'last' | 'sum';
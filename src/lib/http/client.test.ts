@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHttpClient, fixturePath, type HttpFetch } from './client';
+
+const URL_GITHUB = 'https://api.github.com/repos/n8n-io/n8n';
+
+function jsonTransport(body: unknown, status = 200): { transport: HttpFetch; calls: string[] } {
+  const calls: string[] = [];
+  const transport: HttpFetch = async (input) => {
+    calls.push(input.toString());
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+    });
+  };
+  return { transport, calls };
+}
+
+describe('fixturePath', () => {
+  it('groups fixtures by host with a readable slug', () => {
+    expect(fixturePath(URL_GITHUB)).toMatch(/^api\.github\.com[/\\]get-repos-n8n-io-n8n-[0-9a-f]{10}\.json$/);
+  });
+
+  it('distinguishes query strings and methods', () => {
+    expect(fixturePath(`${URL_GITHUB}?page=1`)).not.toBe(fixturePath(`${URL_GITHUB}?page=2`));
+    expect(fixturePath(URL_GITHUB, { method: 'POST' })).not.toBe(fixturePath(URL_GITHUB));
+  });
+
+  it('ignores credentials in JSON request bodies', () => {
+    const session = (password: string) => ({
+      method: 'POST',
+      body: JSON.stringify({ identifier: 'n8n.io', password }),
+    });
+    expect(fixturePath(URL_GITHUB, session('one'))).toBe(fixturePath(URL_GITHUB, session('two')));
+  });
+});
+
+describe('createHttpClient', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'http-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('passes requests straight through in live mode', async () => {
+    const { transport, calls } = jsonTransport({ stargazers_count: 1 });
+    const client = createHttpClient({ mode: 'live', fixturesDir: dir, transport });
+
+    const response = await client(URL_GITHUB);
+    expect(await response.json()).toEqual({ stargazers_count: 1 });
+    expect(calls).toEqual([URL_GITHUB]);
+  });
+
+  it('replays recorded responses without touching the network', async () => {
+    const { transport } = jsonTransport({ stargazers_count: 169400 }, 200);
+    await createHttpClient({ mode: 'record', fixturesDir: dir, transport })(URL_GITHUB);
+
+    const offline = jsonTransport({});
+    const replay = createHttpClient({ mode: 'replay', fixturesDir: dir, transport: offline.transport });
+    const response = await replay(URL_GITHUB);
+
+    expect(response.ok).toBe(true);
+    expect(response.headers.get('content-type')).toContain('application/json');
+    expect(await response.json()).toEqual({ stargazers_count: 169400 });
+    expect(offline.calls).toEqual([]);
+  });
+
+  it('replays error statuses', async () => {
+    const { transport } = jsonTransport({ message: 'rate limited' }, 429);
+    await createHttpClient({ mode: 'record', fixturesDir: dir, transport })(URL_GITHUB);
+
+    const response = await createHttpClient({ mode: 'replay', fixturesDir: dir })(URL_GITHUB);
+    expect(response.status).toBe(429);
+  });
+
+  it('fails on unrecorded requests in replay mode', async () => {
+    const client = createHttpClient({ mode: 'replay', fixturesDir: dir });
+    await expect(client(URL_GITHUB)).rejects.toThrow(/No HTTP fixture for GET/);
+  });
+
+  it('redacts tokens in recorded fixtures but not in the live response', async () => {
+    const { transport } = jsonTransport({ did: 'did:plc:1', accessJwt: 'secret-jwt' });
+    const client = createHttpClient({ mode: 'record', fixturesDir: dir, transport });
+
+    const response = await client(URL_GITHUB, { method: 'POST', body: '{}' });
+    expect((await response.json()).accessJwt).toBe('secret-jwt');
+
+    const saved = readFileSync(join(dir, fixturePath(URL_GITHUB, { method: 'POST', body: '{}' })), 'utf-8');
+    expect(saved).not.toContain('secret-jwt');
+    expect(JSON.parse(saved).response.json).toEqual({ did: 'did:plc:1', accessJwt: '[redacted]' });
+  });
+});
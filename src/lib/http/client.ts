@@ -0,0 +1,181 @@
+/**
+ * HTTP client with record/replay fixtures
+ *
+ * Node-only (uses fs). Scripts call httpFetch() instead of fetch() so the
+ * whole ingestion pipeline can run against recorded responses:
+ *
+ *   HTTP_MODE=record  - call the live endpoint and save each response
+ *   HTTP_MODE=replay  - serve saved responses, fail on anything unrecorded
+ *   (unset)           - plain fetch
+ *
+ * Fixtures live in fixtures/http/<host>/ (override with HTTP_FIXTURES_DIR).
+ */
+
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { readJsonFile, writeJsonFile } from '../history/store';
+
+export type HttpMode = 'live' | 'record' | 'replay';
+
+export type HttpFetch = (input: string | URL, init?: RequestInit) => Promise<Response>;
+
+export interface HttpClientOptions {
+  mode?: HttpMode;
+  fixturesDir?: string;
+  /** Underlying transport for live and record modes */
+  transport?: HttpFetch;
+}
+
+export interface HttpFixture {
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** Parsed body for JSON responses, raw text otherwise */
+    json?: unknown;
+    text?: string;
+  };
+}
+
+export const DEFAULT_FIXTURES_DIR = join(process.cwd(), 'fixtures', 'http');
+
+// Fields that must never end up in a committed fixture or its key
+const SENSITIVE_KEY = /jwt|token|password|secret|identifier/i;
+
+// Only headers scripts actually read are kept
+const RECORDED_HEADERS = ['content-type', 'link', 'retry-after'];
+
+/**
+ * HTTP mode from the HTTP_MODE environment variable
+ */
+export function getHttpMode(): HttpMode {
+  const mode = process.env.HTTP_MODE;
+  if (mode === 'record' || mode === 'replay') return mode;
+  return 'live';
+}
+
+/** Replace sensitive values in a JSON body with a placeholder */
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        SENSITIVE_KEY.test(key) && typeof v === 'string' ? '[redacted]' : redact(v),
+      ])
+    );
+  }
+  return value;
+}
+
+/** Request body with credentials removed, so fixtures match across environments */
+function requestBodyKey(body: RequestInit['body']): string {
+  if (typeof body !== 'string') return '';
+  try {
+    return JSON.stringify(redact(JSON.parse(body)));
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Fixture file path (relative to the fixtures dir) for a request.
+ * Keyed on method, URL and request body; headers such as auth tokens
+ * are deliberately left out.
+ */
+export function fixturePath(url: string, init?: RequestInit): string {
+  const method = (init?.method ?? 'GET').toUpperCase();
+  const body = requestBodyKey(init?.body);
+  const hash = createHash('sha1').update(`${method} ${url}\n${body}`).digest('hex').slice(0, 10);
+
+  const parsed = new URL(url);
+  const slug = parsed.pathname
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60) || 'root';
+
+  return join(parsed.host, `${method.toLowerCase()}-${slug}-${hash}.json`);
+}
+
+function toFixture(url: string, method: string, response: Response, text: string): HttpFixture {
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  }
+
+  let body: HttpFixture['response'] = { status: response.status, statusText: response.statusText, headers, text };
+  if (headers['content-type']?.includes('json')) {
+    try {
+      body = { ...body, text: undefined, json: redact(JSON.parse(text)) };
+    } catch {
+      // Keep the raw text for malformed JSON so replay reproduces the failure
+    }
+  }
+
+  return {
+    recordedAt: new Date().toISOString(),
+    request: { method, url },
+    response: body,
+  };
+}
+
+function buildResponse(fixture: HttpFixture, body: string): Response {
+  const { status, statusText, headers } = fixture.response;
+  // Null-body statuses cannot carry a body
+  return new Response([204, 304].includes(status) ? null : body, { status, statusText, headers });
+}
+
+function fromFixture(fixture: HttpFixture): Response {
+  const { json, text } = fixture.response;
+  return buildResponse(fixture, json !== undefined ? JSON.stringify(json) : text ?? '');
+}
+
+/**
+ * Create a fetch-compatible client for the given mode
+ */
+export function createHttpClient(options: HttpClientOptions = {}): HttpFetch {
+  const mode = options.mode ?? getHttpMode();
+  const fixturesDir = options.fixturesDir ?? process.env.HTTP_FIXTURES_DIR ?? DEFAULT_FIXTURES_DIR;
+  const transport = options.transport ?? ((input, init) => fetch(input, init));
+
+  return async (input, init) => {
+    const url = input.toString();
+    if (mode === 'live') {
+      return transport(url, init);
+    }
+
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const path = join(fixturesDir, fixturePath(url, init));
+
+    if (mode === 'replay') {
+      const fixture = readJsonFile<HttpFixture>(path);
+      if (!fixture) {
+        throw new Error(`No HTTP fixture for ${method} ${url} (expected ${path})`);
+      }
+      return fromFixture(fixture);
+    }
+
+    const response = await transport(url, init);
+    const text = await response.text();
+    const fixture = toFixture(url, method, response, text);
+    writeJsonFile(path, fixture);
+    // The caller gets the unredacted body (e.g. session tokens for later requests)
+    return buildResponse(fixture, text);
+  };
+}
+
+let defaultClient: HttpFetch | null = null;
+
+/**
+ * fetch() replacement for scripts, honouring HTTP_MODE
+ */
+export const httpFetch: HttpFetch = (input, init) => {
+  defaultClient ??= createHttpClient();
+  return defaultClient(input, init);
+};
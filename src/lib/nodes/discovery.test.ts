@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildChangelog,
+  discoverNodes,
+  harvestNodeTypes,
+  inferCategory,
+  inferDisplayName,
+  isBuiltInNodeType,
+  trackedNodes,
+} from './discovery';
+import { knownNodeDocuments, trainClassifier } from '../community-nodes/classifier';
+import type { KnownNode } from './knownNodes';
+
+const KNOWN: KnownNode[] = [
+  { type: 'n8n-nodes-base.slack', displayName: 'Slack', category: 'Communication' },
+  { type: 'n8n-nodes-base.telegram', displayName: 'Telegram', category: 'Communication' },
+  { type: 'n8n-nodes-base.googleSheets', displayName: 'Google Sheets', category: 'Google' },
+  { type: 'n8n-nodes-base.googleDrive', displayName: 'Google Drive', category: 'Google' },
+  { type: 'n8n-nodes-base.linkedin', displayName: 'LinkedIn', category: 'Social Media' },
+  { type: 'n8n-nodes-base.scheduleTrigger', displayName: 'Schedule Trigger', category: 'Triggers' },
+  { type: '@n8n/n8n-nodes-langchain.agent', displayName: 'AI Agent', category: 'AI' },
+];
+
+const model = trainClassifier(knownNodeDocuments(KNOWN));
+
+describe('isBuiltInNodeType', () => {
+  it('accepts the base and langchain packages only', () => {
+    expect(isBuiltInNodeType('n8n-nodes-base.slack')).toBe(true);
+    expect(isBuiltInNodeType('@n8n/n8n-nodes-langchain.agent')).toBe(true);
+    expect(isBuiltInNodeType('n8n-nodes-evolution-api.evolutionApi')).toBe(false);
+    expect(isBuiltInNodeType('n8n-nodes-base.')).toBe(false);
+  });
+});
+
+describe('harvestNodeTypes', () => {
+  it('merges template metadata with snapshot types', () => {
+    const corpus = harvestNodeTypes(
+      [
+        { name: 'n8n-nodes-base.mattermost', displayName: 'Mattermost', categories: ['Communication'] },
+        { name: 'n8n-nodes-community.thing', displayName: 'Thing' },
+      ],
+      ['n8n-nodes-base.mattermost', 'n8n-nodes-base.awsS3', 'n8n-nodes-other.x']
+    );
+    expect(corpus).toEqual([
+      { type: 'n8n-nodes-base.mattermost', displayName: 'Mattermost', codexCategories: ['Communication'] },
+      { type: 'n8n-nodes-base.awsS3' },
+    ]);
+  });
+});
+
+describe('inferDisplayName', () => {
+  it('splits the type name into words', () => {
+    expect(inferDisplayName('n8n-nodes-base.googleSheetsTrigger')).toBe('Google Sheets Trigger');
+    expect(inferDisplayName('n8n-nodes-base.awsS3')).toBe('Aws S3');
+    expect(inferDisplayName('n8n-nodes-base.microsoftSQL')).toBe('Microsoft SQL');
+  });
+});
+
+describe('inferCategory', () => {
+  it('uses the category of a tracked variant of the same service', () => {
+    expect(inferCategory({ type: 'n8n-nodes-base.slackTrigger' }, 'Slack Trigger', KNOWN, model))
+      .toEqual({ category: 'Communication', categorySource: 'sibling' });
+    expect(inferCategory({ type: 'n8n-nodes-base.telegramTool', codexCategories: ['Utility'] }, 'Telegram Tool', KNOWN, model))
+      .toEqual({ category: 'Communication', categorySource: 'sibling' });
+  });
+
+  it('puts langchain and AI codex nodes in AI', () => {
+    expect(inferCategory({ type: '@n8n/n8n-nodes-langchain.toolSlack' }, 'Slack Tool', KNOWN, model))
+      .toEqual({ category: 'AI', categorySource: 'codex' });
+    expect(inferCategory({ type: 'n8n-nodes-base.perplexity', codexCategories: ['AI'] }, 'Perplexity', KNOWN, model))
+      .toEqual({ category: 'AI', categorySource: 'codex' });
+  });
+
+  it('falls back from the classifier to the codex category, then Other', () => {
+    expect(inferCategory({ type: 'n8n-nodes-base.googleDocs' }, 'Google Docs', KNOWN, model))
+      .toEqual({ category: 'Google', categorySource: 'model' });
+    expect(inferCategory({ type: 'n8n-nodes-base.nocoDb', codexCategories: ['Core Nodes', 'Data & Storage'] }, 'NocoDB', KNOWN, model))
+      .toEqual({ category: 'Database & Storage', categorySource: 'codex' });
+    expect(inferCategory({ type: 'n8n-nodes-base.quickbooks', codexCategories: ['Finance & Accounting'] }, 'QuickBooks Online', KNOWN, model))
+      .toEqual({ category: 'Other', categorySource: 'fallback' });
+  });
+});
+
+describe('discoverNodes', () => {
+  const corpus = [
+    { type: 'n8n-nodes-base.slack', displayName: 'Slack' },
+    { type: 'n8n-nodes-base.linkedIn', displayName: 'LinkedIn' },
+    { type: 'n8n-nodes-base.mattermost', displayName: 'Mattermost', codexCategories: ['Communication'] },
+  ];
+
+  it('records untracked nodes, treating case variants as tracked', () => {
+    const { file, added } = discoverNodes(null, corpus, KNOWN, '2026-10-05');
+    expect(added).toEqual([{
+      type: 'n8n-nodes-base.mattermost',
+      displayName: 'Mattermost',
+      category: 'Communication',
+      categorySource: 'codex',
+      discoveredAt: '2026-10-05',
+    }]);
+    expect(file.baselineDate).toBe('2026-10-05');
+    expect(file.nodes).toEqual(added);
+  });
+
+  it('only adds nodes not discovered in earlier runs', () => {
+    const first = discoverNodes(null, corpus, KNOWN, '2026-10-05').file;
+    const { file, added } = discoverNodes(first, [...corpus, { type: 'n8n-nodes-base.slackTrigger' }], KNOWN, '2026-10-12');
+    expect(added.map(node => node.type)).toEqual(['n8n-nodes-base.slackTrigger']);
+    expect(added[0]).toMatchObject({ displayName: 'Slack Trigger', category: 'Communication' });
+    expect(file.baselineDate).toBe('2026-10-05');
+    expect(file.nodes).toHaveLength(2);
+  });
+});
+
+describe('trackedNodes', () => {
+  it('appends discovered nodes not yet in the known list', () => {
+    const { file } = discoverNodes(null, [
+      { type: 'n8n-nodes-base.mattermost' },
+      { type: 'n8n-nodes-base.awsS3' },
+    ], KNOWN, '2026-10-05');
+    const known = [...KNOWN, { type: 'n8n-nodes-base.awsS3', displayName: 'AWS S3', category: 'Database & Storage' }];
+
+    const nodes = trackedNodes(known, file);
+    expect(nodes).toHaveLength(known.length + 1);
+    expect(nodes[nodes.length - 1]).toEqual({ type: 'n8n-nodes-base.mattermost', displayName: 'Mattermost', category: 'Other' });
+    expect(trackedNodes(KNOWN, null)).toEqual(KNOWN);
+  });
+});
+
+describe('buildChangelog', () => {
+  it('groups nodes found after the baseline by run, newest first', () => {
+    let file = discoverNodes(null, [{ type: 'n8n-nodes-base.awsS3' }], KNOWN, '2026-10-05').file;
+    file = discoverNodes(file, [{ type: 'n8n-nodes-base.mattermost' }], KNOWN, '2026-10-12').file;
+    file = discoverNodes(file, [{ type: 'n8n-nodes-base.slackTrigger' }, { type: 'n8n-nodes-base.telegramTrigger' }], KNOWN, '2026-10-19').file;
+
+    const changelog = buildChangelog(file);
+    expect(changelog.map(entry => entry.date)).toEqual(['2026-10-19', '2026-10-12']);
+    expect(changelog[0].nodes.map(node => node.type)).toEqual(['n8n-nodes-base.slackTrigger', 'n8n-nodes-base.telegramTrigger']);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Built-in node discovery
+ *
+ * Pure functions. KNOWN_NODES is maintained by hand, so nodes n8n ships
+ * after it was last edited are never counted. fetch-all-nodes.ts harvests
+ * the node types used in the template corpus (all-templates-data.json and
+ * history/template-snapshots.json), keeps the built-in ones missing from
+ * KNOWN_NODES and records them in discovered-nodes.json, which the weekly
+ * count fetch then includes.
+ *
+ * Display names come from the templates' node metadata, or the type name
+ * split into words. Categories are inferred in order from:
+ * 1. the AI/Langchain codex category, or the langchain package itself
+ * 2. a trigger or tool variant of the same service already tracked
+ * 3. the community package classifier, trained on KNOWN_NODES
+ * 4. the first codex category with a counterpart on /nodes
+ *
+ * The first discovery run records everything missing as a baseline; only
+ * nodes found after it appear in the "new node" changelog. The templates
+ * API matches node types case-insensitively, so a type that only differs
+ * in case from a tracked one ('linkedIn' vs 'linkedin') is the same node.
+ */
+
+import type { KnownNode } from './knownNodes';
+import {
+  FALLBACK_CATEGORY,
+  MIN_CONFIDENCE,
+  classify,
+  knownNodeDocuments,
+  trainClassifier,
+  type CategoryModel,
+} from '../community-nodes/classifier';
+
+// Types
+
+/** A node type seen in the template corpus */
+export interface CorpusNode {
+  type: string;
+  /** Display name from the template metadata, when known */
+  displayName?: string;
+  /** Codex categories from the template metadata */
+  codexCategories?: string[];
+}
+
+/** Node usage entry in all-templates-data.json */
+export interface TemplateNodeUsage {
+  name: string;
+  displayName?: string;
+  categories?: string[];
+}
+
+export interface DiscoveredNode extends KnownNode {
+  /** Date of the run that first found the node (YYYY-MM-DD) */
+  discoveredAt: string;
+  categorySource: 'sibling' | 'codex' | 'model' | 'fallback';
+}
+
+export interface DiscoveredNodes {
+  lastUpdated: string;
+  /** Date of the first discovery run; nodes found then were already shipped */
+  baselineDate: string;
+  nodes: DiscoveredNode[];
+}
+
+export interface ChangelogEntry {
+  date: string;
+  nodes: DiscoveredNode[];
+}
+
+/** Packages whose nodes ship with n8n */
+export const BUILT_IN_PREFIXES = ['n8n-nodes-base.', '@n8n/n8n-nodes-langchain.'];
+
+const LANGCHAIN_PREFIX = '@n8n/n8n-nodes-langchain.';
+
+/**
+ * Codex categories with a /nodes counterpart. Core Nodes, Miscellaneous
+ * and HITL say nothing about the service, and Marketing is shared by
+ * social, CMS and video apps, so those fall through.
+ */
+const CODEX_CATEGORIES: Record<string, string> = {
+  'Communication': 'Communication',
+  'Data & Storage': 'Database & Storage',
+  'Sales': 'CRM & Sales',
+  'Productivity': 'Productivity',
+  'Development': 'Developer Tools',
+  'Utility': 'Utility',
+};
+
+// Harvesting
+
+export function isBuiltInNodeType(type: string): boolean {
+  return BUILT_IN_PREFIXES.some(prefix => type.startsWith(prefix) && type.length > prefix.length);
+}
+
+/**
+ * Built-in node types in the corpus, merging the template usage metadata
+ * with the bare types from the template snapshots
+ */
+export function harvestNodeTypes(usage: TemplateNodeUsage[], snapshotTypes: string[] = []): CorpusNode[] {
+  const nodes = new Map<string, CorpusNode>();
+  for (const node of usage) {
+    if (!isBuiltInNodeType(node.name)) continue;
+    nodes.set(node.name, { type: node.name, displayName: node.displayName || undefined, codexCategories: node.categories });
+  }
+  for (const type of snapshotTypes) {
+    if (isBuiltInNodeType(type) && !nodes.has(type)) nodes.set(type, { type });
+  }
+  return [...nodes.values()];
+}
+
+// Inference
+
+/**
+ * Display name from a node type: 'n8n-nodes-base.googleSheetsTrigger' is
+ * 'Google Sheets Trigger'
+ */
+export function inferDisplayName(type: string): string {
+  const name = type.slice(type.lastIndexOf('.') + 1);
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+    .replace(/^./, first => first.toUpperCase());
+}
+
+/** Service a node type belongs to: trigger and tool variants share it */
+function serviceKey(type: string): string {
+  return type
+    .slice(type.lastIndexOf('.') + 1)
+    .replace(/(Trigger|Tool)$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Category of a newly found node, with where it came from
+ */
+export function inferCategory(
+  node: CorpusNode,
+  displayName: string,
+  knownNodes: KnownNode[],
+  model: CategoryModel
+): Pick<DiscoveredNode, 'category' | 'categorySource'> {
+  const codex = node.codexCategories ?? [];
+  if (codex.includes('AI') || codex.includes('Langchain') || node.type.startsWith(LANGCHAIN_PREFIX)) {
+    return { category: 'AI', categorySource: 'codex' };
+  }
+
+  const key = serviceKey(node.type);
+  const sibling = knownNodes.find(known => serviceKey(known.type) === key && known.category !== 'Triggers');
+  if (sibling) return { category: sibling.category, categorySource: 'sibling' };
+
+  const { category, confidence } = classify(model, `${displayName} ${node.type.slice(node.type.lastIndexOf('.') + 1)}`);
+  if (confidence >= MIN_CONFIDENCE) return { category, categorySource: 'model' };
+
+  const mapped = codex.map(name => CODEX_CATEGORIES[name]).find(Boolean);
+  if (mapped) return { category: mapped, categorySource: 'codex' };
+
+  return { category: FALLBACK_CATEGORY, categorySource: 'fallback' };
+}
+
+// Recording
+
+/**
+ * Add corpus nodes that are neither in KNOWN_NODES nor already
+ * discovered. Returns the updated file and the nodes added this run.
+ */
+export function discoverNodes(
+  existing: DiscoveredNodes | null,
+  corpus: CorpusNode[],
+  knownNodes: KnownNode[],
+  date: string
+): { file: DiscoveredNodes; added: DiscoveredNode[] } {
+  const tracked = new Set([...knownNodes, ...(existing?.nodes ?? [])].map(node => node.type.toLowerCase()));
+  const model = trainClassifier(knownNodeDocuments(knownNodes));
+
+  const added = corpus
+    .filter(node => !tracked.has(node.type.toLowerCase()))
+    .map(node => {
+      const displayName = node.displayName ?? inferDisplayName(node.type);
+      return { type: node.type, displayName, ...inferCategory(node, displayName, knownNodes, model), discoveredAt: date };
+    })
+    .sort((a, b) => a.type.localeCompare(b.type));
+
+  return {
+    file: {
+      lastUpdated: new Date().toISOString(),
+      baselineDate: existing?.baselineDate ?? date,
+      nodes: [...(existing?.nodes ?? []), ...added],
+    },
+    added,
+  };
+}
+
+// Reading
+
+/**
+ * KNOWN_NODES followed by the discovered nodes not (yet) added to it by hand
+ */
+export function trackedNodes(knownNodes: KnownNode[], discovered: DiscoveredNodes | null): KnownNode[] {
+  const known = new Set(knownNodes.map(node => node.type.toLowerCase()));
+  const extra = (discovered?.nodes ?? [])
+    .filter(node => !known.has(node.type.toLowerCase()))
+    .map(({ type, displayName, category }) => ({ type, displayName, category }));
+  return [...knownNodes, ...extra];
+}
+
+/**
+ * Nodes found after the baseline run, grouped by run, newest first
+ */
+export function buildChangelog(file: DiscoveredNodes): ChangelogEntry[] {
+  const byDate = new Map<string, DiscoveredNode[]>();
+  for (const node of file.nodes) {
+    if (node.discoveredAt <= file.baselineDate) continue;
+    byDate.set(node.discoveredAt, [...(byDate.get(node.discoveredAt) ?? []), node]);
+  }
+  return [...byDate.entries()]
+    .map(([date, nodes]) => ({ date, nodes }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
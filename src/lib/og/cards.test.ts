@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { buildDetailCards, buildOgCard, getCardSpecs, ogImagePath, resolveOgImage, type OgCardSpec } from './cards';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+const github = {
+  monthly: [
+    { date: '2025-02', stars: 100000 },
+    { date: '2025-09', stars: 110000 },
+    { date: '2026-02', stars: 125000 },
+  ],
+};
+
+const discord = {
+  daily: [
+    { date: '2026-01-01', members: 1000 },
+    { date: '2026-03-01', members: 1500 },
+  ],
+};
+
+function loadFile(file: string): any {
+  if (file === '/data/github-history.json') return github;
+  if (file === '/data/history/discord.json') return discord;
+  return null;
+}
+
+const spec: OgCardSpec = {
+  path: '/dev',
+  title: 'Developer Stats',
+  subtitle: 'GitHub and Discord',
+  metrics: ['github-stars', 'discord-members', 'reddit-subscribers', 'not-a-metric'],
+  range: '1y',
+};
+
+describe('buildOgCard', () => {
+  it('summarizes each metric with data over the range', () => {
+    const card = buildOgCard(spec, loadFile, NOW);
+
+    expect(card.series.map(s => s.metricId)).toEqual(['github-stars', 'discord-members']);
+    // 2025-02 is before the 1y range
+    expect(card.series[0]).toMatchObject({ label: 'GitHub Stars', value: '125.0K', change: '+13.6%' });
+    expect(card.series[0].points).toHaveLength(2);
+    expect(card.series[1]).toMatchObject({ value: '1.5K', change: '+50.0%' });
+  });
+
+  it('dates the card by its newest point across granularities', () => {
+    expect(buildOgCard(spec, loadFile, NOW).asOf).toBe('2026-03-01');
+    expect(buildOgCard({ ...spec, metrics: ['reddit-subscribers'] }, loadFile, NOW)).toMatchObject({ series: [], asOf: null });
+  });
+
+  it('has a card for every saved playground view', () => {
+    const paths = getCardSpecs().map(s => s.path);
+    expect(paths).toContain('/');
+    expect(paths).toContain('/playground/views/stars-vs-forum');
+    expect(new Set(paths).size).toBe(paths.length);
+  });
+});
+
+describe('buildDetailCards', () => {
+  const files: Record<string, unknown> = {
+    '/data/all-nodes-data.json': {
+      lastUpdated: '2026-03-01T00:00:00Z',
+      nodes: {
+        all: [
+          { type: 'n8n-nodes-base.slack', displayName: 'Slack', category: 'Communication', count: 900 },
+          { type: 'n8n-nodes-base.code', displayName: 'Code', category: 'Core Nodes', count: 3650 },
+        ],
+      },
+    },
+    '/data/nodes-history.json': {
+      nodeStats: { 'n8n-nodes-base.slack': { history: [{ date: '2026-02-01', count: 800 }, { date: '2026-03-01', count: 900 }] } },
+    },
+    '/data/history/creators.json': {
+      lastUpdated: '2026-03-01T00:00:00Z',
+      creators: [{ username: 'jane', name: 'Jane Doe', templateCount: 12, totalViews: 5000, totalInserters: 400 }],
+    },
+    '/data/history/creators-timeline.json': {
+      lastUpdated: '2026-03-01T00:00:00Z',
+      weekly: [
+        { date: '2026-02-22', creators: [{ username: 'jane', rank: 1, totalViews: 4000, totalInserters: 300, templateCount: 11 }] },
+        { date: '2026-03-01', creators: [{ username: 'jane', rank: 1, totalViews: 5000, totalInserters: 400, templateCount: 12 }] },
+      ],
+    },
+    '/data/history/template-snapshots.json': {
+      lastUpdated: '2026-03-01T00:00:00Z',
+      dates: ['2026-02-22', '2026-03-01'],
+      nodeTypes: ['n8n-nodes-base.slack'],
+      templates: {
+        42: { name: 'Slack digest', createdAt: '2025-06-01', creator: 'jane', category: 'Communication', nodes: [0], views: [[0, 100], [1, 150]], lastSeen: 1 },
+      },
+    },
+  };
+  const cards = buildDetailCards(file => files[file] ?? null);
+  const byPath = new Map(cards.map(card => [card.path, card]));
+
+  it('has a card for every node, creator and template page', () => {
+    expect(cards.map(card => card.path)).toEqual(['/nodes/slack', '/nodes/code', '/creators/jane', '/templates/42']);
+  });
+
+  it('charts the history each page shows', () => {
+    expect(byPath.get('/nodes/slack')!.series[0]).toMatchObject({ value: '900', change: '+12.5%' });
+    expect(byPath.get('/creators/jane')!.series.map(s => s.label)).toEqual(['Total Views', 'Total Inserters']);
+    expect(byPath.get('/creators/jane')!.series[0].change).toBe('+25.0%');
+    expect(byPath.get('/templates/42')!).toMatchObject({ title: 'Slack digest', asOf: '2026-03-01' });
+  });
+
+  it('falls back to the current count without history', () => {
+    expect(byPath.get('/nodes/code')!.series[0].points).toEqual([{ date: '2026-03-01', value: 3650 }]);
+  });
+});
+
+describe('resolveOgImage', () => {
+  const generated = new Set([ogImagePath('/'), ogImagePath('/nodes'), ogImagePath('/playground/views/stars-vs-forum')]);
+  const hasImage = (imagePath: string) => generated.has(imagePath);
+
+  it('uses the page card, then the section card', () => {
+    expect(resolveOgImage('/', hasImage)).toBe('/og/home.png');
+    expect(resolveOgImage('/nodes/', hasImage)).toBe('/og/nodes.png');
+    expect(resolveOgImage('/nodes/slack', hasImage)).toBe('/og/nodes.png');
+    expect(resolveOgImage('/playground/views/stars-vs-forum/', hasImage)).toBe('/og/playground-views-stars-vs-forum.png');
+  });
+
+  it('falls back to the default image, not the home card', () => {
+    expect(resolveOgImage('/data-sources', hasImage)).toBe('/og-image.png');
+    expect(resolveOgImage('/', () => false)).toBe('/og-image.png');
+  });
+});
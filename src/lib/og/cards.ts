@@ -0,0 +1,260 @@
+/**
+ * OG Image Cards
+ *
+ * The data behind each page's social sharing image: current numbers for
+ * a few playground metrics plus their recent history for the chart.
+ * Node, creator and template pages get cards from their own history
+ * instead. scripts/generate-og-images.ts renders every card to public/og/
+ * before the Astro build; BaseLayout then points og:image at the closest
+ * card for the page, falling back to the static /og-image.png.
+ */
+
+import { getCreatorHistory, type CreatorsTimeline } from '../creators/profile';
+import { decodeTemplateSnapshots, selectPagedTemplates, type TemplateSnapshots } from '../history/templateSnapshots';
+import { buildMetricResponse, readDataFile, type ApiRange } from '../playground/api';
+import { getMetricById } from '../playground/registry';
+import type { RangePreset } from '../playground/state';
+import { SAVED_VIEWS, savedViewPath } from '../playground/views';
+import { periodIndex } from '../utils/dates';
+import { formatChange, formatNumber, getNodePageUrl } from '../utils/formatters';
+
+export const OG_IMAGE_DIR = '/og';
+export const DEFAULT_OG_IMAGE = '/og-image.png';
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+/** Metrics shown on a card; the image has room for four */
+const MAX_CARD_METRICS = 4;
+
+export interface OgCardSpec {
+  /** Page path the card is for, e.g. '/dev' */
+  path: string;
+  title: string;
+  subtitle: string;
+  metrics: string[];
+  range: RangePreset;
+}
+
+export interface OgCardSeries {
+  metricId: string;
+  label: string;
+  color: string;
+  /** Latest value, formatted */
+  value: string;
+  /** Change over the card's range, e.g. '+12.5%'; null without a start value */
+  change: string | null;
+  points: Array<{ date: string; value: number }>;
+}
+
+export interface OgCard {
+  path: string;
+  title: string;
+  subtitle: string;
+  range: RangePreset;
+  series: OgCardSeries[];
+  /** Date of the newest point on the card */
+  asOf: string | null;
+}
+
+/** Section pages; pages below a section (e.g. /nodes/pairs) share its card */
+export const PAGE_CARDS: OgCardSpec[] = [
+  { path: '/', title: 'n8n Pulse', subtitle: 'Community health dashboard for n8n', metrics: ['github-stars', 'forum-users', 'templates-total', 'npm-n8n'], range: '1y' },
+  { path: '/templates', title: 'Workflow Templates', subtitle: 'Every published n8n workflow template', metrics: ['templates-total', 'templates-views', 'creators-total'], range: '1y' },
+  { path: '/nodes', title: 'Node Statistics', subtitle: 'Built-in and community nodes across all templates', metrics: ['community-packages', 'community-downloads'], range: '1y' },
+  { path: '/creators', title: 'Creator Leaderboard', subtitle: 'The people building n8n templates', metrics: ['creators-total', 'creators-verified'], range: '1y' },
+  { path: '/discussions', title: 'Community Discussions', subtitle: 'Forum, Reddit and Bluesky activity', metrics: ['forum-users', 'forum-topics', 'reddit-subscribers', 'bluesky-posts'], range: '1y' },
+  { path: '/events', title: 'Community Events', subtitle: 'Meetups and online events around the world', metrics: ['events-count', 'events-registrations'], range: '1y' },
+  { path: '/dev', title: 'Developer Stats', subtitle: 'GitHub, npm and releases', metrics: ['github-stars', 'github-forks', 'github-issues', 'npm-n8n'], range: '1y' },
+  { path: '/market', title: 'Market Landscape', subtitle: 'n8n among other automation tools', metrics: ['npm-n8n', 'npm-nodered', 'npm-pipedream', 'npm-activepieces'], range: '1y' },
+  { path: '/ambassadors', title: 'Ambassadors', subtitle: 'n8n community ambassadors worldwide', metrics: ['ambassadors-total', 'ambassadors-joined'], range: '1y' },
+  { path: '/playground', title: 'Data Playground', subtitle: 'Compare any n8n ecosystem metric over time', metrics: ['github-stars', 'forum-users', 'templates-total', 'reddit-subscribers'], range: '1y' },
+];
+
+/** Cards for every page and saved playground view */
+export function getCardSpecs(): OgCardSpec[] {
+  return [
+    ...PAGE_CARDS,
+    ...SAVED_VIEWS.map(view => ({
+      path: savedViewPath(view),
+      title: view.title,
+      subtitle: view.description,
+      metrics: view.series,
+      range: view.range,
+    })),
+  ];
+}
+
+// Paths
+
+/** File name of a page's card: '/' is 'home', '/playground/views/x' is 'playground-views-x' */
+export function ogImageSlug(path: string): string {
+  const segments = path.split('/').filter(Boolean);
+  return segments.length > 0 ? segments.join('-') : 'home';
+}
+
+export function ogImagePath(path: string): string {
+  return `${OG_IMAGE_DIR}/${ogImageSlug(path)}.png`;
+}
+
+/**
+ * Image for a page: its own card, else its section's card, else the
+ * default image. Only the home page uses the home card.
+ */
+export function resolveOgImage(pathname: string, hasImage: (imagePath: string) => boolean): string {
+  const segments = pathname.split('/').filter(Boolean);
+  for (let i = segments.length; i >= Math.min(1, segments.length); i--) {
+    const imagePath = ogImagePath(`/${segments.slice(0, i).join('/')}`);
+    if (hasImage(imagePath)) return imagePath;
+  }
+  return DEFAULT_OG_IMAGE;
+}
+
+// Data
+
+function percentChange(first: number, last: number): string | null {
+  return first > 0 ? formatChange(((last - first) / first) * 100) : null;
+}
+
+/** Series with its latest value and change; the points must not be empty */
+function toCardSeries(
+  metricId: string,
+  label: string,
+  color: string,
+  points: Array<{ date: string; value: number }>
+): OgCardSeries {
+  const first = points[0].value;
+  const last = points[points.length - 1].value;
+  return {
+    metricId,
+    label,
+    color,
+    value: formatNumber(last),
+    change: points.length > 1 ? percentChange(first, last) : null,
+    points: points.map(p => ({ date: p.date, value: p.value })),
+  };
+}
+
+function toCard(spec: Omit<OgCardSpec, 'metrics'>, series: OgCardSeries[]): OgCard {
+  // Newest last point; series may be daily, weekly or monthly
+  const lastDates = series
+    .map(s => s.points[s.points.length - 1].date)
+    .sort((a, b) => (periodIndex(a, 'daily') ?? 0) - (periodIndex(b, 'daily') ?? 0));
+  return {
+    path: spec.path,
+    title: spec.title,
+    subtitle: spec.subtitle,
+    range: spec.range,
+    series,
+    asOf: lastDates.length > 0 ? lastDates[lastDates.length - 1] : null,
+  };
+}
+
+/**
+ * Build a card from the data files. Metrics without data are left out,
+ * so a card may have fewer series than its spec (or none).
+ */
+export function buildOgCard(
+  spec: OgCardSpec,
+  loadFile: (file: string) => any = readDataFile,
+  now: Date = new Date()
+): OgCard {
+  const range: ApiRange | undefined = spec.range === 'all' ? undefined : spec.range;
+
+  const series = spec.metrics.slice(0, MAX_CARD_METRICS).flatMap(metricId => {
+    const metric = getMetricById(metricId);
+    if (!metric) return [];
+    const data = loadFile(metric.file || metric.source.file);
+    if (!data) return [];
+
+    let points;
+    try {
+      points = buildMetricResponse(metricId, data, { range, now }).points;
+    } catch {
+      // No data at any granularity
+      return [];
+    }
+    if (points.length === 0) return [];
+
+    return [toCardSeries(metricId, metric.label, metric.color, points)];
+  });
+
+  return toCard(spec, series);
+}
+
+// Detail pages
+
+/**
+ * Series for a detail page, drawn in the color of the playground metric
+ * it belongs to. Empty histories give no series.
+ */
+function detailSeries(
+  metricId: string,
+  label: string,
+  points: Array<{ date: string; value: number }>
+): OgCardSeries[] {
+  return points.length > 0 ? [toCardSeries(metricId, label, getMetricById(metricId)!.color, points)] : [];
+}
+
+interface NodeCardData {
+  all: { nodes: { all: Array<{ type: string; displayName: string; category: string; count: number }> }; lastUpdated: string } | null;
+  history: { nodeStats: Record<string, { history: Array<{ date: string; count: number }> }> } | null;
+}
+
+function buildNodeCards({ all, history }: NodeCardData): OgCard[] {
+  return (all?.nodes.all ?? []).map(node => {
+    const recorded = history?.nodeStats[node.type]?.history ?? [];
+    const points = recorded.length > 0
+      ? recorded.map(h => ({ date: h.date, value: h.count }))
+      : [{ date: all!.lastUpdated.slice(0, 10), value: node.count }];
+    return toCard(
+      { path: getNodePageUrl(node.displayName), title: node.displayName, subtitle: `${node.category} node in n8n workflow templates`, range: 'all' },
+      detailSeries('templates-total', 'Templates using it', points)
+    );
+  });
+}
+
+interface CreatorCardData {
+  creators: { lastUpdated: string; creators: Array<{ username: string; name: string; templateCount: number; totalViews: number; totalInserters: number }> } | null;
+  timeline: CreatorsTimeline | null;
+}
+
+function buildCreatorCards({ creators, timeline }: CreatorCardData): OgCard[] {
+  return (creators?.creators ?? []).map((creator, index) => {
+    const recorded = getCreatorHistory(timeline, creator.username);
+    const history = recorded.length > 0
+      ? recorded
+      : [{ date: creators!.lastUpdated.slice(0, 10), totalViews: creator.totalViews, totalInserters: creator.totalInserters }];
+    return toCard(
+      {
+        path: `/creators/${creator.username}`,
+        title: creator.name || creator.username,
+        subtitle: `#${index + 1} template creator · ${formatNumber(creator.templateCount)} templates`,
+        range: 'all',
+      },
+      [
+        ...detailSeries('templates-views', 'Total Views', history.map(p => ({ date: p.date, value: p.totalViews }))),
+        ...detailSeries('templates-inserters', 'Total Inserters', history.map(p => ({ date: p.date, value: p.totalInserters }))),
+      ]
+    );
+  });
+}
+
+function buildTemplateCards(snapshots: TemplateSnapshots | null): OgCard[] {
+  if (!snapshots) return [];
+  return selectPagedTemplates(decodeTemplateSnapshots(snapshots)).map(template => toCard(
+    { path: `/templates/${template.id}`, title: template.name, subtitle: `${template.category} template by ${template.creator}`, range: 'all' },
+    detailSeries('templates-views', 'Views', template.history.map(h => ({ date: h.date, value: h.views })))
+  ));
+}
+
+/**
+ * Cards for the node, creator and template pages, from the same data
+ * files the pages are built from
+ */
+export function buildDetailCards(loadFile: (file: string) => any = readDataFile): OgCard[] {
+  return [
+    ...buildNodeCards({ all: loadFile('/data/all-nodes-data.json'), history: loadFile('/data/nodes-history.json') }),
+    ...buildCreatorCards({ creators: loadFile('/data/history/creators.json'), timeline: loadFile('/data/history/creators-timeline.json') }),
+    ...buildTemplateCards(loadFile('/data/history/template-snapshots.json')),
+  ];
+}
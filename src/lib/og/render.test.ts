@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { OgCard } from './cards';
+import { ogChartConfig, renderOgHtml } from './render';
+
+const card: OgCard = {
+  path: '/dev',
+  title: 'Developer <Stats>',
+  subtitle: 'GitHub & npm',
+  range: '1y',
+  asOf: '2026-03-01',
+  series: [
+    {
+      metricId: 'github-stars',
+      label: 'GitHub Stars',
+      color: '#ff6d5a',
+      value: '125.0K',
+      change: '+13.6%',
+      points: [{ date: '2025-09', value: 110000 }, { date: '2026-02', value: 125000 }],
+    },
+    {
+      metricId: 'npm-n8n',
+      label: '</script> Downloads',
+      color: '#4bc0c0',
+      value: '50.6K',
+      change: '-3.0%',
+      points: [{ date: '2025-W36', value: 52000 }, { date: '2026-03-01', value: 50600 }],
+    },
+  ],
+};
+
+describe('ogChartConfig', () => {
+  it('puts every granularity on one day axis, each series on its own scale', () => {
+    const config = ogChartConfig(card);
+    const [stars, npm] = config.data.datasets;
+
+    expect(stars.data).toEqual([{ x: 20332, y: 110000 }, { x: 20485, y: 125000 }]);
+    // Monday of ISO week 36, 2025
+    expect(npm.data[0]).toEqual({ x: 20332, y: 52000 });
+    expect([stars.yAxisID, npm.yAxisID]).toEqual(['y0', 'y1']);
+    expect(stars.fill).toBe(false);
+    expect(ogChartConfig({ ...card, series: [card.series[0]] }).data.datasets[0].fill).toBe(true);
+    expect(config.options?.animation).toBe(false);
+  });
+});
+
+describe('renderOgHtml', () => {
+  it('escapes card text and keeps labels from closing the script', () => {
+    const html = renderOgHtml(card, { chartScript: 'window.Chart = function () {};' });
+
+    expect(html).toContain('Developer &lt;Stats&gt;');
+    expect(html).toContain('GitHub &amp; npm');
+    expect(html).toContain('n8n-pulse.gui.do/dev');
+    expect(html).toContain('-3.0%');
+    expect(html.match(/<\/script>/g)).toHaveLength(2);
+  });
+
+  it('leaves the chart out of cards without data', () => {
+    const html = renderOgHtml({ ...card, series: [], asOf: null }, { chartScript: '' });
+    expect(html).not.toContain('<canvas');
+    expect(html).toContain('var config = null;');
+  });
+});
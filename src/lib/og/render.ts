@@ -0,0 +1,183 @@
+/**
+ * OG Image Rendering
+ *
+ * Turns an OgCard into a self-contained 1200x630 HTML page: title,
+ * current numbers and a Chart.js chart drawn with the playground's
+ * dataset styles. scripts/generate-og-images.ts loads it in headless
+ * Chromium and screenshots it once window.ogReady is set.
+ */
+
+import type { ChartConfiguration } from 'chart.js';
+import { seriesDatasetStyle } from '../playground/chart';
+import { periodIndex } from '../utils/dates';
+import { OG_HEIGHT, OG_WIDTH, type OgCard } from './cards';
+
+declare global {
+  interface Window {
+    /** Set by the rendered page once the chart and fonts are drawn */
+    ogReady?: boolean;
+  }
+}
+
+const COLORS = {
+  background: '#0d1117',
+  backgroundEnd: '#161b22',
+  primary: '#ff6d5a',
+  text: '#ffffff',
+  textMuted: '#8b949e',
+  border: '#30363d',
+  positive: '#4ade80',
+  negative: '#f87171',
+};
+
+export interface OgRenderAssets {
+  /** Source of chart.js/dist/chart.umd.js, inlined into the page */
+  chartScript: string;
+  /** data: URL of the Inter font */
+  fontUrl?: string;
+}
+
+/**
+ * Chart config for a card. Each series gets its own hidden y axis, so
+ * metrics of any size share the chart as trend lines (like a sparkline).
+ * x is the day number, which lines up daily, weekly and monthly series
+ * without loading the time adapter.
+ */
+export function ogChartConfig(card: OgCard): ChartConfiguration<'line'> {
+  const single = card.series.length === 1;
+
+  const scales: Record<string, object> = {
+    x: { type: 'linear', display: false },
+  };
+  card.series.forEach((_, index) => {
+    scales[`y${index}`] = { display: false, grace: '5%' };
+  });
+
+  return {
+    type: 'line',
+    data: {
+      datasets: card.series.map((s, index) => ({
+        // A lone series is drawn as an area; stacked fills hide each other
+        ...seriesDatasetStyle({ label: s.label, color: s.color, chartType: single ? 'area' : 'line' }, s.points.length),
+        data: s.points.flatMap(p => {
+          const day = periodIndex(p.date, 'daily');
+          return day === null ? [] : [{ x: day, y: p.value }];
+        }),
+        yAxisID: `y${index}`,
+      })),
+    },
+    options: {
+      responsive: false,
+      animation: false,
+      devicePixelRatio: 1,
+      layout: { padding: 4 },
+      plugins: {
+        legend: { display: false },
+        tooltip: { enabled: false },
+      },
+      scales,
+    },
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** JSON for an inline <script>, safe against '</script>' in labels */
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+const RANGE_LABELS: Record<OgCard['range'], string> = {
+  '1m': 'past month',
+  '3m': 'past 3 months',
+  '6m': 'past 6 months',
+  '1y': 'past year',
+  '2y': 'past 2 years',
+  all: 'all time',
+};
+
+/**
+ * Full HTML page for a card. Cards without data show only the title.
+ */
+export function renderOgHtml(card: OgCard, assets: OgRenderAssets): string {
+  const chartWidth = OG_WIDTH - 120;
+  const chartHeight = 250;
+
+  const stats = card.series.map(s => {
+    const changeColor = s.change?.startsWith('-') ? COLORS.negative : COLORS.positive;
+    return `
+      <div class="stat">
+        <div class="stat-label"><span class="dot" style="background:${escapeHtml(s.color)}"></span>${escapeHtml(s.label)}</div>
+        <div class="stat-value">${escapeHtml(s.value)}</div>
+        ${s.change ? `<div class="stat-change" style="color:${changeColor}">${escapeHtml(s.change)} <span class="muted">${RANGE_LABELS[card.range]}</span></div>` : ''}
+      </div>`;
+  }).join('');
+
+  const chart = card.series.length > 0
+    ? `<canvas id="og-chart" width="${chartWidth}" height="${chartHeight}"></canvas>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <style>
+    ${assets.fontUrl ? `@font-face { font-family: 'Inter'; font-weight: 100 900; src: url('${assets.fontUrl}') format('woff2'); }` : ''}
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      width: ${OG_WIDTH}px;
+      height: ${OG_HEIGHT}px;
+      overflow: hidden;
+      padding: 48px 60px 40px;
+      display: flex;
+      flex-direction: column;
+      background: linear-gradient(135deg, ${COLORS.background} 0%, ${COLORS.backgroundEnd} 100%);
+      color: ${COLORS.text};
+      font-family: 'Inter', system-ui, sans-serif;
+    }
+    header { display: flex; align-items: center; justify-content: space-between; }
+    .brand { display: flex; align-items: center; gap: 12px; font-size: 26px; font-weight: 700; }
+    .brand-name { color: ${COLORS.text}; }
+    .muted { color: ${COLORS.textMuted}; font-weight: 400; }
+    h1 { margin-top: 28px; font-size: 56px; font-weight: 700; line-height: 1.1; }
+    .subtitle { margin-top: 10px; font-size: 24px; color: ${COLORS.textMuted}; }
+    .stats { margin-top: 28px; display: flex; gap: 48px; }
+    .stat-label { display: flex; align-items: center; gap: 8px; font-size: 18px; color: ${COLORS.textMuted}; }
+    .dot { width: 12px; height: 12px; border-radius: 50%; }
+    .stat-value { margin-top: 4px; font-size: 40px; font-weight: 700; }
+    .stat-change { font-size: 18px; font-weight: 600; }
+    .chart { margin-top: auto; }
+    footer { margin-top: 12px; display: flex; justify-content: space-between; font-size: 18px; color: ${COLORS.textMuted}; }
+  </style>
+</head>
+<body>
+  <header>
+    <div class="brand">
+      <svg width="44" height="44" viewBox="0 0 100 100" fill="none">
+        <polyline points="5,50 25,50 35,20 55,80 70,35 80,50 95,50" stroke="${COLORS.primary}" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+      </svg>
+      <span class="brand-name">n8n Pulse</span>
+    </div>
+    <div class="muted" style="font-size: 18px;">${card.asOf ? `Data as of ${escapeHtml(card.asOf)}` : ''}</div>
+  </header>
+  <h1>${escapeHtml(card.title)}</h1>
+  <div class="subtitle">${escapeHtml(card.subtitle)}</div>
+  <div class="stats">${stats}</div>
+  <div class="chart">${chart}</div>
+  <footer>
+    <span>n8n-pulse.gui.do${card.path === '/' ? '' : escapeHtml(card.path)}</span>
+    <span>by gui.do</span>
+  </footer>
+  <script>${assets.chartScript.replace(/<\/script/gi, '<\\/script')}</script>
+  <script>
+    (function () {
+      var config = ${scriptJson(card.series.length > 0 ? ogChartConfig(card) : null)};
+      if (config) new Chart(document.getElementById('og-chart'), config);
+      document.fonts.ready.then(function () { window.ogReady = true; });
+    })();
+  </script>
+</body>
+</html>`;
+}
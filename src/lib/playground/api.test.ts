@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  API_VERSION,
+  buildMetricResponse,
+  buildSourcesResponse,
+  getMetricEndpoints,
+  metricUrl,
+} from './api';
+
+const NOW = new Date('2026-03-15T12:00:00Z');
+
+const discord = {
+  lastUpdated: '2026-03-14T06:00:00Z',
+  daily: [
+    { date: '2025-12-31', members: 0, online: 10 },
+    { date: '2026-01-01', members: 100, online: 12 },
+    { date: '2026-01-02', members: 110, online: null, source: 'interpolated' },
+    { date: '2026-03-01', members: 200, online: 20 },
+  ],
+  weekly: [{ date: '2026-W01', members: 110, online: 12 }],
+  monthly: [{ date: '2026-01', members: 110, online: 12 }],
+};
+
+const templates = {
+  lastUpdated: '2026-03-14T06:00:00Z',
+  timeline: {
+    monthly: [
+      { month: '2026-01', count: 10, cumulative: 100 },
+      { month: '2026-02', count: 20, cumulative: 120 },
+    ],
+  },
+};
+
+function loadFile(file: string): any {
+  if (file === '/data/history/discord.json') return discord;
+  if (file === '/data/all-templates-data.json') return templates;
+  return null;
+}
+
+describe('metricUrl', () => {
+  it('builds the three endpoint variants', () => {
+    expect(metricUrl('github-stars')).toBe('/api/v1/metrics/github-stars.json');
+    expect(metricUrl('github-stars', 'weekly')).toBe('/api/v1/metrics/github-stars/weekly.json');
+    expect(metricUrl('github-stars', 'weekly', '1y')).toBe('/api/v1/metrics/github-stars/weekly/1y.json');
+  });
+});
+
+describe('buildMetricResponse', () => {
+  it('returns the versioned shape at the default granularity', () => {
+    const response = buildMetricResponse('discord-members', discord, { now: NOW });
+
+    expect(response.apiVersion).toBe(API_VERSION);
+    expect(response.generatedAt).toBe('2026-03-15T12:00:00.000Z');
+    expect(response.metric).toEqual({
+      id: 'discord-members',
+      label: 'Discord Members',
+      sourceId: 'discord',
+      sourceLabel: 'Discord',
+      measuredSince: '2026-01',
+    });
+    expect(response.granularity).toBe('daily');
+    expect(response.range).toEqual({ preset: 'all', start: null, end: null });
+    expect(response.lastUpdated).toBe('2026-03-14T06:00:00Z');
+  });
+
+  it('drops missing and excluded zero values and flags estimated points', () => {
+    const { points } = buildMetricResponse('discord-members', discord, { now: NOW });
+
+    expect(points).toEqual([
+      { date: '2026-01-01', value: 100, estimated: false },
+      { date: '2026-01-02', value: 110, estimated: true },
+      { date: '2026-03-01', value: 200, estimated: false },
+    ]);
+  });
+
+  it('flags points before measuredSince as estimated', () => {
+    const { points } = buildMetricResponse('discord-online', discord, { now: NOW });
+    expect(points[0]).toEqual({ date: '2025-12-31', value: 10, estimated: true });
+  });
+
+  it('compares weekly and monthly points with measuredSince by period', () => {
+    const github = {
+      lastUpdated: '2026-03-14T06:00:00Z',
+      weekly: [
+        { date: '2025-W52', stars: 90 },
+        { date: '2026-W01', stars: 95 },
+        { date: '2026-W02', stars: 100 },
+        { date: '2026-W03', stars: 105 },
+      ],
+      monthly: [
+        { date: '2025-12', stars: 90 },
+        { date: '2026-01', stars: 100 },
+        { date: '2026-02', stars: 110 },
+      ],
+    };
+
+    // measuredSince is 2026-01-08, a Thursday in ISO week 2
+    const weekly = buildMetricResponse('github-stars', github, { granularity: 'weekly', now: NOW });
+    expect(weekly.points.map(p => p.estimated)).toEqual([true, true, false, false]);
+
+    const monthly = buildMetricResponse('github-stars', github, { granularity: 'monthly', now: NOW });
+    expect(monthly.points.map(p => p.estimated)).toEqual([true, false, false]);
+  });
+
+  it('filters by range preset relative to now', () => {
+    const response = buildMetricResponse('discord-members', discord, {
+      granularity: 'daily',
+      range: '1m',
+      now: NOW,
+    });
+
+    expect(response.range).toEqual({ preset: '1m', start: '2026-02', end: '2026-03' });
+    expect(response.points.map(p => p.date)).toEqual(['2026-03-01']);
+  });
+
+  it('reads nested series with custom keys', () => {
+    const { granularity, points } = buildMetricResponse('templates-total', templates, { now: NOW });
+
+    expect(granularity).toBe('monthly');
+    expect(points.map(p => p.value)).toEqual([100, 120]);
+  });
+
+  it('rejects unknown metrics and missing granularities', () => {
+    expect(() => buildMetricResponse('nope', discord)).toThrow('Unknown metric');
+    expect(() => buildMetricResponse('templates-total', templates, { granularity: 'daily' })).toThrow(
+      'No daily data'
+    );
+  });
+});
+
+describe('buildSourcesResponse', () => {
+  it('lists only metrics whose files have data', () => {
+    const response = buildSourcesResponse(loadFile, NOW);
+    const ids = response.sources.flatMap(s => s.metrics.map(m => m.id));
+
+    expect(ids).toContain('discord-members');
+    expect(ids).toContain('templates-total');
+    expect(ids).not.toContain('github-stars');
+  });
+
+  it('links every available granularity', () => {
+    const response = buildSourcesResponse(loadFile, NOW);
+    const members = response.sources.find(s => s.id === 'discord')!.metrics[0];
+
+    expect(members.url).toBe('/api/v1/metrics/discord-members.json');
+    expect(members.granularities).toEqual({
+      daily: '/api/v1/metrics/discord-members/daily.json',
+      weekly: '/api/v1/metrics/discord-members/weekly.json',
+      monthly: '/api/v1/metrics/discord-members/monthly.json',
+    });
+  });
+});
+
+describe('getMetricEndpoints', () => {
+  it('yields one entry per metric and available granularity', () => {
+    const endpoints = getMetricEndpoints(loadFile).filter(e => e.metricId === 'discord-members');
+    expect(endpoints.map(e => e.granularity)).toEqual(['daily', 'weekly', 'monthly']);
+  });
+
+  it('has an endpoint for every granularity listed in sources.json', () => {
+    // Every file has every granularity, so every source is listed
+    const everything = () => discord;
+    const listed = buildSourcesResponse(everything, NOW).sources.flatMap(s =>
+      s.metrics.flatMap(m => Object.keys(m.granularities).map(g => `${m.id}/${g}`))
+    );
+    const endpoints = getMetricEndpoints(everything).map(e => `${e.metricId}/${e.granularity}`);
+
+    expect(listed.length).toBeGreaterThan(0);
+    expect(endpoints).toEqual(listed);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Public JSON API (v1)
+ *
+ * Builds the static endpoints under /api/v1 from the playground registry,
+ * so every metric the playground can chart is also available as JSON.
+ * The response shapes below are the documented contract: fields may be
+ * added within v1, but never renamed or removed. Breaking changes go to
+ * /api/v2 with a new API_VERSION.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { extractTimeSeries, normalizeDateFormat } from './loaders';
+import { DATA_SOURCES, getMetricById, type MetricDefinition } from './registry';
+import { getDateRangeFilter, type TimeSeriesState } from './state';
+import { periodIndex } from '../utils/dates';
+
+export const API_VERSION = 1;
+export const API_BASE = '/api/v1';
+
+export type ApiGranularity = 'daily' | 'weekly' | 'monthly';
+export type ApiRange = Exclude<TimeSeriesState['range'], 'all' | 'custom'>;
+
+/** Date-range variants, relative to the build date */
+export const API_RANGES: ApiRange[] = ['1m', '3m', '6m', '1y', '2y'];
+
+const GRANULARITIES: ApiGranularity[] = ['daily', 'weekly', 'monthly'];
+
+export interface ApiPoint {
+  /** YYYY-MM-DD, YYYY-Www or YYYY-MM depending on granularity */
+  date: string;
+  value: number;
+  /** Backfilled, interpolated or from a period before the metric's measuredSince date */
+  estimated: boolean;
+}
+
+export interface ApiMetricResponse {
+  apiVersion: number;
+  generatedAt: string;
+  metric: {
+    id: string;
+    label: string;
+    sourceId: string;
+    sourceLabel: string;
+    measuredSince: string;
+  };
+  granularity: ApiGranularity;
+  range: {
+    preset: ApiRange | 'all';
+    /** YYYY-MM, inclusive; null for 'all' */
+    start: string | null;
+    end: string | null;
+  };
+  /** lastUpdated of the underlying data file, if it has one */
+  lastUpdated: string | null;
+  points: ApiPoint[];
+}
+
+export interface ApiMetricSummary {
+  id: string;
+  label: string;
+  measuredSince: string;
+  defaultGranularity: ApiGranularity;
+  /** Default granularity, all dates */
+  url: string;
+  /** Granularity -> URL, all dates */
+  granularities: Partial<Record<ApiGranularity, string>>;
+}
+
+export interface ApiSourcesResponse {
+  apiVersion: number;
+  generatedAt: string;
+  /** URL templates; {range} is one of `ranges` */
+  endpoints: {
+    sources: string;
+    metric: string;
+    metricGranularity: string;
+    metricRange: string;
+  };
+  ranges: ApiRange[];
+  sources: Array<{
+    id: string;
+    label: string;
+    historyStart: string;
+    measuredSince: string;
+    metrics: ApiMetricSummary[];
+  }>;
+}
+
+// URLs
+
+export function metricUrl(metricId: string, granularity?: ApiGranularity, range?: ApiRange): string {
+  if (!granularity) return `${API_BASE}/metrics/${metricId}.json`;
+  if (!range) return `${API_BASE}/metrics/${metricId}/${granularity}.json`;
+  return `${API_BASE}/metrics/${metricId}/${granularity}/${range}.json`;
+}
+
+// Data access
+
+const fileCache = new Map<string, any>();
+
+/**
+ * Read a registry file path ('/data/...') from public/ at build time
+ */
+export function readDataFile(file: string): any {
+  if (!fileCache.has(file)) {
+    const path = join(process.cwd(), 'public', file);
+    fileCache.set(file, existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : null);
+  }
+  return fileCache.get(file);
+}
+
+/**
+ * Granularities a metric actually has data for in its file
+ */
+export function availableGranularities(
+  metric: MetricDefinition & { source: { defaultGranularity: ApiGranularity } },
+  data: any
+): ApiGranularity[] {
+  if (!data) return [];
+  // Nested paths (e.g. timeline.monthly) hold a single series
+  if (metric.path.includes('.')) return [metric.source.defaultGranularity];
+  return GRANULARITIES.filter(g => Array.isArray(data[g]));
+}
+
+/** Sources served by the API: time series only, categorical data has no endpoints */
+const API_SOURCES = DATA_SOURCES.filter(source => source.type === 'timeseries');
+
+function defaultGranularityFor(available: ApiGranularity[], preferred: ApiGranularity): ApiGranularity {
+  return available.includes(preferred) ? preferred : available[0];
+}
+
+// Responses
+
+export interface MetricResponseOptions {
+  granularity?: ApiGranularity;
+  range?: ApiRange;
+  now?: Date;
+}
+
+/**
+ * Build the response for one metric from its (already loaded) data file
+ */
+export function buildMetricResponse(
+  metricId: string,
+  data: any,
+  options: MetricResponseOptions = {}
+): ApiMetricResponse {
+  const metric = getMetricById(metricId);
+  if (!metric) {
+    throw new Error(`Unknown metric: ${metricId}`);
+  }
+
+  const { now = new Date() } = options;
+  const available = availableGranularities(metric, data);
+  const granularity = options.granularity ?? defaultGranularityFor(available, metric.source.defaultGranularity);
+  if (!available.includes(granularity)) {
+    throw new Error(`No ${granularity} data for metric ${metricId}`);
+  }
+
+  const measuredSince = metric.measuredSince || metric.source.measuredSince;
+  // Dates differ in format by granularity, so compare periods rather than strings
+  const measuredPeriod = periodIndex(measuredSince, granularity) ?? -Infinity;
+  const filter = options.range ? getDateRangeFilter(options.range, now) : null;
+
+  const points = extractTimeSeries(data, metric, granularity)
+    .filter(p => p.value !== undefined && p.value !== null)
+    .filter(p => !(metric.excludeZero && p.value === 0))
+    .filter(p => !filter || normalizeDateFormat(p.date) >= filter.start)
+    .map(p => ({
+      date: p.date,
+      value: p.value,
+      estimated: Boolean(p.estimated) || (periodIndex(p.date, granularity) ?? -Infinity) < measuredPeriod,
+    }));
+
+  return {
+    apiVersion: API_VERSION,
+    generatedAt: now.toISOString(),
+    metric: {
+      id: metric.id,
+      label: metric.label,
+      sourceId: metric.source.id,
+      sourceLabel: metric.source.label,
+      measuredSince,
+    },
+    granularity,
+    range: {
+      preset: options.range ?? 'all',
+      start: filter?.start ?? null,
+      end: filter?.end ?? null,
+    },
+    lastUpdated: typeof data?.lastUpdated === 'string' ? data.lastUpdated : null,
+    points,
+  };
+}
+
+/**
+ * Build the index of all sources and metric endpoints
+ */
+export function buildSourcesResponse(
+  loadFile: (file: string) => any = readDataFile,
+  now: Date = new Date()
+): ApiSourcesResponse {
+  return {
+    apiVersion: API_VERSION,
+    generatedAt: now.toISOString(),
+    endpoints: {
+      sources: `${API_BASE}/sources.json`,
+      metric: `${API_BASE}/metrics/{metricId}.json`,
+      metricGranularity: `${API_BASE}/metrics/{metricId}/{granularity}.json`,
+      metricRange: `${API_BASE}/metrics/{metricId}/{granularity}/{range}.json`,
+    },
+    ranges: API_RANGES,
+    sources: API_SOURCES.map(source => ({
+      id: source.id,
+      label: source.label,
+      historyStart: source.historyStart,
+      measuredSince: source.measuredSince,
+      metrics: source.metrics.flatMap(m => {
+        const metric = { ...m, source };
+        const available = availableGranularities(metric, loadFile(m.file || source.file));
+        if (available.length === 0) return [];
+        return [{
+          id: m.id,
+          label: m.label,
+          measuredSince: m.measuredSince || source.measuredSince,
+          defaultGranularity: defaultGranularityFor(available, source.defaultGranularity),
+          url: metricUrl(m.id),
+          granularities: Object.fromEntries(available.map(g => [g, metricUrl(m.id, g)])),
+        }];
+      }),
+    })),
+  };
+}
+
+/**
+ * Every metric/granularity pair with data, for getStaticPaths
+ */
+export function getMetricEndpoints(
+  loadFile: (file: string) => any = readDataFile
+): Array<{ metricId: string; granularity: ApiGranularity; data: any }> {
+  return API_SOURCES.flatMap(source =>
+    source.metrics.flatMap(m => {
+      const data = loadFile(m.file || source.file);
+      return availableGranularities({ ...m, source }, data).map(granularity => ({
+        metricId: m.id,
+        granularity,
+        data,
+      }));
+    })
+  );
+}
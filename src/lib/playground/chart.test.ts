@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { seriesDatasetStyle } from './chart';
+
+describe('seriesDatasetStyle', () => {
+  it('fills areas and marks points on short lines', () => {
+    const style = seriesDatasetStyle({ label: 'Stars', color: '#f0c14b', chartType: 'area' }, 12);
+    expect(style).toMatchObject({ type: 'line', fill: true, backgroundColor: '#f0c14b20', pointRadius: 3 });
+  });
+
+  it('drops point markers on long lines', () => {
+    expect(seriesDatasetStyle({ label: 'Stars', color: '#f0c14b', chartType: 'line' }, 61).pointRadius).toBe(0);
+  });
+
+  it('draws bars behind lines', () => {
+    const style = seriesDatasetStyle({ label: 'New', color: '#4bc0c0', chartType: 'bar' }, 12);
+    expect(style).toMatchObject({ type: 'bar', fill: false, pointRadius: 0, order: 2 });
+  });
+});
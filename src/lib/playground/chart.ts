@@ -0,0 +1,38 @@
+/**
+ * Playground Chart Datasets
+ *
+ * How a series is drawn on the playground chart. The OG image cards
+ * (src/lib/og/render.ts) build their chart from the same styles, so a
+ * shared link previews the chart the way the page draws it.
+ */
+
+export type SeriesChartType = 'line' | 'area' | 'bar';
+
+export interface SeriesStyle<T extends SeriesChartType = SeriesChartType> {
+  label: string;
+  color: string;
+  chartType: T;
+}
+
+/** Lines with more points than this are drawn without point markers */
+const MAX_MARKED_POINTS = 60;
+
+/**
+ * Chart.js dataset options for a series, without its data and axis
+ */
+export function seriesDatasetStyle<T extends SeriesChartType>(series: SeriesStyle<T>, pointCount: number) {
+  const isArea = series.chartType === 'area';
+  const isBar = series.chartType === 'bar';
+
+  return {
+    label: series.label,
+    borderColor: series.color,
+    backgroundColor: isArea ? `${series.color}20` : `${series.color}99`,
+    fill: isArea,
+    tension: 0.1,
+    pointRadius: isBar ? 0 : pointCount > MAX_MARKED_POINTS ? 0 : 3,
+    pointHoverRadius: isBar ? 0 : 5,
+    type: (isBar ? 'bar' : 'line') as T extends 'bar' ? 'bar' : 'line',
+    order: isBar ? 2 : 1, // Bars render behind lines
+  };
+}
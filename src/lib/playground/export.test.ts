@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { alignSeries, exportFileName, toCsv, toJson, type ExportTable } from './export';
+
+const stars = {
+  id: 'github-stars',
+  label: 'GH: GitHub Stars',
+  source: 'GitHub',
+  measuredSince: '2026-01-08',
+  granularity: 'monthly',
+  data: [
+    { date: '2025-12-01', value: 100 },
+    { date: '2026-01-01', value: 120 },
+  ],
+};
+
+const members = {
+  id: 'discord-members',
+  label: 'Discord: Discord Members',
+  source: 'Discord',
+  measuredSince: '2026-01',
+  granularity: 'daily',
+  data: [
+    { date: '2026-01-01', value: 10 },
+    { date: '2026-01-31', value: 15 },
+    { date: '2026-02-01', value: 16 },
+  ],
+};
+
+describe('alignSeries', () => {
+  it('aligns series on normalized months, one column per series', () => {
+    const { columns, rows } = alignSeries([stars, members]);
+
+    expect(columns.map(c => c.id)).toEqual(['date', 'github-stars', 'discord-members']);
+    expect(rows).toEqual([
+      ['2025-12', 100, null],
+      ['2026-01', 120, 15],
+      ['2026-02', null, 16],
+    ]);
+  });
+
+  it('keeps metadata on value columns', () => {
+    const { columns } = alignSeries([members]);
+    expect(columns[1]).toEqual({
+      id: 'discord-members',
+      label: 'Discord: Discord Members',
+      source: 'Discord',
+      measuredSince: '2026-01',
+      granularity: 'daily',
+    });
+  });
+
+  it('sums changes within a month', () => {
+    const { rows } = alignSeries([{ ...members, aggregate: 'sum' }]);
+    expect(rows).toEqual([
+      ['2026-01', 25],
+      ['2026-02', 16],
+    ]);
+  });
+
+  it('makes duplicate column IDs unique', () => {
+    const { columns } = alignSeries([stars, stars]);
+    expect(columns.map(c => c.id)).toEqual(['date', 'github-stars', 'github-stars-2']);
+  });
+});
+
+describe('toCsv', () => {
+  const table: ExportTable = { name: 'test', mode: 'timeseries', ...alignSeries([stars, members]) };
+
+  it('writes header, metadata rows and data rows', () => {
+    expect(toCsv(table).split('\n')).toEqual([
+      'date,GH: GitHub Stars,Discord: Discord Members',
+      'source,GitHub,Discord',
+      'measuredSince,2026-01-08,2026-01',
+      'granularity,monthly,daily',
+      '2025-12,100,',
+      '2026-01,120,15',
+      '2026-02,,16',
+      '',
+    ]);
+  });
+
+  it('quotes cells with commas and quotes', () => {
+    const quoted: ExportTable = {
+      name: 'q',
+      mode: 'ranking',
+      columns: [{ id: 'rank', label: 'rank' }, { id: 'name', label: 'Name' }],
+      rows: [[1, 'Doe, "JD" John']],
+    };
+    expect(toCsv(quoted)).toContain('1,"Doe, ""JD"" John"');
+  });
+});
+
+describe('toJson', () => {
+  it('keys rows by column ID and includes column metadata', () => {
+    const table: ExportTable = { name: 'test', mode: 'timeseries', ...alignSeries([stars]) };
+    const json = JSON.parse(toJson(table, new Date('2026-03-01T00:00:00Z')));
+
+    expect(json.exportedAt).toBe('2026-03-01T00:00:00.000Z');
+    expect(json.mode).toBe('timeseries');
+    expect(json.columns[1].source).toBe('GitHub');
+    expect(json.rows[0]).toEqual({ date: '2025-12', 'github-stars': 100 });
+  });
+});
+
+describe('exportFileName', () => {
+  it('slugifies the table name', () => {
+    const table: ExportTable = { name: 'Node Usage by count', mode: 'ranking', columns: [], rows: [] };
+    expect(exportFileName(table, 'csv')).toBe('n8n-pulse-node-usage-by-count.csv');
+  });
+});
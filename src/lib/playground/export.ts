@@ -0,0 +1,139 @@
+/**
+ * Playground Data Export
+ *
+ * Turns what a playground mode currently shows into a table and serializes
+ * it as CSV or JSON. Time series are aligned on the month keys from
+ * normalizeDateFormat, one column per selected metric. Every value column
+ * carries source, measuredSince and granularity metadata (CSV: rows under
+ * the header; JSON: on the column). Categorical modes are snapshots: their
+ * measuredSince is the snapshot date and granularity is 'snapshot'.
+ */
+
+import { normalizeDateFormat } from './loaders';
+import type { PlaygroundMode } from './state';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportValue = string | number | null;
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  /** Metadata, only set on value columns */
+  source?: string;
+  measuredSince?: string;
+  granularity?: string;
+}
+
+export interface ExportTable {
+  /** Base file name, without extension */
+  name: string;
+  mode: PlaygroundMode;
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+}
+
+export interface ExportSeries extends ExportColumn {
+  data: { date: string; value: number }[];
+  /** How to combine several points in one month: cumulative values keep the last, changes sum */
+  aggregate?: 'last' | 'sum';
+}
+
+const METADATA_KEYS = ['source', 'measuredSince', 'granularity'] as const;
+
+/**
+ * Make column IDs unique (the same metric can be selected twice)
+ */
+function uniqueIds(ids: string[]): string[] {
+  const seen = new Map<string, number>();
+  return ids.map(id => {
+    const count = (seen.get(id) ?? 0) + 1;
+    seen.set(id, count);
+    return count === 1 ? id : `${id}-${count}`;
+  });
+}
+
+/**
+ * Align time series on normalized (YYYY-MM) dates, one column per series
+ */
+export function alignSeries(series: ExportSeries[]): Pick<ExportTable, 'columns' | 'rows'> {
+  const ids = uniqueIds(series.map(s => s.id));
+  const byPeriod = series.map(s => {
+    const values = new Map<string, number>();
+    for (const point of s.data) {
+      const period = normalizeDateFormat(point.date);
+      const previous = values.get(period);
+      values.set(period, s.aggregate === 'sum' && previous !== undefined ? previous + point.value : point.value);
+    }
+    return values;
+  });
+
+  const periods = Array.from(new Set(byPeriod.flatMap(values => Array.from(values.keys())))).sort();
+
+  return {
+    columns: [
+      { id: 'date', label: 'date' },
+      ...series.map(({ data: _data, aggregate: _aggregate, ...column }, i) => ({ ...column, id: ids[i] })),
+    ],
+    rows: periods.map(period => [period, ...byPeriod.map(values => values.get(period) ?? null)]),
+  };
+}
+
+function csvCell(value: ExportValue | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(cells: (ExportValue | undefined)[]): string {
+  return cells.map(csvCell).join(',');
+}
+
+/**
+ * CSV: header, one metadata row per key, then data rows
+ */
+export function toCsv(table: ExportTable): string {
+  // Metadata rows put their key in the first column (date, rank or label)
+  const valueColumns = table.columns.slice(1);
+  const lines = [
+    csvLine(table.columns.map(c => c.label)),
+    ...METADATA_KEYS.map(key => csvLine([key, ...valueColumns.map(c => c[key])])),
+    ...table.rows.map(row => csvLine(row)),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * JSON: columns with their metadata, rows as objects keyed by column ID
+ */
+export function toJson(table: ExportTable, exportedAt: Date = new Date()): string {
+  return JSON.stringify({
+    exportedAt: exportedAt.toISOString(),
+    mode: table.mode,
+    columns: table.columns,
+    rows: table.rows.map(row =>
+      Object.fromEntries(table.columns.map((column, i) => [column.id, row[i] ?? null]))
+    ),
+  }, null, 2);
+}
+
+export function exportFileName(table: ExportTable, format: ExportFormat): string {
+  const slug = table.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `n8n-pulse-${slug || table.mode}.${format}`;
+}
+
+/**
+ * Trigger a browser download of the table
+ */
+export function downloadExport(table: ExportTable, format: ExportFormat): void {
+  const content = format === 'csv' ? toCsv(table) : toJson(table);
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(table, format);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
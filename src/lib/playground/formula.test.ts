@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { alignSeriesPair, evaluateFormula, parseFormula, resolveMetricReference } from './formula';
+import { getAllMetrics } from './registry';
+
+const metrics = getAllMetrics();
+
+describe('resolveMetricReference', () => {
+  it('accepts metric IDs and source.field names', () => {
+    expect(resolveMetricReference('github-stars', metrics)).toBe('github-stars');
+    expect(resolveMetricReference('github.stars', metrics)).toBe('github-stars');
+    expect(resolveMetricReference('community.users', metrics)).toBe('forum-users');
+    expect(resolveMetricReference('reddit.subscribers', metrics)).toBe('reddit-subscribers');
+  });
+
+  it('rejects unknown names', () => {
+    expect(resolveMetricReference('github.likes', metrics)).toBeNull();
+    expect(resolveMetricReference('stars', metrics)).toBeNull();
+  });
+});
+
+describe('parseFormula', () => {
+  it('parses precedence and collects the metrics used', () => {
+    const formula = parseFormula('github.stars / community.users * 100 - github-forks', metrics);
+
+    expect(formula.metricIds).toEqual(['github-stars', 'forum-users', 'github-forks']);
+    expect(formula.ast).toMatchObject({
+      type: 'binary',
+      op: '-',
+      left: { type: 'binary', op: '*', left: { type: 'binary', op: '/' } },
+      right: { type: 'metric', metricId: 'github-forks' },
+    });
+  });
+
+  it('reports the position of unknown metrics and functions', () => {
+    expect(() => parseFormula('github.stars / github.likes', metrics)).toThrow("Unknown metric 'github.likes' at position 16");
+    expect(() => parseFormula('smooth(github.stars)', metrics)).toThrow("Unknown function 'smooth' at position 1");
+  });
+
+  it('hints at spaces when a hyphenated name is not a metric', () => {
+    expect(() => parseFormula('github-stars-github-forks', metrics)).toThrow('use spaces around -');
+  });
+
+  it('type-checks function arguments and the result', () => {
+    expect(() => parseFormula('rolling_avg(github.stars)', metrics)).toThrow('takes 2 arguments');
+    expect(() => parseFormula('rolling_avg(github.stars, 2.5)', metrics)).toThrow('whole number');
+    expect(() => parseFormula('rolling_avg(github.stars, github.forks)', metrics)).toThrow('whole number');
+    expect(() => parseFormula('change(3)', metrics)).toThrow('needs a metric');
+    expect(() => parseFormula('1 + 2', metrics)).toThrow('at least one metric');
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseFormula('', metrics)).toThrow('Formula is empty');
+    expect(() => parseFormula('(github.stars', metrics)).toThrow("Expected ')'");
+    expect(() => parseFormula('github.stars +', metrics)).toThrow('Unexpected end of formula');
+    expect(() => parseFormula('github.stars % 2', metrics)).toThrow("Unexpected character '%' at position 14");
+  });
+});
+
+describe('alignSeriesPair', () => {
+  it('uses the coarser series dates and the latest recent value of the finer one', () => {
+    const monthly = [
+      { date: '2025-01-01', value: 10 },
+      { date: '2025-02-01', value: 20 },
+      { date: '2025-03-01', value: 30 },
+    ];
+    const daily = [
+      { date: '2025-01-30', value: 1 },
+      { date: '2025-01-31', value: 2 },
+      { date: '2025-03-01', value: 3 },
+    ];
+
+    const pairs = alignSeriesPair(daily, monthly);
+
+    // 2025-01-01 has no earlier daily value
+    expect(pairs.map(p => [p.date, p.a.value, p.b.value])).toEqual([
+      ['2025-02-01', 2, 20],
+      ['2025-03-01', 3, 30],
+    ]);
+  });
+});
+
+describe('evaluateFormula', () => {
+  const data = {
+    'github-stars': [
+      { date: '2025-01-01', value: 100 },
+      { date: '2025-02-01', value: 150 },
+      { date: '2025-03-01', value: 210, estimated: true },
+    ],
+    'forum-users': [
+      { date: '2025-02-01', value: 50 },
+      { date: '2025-03-01', value: 0 },
+    ],
+  };
+
+  it('combines series on shared dates and drops undefined points', () => {
+    const formula = parseFormula('github.stars / community.users', metrics);
+    expect(evaluateFormula(formula, data)).toEqual([{ date: '2025-02-01', value: 3 }]);
+  });
+
+  it('applies series functions and marks points built from estimates', () => {
+    const formula = parseFormula('rolling_avg(github.stars, 2) * 2', metrics);
+
+    expect(evaluateFormula(formula, data)).toEqual([
+      { date: '2025-02-01', value: 250 },
+      { date: '2025-03-01', value: 360, estimated: true },
+    ]);
+    expect(evaluateFormula(parseFormula('-change(github-stars)', metrics), data).map(p => p.value)).toEqual([-50, -60]);
+  });
+});
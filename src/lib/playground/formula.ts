@@ -0,0 +1,395 @@
+/**
+ * Formula metrics for the Playground
+ *
+ * Parses expressions like `github.stars / community.users` or
+ * `rolling_avg(reddit.subscribers, 7)`, checks every metric reference
+ * against the registry and evaluates the result on date-aligned series.
+ *
+ * Grammar: + - * / with the usual precedence, unary minus, parentheses,
+ * numbers, metric references and function calls. Metric references are
+ * either metric IDs (`github-stars`) or `<source>.<field>` (`github.stars`).
+ * IDs contain hyphens, so subtraction needs spaces: `a - b`, not `a-b`.
+ */
+
+import type { TimeSeriesPoint } from './loaders';
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'metric'; metricId: string; name: string }
+  | { type: 'unary'; operand: FormulaNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; fn: string; args: FormulaNode[] };
+
+export interface ParsedFormula {
+  expression: string;
+  ast: FormulaNode;
+  /** Metrics the formula reads, in order of first use */
+  metricIds: string[];
+}
+
+/** The parts of a registry metric needed to resolve references */
+export interface FormulaMetric {
+  id: string;
+  sourceId: string;
+  path: string;
+}
+
+interface FormulaFunction {
+  description: string;
+  /** Takes a window/offset in points as the second argument */
+  window: boolean;
+  apply: (series: TimeSeriesPoint[], n: number) => TimeSeriesPoint[];
+}
+
+type Value = { kind: 'number'; value: number } | { kind: 'series'; points: TimeSeriesPoint[] };
+
+// Series functions
+
+function rolling(series: TimeSeriesPoint[], n: number, reduce: (values: number[]) => number): TimeSeriesPoint[] {
+  return series.slice(n - 1).map((point, i) => {
+    const window = series.slice(i, i + n);
+    return {
+      date: point.date,
+      value: reduce(window.map(p => p.value)),
+      ...(window.some(p => p.estimated) && { estimated: true }),
+    };
+  });
+}
+
+function pairwise(series: TimeSeriesPoint[], n: number, combine: (current: number, earlier: number) => number): TimeSeriesPoint[] {
+  return series.slice(n).map((point, i) => ({
+    date: point.date,
+    value: combine(point.value, series[i].value),
+    ...((point.estimated || series[i].estimated) && { estimated: true }),
+  }));
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  rolling_avg: {
+    description: 'Average of the last n points',
+    window: true,
+    apply: (series, n) => rolling(series, n, values => sum(values) / values.length),
+  },
+  rolling_sum: {
+    description: 'Sum of the last n points',
+    window: true,
+    apply: (series, n) => rolling(series, n, sum),
+  },
+  lag: {
+    description: 'Value from n points earlier',
+    window: true,
+    apply: (series, n) => pairwise(series, n, (_, earlier) => earlier),
+  },
+  change: {
+    description: 'Change since the previous point',
+    window: false,
+    apply: series => pairwise(series, 1, (current, earlier) => current - earlier),
+  },
+  pct_change: {
+    description: 'Percent change since the previous point',
+    window: false,
+    apply: series => pairwise(series, 1, (current, earlier) => earlier === 0 ? NaN : ((current - earlier) / earlier) * 100),
+  },
+  cumsum: {
+    description: 'Running total',
+    window: false,
+    apply: series => {
+      let total = 0;
+      return series.map(p => ({ ...p, value: (total += p.value) }));
+    },
+  },
+  log: {
+    description: 'Natural logarithm',
+    window: false,
+    apply: series => series.map(p => ({ ...p, value: p.value > 0 ? Math.log(p.value) : NaN })),
+  },
+};
+
+// Parsing
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'symbol'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|([A-Za-z_][\w.-]*)|([-+*/(),]))/y;
+  let position = 0;
+
+  while (position < expression.length) {
+    if (/^\s*$/.test(expression.slice(position))) break;
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (!match) {
+      const at = position + (expression.slice(position).length - expression.slice(position).trimStart().length);
+      throw new Error(`Unexpected character '${expression[at]}' at position ${at + 1}`);
+    }
+    const start = match.index + match[0].length - (match[1] ?? match[2] ?? match[3]).length;
+    if (match[1]) tokens.push({ type: 'number', value: Number(match[1]), position: start });
+    else if (match[2]) tokens.push({ type: 'name', value: match[2], position: start });
+    else tokens.push({ type: 'symbol', value: match[3], position: start });
+    position = pattern.lastIndex;
+  }
+
+  tokens.push({ type: 'end', position: expression.length });
+  return tokens;
+}
+
+/**
+ * Resolve a metric reference: a metric ID, or `<source>.<field>` where the
+ * field is the metric's data path or the end of its ID (`community.users`
+ * is `forum-users`)
+ */
+export function resolveMetricReference(name: string, metrics: FormulaMetric[]): string | null {
+  if (metrics.some(m => m.id === name)) return name;
+
+  const dot = name.indexOf('.');
+  if (dot <= 0) return null;
+  const sourceId = name.slice(0, dot);
+  const field = name.slice(dot + 1);
+
+  const matches = metrics.filter(m =>
+    m.sourceId === sourceId && (m.path === field || m.id === `${sourceId}-${field}` || m.id.endsWith(`-${field}`))
+  );
+  return matches.length === 1 ? matches[0].id : null;
+}
+
+/**
+ * Parse and type-check a formula. Throws an Error describing the first
+ * problem (with its 1-based position) if the formula is invalid.
+ */
+export function parseFormula(expression: string, metrics: FormulaMetric[]): ParsedFormula {
+  const tokens = tokenize(expression);
+  const metricIds: string[] = [];
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const at = (token: Token) => `at position ${token.position + 1}`;
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token.type === 'symbol' && token.value === value;
+  };
+  const expect = (value: string) => {
+    if (!isSymbol(value)) throw new Error(`Expected '${value}' ${at(peek())}`);
+    index++;
+  };
+
+  function parseExpression(): FormulaNode {
+    let node = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = (tokens[index++] as { value: '+' | '-' }).value;
+      node = { type: 'binary', op, left: node, right: parseTerm() };
+    }
+    return node;
+  }
+
+  function parseTerm(): FormulaNode {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const op = (tokens[index++] as { value: '*' | '/' }).value;
+      node = { type: 'binary', op, left: node, right: parseUnary() };
+    }
+    return node;
+  }
+
+  function parseUnary(): FormulaNode {
+    if (isSymbol('-')) {
+      index++;
+      return { type: 'unary', operand: parseUnary() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): FormulaNode {
+    const token = peek();
+
+    if (token.type === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.type === 'name') {
+      index++;
+      if (isSymbol('(')) return parseCall(token);
+
+      const metricId = resolveMetricReference(token.value, metrics);
+      if (!metricId) {
+        const hint = token.value.includes('-') ? ' (use spaces around - to subtract)' : '';
+        throw new Error(`Unknown metric '${token.value}' ${at(token)}${hint}`);
+      }
+      if (!metricIds.includes(metricId)) metricIds.push(metricId);
+      return { type: 'metric', metricId, name: token.value };
+    }
+
+    if (isSymbol('(')) {
+      index++;
+      const node = parseExpression();
+      expect(')');
+      return node;
+    }
+
+    throw new Error(token.type === 'end' ? 'Unexpected end of formula' : `Unexpected '${token.value}' ${at(token)}`);
+  }
+
+  function parseCall(name: Extract<Token, { type: 'name' }>): FormulaNode {
+    const fn = FORMULA_FUNCTIONS[name.value];
+    if (!fn) {
+      throw new Error(`Unknown function '${name.value}' ${at(name)}. Available: ${Object.keys(FORMULA_FUNCTIONS).join(', ')}`);
+    }
+    expect('(');
+    const args: FormulaNode[] = [parseExpression()];
+    while (isSymbol(',')) {
+      index++;
+      args.push(parseExpression());
+    }
+    expect(')');
+
+    const usage = fn.window ? `${name.value}(series, n)` : `${name.value}(series)`;
+    if (args.length !== (fn.window ? 2 : 1)) {
+      throw new Error(`${usage} takes ${fn.window ? 2 : 1} argument${fn.window ? 's' : ''} ${at(name)}`);
+    }
+    if (!containsMetric(args[0])) {
+      throw new Error(`${usage} needs a metric as its first argument ${at(name)}`);
+    }
+    if (fn.window) {
+      const n = args[1];
+      if (n.type !== 'number' || !Number.isInteger(n.value) || n.value < 1) {
+        throw new Error(`${usage} needs a whole number n of at least 1 ${at(name)}`);
+      }
+    }
+    return { type: 'call', fn: name.value, args };
+  }
+
+  if (peek().type === 'end') throw new Error('Formula is empty');
+  const ast = parseExpression();
+  if (peek().type !== 'end') {
+    const token = peek() as Exclude<Token, { type: 'end' }>;
+    throw new Error(`Unexpected '${token.value}' ${at(token)}`);
+  }
+  if (!containsMetric(ast)) {
+    throw new Error('Formula must use at least one metric');
+  }
+
+  return { expression: expression.trim(), ast, metricIds };
+}
+
+function containsMetric(node: FormulaNode): boolean {
+  switch (node.type) {
+    case 'metric': return true;
+    case 'number': return false;
+    case 'unary': return containsMetric(node.operand);
+    case 'binary': return containsMetric(node.left) || containsMetric(node.right);
+    case 'call': return node.args.some(containsMetric);
+  }
+}
+
+// Evaluation
+
+function toTime(date: string): number {
+  return Date.parse(/^\d{4}-\d{2}$/.test(date) ? `${date}-01` : date);
+}
+
+function medianGap(series: TimeSeriesPoint[]): number {
+  const gaps = series.slice(1).map((p, i) => toTime(p.date) - toTime(series[i].date)).sort((a, b) => a - b);
+  return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+}
+
+/**
+ * Pair up two series on the dates of the coarser one. Each date takes the
+ * finer series' latest value at or before it, if that value is recent
+ * (within one step of the coarser series).
+ */
+export function alignSeriesPair(
+  a: TimeSeriesPoint[],
+  b: TimeSeriesPoint[]
+): Array<{ date: string; a: TimeSeriesPoint; b: TimeSeriesPoint }> {
+  const aIsGrid = medianGap(a) >= medianGap(b);
+  const grid = aIsGrid ? a : b;
+  const other = aIsGrid ? b : a;
+  const tolerance = Math.max(medianGap(grid), 86_400_000);
+  const pairs: Array<{ date: string; a: TimeSeriesPoint; b: TimeSeriesPoint }> = [];
+
+  let j = -1;
+  for (const point of grid) {
+    const time = toTime(point.date);
+    while (j + 1 < other.length && toTime(other[j + 1].date) <= time) j++;
+    if (j < 0 || time - toTime(other[j].date) >= tolerance) continue;
+    pairs.push(aIsGrid ? { date: point.date, a: point, b: other[j] } : { date: point.date, a: other[j], b: point });
+  }
+
+  return pairs;
+}
+
+function applyOp(op: '+' | '-' | '*' | '/', x: number, y: number): number {
+  switch (op) {
+    case '+': return x + y;
+    case '-': return x - y;
+    case '*': return x * y;
+    case '/': return y === 0 ? NaN : x / y;
+  }
+}
+
+function finite(points: TimeSeriesPoint[]): TimeSeriesPoint[] {
+  return points.filter(p => Number.isFinite(p.value));
+}
+
+function evaluateNode(node: FormulaNode, data: Record<string, TimeSeriesPoint[]>): Value {
+  switch (node.type) {
+    case 'number':
+      return { kind: 'number', value: node.value };
+
+    case 'metric':
+      return { kind: 'series', points: finite(data[node.metricId] ?? []) };
+
+    case 'unary': {
+      const operand = evaluateNode(node.operand, data);
+      return operand.kind === 'number'
+        ? { kind: 'number', value: -operand.value }
+        : { kind: 'series', points: operand.points.map(p => ({ ...p, value: -p.value })) };
+    }
+
+    case 'binary': {
+      const left = evaluateNode(node.left, data);
+      const right = evaluateNode(node.right, data);
+      if (left.kind === 'number' && right.kind === 'number') {
+        return { kind: 'number', value: applyOp(node.op, left.value, right.value) };
+      }
+      if (left.kind === 'series' && right.kind === 'number') {
+        return { kind: 'series', points: finite(left.points.map(p => ({ ...p, value: applyOp(node.op, p.value, right.value) }))) };
+      }
+      if (left.kind === 'number' && right.kind === 'series') {
+        return { kind: 'series', points: finite(right.points.map(p => ({ ...p, value: applyOp(node.op, left.value, p.value) }))) };
+      }
+      const pairs = alignSeriesPair((left as { points: TimeSeriesPoint[] }).points, (right as { points: TimeSeriesPoint[] }).points);
+      return {
+        kind: 'series',
+        points: finite(pairs.map(({ date, a, b }) => ({
+          date,
+          value: applyOp(node.op, a.value, b.value),
+          ...((a.estimated || b.estimated) && { estimated: true }),
+        }))),
+      };
+    }
+
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.fn];
+      const series = evaluateNode(node.args[0], data) as { points: TimeSeriesPoint[] };
+      const n = node.args[1]?.type === 'number' ? node.args[1].value : 1;
+      return { kind: 'series', points: finite(fn.apply(series.points, n)) };
+    }
+  }
+}
+
+/**
+ * Evaluate a parsed formula. `data` holds each referenced metric's series,
+ * sorted by date. Points that cannot be computed (division by zero, log of
+ * a non-positive value, no aligned value) are left out.
+ */
+export function evaluateFormula(formula: ParsedFormula, data: Record<string, TimeSeriesPoint[]>): TimeSeriesPoint[] {
+  const result = evaluateNode(formula.ast, data);
+  return result.kind === 'series' ? result.points : [];
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { crossCorrelate, describeLag, differencedSeries } from './lag';
+
+function daily(values: number[], start = '2025-01-01') {
+  const first = Date.parse(start);
+  return values.map((value, i) => ({ date: new Date(first + i * 86_400_000).toISOString().slice(0, 10), value }));
+}
+
+// Deterministic noise
+function noise(length: number, seed: number): number[] {
+  return Array.from({ length }, (_, i) => {
+    const x = Math.sin((i + 1) * seed * 12.9898) * 43758.5453;
+    return x - Math.floor(x) - 0.5;
+  });
+}
+
+describe('differencedSeries', () => {
+  it('takes changes between consecutive periods only', () => {
+    const changes = differencedSeries(
+      [{ date: '2025-01-01', value: 10 }, { date: '2025-01-02', value: 15 }, { date: '2025-01-04', value: 30 }],
+      'daily'
+    );
+    expect([...changes.values()]).toEqual([5]);
+  });
+});
+
+describe('crossCorrelate', () => {
+  const shocks = noise(200, 7);
+  // A grows with random daily shocks; B repeats A's shocks 14 days later on its own trend
+  const a = daily(shocks.map((_, i) => shocks.slice(0, i + 1).reduce((sum, v) => sum + v, 0) + i));
+  const b = daily(shocks.map((_, i) => 5 * i + (i >= 14 ? 3 * shocks.slice(0, i - 13).reduce((sum, v) => sum + v, 0) : 0)));
+
+  it('finds the lag at which A leads B', () => {
+    const result = crossCorrelate(a, b, 'daily');
+
+    expect(result.maxLag).toBe(90);
+    expect(result.lags).toHaveLength(181);
+    expect(result.best).toMatchObject({ lag: 14, days: 14 });
+    expect(result.best!.r).toBeGreaterThan(0.9);
+    expect(result.adjustedPValue).toBeLessThan(0.001);
+    expect(describeLag(result.best!, 'Reddit', 'Stars')).toBe('Reddit changes lead Stars changes by 14 days');
+  });
+
+  it('is not fooled by shared trends', () => {
+    const trendA = daily(noise(120, 3).map((v, i) => 10 * i + v));
+    const trendB = daily(noise(120, 11).map((v, i) => 3 * i + v));
+    const result = crossCorrelate(trendA, trendB, 'daily');
+
+    expect(Math.abs(result.best!.r)).toBeLessThan(0.5);
+    expect(result.adjustedPValue).toBeGreaterThan(0.05);
+  });
+
+  it('limits monthly lags to whole months within the window', () => {
+    let total = 0;
+    const months = noise(30, 5).map((v, i) => ({
+      date: `${2023 + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, '0')}`,
+      value: (total += v),
+    }));
+    const result = crossCorrelate(months, months, 'monthly');
+
+    expect(result.lags.map(l => l.days)).toEqual([-90, -60, -30, 0, 30, 60, 90]);
+    expect(result.best).toMatchObject({ lag: 0, r: 1 });
+  });
+
+  it('reports no best lag without enough overlap', () => {
+    const result = crossCorrelate(daily([1, 2, 3]), daily([1, 2, 3]), 'daily');
+    expect(result.best).toBeNull();
+    expect(result.pValue).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Lagged cross-correlation for the Playground
+ *
+ * Correlates two metrics with one shifted in time, to see whether moves in
+ * one tend to come before moves in the other. Both series are differenced
+ * first (period-over-period change), so two metrics that simply both grow
+ * don't look related at every lag.
+ */
+
+import { periodIndex, type PeriodGranularity } from '../utils/dates';
+import { correlationPValue, pearsonCorrelation } from '../utils/statistics';
+import type { TimeSeriesPoint } from './loaders';
+
+export type LagGranularity = PeriodGranularity;
+
+/** Days per step, for converting lags to days */
+export const LAG_STEP_DAYS: Record<LagGranularity, number> = { daily: 1, weekly: 7, monthly: 30 };
+
+export const MAX_LAG_DAYS = 90;
+
+export interface LagCorrelation {
+  /** Steps B is shifted by: positive means A moves first */
+  lag: number;
+  days: number;
+  r: number;
+  /** Overlapping pairs at this lag */
+  n: number;
+}
+
+export interface CrossCorrelation {
+  granularity: LagGranularity;
+  /** Largest lag tried in each direction, in steps */
+  maxLag: number;
+  /** Lags with enough overlapping pairs (up to 2 * maxLag + 1) */
+  lags: LagCorrelation[];
+  /** Lag with the largest |r|, or null if no lag has enough pairs */
+  best: LagCorrelation | null;
+  /** Two-sided p-value of the best lag on its own */
+  pValue: number | null;
+  /** p-value corrected for trying every lag (Bonferroni) */
+  adjustedPValue: number | null;
+  /** |r| above this is significant at 5% for a single lag (±1.96/√n at lag 0) */
+  significanceBand: number | null;
+}
+
+export interface CrossCorrelationOptions {
+  /** Largest lag in either direction, in days (default 90) */
+  maxDays?: number;
+  /** Fewest pairs for a lag to count (default 10) */
+  minPairs?: number;
+}
+
+/**
+ * Change from the previous period, keyed by period index. Periods whose
+ * previous period is missing are left out rather than bridged.
+ */
+export function differencedSeries(points: TimeSeriesPoint[], granularity: LagGranularity): Map<number, number> {
+  const byPeriod = new Map<number, number>();
+  for (const point of points) {
+    const index = periodIndex(point.date, granularity);
+    if (index !== null && Number.isFinite(point.value)) byPeriod.set(index, point.value);
+  }
+
+  const changes = new Map<number, number>();
+  for (const [index, value] of byPeriod) {
+    const previous = byPeriod.get(index - 1);
+    if (previous !== undefined) changes.set(index, value - previous);
+  }
+  return changes;
+}
+
+/**
+ * Correlation of A's changes with B's changes `lag` periods later, for
+ * every lag within ±maxDays
+ */
+export function crossCorrelate(
+  a: TimeSeriesPoint[],
+  b: TimeSeriesPoint[],
+  granularity: LagGranularity,
+  options: CrossCorrelationOptions = {}
+): CrossCorrelation {
+  const { maxDays = MAX_LAG_DAYS, minPairs = 10 } = options;
+  const stepDays = LAG_STEP_DAYS[granularity];
+  const maxLag = Math.max(1, Math.floor(maxDays / stepDays));
+  const changesA = differencedSeries(a, granularity);
+  const changesB = differencedSeries(b, granularity);
+
+  const lags: LagCorrelation[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const [index, x] of changesA) {
+      const y = changesB.get(index + lag);
+      if (y !== undefined) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+    if (xs.length >= minPairs) {
+      lags.push({ lag, days: lag * stepDays, r: pearsonCorrelation(xs, ys), n: xs.length });
+    }
+  }
+
+  const best = lags.reduce<LagCorrelation | null>(
+    (top, l) => (!top || Math.abs(l.r) > Math.abs(top.r) ? l : top),
+    null
+  );
+  const pValue = best ? correlationPValue(best.r, best.n) : null;
+  const atZero = lags.find(l => l.lag === 0) ?? best;
+
+  return {
+    granularity,
+    maxLag,
+    lags,
+    best,
+    pValue,
+    adjustedPValue: pValue === null ? null : Math.min(1, pValue * lags.length),
+    significanceBand: atZero ? 1.96 / Math.sqrt(atZero.n) : null,
+  };
+}
+
+/**
+ * Plain-language reading of the best lag, e.g.
+ * "Reddit Subscribers changes lead GitHub Stars changes by 14 days"
+ */
+export function describeLag(best: LagCorrelation, labelA: string, labelB: string): string {
+  const direction = best.r >= 0 ? '' : ' (in opposite directions)';
+  if (best.lag === 0) return `${labelA} and ${labelB} change together${direction}`;
+  const days = Math.abs(best.days);
+  const [leader, follower] = best.lag > 0 ? [labelA, labelB] : [labelB, labelA];
+  return `${leader} changes lead ${follower} changes by ${days} day${days === 1 ? '' : 's'}${direction}`;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildComparisonSeries, filterByDateRange, getPeriodGrowth, shiftDate } from './loaders';
+
+const year = { months: 12, days: 0 };
+
+describe('filterByDateRange', () => {
+  const data = [
+    { date: '2025-06-30', value: 1 },
+    { date: '2025-07-01', value: 2 },
+    { date: '2025-09-15', value: 3 },
+    { date: '2025-10-01', value: 4 },
+  ];
+
+  it('includes whole months for month bounds', () => {
+    expect(filterByDateRange(data, '2025-07', '2025-09').map(p => p.value)).toEqual([2, 3]);
+  });
+
+  it('compares days for day bounds', () => {
+    expect(filterByDateRange(data, '2025-06-30', '2025-09-14').map(p => p.value)).toEqual([1, 2]);
+  });
+});
+
+describe('shiftDate', () => {
+  it('shifts months and days, keeping the date format', () => {
+    expect(shiftDate('2025-03-15', year)).toBe('2026-03-15');
+    expect(shiftDate('2025-03', year, -1)).toBe('2024-03');
+    expect(shiftDate('2025-12-30', { months: 0, days: 5 })).toBe('2026-01-04');
+  });
+
+  it('clamps to the end of shorter months', () => {
+    expect(shiftDate('2025-03-31', { months: 1, days: 0 }, -1)).toBe('2025-02-28');
+    expect(shiftDate('2024-02-29', year)).toBe('2025-02-28');
+  });
+
+  it('leaves week keys alone', () => {
+    expect(shiftDate('2025-W10', year)).toBe('2025-W10');
+  });
+});
+
+describe('buildComparisonSeries', () => {
+  const data = [
+    { date: '2024-07-01', value: 100 },
+    { date: '2024-08-01', value: 120 },
+    { date: '2025-07-01', value: 200 },
+    { date: '2025-08-01', value: 260 },
+  ];
+
+  it('moves last year onto the current window', () => {
+    const comparison = buildComparisonSeries(data, year, { start: '2025-07', end: '2025-08' });
+
+    expect(comparison).toEqual([
+      { date: '2025-07-01', value: 100, originalDate: '2024-07-01' },
+      { date: '2025-08-01', value: 120, originalDate: '2024-08-01' },
+    ]);
+  });
+
+  it('stops at the last real date without a window', () => {
+    const comparison = buildComparisonSeries(data, year, null);
+    expect(comparison.map(p => p.date)).toEqual(['2025-07-01', '2025-08-01']);
+  });
+});
+
+describe('getPeriodGrowth', () => {
+  it('uses last minus first for cumulative and the sum for changes', () => {
+    const points = [{ date: 'a', value: 10 }, { date: 'b', value: 15 }, { date: 'c', value: 40 }];
+    expect(getPeriodGrowth(points, 'cumulative')).toBe(30);
+    expect(getPeriodGrowth(points, 'change')).toBe(65);
+    expect(getPeriodGrowth(points.slice(0, 1), 'cumulative')).toBeNull();
+  });
+});
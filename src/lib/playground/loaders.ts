@@ -12,10 +12,13 @@ import {
   type MetricDefinition,
   type CategoricalSource,
 } from './registry';
+import type { DateShift } from './state';
 
 export interface TimeSeriesPoint {
   date: string;
   value: number;
+  /** Gap filled by interpolation rather than measured */
+  estimated?: boolean;
 }
 
 export interface LoadedMetricData {
@@ -84,6 +87,7 @@ export function extractTimeSeries(
   return granularityData.map((item: any) => ({
     date: item[dateKey],
     value: item[metric.path],
+    ...(item.source === 'interpolated' && { estimated: true }),
   }));
 }
 
@@ -192,14 +196,67 @@ export function findOverlappingRange(datasets: LoadedMetricData[]): { start: str
 }
 
 /**
- * Filter data to a specific date range
+ * Filter data to a specific date range. Bounds may be months (YYYY-MM) or
+ * days (YYYY-MM-DD); dates are compared at the bound's precision, so a
+ * month bound includes every day of that month.
  */
 export function filterByDateRange(
   data: TimeSeriesPoint[],
   start: string,
   end: string
 ): TimeSeriesPoint[] {
-  return data.filter(p => p.date >= start && p.date <= end);
+  return data.filter(p => p.date.slice(0, start.length) >= start && p.date.slice(0, end.length) <= end);
+}
+
+/**
+ * Move a YYYY-MM-DD or YYYY-MM date forward (or back, with direction -1).
+ * Month shifts clamp to the end of shorter months (Mar 31 - 1 month = Feb 28).
+ * Other formats are returned unchanged.
+ */
+export function shiftDate(date: string, shift: DateShift, direction: 1 | -1 = 1): string {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(date);
+  if (!match) return date;
+
+  const [, y, m, d] = match;
+  const totalMonths = Number(y) * 12 + Number(m) - 1 + direction * shift.months;
+  const year = Math.floor(totalMonths / 12);
+  const month = totalMonths - year * 12;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const shifted = new Date(Date.UTC(year, month, Math.min(Number(d ?? 1), daysInMonth) + direction * shift.days));
+
+  const iso = shifted.toISOString();
+  return d === undefined ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+/**
+ * Comparison overlay: the series' values from `shift` earlier, moved forward
+ * onto the current timeline and clipped to the window (or, without a window,
+ * to the series' own last date). Points keep their original date in
+ * `originalDate`.
+ */
+export function buildComparisonSeries(
+  data: TimeSeriesPoint[],
+  shift: DateShift,
+  window: { start: string; end: string } | null
+): Array<TimeSeriesPoint & { originalDate: string }> {
+  if (data.length === 0) return [];
+  const shifted = data.map(p => ({ ...p, date: shiftDate(p.date, shift), originalDate: p.date }));
+  const end = data[data.length - 1].date;
+
+  return window
+    ? filterByDateRange(shifted, window.start, window.end) as Array<TimeSeriesPoint & { originalDate: string }>
+    : shifted.filter(p => p.date <= end);
+}
+
+/**
+ * Growth over a charted period: last minus first for cumulative values,
+ * the sum for period changes. Null with fewer points than needed.
+ */
+export function getPeriodGrowth(data: TimeSeriesPoint[], dataMode: 'cumulative' | 'change'): number | null {
+  if (dataMode === 'change') {
+    return data.length > 0 ? data.reduce((sum, p) => sum + p.value, 0) : null;
+  }
+  return data.length >= 2 ? data[data.length - 1].value - data[0].value : null;
 }
 
 /**
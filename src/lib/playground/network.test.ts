@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCoMembershipNetwork,
+  buildMembershipNetwork,
+  buildPairNetwork,
+  extractNetwork,
+  layoutNetwork,
+  limitNetwork,
+} from './network';
+import { getCategoricalSourceById } from './registry';
+
+describe('buildPairNetwork', () => {
+  it('merges repeated edges in either direction and sums node strength', () => {
+    const network = buildPairNetwork([
+      { source: 'a', target: 'b', weight: 2 },
+      { source: 'b', target: 'a', weight: 1 },
+      { source: 'a', target: 'c', weight: 1 },
+      { source: 'c', target: 'c', weight: 5 },
+    ]);
+
+    expect(network.edges).toEqual([
+      { source: 'a', target: 'b', weight: 3 },
+      { source: 'a', target: 'c', weight: 1 },
+    ]);
+    expect(network.nodes.map(n => [n.id, n.strength])).toEqual([['a', 4], ['b', 3], ['c', 1]]);
+  });
+});
+
+describe('buildMembershipNetwork', () => {
+  it('links owners to members once per item', () => {
+    const network = buildMembershipNetwork({
+      ada: [['slack', 'gmail', 'slack'], ['slack']],
+      bob: [['gmail']],
+    });
+
+    expect(network.edges).toEqual([
+      { source: 'ada', target: 'slack', weight: 2 },
+      { source: 'ada', target: 'gmail', weight: 1 },
+      { source: 'bob', target: 'gmail', weight: 1 },
+    ]);
+  });
+});
+
+describe('buildCoMembershipNetwork', () => {
+  it('links members listed together and ignores single-member lists', () => {
+    const network = buildCoMembershipNetwork([['ada', 'bob'], ['bob', 'ada', 'cy'], ['dee']]);
+
+    expect(network.edges).toEqual([
+      { source: 'ada', target: 'bob', weight: 2 },
+      { source: 'ada', target: 'cy', weight: 1 },
+      { source: 'bob', target: 'cy', weight: 1 },
+    ]);
+    expect(network.nodes.map(n => n.id)).not.toContain('dee');
+  });
+});
+
+describe('extractNetwork', () => {
+  it('reads node pairs with the chosen weight and labels nodes from the lookup', () => {
+    const source = getCategoricalSourceById('node-pairs-network')!;
+    const data = {
+      pairs: [
+        { a: 'n8n-nodes-base.gmail', b: 'n8n-nodes-base.slack', count: 20, lift: 4, npmi: 0.9 },
+        { a: 'n8n-nodes-base.code', b: 'n8n-nodes-base.slack', count: 40, lift: 1.5, npmi: 0.2 },
+      ],
+    };
+    const lookup = {
+      nodes: { all: [{ type: 'n8n-nodes-base.slack', displayName: 'Slack', category: 'Communication' }] },
+    };
+
+    const network = extractNetwork(data, source.network!, 'count', lookup);
+
+    expect(network.edges[0]).toEqual({ source: 'n8n-nodes-base.code', target: 'n8n-nodes-base.slack', weight: 40 });
+    expect(network.nodes.find(n => n.id === 'n8n-nodes-base.slack')).toMatchObject({ label: 'Slack', group: 'Communication' });
+    expect(network.nodes.find(n => n.id === 'n8n-nodes-base.gmail')).toMatchObject({ label: 'gmail', group: 'Other' });
+  });
+
+  it('groups creators apart from the nodes they use', () => {
+    const source = getCategoricalSourceById('creator-nodes-network')!;
+    const data = { creators: { ada: [{ id: 1, nodes: ['n8n-nodes-base.slack'] }] } };
+
+    const network = extractNetwork(data, source.network!, 'count');
+
+    expect(network.nodes.map(n => [n.label, n.group])).toEqual([['ada', 'Creator'], ['slack', 'Node']]);
+  });
+
+  it('marks co-hosts who are ambassadors, matching names case-insensitively', () => {
+    const source = getCategoricalSourceById('event-hosts-network')!;
+    const data = {
+      past: [{ hosts: [{ name: 'Ada Lovelace' }, { name: 'Bob' }] }],
+      upcoming: [{ hosts: [{ name: 'Bob' }, { name: 'Ada Lovelace' }] }],
+    };
+    const ambassadors = { current: [{ name: 'ada lovelace' }] };
+
+    const network = extractNetwork(data, source.network!, 'count', ambassadors);
+
+    expect(network.edges).toEqual([{ source: 'Ada Lovelace', target: 'Bob', weight: 2 }]);
+    expect(network.nodes.map(n => n.group)).toEqual(['Ambassador', 'Organizer']);
+  });
+});
+
+describe('limitNetwork', () => {
+  it('keeps the strongest nodes and drops nodes left without edges', () => {
+    const network = buildPairNetwork([
+      { source: 'a', target: 'b', weight: 5 },
+      { source: 'a', target: 'c', weight: 4 },
+      { source: 'd', target: 'e', weight: 1 },
+    ]);
+
+    const limited = limitNetwork(network, 4);
+
+    // a (9), b (5), c (4) and d (1) are kept, but d's only edge is to e
+    expect(limited.nodes.map(n => n.id)).toEqual(['a', 'b', 'c']);
+    expect(limited.edges).toHaveLength(2);
+  });
+});
+
+describe('layoutNetwork', () => {
+  const network = buildPairNetwork([
+    { source: 'a', target: 'b', weight: 1 },
+    { source: 'b', target: 'c', weight: 1 },
+    { source: 'x', target: 'y', weight: 1 },
+  ]);
+
+  it('places every node inside the unit square', () => {
+    const positioned = layoutNetwork(network);
+
+    expect(positioned).toHaveLength(5);
+    for (const node of positioned) {
+      expect(node.x).toBeGreaterThanOrEqual(0);
+      expect(node.x).toBeLessThanOrEqual(1);
+      expect(node.y).toBeGreaterThanOrEqual(0);
+      expect(node.y).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('is deterministic and keeps linked nodes closer than unlinked ones', () => {
+    const first = layoutNetwork(network);
+    expect(layoutNetwork(network)).toEqual(first);
+
+    const at = (id: string) => first.find(n => n.id === id)!;
+    const distance = (p: string, q: string) => Math.hypot(at(p).x - at(q).x, at(p).y - at(q).y);
+    expect(distance('a', 'b')).toBeLessThan(distance('a', 'x'));
+    expect(distance('x', 'y')).toBeLessThan(distance('x', 'c'));
+  });
+
+  it('centres a single node', () => {
+    const single = layoutNetwork({ nodes: [{ id: 'a', label: 'a', group: 'Other', strength: 1 }], edges: [] });
+    expect(single[0]).toMatchObject({ x: 0.5, y: 0.5 });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Network data for the Playground
+ *
+ * Turns relational data (node pairs, creator templates, event co-hosts) into
+ * a weighted graph and lays it out with a force-directed simulation. The
+ * layout is deterministic, so the same data always draws the same picture.
+ */
+
+import type { NetworkDefinition } from './registry';
+
+export interface NetworkNode {
+  id: string;
+  label: string;
+  group: string;
+  /** Sum of the weights of the node's edges */
+  strength: number;
+}
+
+export interface NetworkEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface Network {
+  nodes: NetworkNode[];
+  edges: NetworkEdge[];
+}
+
+export interface PositionedNode extends NetworkNode {
+  /** 0..1, left to right */
+  x: number;
+  /** 0..1, bottom to top */
+  y: number;
+}
+
+export interface LayoutOptions {
+  /** Simulation steps (default 300) */
+  iterations?: number;
+}
+
+// Edge keys are unordered: a|b and b|a are the same edge
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
+function toNetwork(weights: Map<string, number>): Network {
+  const strengths = new Map<string, number>();
+  const edges: NetworkEdge[] = [];
+
+  for (const [key, weight] of weights) {
+    if (!(weight > 0)) continue;
+    const [source, target] = key.split('\n');
+    edges.push({ source, target, weight });
+    strengths.set(source, (strengths.get(source) ?? 0) + weight);
+    strengths.set(target, (strengths.get(target) ?? 0) + weight);
+  }
+
+  const nodes = [...strengths.entries()].map(([id, strength]) => ({
+    id,
+    label: id,
+    group: 'Other',
+    strength,
+  }));
+
+  nodes.sort((a, b) => b.strength - a.strength || a.id.localeCompare(b.id));
+  edges.sort((a, b) => b.weight - a.weight || a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+
+  return { nodes, edges };
+}
+
+/**
+ * Network from explicit edges, e.g. node co-occurrence pairs. Repeated
+ * edges add up.
+ */
+export function buildPairNetwork(
+  pairs: Array<{ source: string; target: string; weight: number }>
+): Network {
+  const weights = new Map<string, number>();
+  for (const { source, target, weight } of pairs) {
+    if (source === target) continue;
+    const key = edgeKey(source, target);
+    weights.set(key, (weights.get(key) ?? 0) + weight);
+  }
+  return toNetwork(weights);
+}
+
+/**
+ * Bipartite network linking each owner to the members of its items, e.g.
+ * creators to the nodes in their templates. The weight is the number of
+ * the owner's items that include the member.
+ */
+export function buildMembershipNetwork(itemsByOwner: Record<string, string[][]>): Network {
+  const weights = new Map<string, number>();
+  for (const [owner, items] of Object.entries(itemsByOwner)) {
+    for (const members of items) {
+      for (const member of new Set(members)) {
+        if (member === owner) continue;
+        const key = edgeKey(owner, member);
+        weights.set(key, (weights.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  return toNetwork(weights);
+}
+
+/**
+ * Network linking members listed together, e.g. hosts of the same event.
+ * The weight is the number of lists the two share.
+ */
+export function buildCoMembershipNetwork(memberLists: string[][]): Network {
+  const weights = new Map<string, number>();
+  for (const list of memberLists) {
+    const members = [...new Set(list)];
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const key = edgeKey(members[i], members[j]);
+        weights.set(key, (weights.get(key) ?? 0) + 1);
+      }
+    }
+  }
+  return toNetwork(weights);
+}
+
+function getNestedValue(obj: any, path: string): any {
+  let current = obj;
+  for (const part of path.split('.')) {
+    current = current?.[part];
+  }
+  return current;
+}
+
+// Arrays at each path, concatenated
+function collect(data: any, paths: string[]): any[] {
+  return paths.flatMap(path => {
+    const value = getNestedValue(data, path);
+    return Array.isArray(value) ? value : [];
+  });
+}
+
+function memberIds(item: any, definition: NetworkDefinition): string[] {
+  const members = item?.[definition.membersKey ?? 'members'];
+  if (!Array.isArray(members)) return [];
+  return members
+    .map(member => definition.memberIdKey ? member?.[definition.memberIdKey] : member)
+    .filter((id): id is string => typeof id === 'string' && id.trim() !== '')
+    .map(id => id.trim());
+}
+
+/** `n8n-nodes-base.httpRequest` -> `httpRequest` */
+function nodeTypeLabel(type: string): string {
+  return type.split('.').pop() || type;
+}
+
+/**
+ * Build a network from a source file as described by its NetworkDefinition.
+ * `lookupData` is the parsed lookup file, if the definition has one.
+ */
+export function extractNetwork(
+  data: any,
+  definition: NetworkDefinition,
+  weightField: string,
+  lookupData?: any
+): Network {
+  const groups: Record<string, string> = {};
+  let network: Network;
+
+  switch (definition.kind) {
+    case 'pairs': {
+      const sourceKey = definition.sourceKey ?? 'source';
+      const targetKey = definition.targetKey ?? 'target';
+      const pairs = collect(data, definition.dataPaths)
+        .map(item => ({ source: item?.[sourceKey], target: item?.[targetKey], weight: Number(item?.[weightField]) }))
+        .filter(pair => typeof pair.source === 'string' && typeof pair.target === 'string' && pair.weight > 0);
+      network = buildPairNetwork(pairs);
+      break;
+    }
+    case 'membership': {
+      const itemsByOwner: Record<string, string[][]> = {};
+      for (const path of definition.dataPaths) {
+        const record = getNestedValue(data, path);
+        if (!record || typeof record !== 'object') continue;
+        for (const [owner, items] of Object.entries(record)) {
+          if (!Array.isArray(items)) continue;
+          itemsByOwner[owner] = items.map(item => memberIds(item, definition));
+          if (definition.ownerGroup) groups[owner] = definition.ownerGroup;
+        }
+      }
+      network = buildMembershipNetwork(itemsByOwner);
+      break;
+    }
+    case 'co-membership': {
+      network = buildCoMembershipNetwork(collect(data, definition.dataPaths).map(item => memberIds(item, definition)));
+      break;
+    }
+  }
+
+  const lookup = definition.lookup;
+  const details = new Map<string, any>();
+  if (lookup && lookupData) {
+    for (const item of collect(lookupData, lookup.dataPaths)) {
+      const id = item?.[lookup.idKey];
+      if (typeof id === 'string') details.set(id.trim().toLowerCase(), item);
+    }
+  }
+
+  for (const node of network.nodes) {
+    const match = details.get(node.id.toLowerCase());
+    const matchedLabel = match && lookup?.labelKey ? match[lookup.labelKey] : undefined;
+    const matchedGroup = match && lookup ? lookup.group ?? (lookup.groupKey ? match[lookup.groupKey] : undefined) : undefined;
+
+    node.label = matchedLabel ?? (definition.nodeTypeLabels && !groups[node.id] ? nodeTypeLabel(node.id) : node.id);
+    node.group = groups[node.id] ?? matchedGroup ?? definition.defaultGroup;
+  }
+
+  return network;
+}
+
+/**
+ * Keep the `maxNodes` strongest nodes and the edges between them. Nodes left
+ * without edges are dropped and strengths are recomputed.
+ */
+export function limitNetwork(network: Network, maxNodes: number): Network {
+  const kept = new Set(network.nodes.slice(0, maxNodes).map(n => n.id));
+  const edges = network.edges.filter(e => kept.has(e.source) && kept.has(e.target));
+
+  const strengths = new Map<string, number>();
+  for (const edge of edges) {
+    strengths.set(edge.source, (strengths.get(edge.source) ?? 0) + edge.weight);
+    strengths.set(edge.target, (strengths.get(edge.target) ?? 0) + edge.weight);
+  }
+
+  const nodes = network.nodes
+    .filter(n => strengths.has(n.id))
+    .map(n => ({ ...n, strength: strengths.get(n.id)! }))
+    .sort((a, b) => b.strength - a.strength || a.id.localeCompare(b.id));
+
+  return { nodes, edges };
+}
+
+/**
+ * Fruchterman-Reingold layout. Nodes start on a spiral (strongest in the
+ * middle), repel each other and are pulled together along edges in
+ * proportion to edge weight. Positions are scaled to fill 0..1.
+ */
+export function layoutNetwork(network: Network, options: LayoutOptions = {}): PositionedNode[] {
+  const { iterations = 300 } = options;
+  const { nodes, edges } = network;
+  const n = nodes.length;
+  if (n === 0) return [];
+  if (n === 1) return [{ ...nodes[0], x: 0.5, y: 0.5 }];
+
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const x = new Float64Array(n);
+  const y = new Float64Array(n);
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < n; i++) {
+    const r = Math.sqrt((i + 0.5) / n);
+    x[i] = r * Math.cos(i * goldenAngle);
+    y[i] = r * Math.sin(i * goldenAngle);
+  }
+
+  const maxWeight = Math.max(...edges.map(e => e.weight), 1);
+  const links = edges
+    .filter(e => index.has(e.source) && index.has(e.target))
+    .map(e => ({ a: index.get(e.source)!, b: index.get(e.target)!, w: 0.2 + 0.8 * (e.weight / maxWeight) }));
+
+  // Ideal distance for n nodes in a 2x2 box
+  const k = Math.sqrt(4 / n);
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+  let temperature = 0.2;
+  const cooling = temperature / (iterations + 1);
+
+  for (let step = 0; step < iterations; step++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const ddx = x[i] - x[j];
+        const ddy = y[i] - y[j];
+        const dist = Math.max(Math.hypot(ddx, ddy), 1e-3);
+        const force = (k * k) / dist;
+        dx[i] += (ddx / dist) * force;
+        dy[i] += (ddy / dist) * force;
+        dx[j] -= (ddx / dist) * force;
+        dy[j] -= (ddy / dist) * force;
+      }
+    }
+
+    for (const { a, b, w } of links) {
+      const ddx = x[a] - x[b];
+      const ddy = y[a] - y[b];
+      const dist = Math.max(Math.hypot(ddx, ddy), 1e-3);
+      const force = ((dist * dist) / k) * w;
+      dx[a] -= (ddx / dist) * force;
+      dy[a] -= (ddy / dist) * force;
+      dx[b] += (ddx / dist) * force;
+      dy[b] += (ddy / dist) * force;
+    }
+
+    for (let i = 0; i < n; i++) {
+      // Gentle pull to the centre keeps disconnected parts on screen
+      dx[i] -= x[i] * k * 0.5;
+      dy[i] -= y[i] * k * 0.5;
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        const move = Math.min(length, temperature);
+        x[i] += (dx[i] / length) * move;
+        y[i] += (dy[i] / length) * move;
+      }
+    }
+
+    temperature -= cooling;
+  }
+
+  const minX = Math.min(...x);
+  const maxX = Math.max(...x);
+  const minY = Math.min(...y);
+  const maxY = Math.max(...y);
+  const spanX = maxX - minX || 1;
+  const spanY = maxY - minY || 1;
+
+  return nodes.map((node, i) => ({
+    ...node,
+    x: (x[i] - minX) / spanX,
+    y: (y[i] - minY) / spanY,
+  }));
+}
@@ -3,7 +3,7 @@
  *
  * Defines all available data sources with metadata for the playground.
  * Phase 1: Time-series sources
- * Phase 2: Categorical sources (distributions, rankings, correlations)
+ * Phase 2: Categorical sources (distributions, rankings, correlations, networks)
  */
 
 export interface MetricDefinition {
@@ -382,7 +382,7 @@ export function getSourceById(sourceId: string): DataSource | undefined {
 // Phase 2: Categorical Data Sources
 // ============================================================================
 
-export type CategoricalDataType = 'distribution' | 'ranking' | 'correlation';
+export type CategoricalDataType = 'distribution' | 'ranking' | 'correlation' | 'network';
 
 export interface DistributionField {
   id: string;
@@ -410,6 +410,54 @@ export interface CorrelationField {
   path: string;
 }
 
+export interface NetworkField {
+  id: string;
+  label: string;
+}
+
+/** Extra details for network nodes, read from a second file */
+export interface NetworkNodeLookup {
+  file: string;
+  /** Path(s) to arrays of items describing nodes */
+  dataPaths: string[];
+  /** Key matching the node ID (compared case-insensitively) */
+  idKey: string;
+  /** Key for a display label */
+  labelKey?: string;
+  /** Key for the node's group */
+  groupKey?: string;
+  /** Fixed group for every matched node (instead of groupKey) */
+  group?: string;
+}
+
+/**
+ * How a network source's file describes nodes and edges:
+ * - pairs: items are edges with sourceKey/targetKey and a weight field
+ * - membership: a record of owner -> items; owners link to the values in
+ *   each item's membersKey (e.g. creator -> nodes used in their templates)
+ * - co-membership: items list members in membersKey; members listed
+ *   together are linked (e.g. hosts of the same event)
+ */
+export interface NetworkDefinition {
+  kind: 'pairs' | 'membership' | 'co-membership';
+  /** Path(s) to the edges, owner record or member lists (arrays are concatenated) */
+  dataPaths: string[];
+  /** Edge endpoints (pairs) */
+  sourceKey?: string;
+  targetKey?: string;
+  /** Member list in each item (membership, co-membership) */
+  membersKey?: string;
+  /** Key for the member ID when members are objects */
+  memberIdKey?: string;
+  /** Group for owner nodes (membership) */
+  ownerGroup?: string;
+  /** Group for nodes without a lookup match */
+  defaultGroup: string;
+  /** Show n8n node types without their package prefix */
+  nodeTypeLabels?: boolean;
+  lookup?: NetworkNodeLookup;
+}
+
 export interface CategoricalSource {
   id: string;
   label: string;
@@ -426,6 +474,9 @@ export interface CategoricalSource {
   distributionFields?: DistributionField[];
   rankingFields?: RankingField[];
   correlationFields?: CorrelationField[];
+  /** Edge weight options (network) */
+  networkFields?: NetworkField[];
+  network?: NetworkDefinition;
   /** Field to use for grouping/filtering */
   groupByField?: string;
   /** Field to use for item labels */
@@ -568,6 +619,82 @@ export const CATEGORICAL_SOURCES: CategoricalSource[] = [
       { id: 'score', label: 'npm Score', type: 'number' },
     ],
   },
+
+  // Network sources
+  {
+    id: 'node-pairs-network',
+    label: 'Nodes Used Together',
+    shortLabel: 'Node Pairs',
+    file: '/data/node-pairs.json',
+    sizeHint: 'medium',
+    dataType: 'network',
+    lastUpdatedPath: 'lastUpdated',
+    networkFields: [
+      { id: 'npmi', label: 'Association (NPMI)' },
+      { id: 'count', label: 'Shared Templates' },
+      { id: 'lift', label: 'Lift' },
+    ],
+    network: {
+      kind: 'pairs',
+      dataPaths: ['pairs'],
+      sourceKey: 'a',
+      targetKey: 'b',
+      defaultGroup: 'Other',
+      nodeTypeLabels: true,
+      lookup: {
+        file: '/data/all-nodes-data.json',
+        dataPaths: ['nodes.all'],
+        idKey: 'type',
+        labelKey: 'displayName',
+        groupKey: 'category',
+      },
+    },
+  },
+  {
+    id: 'creator-nodes-network',
+    label: 'Creators and Their Nodes',
+    shortLabel: 'Creator Nodes',
+    file: '/data/external/n8narena-creator-templates.json',
+    sizeHint: 'large',
+    dataType: 'network',
+    lastUpdatedPath: 'lastUpdated',
+    networkFields: [
+      { id: 'count', label: 'Templates Using Node' },
+    ],
+    network: {
+      kind: 'membership',
+      dataPaths: ['creators'],
+      membersKey: 'nodes',
+      ownerGroup: 'Creator',
+      defaultGroup: 'Node',
+      nodeTypeLabels: true,
+    },
+  },
+  {
+    id: 'event-hosts-network',
+    label: 'Event Co-Hosts',
+    shortLabel: 'Co-Hosts',
+    file: '/data/history/events.json',
+    sizeHint: 'medium',
+    dataType: 'network',
+    lastUpdatedPath: 'lastUpdated',
+    networkFields: [
+      { id: 'count', label: 'Events Co-Hosted' },
+    ],
+    network: {
+      kind: 'co-membership',
+      dataPaths: ['past', 'upcoming'],
+      membersKey: 'hosts',
+      memberIdKey: 'name',
+      defaultGroup: 'Organizer',
+      lookup: {
+        file: '/data/history/ambassadors.json',
+        dataPaths: ['current'],
+        idKey: 'name',
+        group: 'Ambassador',
+      },
+    },
+  },
 ];
 
 /**
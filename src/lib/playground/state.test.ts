@@ -0,0 +1,178 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { getCategoricalSourceById } from './registry';
+import {
+  encodeUrlState,
+  getComparisonShift,
+  getDateRangeFilter,
+  getDefaultStateForMode,
+  parseCustomRange,
+  parseUrlState,
+} from './state';
+
+function setSearch(search: string): void {
+  window.history.replaceState({}, '', `/playground${search}`);
+}
+
+afterEach(() => setSearch(''));
+
+describe('custom date ranges in the URL', () => {
+  it('round-trips a custom range and comparison mode', () => {
+    const state = getDefaultStateForMode('timeseries');
+    state.timeseries = {
+      ...state.timeseries,
+      metrics: ['forum-users'],
+      range: 'custom',
+      customRange: { start: '2025-07-01', end: '2025-09-30' },
+      compare: 'yoy',
+    };
+
+    const search = encodeUrlState(state);
+    expect(search).toBe('?m=forum-users&r=custom&from=2025-07-01&to=2025-09-30&cmp=yoy');
+
+    setSearch(search);
+    expect(parseUrlState().timeseries).toMatchObject({
+      range: 'custom',
+      customRange: { start: '2025-07-01', end: '2025-09-30' },
+      compare: 'yoy',
+    });
+  });
+
+  it('falls back to the default preset when custom dates are missing or invalid', () => {
+    setSearch('?r=custom&from=2025-07-01&to=soon');
+    const { timeseries } = parseUrlState();
+
+    expect(timeseries.range).toBe('1y');
+    expect(timeseries.customRange).toBeUndefined();
+  });
+
+  it('ignores unknown comparison modes', () => {
+    setSearch('?cmp=decade');
+    expect(parseUrlState().timeseries.compare).toBe('none');
+  });
+});
+
+describe('formulas in the URL', () => {
+  it('round-trips formulas as repeated parameters', () => {
+    const state = getDefaultStateForMode('timeseries');
+    state.timeseries = {
+      ...state.timeseries,
+      formulas: ['github.stars / community.users', 'rolling_avg(reddit.subscribers, 7)'],
+    };
+
+    const search = encodeUrlState(state);
+    expect(search).toBe('?f=github.stars+%2F+community.users&f=rolling_avg%28reddit.subscribers%2C+7%29');
+
+    setSearch(search);
+    expect(parseUrlState().timeseries.formulas).toEqual(state.timeseries.formulas);
+  });
+
+  it('drops empty and overlong formulas and keeps at most three', () => {
+    setSearch(`?f=a&f=&f=${'x'.repeat(201)}&f=b&f=c&f=d`);
+    expect(parseUrlState().timeseries.formulas).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('smoothing in the URL', () => {
+  it('round-trips non-default smoothing options', () => {
+    const state = getDefaultStateForMode('timeseries');
+    state.timeseries = { ...state.timeseries, smoothing: { method: 'loess', window: 14, band: 'stddev' } };
+
+    const search = encodeUrlState(state);
+    expect(search).toBe('?sm=loess&sw=14&sb=stddev');
+
+    setSearch(search);
+    expect(parseUrlState().timeseries.smoothing).toEqual(state.timeseries.smoothing);
+  });
+
+  it('falls back to no smoothing for unknown values', () => {
+    setSearch('?sm=constructor&sw=5&sb=wide');
+    expect(parseUrlState().timeseries.smoothing).toEqual({ method: 'none', window: 7, band: 'none' });
+  });
+});
+
+describe('lead/lag metrics in the URL', () => {
+  it('round-trips the metric pair and omits defaults', () => {
+    const state = getDefaultStateForMode('lag');
+    expect(encodeUrlState(state)).toBe('?mode=lag');
+
+    state.lag = { a: 'bluesky-posts', b: 'forum-users' };
+    const search = encodeUrlState(state);
+    expect(search).toBe('?mode=lag&la=bluesky-posts&lb=forum-users');
+
+    setSearch(search);
+    expect(parseUrlState()).toMatchObject({ mode: 'lag', lag: state.lag });
+  });
+});
+
+describe('network state in the URL', () => {
+  it('round-trips source, weight, limit and labels and omits defaults', () => {
+    const state = getDefaultStateForMode('network');
+    expect(encodeUrlState(state)).toBe('?mode=network');
+
+    state.network = { source: 'node-pairs-network', weight: 'lift', limit: 150, showLabels: false };
+    const search = encodeUrlState(state);
+    expect(search).toBe('?mode=network&ns=node-pairs-network&nw=lift&nlimit=150&nlabels=false');
+
+    setSearch(search);
+    expect(parseUrlState()).toMatchObject({ mode: 'network', network: state.network });
+  });
+
+  it('defaults to a source whose data is committed', () => {
+    const { source, weight } = getDefaultStateForMode('network').network;
+    const registered = getCategoricalSourceById(source)!;
+    expect(registered.dataType).toBe('network');
+    expect(registered.networkFields!.map(f => f.id)).toContain(weight);
+    expect(existsSync(join(process.cwd(), 'public', registered.file))).toBe(true);
+  });
+
+  it('falls back to the default limit for unlisted values', () => {
+    setSearch('?mode=network&nlimit=5000');
+    expect(parseUrlState().network.limit).toBe(getDefaultStateForMode('network').network.limit);
+  });
+});
+
+describe('parseCustomRange', () => {
+  it('orders swapped dates and rejects partial or impossible dates', () => {
+    expect(parseCustomRange('2025-09-30', '2025-07-01')).toEqual({ start: '2025-07-01', end: '2025-09-30' });
+    expect(parseCustomRange('2025-07', '2025-09-30')).toBeNull();
+    expect(parseCustomRange('2025-02-30', '2025-03-01')).toBeNull();
+    expect(parseCustomRange(null, '2025-09-30')).toBeNull();
+  });
+});
+
+describe('getDateRangeFilter', () => {
+  const now = new Date(2026, 2, 15);
+
+  it('returns preset ranges as months', () => {
+    expect(getDateRangeFilter('3m', now)).toEqual({ start: '2025-12', end: '2026-03' });
+    expect(getDateRangeFilter('all', now)).toBeNull();
+  });
+
+  it('returns custom ranges as given', () => {
+    const customRange = { start: '2025-07-01', end: '2025-09-30' };
+    expect(getDateRangeFilter('custom', now, customRange)).toEqual(customRange);
+    expect(getDateRangeFilter('custom', now)).toBeNull();
+  });
+});
+
+describe('getComparisonShift', () => {
+  it('shifts by the preset length for the previous period', () => {
+    expect(getComparisonShift({ range: '3m', compare: 'previous' })).toEqual({ months: 3, days: 0 });
+    expect(getComparisonShift({ range: 'all', compare: 'previous' })).toBeNull();
+  });
+
+  it('shifts by the number of days in a custom range', () => {
+    expect(getComparisonShift({
+      range: 'custom',
+      customRange: { start: '2025-07-01', end: '2025-09-30' },
+      compare: 'previous',
+    })).toEqual({ months: 0, days: 92 });
+  });
+
+  it('shifts by a year for year-over-year, whatever the range', () => {
+    expect(getComparisonShift({ range: 'all', compare: 'yoy' })).toEqual({ months: 12, days: 0 });
+    expect(getComparisonShift({ range: '1y', compare: 'none' })).toBeNull();
+  });
+});
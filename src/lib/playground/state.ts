@@ -5,16 +5,43 @@
  * Supports both time-series (Phase 1) and categorical (Phase 2) modes.
  */
 
-export type PlaygroundMode = 'timeseries' | 'distribution' | 'ranking' | 'correlation';
+import {
+  DEFAULT_SMOOTHING,
+  SMOOTHING_BANDS,
+  SMOOTHING_METHODS,
+  SMOOTHING_WINDOWS,
+  type SmoothingOptions,
+} from '../utils/chartSmoothing';
+
+export type PlaygroundMode = 'timeseries' | 'distribution' | 'ranking' | 'correlation' | 'network' | 'lag';
+
+export const PLAYGROUND_MODES: PlaygroundMode[] = ['timeseries', 'distribution', 'ranking', 'correlation', 'network', 'lag'];
+
+export type RangePreset = '1m' | '3m' | '6m' | '1y' | '2y' | 'all';
+
+/** Overlay each series' earlier values: the period just before the range, or the same period a year earlier */
+export type ComparisonMode = 'none' | 'previous' | 'yoy';
+
+/** How far back a comparison period lies */
+export interface DateShift {
+  months: number;
+  days: number;
+}
 
 // Time-series state (Phase 1)
 export interface TimeSeriesState {
   /** Selected metric IDs */
   metrics: string[];
   /** Date range preset or 'custom' */
-  range: '1m' | '3m' | '6m' | '1y' | '2y' | 'all';
-  /** Custom date range (only used when range is 'custom') */
+  range: RangePreset | 'custom';
+  /** Custom date range, YYYY-MM-DD (only used when range is 'custom') */
   customRange?: { start: string; end: string };
+  /** Comparison overlay */
+  compare: ComparisonMode;
+  /** Formula expressions plotted alongside the metrics (see formula.ts) */
+  formulas: string[];
+  /** Smoothed line and band drawn over every series */
+  smoothing: SmoothingOptions;
   /** Chart type */
   chartType: 'line' | 'area';
   /** Data mode: cumulative totals or period change */
@@ -59,12 +86,33 @@ export interface CorrelationState {
   showTrend: boolean;
 }
 
+// Network state (Phase 2)
+export interface NetworkState {
+  /** Source ID */
+  source: string;
+  /** Edge weight field */
+  weight: string;
+  /** Maximum number of nodes to draw (strongest first) */
+  limit: number;
+  /** Show node labels on the graph */
+  showLabels: boolean;
+}
+
+// Lead/lag state: two time-series metrics (see lag.ts)
+export interface LagState {
+  /** Metric shifted against B; positive lags mean A moves first */
+  a: string;
+  b: string;
+}
+
 export interface PlaygroundState {
   mode: PlaygroundMode;
   timeseries: TimeSeriesState;
   distribution: DistributionState;
   ranking: RankingState;
   correlation: CorrelationState;
+  network: NetworkState;
+  lag: LagState;
 }
 
 // Legacy type for backward compatibility
@@ -73,6 +121,9 @@ export type LegacyPlaygroundState = TimeSeriesState;
 const DEFAULT_TIMESERIES_STATE: TimeSeriesState = {
   metrics: [],
   range: '1y',
+  compare: 'none',
+  formulas: [],
+  smoothing: DEFAULT_SMOOTHING,
   chartType: 'line',
   dataMode: 'cumulative',
 };
@@ -97,12 +148,35 @@ const DEFAULT_CORRELATION_STATE: CorrelationState = {
   showTrend: true,
 };
 
+// Co-host data is always committed; the node pair and creator files are
+// only there once the weekly templates fetch has run
+const DEFAULT_NETWORK_STATE: NetworkState = {
+  source: 'event-hosts-network',
+  weight: 'count',
+  limit: 60,
+  showLabels: true,
+};
+
+const DEFAULT_LAG_STATE: LagState = {
+  a: 'forum-users',
+  b: 'github-stars',
+};
+
+/** Most formulas a chart can hold, and the longest formula kept from a URL */
+export const MAX_FORMULAS = 3;
+export const MAX_FORMULA_LENGTH = 200;
+
+/** Node limits offered in network mode */
+export const NETWORK_LIMITS = [30, 60, 100, 150];
+
 const DEFAULT_STATE: PlaygroundState = {
   mode: 'timeseries',
   timeseries: DEFAULT_TIMESERIES_STATE,
   distribution: DEFAULT_DISTRIBUTION_STATE,
   ranking: DEFAULT_RANKING_STATE,
   correlation: DEFAULT_CORRELATION_STATE,
+  network: DEFAULT_NETWORK_STATE,
+  lag: DEFAULT_LAG_STATE,
 };
 
 /**
@@ -115,7 +189,7 @@ export function parseUrlState(): PlaygroundState {
 
   // Determine mode from URL
   const modeParam = params.get('mode') as PlaygroundMode | null;
-  const mode: PlaygroundMode = modeParam && ['timeseries', 'distribution', 'ranking', 'correlation'].includes(modeParam)
+  const mode: PlaygroundMode = modeParam && PLAYGROUND_MODES.includes(modeParam)
     ? modeParam
     : 'timeseries';
 
@@ -125,14 +199,35 @@ export function parseUrlState(): PlaygroundState {
   const range = params.get('r') as TimeSeriesState['range'] || DEFAULT_TIMESERIES_STATE.range;
   const chartType = params.get('t') as TimeSeriesState['chartType'] || DEFAULT_TIMESERIES_STATE.chartType;
   const dataMode = params.get('d') as TimeSeriesState['dataMode'] || DEFAULT_TIMESERIES_STATE.dataMode;
+  const compare = params.get('cmp') as ComparisonMode || DEFAULT_TIMESERIES_STATE.compare;
+  const customRange = parseCustomRange(params.get('from'), params.get('to'));
+  const formulas = params.getAll('f')
+    .map(f => f.trim())
+    .filter(f => f && f.length <= MAX_FORMULA_LENGTH);
+  const smoothingMethod = params.get('sm') as SmoothingOptions['method'];
+  const smoothingWindow = parseInt(params.get('sw') || '', 10);
+  const smoothingBand = params.get('sb') as SmoothingOptions['band'];
 
   const timeseries: TimeSeriesState = {
     metrics: metrics.slice(0, 4),
-    range: ['1m', '3m', '6m', '1y', '2y', 'all'].includes(range) ? range : DEFAULT_TIMESERIES_STATE.range,
+    range: [...RANGE_PRESETS, 'custom'].includes(range) ? range : DEFAULT_TIMESERIES_STATE.range,
+    ...(customRange && { customRange }),
+    compare: ['none', 'previous', 'yoy'].includes(compare) ? compare : DEFAULT_TIMESERIES_STATE.compare,
+    formulas: formulas.slice(0, MAX_FORMULAS),
+    smoothing: {
+      method: Object.keys(SMOOTHING_METHODS).includes(smoothingMethod) ? smoothingMethod : DEFAULT_SMOOTHING.method,
+      window: SMOOTHING_WINDOWS.includes(smoothingWindow) ? smoothingWindow : DEFAULT_SMOOTHING.window,
+      band: Object.keys(SMOOTHING_BANDS).includes(smoothingBand) ? smoothingBand : DEFAULT_SMOOTHING.band,
+    },
     chartType: ['line', 'area'].includes(chartType) ? chartType : DEFAULT_TIMESERIES_STATE.chartType,
     dataMode: ['cumulative', 'change'].includes(dataMode) ? dataMode : DEFAULT_TIMESERIES_STATE.dataMode,
   };
 
+  // A custom range without valid dates falls back to the default preset
+  if (timeseries.range === 'custom' && !timeseries.customRange) {
+    timeseries.range = DEFAULT_TIMESERIES_STATE.range;
+  }
+
   // Parse distribution state
   const distribution: DistributionState = {
     source: params.get('ds') || DEFAULT_DISTRIBUTION_STATE.source,
@@ -158,7 +253,22 @@ export function parseUrlState(): PlaygroundState {
     showTrend: params.get('ctrend') !== 'false',
   };
 
-  return { mode, timeseries, distribution, ranking, correlation };
+  // Parse network state
+  const networkLimit = parseInt(params.get('nlimit') || '', 10);
+  const network: NetworkState = {
+    source: params.get('ns') || DEFAULT_NETWORK_STATE.source,
+    weight: params.get('nw') || DEFAULT_NETWORK_STATE.weight,
+    limit: NETWORK_LIMITS.includes(networkLimit) ? networkLimit : DEFAULT_NETWORK_STATE.limit,
+    showLabels: params.get('nlabels') !== 'false',
+  };
+
+  // Parse lead/lag state
+  const lag: LagState = {
+    a: params.get('la') || DEFAULT_LAG_STATE.a,
+    b: params.get('lb') || DEFAULT_LAG_STATE.b,
+  };
+
+  return { mode, timeseries, distribution, ranking, correlation, network, lag };
 }
 
 /**
@@ -189,6 +299,25 @@ export function encodeUrlState(state: PlaygroundState): string {
       if (state.timeseries.range !== DEFAULT_TIMESERIES_STATE.range) {
         params.set('r', state.timeseries.range);
       }
+      if (state.timeseries.range === 'custom' && state.timeseries.customRange) {
+        params.set('from', state.timeseries.customRange.start);
+        params.set('to', state.timeseries.customRange.end);
+      }
+      if (state.timeseries.compare !== DEFAULT_TIMESERIES_STATE.compare) {
+        params.set('cmp', state.timeseries.compare);
+      }
+      for (const formula of state.timeseries.formulas) {
+        params.append('f', formula);
+      }
+      if (state.timeseries.smoothing.method !== DEFAULT_SMOOTHING.method) {
+        params.set('sm', state.timeseries.smoothing.method);
+      }
+      if (state.timeseries.smoothing.window !== DEFAULT_SMOOTHING.window) {
+        params.set('sw', String(state.timeseries.smoothing.window));
+      }
+      if (state.timeseries.smoothing.band !== DEFAULT_SMOOTHING.band) {
+        params.set('sb', state.timeseries.smoothing.band);
+      }
       if (state.timeseries.chartType !== DEFAULT_TIMESERIES_STATE.chartType) {
         params.set('t', state.timeseries.chartType);
       }
@@ -244,6 +373,30 @@ export function encodeUrlState(state: PlaygroundState): string {
         params.set('ctrend', 'false');
       }
       break;
+
+    case 'network':
+      if (state.network.source !== DEFAULT_NETWORK_STATE.source) {
+        params.set('ns', state.network.source);
+      }
+      if (state.network.weight !== DEFAULT_NETWORK_STATE.weight) {
+        params.set('nw', state.network.weight);
+      }
+      if (state.network.limit !== DEFAULT_NETWORK_STATE.limit) {
+        params.set('nlimit', String(state.network.limit));
+      }
+      if (!state.network.showLabels) {
+        params.set('nlabels', 'false');
+      }
+      break;
+
+    case 'lag':
+      if (state.lag.a !== DEFAULT_LAG_STATE.a) {
+        params.set('la', state.lag.a);
+      }
+      if (state.lag.b !== DEFAULT_LAG_STATE.b) {
+        params.set('lb', state.lag.b);
+      }
+      break;
   }
 
   const queryString = params.toString();
@@ -260,6 +413,8 @@ export function encodeTimeSeriesState(state: TimeSeriesState): string {
     distribution: DEFAULT_DISTRIBUTION_STATE,
     ranking: DEFAULT_RANKING_STATE,
     correlation: DEFAULT_CORRELATION_STATE,
+    network: DEFAULT_NETWORK_STATE,
+    lag: DEFAULT_LAG_STATE,
   });
 }
 
@@ -294,24 +449,51 @@ export async function copyShareableUrl(state: PlaygroundState): Promise<boolean>
   }
 }
 
+const RANGE_PRESETS: RangePreset[] = ['1m', '3m', '6m', '1y', '2y', 'all'];
+
+const RANGE_MONTHS: Record<Exclude<RangePreset, 'all'>, number> = {
+  '1m': 1,
+  '3m': 3,
+  '6m': 6,
+  '1y': 12,
+  '2y': 24,
+};
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  // Rejects dates that would roll over, like 2025-02-30
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
 /**
- * Calculate date filter based on range preset
+ * Validate custom range URL parameters (YYYY-MM-DD). Swapped dates are
+ * put in order; anything unparseable gives null.
  */
-export function getDateRangeFilter(range: TimeSeriesState['range']): { start: string; end: string } | null {
+export function parseCustomRange(
+  from: string | null,
+  to: string | null
+): { start: string; end: string } | null {
+  if (!from || !to || !isIsoDate(from) || !isIsoDate(to)) return null;
+  return from <= to ? { start: from, end: to } : { start: to, end: from };
+}
+
+/**
+ * Calculate date filter based on range preset. Presets give months
+ * (YYYY-MM); custom ranges are returned as given (YYYY-MM-DD).
+ */
+export function getDateRangeFilter(
+  range: TimeSeriesState['range'],
+  now: Date = new Date(),
+  customRange?: { start: string; end: string }
+): { start: string; end: string } | null {
   if (range === 'all') return null;
+  if (range === 'custom') return customRange ?? null;
 
-  const now = new Date();
   const end = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 
-  let monthsBack: number;
-  switch (range) {
-    case '1m': monthsBack = 1; break;
-    case '3m': monthsBack = 3; break;
-    case '6m': monthsBack = 6; break;
-    case '1y': monthsBack = 12; break;
-    case '2y': monthsBack = 24; break;
-    default: return null;
-  }
+  const monthsBack = RANGE_MONTHS[range];
+  if (!monthsBack) return null;
 
   const startDate = new Date(now);
   startDate.setMonth(startDate.getMonth() - monthsBack);
@@ -320,6 +502,31 @@ export function getDateRangeFilter(range: TimeSeriesState['range']): { start: st
   return { start, end };
 }
 
+/**
+ * How far back the comparison period lies. 'previous' is the range's own
+ * length (whole months for presets, days for custom ranges); it needs a
+ * bounded range. 'yoy' is always twelve months.
+ */
+export function getComparisonShift(
+  state: Pick<TimeSeriesState, 'range' | 'customRange' | 'compare'>
+): DateShift | null {
+  switch (state.compare) {
+    case 'yoy':
+      return { months: 12, days: 0 };
+    case 'previous':
+      if (state.range === 'all') return null;
+      if (state.range === 'custom') {
+        if (!state.customRange) return null;
+        const start = Date.parse(`${state.customRange.start}T00:00:00Z`);
+        const end = Date.parse(`${state.customRange.end}T00:00:00Z`);
+        return { months: 0, days: Math.round((end - start) / 86_400_000) + 1 };
+      }
+      return { months: RANGE_MONTHS[state.range], days: 0 };
+    default:
+      return null;
+  }
+}
+
 /**
  * Get default state for a specific mode
  */
@@ -350,4 +557,12 @@ export const MODE_LABELS: Record<PlaygroundMode, { label: string; description: s
     label: 'Correlations',
     description: 'Find relationships',
   },
+  network: {
+    label: 'Networks',
+    description: 'See how things connect',
+  },
+  lag: {
+    label: 'Lead/Lag',
+    description: 'Find which metric moves first',
+  },
 };
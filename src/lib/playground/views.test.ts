@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getMetricById } from './registry';
+import { SAVED_VIEWS, findSavedView, getSavedView, savedViewQuery } from './views';
+
+describe('saved playground views', () => {
+  it('only use registered metrics', () => {
+    for (const view of SAVED_VIEWS) {
+      expect(view.series.length).toBeGreaterThan(0);
+      for (const metricId of view.series) {
+        expect(getMetricById(metricId), `${view.id}: ${metricId}`).toBeDefined();
+      }
+    }
+  });
+
+  it('build the playground query string', () => {
+    const view = getSavedView('stars-vs-forum')!;
+    const params = new URLSearchParams(savedViewQuery(view));
+    expect(params.get('s')).toBe('github-stars:c:l,forum-users:c:l');
+    expect(params.get('r')).toBe('2y');
+    expect(new URLSearchParams(savedViewQuery(getSavedView('community-channels')!)).has('r')).toBe(false);
+  });
+
+  it('are found from playground URLs, encoded or not', () => {
+    expect(findSavedView('?s=github-stars:c:l,forum-users:c:l&r=2y')?.id).toBe('stars-vs-forum');
+    expect(findSavedView('s=github-stars%3Ac%3Al%2Cforum-users%3Ac%3Al&r=2y')?.id).toBe('stars-vs-forum');
+    expect(findSavedView('?s=github-stars:c:l,forum-users:c:l')).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Saved Playground Views
+ *
+ * Curated playground charts with their own page under
+ * /playground/views/[viewId]. The page forwards to the playground with
+ * the view's state, but it has its own title, description and OG image,
+ * so a shared link previews the actual chart.
+ */
+
+import type { RangePreset } from './state';
+
+export interface SavedView {
+  id: string;
+  title: string;
+  description: string;
+  /** Metric IDs, charted as cumulative lines */
+  series: string[];
+  range: RangePreset;
+}
+
+export const SAVED_VIEWS: SavedView[] = [
+  {
+    id: 'stars-vs-forum',
+    title: 'GitHub Stars vs Forum Members',
+    description: 'Does GitHub popularity turn into community members? Two years of both',
+    series: ['github-stars', 'forum-users'],
+    range: '2y',
+  },
+  {
+    id: 'community-channels',
+    title: 'Community Channels',
+    description: 'Forum, Discord, Reddit and Bluesky audiences side by side',
+    series: ['forum-users', 'discord-members', 'reddit-subscribers', 'bluesky-followers'],
+    range: '1y',
+  },
+  {
+    id: 'automation-downloads',
+    title: 'Automation Tools on npm',
+    description: 'Weekly npm downloads of n8n, Node-RED, Pipedream and Activepieces',
+    series: ['npm-n8n', 'npm-nodered', 'npm-pipedream', 'npm-activepieces'],
+    range: '2y',
+  },
+  {
+    id: 'templates-and-creators',
+    title: 'Templates and Creators',
+    description: 'Growth of the workflow template library and the people building it',
+    series: ['templates-total', 'creators-total'],
+    range: '2y',
+  },
+];
+
+export function getSavedView(viewId: string): SavedView | undefined {
+  return SAVED_VIEWS.find(v => v.id === viewId);
+}
+
+/**
+ * Playground query string for a view, in the playground's own URL format
+ */
+export function savedViewQuery(view: SavedView): string {
+  const params = new URLSearchParams();
+  params.set('s', view.series.map(metricId => `${metricId}:c:l`).join(','));
+  if (view.range !== '1y') params.set('r', view.range);
+  return params.toString();
+}
+
+export function savedViewPath(view: SavedView): string {
+  return `/playground/views/${view.id}`;
+}
+
+/**
+ * The saved view a playground query string shows, if any
+ */
+export function findSavedView(query: string): SavedView | undefined {
+  const normalized = new URLSearchParams(query.replace(/^\?/, '')).toString();
+  return SAVED_VIEWS.find(v => new URLSearchParams(savedViewQuery(v)).toString() === normalized);
+}
@@ -0,0 +1,586 @@
+/**
+ * Data file schemas
+ *
+ * Runtime schemas for the JSON files in public/data. Objects allow extra
+ * fields so new metrics can be added without a schema change; only the
+ * fields pages and the playground actually read are required.
+ */
+
+import { z } from 'astro/zod';
+
+// Building blocks
+
+const count = z.number();
+const nullableCount = z.number().nullable();
+const countRecord = z.record(z.string(), z.number());
+const nameCount = z.object({ name: z.string(), count: z.number() }).passthrough();
+const coordinates = z.object({ lat: z.number(), lng: z.number() }).passthrough();
+
+/** Base history point: YYYY-MM-DD, YYYY-Www or YYYY-MM date plus source tags */
+const historyPoint = z.object({
+  date: z.string(),
+  source: z.string().optional(),
+  sourceDetail: z.string().optional(),
+}).passthrough();
+
+function point<T extends z.ZodRawShape>(shape: T) {
+  return historyPoint.extend(shape).passthrough();
+}
+
+function rawLog<T extends z.ZodTypeAny>(entry: T) {
+  return z.object({
+    schemaVersion: z.number().optional(),
+    entries: z.array(entry),
+  }).passthrough();
+}
+
+function historyFile<T extends z.ZodTypeAny>(entry: T) {
+  return z.object({
+    schemaVersion: z.number().optional(),
+    lastUpdated: z.string(),
+    daily: z.array(entry),
+    weekly: z.array(entry),
+    monthly: z.array(entry),
+  }).passthrough();
+}
+
+// Root-level history files
+
+const githubPoint = point({
+  stars: count,
+  forks: count,
+  watchers: count,
+  openIssues: count,
+  issuesOpened: count.optional(),
+  issuesClosed: count.optional(),
+});
+
+const communityPoint = point({
+  users: nullableCount,
+  topics: count,
+  posts: count,
+  likes: count,
+});
+
+const templatesPointV1 = point({
+  total: count,
+  categories: countRecord,
+  topNodes: z.array(nameCount),
+  llmModels: z.array(nameCount).optional(),
+});
+
+const templatesPoint = templatesPointV1.extend({
+  llmModels: z.array(nameCount),
+}).passthrough();
+
+export const githubRawLogSchema = rawLog(githubPoint);
+export const githubHistorySchema = historyFile(githubPoint);
+export const communityRawLogSchema = rawLog(communityPoint);
+export const communityHistorySchema = historyFile(communityPoint);
+export const templatesRawLogSchemaV1 = rawLog(templatesPointV1);
+export const templatesHistorySchemaV1 = historyFile(templatesPointV1);
+export const templatesRawLogSchema = rawLog(templatesPoint);
+export const templatesHistorySchema = historyFile(templatesPoint);
+
+export const githubReleasesSchema = z.array(z.object({
+  tagName: z.string(),
+  name: z.string().nullable(),
+  publishedAt: z.string(),
+  htmlUrl: z.string(),
+  prerelease: z.boolean(),
+  body: z.string().nullable(),
+}).passthrough());
+
+export const nodesHistorySchema = z.object({
+  lastUpdated: z.string(),
+  entries: z.array(z.object({
+    date: z.string(),
+    totalTemplates: count,
+    nodes: countRecord,
+  }).passthrough()),
+  nodeStats: z.record(z.string(), z.object({
+    displayName: z.string(),
+    category: z.string(),
+    currentCount: count,
+    trend: z.string(),
+    change: count,
+    changePercent: count,
+    history: z.array(z.object({ date: z.string(), count }).passthrough()),
+  }).passthrough()),
+}).passthrough();
+
+export const quarantineSchema = z.object({
+  lastUpdated: z.string(),
+  entries: z.array(z.object({
+    id: z.string(),
+    metric: z.string(),
+    file: z.string(),
+    key: z.string(),
+    point: historyPoint,
+    anomalies: z.array(z.object({
+      field: z.string(),
+      value: z.number(),
+      previous: nullableCount,
+      reason: z.enum(['zero', 'drop', 'z-score']),
+      message: z.string(),
+    }).passthrough()),
+    quarantinedAt: z.string(),
+  }).passthrough()),
+}).passthrough();
+
+const geocodingSection = z.object({
+  checkedAt: z.string(),
+  checked: count,
+  unresolved: z.array(z.object({
+    city: z.string(),
+    country: z.string(),
+    count,
+    resolvedTo: z.enum(['country']).nullable(),
+  }).passthrough()),
+}).passthrough();
+
+export const geocodingReportSchema = z.object({
+  lastUpdated: z.string(),
+  sources: z.object({
+    events: geocodingSection.optional(),
+    ambassadors: geocodingSection.optional(),
+  }).passthrough(),
+}).passthrough();
+
+const calibrationStats = {
+  predicted: count,
+  unpredicted: count,
+  reached: count,
+  meanAbsErrorDays: nullableCount,
+  medianAbsErrorDays: nullableCount,
+  coverage: z.number().min(0).max(1).nullable(),
+};
+
+export const predictionCalibrationSchema = z.object({
+  generatedAt: z.string(),
+  level: z.number(),
+  metrics: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    points: count,
+    cutoffs: count,
+    dataEnd: z.string(),
+  }).passthrough()),
+  entries: z.array(z.object({
+    metric: z.string(),
+    model: z.enum(['auto', 'linear', 'log-linear', 'holt', 'holt-winters']),
+    ...calibrationStats,
+    byConfidence: z.record(z.enum(['high', 'medium', 'low']), z.object(calibrationStats).passthrough()),
+  }).passthrough()),
+}).passthrough();
+
+// Fetched datasets
+
+export const allNodesDataSchema = z.object({
+  lastUpdated: z.string(),
+  totalTemplates: count,
+  nodes: z.object({
+    total: count,
+    withData: count,
+    byCategory: z.record(z.string(), z.unknown()),
+    all: z.array(z.object({
+      type: z.string(),
+      displayName: z.string(),
+      category: z.string(),
+      count,
+      percentage: z.number(),
+    }).passthrough()),
+  }).passthrough(),
+}).passthrough();
+
+export const discoveredNodesSchema = z.object({
+  lastUpdated: z.string(),
+  baselineDate: z.string(),
+  nodes: z.array(z.object({
+    type: z.string(),
+    displayName: z.string(),
+    category: z.string(),
+    discoveredAt: z.string(),
+    categorySource: z.enum(['sibling', 'codex', 'model', 'fallback']),
+  }).passthrough()),
+}).passthrough();
+
+export const nodePairsSchema = z.object({
+  lastUpdated: z.string(),
+  totalTemplates: count,
+  minSupport: count,
+  nodeCounts: countRecord,
+  pairs: z.array(z.object({
+    a: z.string(),
+    b: z.string(),
+    count,
+    lift: z.number(),
+    pmi: z.number(),
+    npmi: z.number().min(-1).max(1),
+  }).passthrough()),
+}).passthrough();
+
+export const allTemplatesDataSchema = z.object({
+  lastUpdated: z.string(),
+  totalTemplates: count,
+  complexity: z.object({
+    distribution: z.array(z.object({ nodeCount: count, label: z.string(), count }).passthrough()),
+    average: z.number(),
+    median: z.number(),
+    max: z.number(),
+  }).passthrough(),
+  timeline: z.object({
+    monthly: z.array(z.object({ month: z.string(), count, cumulative: count }).passthrough()),
+    firstTemplate: z.string(),
+    latestTemplate: z.string(),
+  }).passthrough(),
+  nodes: z.object({
+    total: count,
+    unique: count,
+    top100: z.array(z.object({
+      name: z.string(),
+      displayName: z.string(),
+      count,
+      percentage: z.number(),
+      categories: z.array(z.string()),
+    }).passthrough()),
+  }).passthrough(),
+  creators: z.object({
+    total: count,
+    verified: count,
+    top50: z.array(z.object({
+      username: z.string(),
+      name: z.string(),
+      verified: z.boolean(),
+      templateCount: count,
+      totalViews: count,
+    }).passthrough()),
+  }).passthrough(),
+}).passthrough();
+
+export const communityNodesSchema = z.object({
+  lastUpdated: z.string(),
+  totalPackages: count,
+  totalDownloadsWeekly: count,
+  totalDownloadsMonthly: count,
+  byCategory: countRecord,
+  packages: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    version: z.string(),
+    author: z.string(),
+    downloadsWeekly: count,
+    downloadsMonthly: count,
+    lastUpdated: z.string(),
+    category: z.string(),
+    categoryConfidence: z.number().min(0).max(1).optional(),
+    keywords: z.array(z.string()),
+    health: z.object({
+      score: count,
+      status: z.enum(['active', 'stale', 'abandoned', 'deprecated']),
+      lastPublished: z.string(),
+      releasesLastYear: count,
+      nodeCount: count,
+      compatibility: z.enum(['compatible', 'incompatible', 'unspecified']),
+    }).passthrough().optional(),
+  }).passthrough()),
+  n8nWorkflowVersion: z.string().nullable().optional(),
+  healthSummary: countRecord.optional(),
+}).passthrough();
+
+export const snapshotSchema = z.object({
+  date: z.string(),
+  fetchedAt: z.string(),
+  github: z.object({ stars: count }).passthrough().nullable().optional(),
+  discourse: z.object({ users: count }).passthrough().nullable().optional(),
+  templates: z.object({ total: count }).passthrough().nullable().optional(),
+  creators: z.object({ total: count }).passthrough().nullable().optional(),
+}).passthrough();
+
+// External data (n8n Arena, Luma)
+
+const creator = z.object({
+  username: z.string(),
+  name: z.string(),
+  verified: z.boolean(),
+  templateCount: count,
+  totalViews: count,
+  totalInserters: count,
+}).passthrough();
+
+export const arenaCreatorsSchema = z.array(creator);
+
+export const arenaWeightedNodesSchema = z.object({
+  lastUpdated: z.string(),
+  totalWorkflows: count,
+  nodes: z.array(z.object({
+    type: z.string(),
+    weightedScore: z.number(),
+    templateCount: count,
+  }).passthrough()),
+}).passthrough();
+
+export const arenaMetaSchema = z.object({
+  fetchedAt: z.string(),
+  source: z.string(),
+  recordCount: count,
+}).passthrough();
+
+export const arenaCreatorTemplatesSchema = z.object({
+  lastUpdated: z.string(),
+  creators: z.record(z.string(), z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    createdAt: z.string(),
+    views: count,
+    inserters: count,
+    nodes: z.array(z.string()),
+  }).passthrough())),
+}).passthrough();
+
+export const lumaMappingSchema = z.object({
+  mappings: z.record(z.string(), z.string()),
+}).passthrough();
+
+export const communityCategoryOverridesSchema = z.object({
+  overrides: z.record(z.string(), z.string()),
+}).passthrough();
+
+// Seed and backfill files
+
+export const seedPointsSchema = z.array(point({ value: count }));
+
+export const githubWaybackSchema = z.object({
+  lastUpdated: z.string(),
+  data: z.array(point({
+    stars: count,
+    forks: nullableCount,
+    watchers: nullableCount,
+    openIssues: nullableCount,
+  })),
+}).passthrough();
+
+// history/ directory
+
+const valuePoint = point({ value: count });
+
+export const valueHistorySchema = z.object({
+  lastUpdated: z.string(),
+  daily: z.array(valuePoint),
+  weekly: z.array(valuePoint),
+  monthly: z.array(valuePoint),
+}).passthrough();
+
+const discordPoint = point({ members: count, online: nullableCount });
+
+export const discordRawLogSchema = rawLog(discordPoint);
+export const discordHistorySchema = historyFile(discordPoint);
+
+const blueskyPoint = point({
+  posts: count,
+  uniqueAuthors: count,
+  totalLikes: count,
+  totalReposts: count,
+});
+
+export const blueskyHistorySchema = z.object({
+  lastUpdated: z.string(),
+  daily: z.array(blueskyPoint),
+  weekly: z.array(blueskyPoint),
+  monthly: z.array(blueskyPoint),
+}).passthrough();
+
+const blueskyPost = z.object({
+  uri: z.string(),
+  cid: z.string(),
+  author: z.object({ did: z.string(), handle: z.string() }).passthrough(),
+  text: z.string(),
+  createdAt: z.string(),
+  likeCount: count,
+  repostCount: count,
+  replyCount: count,
+  quoteCount: count,
+}).passthrough();
+
+export const blueskyPostsSchema = z.object({
+  posts: z.array(blueskyPost),
+  dailyStats: z.array(point({
+    posts: count,
+    uniqueAuthors: count,
+    totalLikes: count,
+    totalReposts: count,
+    totalReplies: count,
+  })),
+  meta: z.object({
+    firstFetch: z.string(),
+    lastFetch: z.string(),
+    totalPosts: count,
+  }).passthrough(),
+}).passthrough();
+
+export const blueskyBackfillProgressSchema = z.object({
+  lastCompletedDate: z.string(),
+  postsCollected: count,
+  startedAt: z.string(),
+}).passthrough();
+
+export const blueskyProfileSchema = z.object({
+  lastUpdated: z.string(),
+  handle: z.string(),
+  daily: z.array(point({ followers: count, following: count, posts: count })),
+}).passthrough();
+
+export const redditHistorySchema = z.object({
+  lastUpdated: z.string(),
+  subreddit: z.string(),
+  daily: z.array(point({
+    subscribers: count,
+    activeUsers: nullableCount,
+    postsLast24h: count,
+    commentsLast24h: count,
+  })),
+}).passthrough();
+
+const creatorsStatsPoint = point({
+  total: count,
+  verified: count,
+  totalViews: count,
+  totalInserters: count,
+});
+
+export const creatorsStatsSchema = z.object({
+  lastUpdated: z.string(),
+  daily: z.array(creatorsStatsPoint),
+  weekly: z.array(creatorsStatsPoint),
+}).passthrough();
+
+export const creatorsSchema = z.object({
+  lastUpdated: z.string(),
+  totalCreators: count,
+  creators: z.array(creator),
+}).passthrough();
+
+export const creatorsTimelineSchema = z.object({
+  lastUpdated: z.string(),
+  weekly: z.array(z.object({
+    date: z.string(),
+    creators: z.array(z.object({
+      username: z.string(),
+      rank: count,
+      totalViews: count,
+      totalInserters: count,
+      templateCount: count,
+    }).passthrough()),
+  }).passthrough()),
+}).passthrough();
+
+export const templateSnapshotsSchema = z.object({
+  lastUpdated: z.string(),
+  dates: z.array(z.string()),
+  nodeTypes: z.array(z.string()),
+  templates: z.record(z.string(), z.object({
+    name: z.string(),
+    createdAt: z.string(),
+    creator: z.string(),
+    category: z.string(),
+    nodes: z.array(z.number().int().nonnegative()),
+    views: z.array(z.tuple([z.number().int().nonnegative(), count])),
+    lastSeen: z.number().int().nonnegative(),
+  }).passthrough()),
+}).passthrough();
+
+export const communityPackagesHistorySchema = z.object({
+  lastUpdated: z.string(),
+  weeks: z.array(z.string()),
+  packages: z.record(z.string(), z.object({
+    downloadsFrom: z.number().int().nonnegative(),
+    downloads: z.array(count.nullable()),
+    versions: z.array(z.tuple([z.string(), z.string()])),
+    lastSeen: z.number().int().nonnegative(),
+  }).passthrough()),
+}).passthrough();
+
+export const communityNodesHistorySchema = z.object({
+  lastUpdated: z.string(),
+  weekly: z.array(point({
+    totalPackages: count,
+    totalDownloadsWeekly: count,
+    byCategory: countRecord,
+  })),
+}).passthrough();
+
+export const templatesDailySchema = z.object({
+  lastUpdated: z.string(),
+  daily: z.array(point({ total: count, categories: countRecord })),
+}).passthrough();
+
+const eventLocation = z.object({
+  city: z.string().nullable().optional(),
+  country: z.string().nullable().optional(),
+  coordinates: coordinates.nullable().optional(),
+}).passthrough();
+
+const lumaEvent = z.object({
+  id: z.string(),
+  name: z.string(),
+  startDate: z.string(),
+  url: z.string(),
+  location: eventLocation.nullable(),
+  isOnline: z.boolean(),
+  registrations: count,
+}).passthrough();
+
+export const eventsSchema = z.object({
+  lastUpdated: z.string(),
+  upcoming: z.array(lumaEvent),
+  past: z.array(lumaEvent),
+  byMonth: z.array(z.object({ month: z.string(), count, registrations: count }).passthrough()),
+  byCountry: z.array(z.object({ country: z.string(), count }).passthrough()),
+  stats: z.object({ totalEvents: count, totalRegistrations: count }).passthrough(),
+  locations: z.array(z.object({ lat: z.number(), lng: z.number() }).passthrough()),
+  hosts: z.array(z.object({ name: z.string(), eventCount: count }).passthrough()),
+}).passthrough();
+
+export const eventsHistorySchema = z.object({
+  monthly: z.array(point({ events: count, registrations: count })),
+}).passthrough();
+
+export const ambassadorsSchema = z.object({
+  lastUpdated: z.string(),
+  current: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    country: z.string().nullable().optional(),
+    coordinates: coordinates.nullable().optional(),
+  }).passthrough()),
+  departed: z.array(z.unknown()),
+  stats: z.object({ total: count, countries: count }).passthrough(),
+  monthly: z.array(point({ total: count, joined: count, departed: count })),
+}).passthrough();
+
+const landscapeSeries = z.object({
+  description: z.string(),
+  daily: z.array(historyPoint),
+}).passthrough();
+
+export const landscapeSchema = z.object({
+  lastUpdated: z.string(),
+  platforms: z.record(z.string(), z.object({
+    name: z.string(),
+    type: z.string(),
+  }).passthrough()),
+  github: landscapeSeries,
+  npm: landscapeSeries,
+  docker: landscapeSeries,
+}).passthrough();
+
+export const npmDownloadsSchema = z.object({
+  lastUpdated: z.string(),
+  weekly: z.array(z.object({ weekStart: z.string(), downloads: count }).passthrough()),
+}).passthrough();
+
+export const npmLandscapeSchema = z.object({
+  lastUpdated: z.string(),
+  packages: z.record(z.string(), z.string()),
+  weekly: z.array(z.object({ weekStart: z.string(), source: z.string().optional() }).catchall(z.number().nullable())),
+}).passthrough();
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDataFile,
+  currentSchemaVersion,
+  getSchemaVersion,
+  migrateData,
+  validateData,
+} from './registry';
+
+const templatesEntry = (date: string, withModels: boolean) => ({
+  date,
+  total: 100,
+  categories: { AI: 10 },
+  topNodes: [{ name: 'HTTP Request', count: 50 }],
+  ...(withModels && { llmModels: [{ name: 'OpenAI Chat Model', count: 5 }] }),
+});
+
+describe('findDataFile', () => {
+  it('matches exact paths', () => {
+    expect(findDataFile('github-history.json')?.pattern).toBe('github-history.json');
+    expect(findDataFile('history/discord.json')?.pattern).toBe('history/discord.json');
+  });
+
+  it('matches wildcards within a single path segment', () => {
+    expect(findDataFile('snapshots/2026-01-08.json')?.pattern).toBe('snapshots/*.json');
+    expect(findDataFile('snapshots/nested/2026-01-08.json')).toBeUndefined();
+  });
+
+  it('returns undefined for unregistered files', () => {
+    expect(findDataFile('unknown.json')).toBeUndefined();
+    expect(currentSchemaVersion('unknown.json')).toBe(1);
+  });
+});
+
+describe('getSchemaVersion', () => {
+  it('treats files without a version as version 1', () => {
+    expect(getSchemaVersion({ entries: [] })).toBe(1);
+    expect(getSchemaVersion([])).toBe(1);
+  });
+
+  it('reads schemaVersion', () => {
+    expect(getSchemaVersion({ schemaVersion: 2 })).toBe(2);
+  });
+});
+
+describe('migrateData', () => {
+  const def = findDataFile('templates-raw-log.json')!;
+
+  it('adds llmModels to templates entries recorded before v2', () => {
+    const v1 = { entries: [templatesEntry('2026-01-08', false), templatesEntry('2026-01-09', true)] };
+    const result = migrateData(def, v1);
+
+    expect(result.from).toBe(1);
+    expect(result.to).toBe(2);
+    expect(result.applied).toHaveLength(1);
+
+    const data = result.data as { schemaVersion: number; entries: Array<{ llmModels: unknown[] }> };
+    expect(Object.keys(data)[0]).toBe('schemaVersion');
+    expect(data.entries[0].llmModels).toEqual([]);
+    expect(data.entries[1].llmModels).toHaveLength(1);
+    expect(validateData(def, data)).toEqual([]);
+  });
+
+  it('leaves current files untouched', () => {
+    const v2 = { schemaVersion: 2, entries: [templatesEntry('2026-01-09', true)] };
+    const result = migrateData(def, v2);
+
+    expect(result.applied).toEqual([]);
+    expect(result.data).toBe(v2);
+  });
+
+  it('rejects files newer than the registry', () => {
+    expect(() => migrateData(def, { schemaVersion: 3, entries: [] })).toThrow(/newer/);
+  });
+});
+
+describe('validateData', () => {
+  it('rejects v1 templates entries without llmModels', () => {
+    const def = findDataFile('templates-history.json')!;
+    const issues = validateData(def, {
+      schemaVersion: 2,
+      lastUpdated: '2026-01-09T00:00:00.000Z',
+      daily: [templatesEntry('2026-01-08', false)],
+      weekly: [],
+      monthly: [],
+    });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].path).toBe('daily.0.llmModels');
+  });
+
+  it('reports the path of wrongly typed fields', () => {
+    const def = findDataFile('history/discord.json')!;
+    const issues = validateData(def, {
+      lastUpdated: '2026-01-09T00:00:00.000Z',
+      daily: [{ date: '2026-01-09', members: '69503', online: null }],
+      weekly: [],
+      monthly: [],
+    });
+
+    expect(issues.map(i => i.path)).toEqual(['daily.0.members']);
+  });
+
+  it('allows extra fields', () => {
+    const def = findDataFile('history/discord.json')!;
+    const issues = validateData(def, {
+      lastUpdated: '2026-01-09T00:00:00.000Z',
+      daily: [{ date: '2026-01-09', members: 69503, online: 9000, boosts: 12 }],
+      weekly: [],
+      monthly: [],
+      description: 'n8n Discord server',
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it('covers the Bluesky posts and backfill progress files', () => {
+    const post = {
+      uri: 'at://did:plc:abc/app.bsky.feed.post/1',
+      cid: 'bafy1',
+      author: { did: 'did:plc:abc', handle: 'someone.bsky.social' },
+      text: 'Built a workflow with n8n',
+      createdAt: '2026-01-08T10:00:00.000Z',
+      indexedAt: '2026-01-08T10:00:01.000Z',
+      likeCount: 3,
+      repostCount: 1,
+      replyCount: 0,
+      quoteCount: 0,
+      searchType: 'keyword',
+      fetchedAt: '2026-01-09T00:00:00.000Z',
+    };
+    const posts = {
+      posts: [post],
+      dailyStats: [{ date: '2026-01-08', posts: 1, uniqueAuthors: 1, totalLikes: 3, totalReposts: 1, totalReplies: 0 }],
+      meta: {
+        firstFetch: '2026-01-09T00:00:00.000Z',
+        lastFetch: '2026-01-09T00:00:00.000Z',
+        totalPosts: 1,
+        uniqueAuthors: 1,
+        dateRange: { from: '2026-01-08', to: '2026-01-08' },
+      },
+    };
+    const progress = { lastCompletedDate: '2026-01-08', postsCollected: 1, startedAt: '2026-01-09T00:00:00.000Z' };
+
+    expect(validateData(findDataFile('history/bluesky-posts.json')!, posts)).toEqual([]);
+    expect(validateData(findDataFile('history/bluesky-backfill-progress.json')!, progress)).toEqual([]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Data file registry
+ *
+ * Maps every JSON file in public/data to its schema, current format
+ * version and the migrations that upgrade older versions. Files record
+ * their version in a top-level `schemaVersion` field; files without one
+ * (including array files, which cannot carry it) are version 1.
+ */
+
+import type { z } from 'astro/zod';
+import * as schemas from './data';
+
+export interface DataMigration {
+  /** Version this migration upgrades to */
+  to: number;
+  description: string;
+  migrate: (data: any) => any;
+}
+
+export interface DataFileDefinition {
+  /** Path relative to public/data; `*` matches within one path segment */
+  pattern: string;
+  description: string;
+  /** Current format version */
+  version: number;
+  schema: z.ZodTypeAny;
+  /** Upgrades from older versions, in ascending order of `to` */
+  migrations?: DataMigration[];
+}
+
+export interface DataIssue {
+  /** Dotted path into the file, e.g. 'daily.3.stars' */
+  path: string;
+  message: string;
+}
+
+export interface MigrationResult {
+  data: unknown;
+  from: number;
+  to: number;
+  applied: string[];
+}
+
+// Migrations
+
+/** Map every entry of the raw log and history arrays present in a file */
+function mapHistoryEntries(data: any, map: (entry: any) => any): any {
+  const migrated = { ...data };
+  for (const key of ['entries', 'daily', 'weekly', 'monthly']) {
+    if (Array.isArray(migrated[key])) {
+      migrated[key] = migrated[key].map(map);
+    }
+  }
+  return migrated;
+}
+
+const TEMPLATES_MIGRATIONS: DataMigration[] = [
+  {
+    to: 2,
+    description: 'Add llmModels to entries recorded before LLM model tracking',
+    migrate: (data) => mapHistoryEntries(data, (entry) => ({
+      ...entry,
+      llmModels: entry.llmModels ?? [],
+    })),
+  },
+];
+
+// Registry
+
+export const DATA_FILES: DataFileDefinition[] = [
+  // Root-level history files
+  { pattern: 'github-raw-log.json', description: 'GitHub daily raw log', version: 1, schema: schemas.githubRawLogSchema },
+  { pattern: 'github-history.json', description: 'GitHub aggregated history', version: 1, schema: schemas.githubHistorySchema },
+  { pattern: 'github-releases.json', description: 'n8n GitHub releases', version: 1, schema: schemas.githubReleasesSchema },
+  { pattern: 'community-raw-log.json', description: 'Forum daily raw log', version: 1, schema: schemas.communityRawLogSchema },
+  { pattern: 'community-history.json', description: 'Forum aggregated history', version: 1, schema: schemas.communityHistorySchema },
+  {
+    pattern: 'templates-raw-log.json',
+    description: 'Templates daily raw log',
+    version: 2,
+    schema: schemas.templatesRawLogSchema,
+    migrations: TEMPLATES_MIGRATIONS,
+  },
+  {
+    pattern: 'templates-history.json',
+    description: 'Templates aggregated history',
+    version: 2,
+    schema: schemas.templatesHistorySchema,
+    migrations: TEMPLATES_MIGRATIONS,
+  },
+  { pattern: 'nodes-history.json', description: 'Node usage history', version: 1, schema: schemas.nodesHistorySchema },
+  { pattern: 'quarantine.json', description: 'History points held back by anomaly checks', version: 1, schema: schemas.quarantineSchema },
+  { pattern: 'geocoding-report.json', description: 'Event and ambassador locations missing from the gazetteer', version: 1, schema: schemas.geocodingReportSchema },
+  { pattern: 'prediction-calibration.json', description: 'Milestone prediction backtest report', version: 1, schema: schemas.predictionCalibrationSchema },
+
+  // Fetched datasets
+  { pattern: 'all-nodes-data.json', description: 'Node usage across all templates', version: 1, schema: schemas.allNodesDataSchema },
+  { pattern: 'discovered-nodes.json', description: 'Built-in nodes found in templates but missing from KNOWN_NODES', version: 1, schema: schemas.discoveredNodesSchema },
+  { pattern: 'all-templates-data.json', description: 'Template corpus statistics', version: 1, schema: schemas.allTemplatesDataSchema },
+  { pattern: 'node-pairs.json', description: 'Node co-occurrence pairs', version: 1, schema: schemas.nodePairsSchema },
+  { pattern: 'community-nodes.json', description: 'Community node packages from npm', version: 1, schema: schemas.communityNodesSchema },
+  { pattern: 'snapshots/*.json', description: 'Daily multi-source snapshot', version: 1, schema: schemas.snapshotSchema },
+
+  // External data
+  { pattern: 'external/n8narena-creators.json', description: 'n8n Arena creators', version: 1, schema: schemas.arenaCreatorsSchema },
+  { pattern: 'external/n8narena-weighted-nodes.json', description: 'n8n Arena weighted nodes', version: 1, schema: schemas.arenaWeightedNodesSchema },
+  { pattern: 'external/n8narena-creator-templates.json', description: 'n8n Arena templates per top creator', version: 1, schema: schemas.arenaCreatorTemplatesSchema },
+  { pattern: 'external/n8narena.meta.json', description: 'n8n Arena fetch metadata', version: 1, schema: schemas.arenaMetaSchema },
+  { pattern: 'external/luma-n8n-mapping.json', description: 'Luma to n8n username mapping', version: 1, schema: schemas.lumaMappingSchema },
+  { pattern: 'external/community-category-overrides.json', description: 'Pinned community node package categories', version: 1, schema: schemas.communityCategoryOverridesSchema },
+
+  // Seed and backfill files
+  { pattern: 'seed/community.json', description: 'Forum history seed', version: 1, schema: schemas.seedPointsSchema },
+  { pattern: 'seed/github-stars.json', description: 'GitHub stars seed', version: 1, schema: schemas.seedPointsSchema },
+  { pattern: 'seed/github-wayback.json', description: 'GitHub Wayback Machine backfill', version: 1, schema: schemas.githubWaybackSchema },
+
+  // history/ directory
+  { pattern: 'history/github.json', description: 'GitHub stars history', version: 1, schema: schemas.valueHistorySchema },
+  { pattern: 'history/community.json', description: 'Forum users history', version: 1, schema: schemas.valueHistorySchema },
+  { pattern: 'history/discord-raw-log.json', description: 'Discord daily raw log', version: 1, schema: schemas.discordRawLogSchema },
+  { pattern: 'history/discord.json', description: 'Discord aggregated history', version: 1, schema: schemas.discordHistorySchema },
+  { pattern: 'history/bluesky.json', description: 'Bluesky mentions history', version: 1, schema: schemas.blueskyHistorySchema },
+  { pattern: 'history/bluesky-profile.json', description: 'Bluesky profile history', version: 1, schema: schemas.blueskyProfileSchema },
+  { pattern: 'history/bluesky-posts.json', description: 'Bluesky posts and daily stats', version: 1, schema: schemas.blueskyPostsSchema },
+  { pattern: 'history/bluesky-backfill-progress.json', description: 'Bluesky backfill resume point', version: 1, schema: schemas.blueskyBackfillProgressSchema },
+  { pattern: 'history/reddit.json', description: 'Reddit history', version: 1, schema: schemas.redditHistorySchema },
+  { pattern: 'history/creators.json', description: 'Top creators', version: 1, schema: schemas.creatorsSchema },
+  { pattern: 'history/template-snapshots.json', description: 'Weekly per-template views and metadata', version: 1, schema: schemas.templateSnapshotsSchema },
+  { pattern: 'history/creators-timeline.json', description: 'Weekly top creators leaderboard', version: 1, schema: schemas.creatorsTimelineSchema },
+  { pattern: 'history/creators-stats.json', description: 'Creator totals history', version: 1, schema: schemas.creatorsStatsSchema },
+  { pattern: 'history/community-nodes.json', description: 'Community nodes weekly history', version: 1, schema: schemas.communityNodesHistorySchema },
+  { pattern: 'history/community-packages.json', description: 'Weekly per-package community node downloads and versions', version: 1, schema: schemas.communityPackagesHistorySchema },
+  { pattern: 'history/templates.json', description: 'Templates daily totals', version: 1, schema: schemas.templatesDailySchema },
+  { pattern: 'history/events.json', description: 'Luma events', version: 1, schema: schemas.eventsSchema },
+  { pattern: 'history/events-history.json', description: 'Events monthly history', version: 1, schema: schemas.eventsHistorySchema },
+  { pattern: 'history/ambassadors.json', description: 'Ambassadors', version: 1, schema: schemas.ambassadorsSchema },
+  { pattern: 'history/landscape.json', description: 'Automation landscape comparison', version: 1, schema: schemas.landscapeSchema },
+  { pattern: 'history/npm-downloads.json', description: 'n8n npm weekly downloads', version: 1, schema: schemas.npmDownloadsSchema },
+  { pattern: 'history/npm-landscape.json', description: 'Landscape npm weekly downloads', version: 1, schema: schemas.npmLandscapeSchema },
+];
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]+');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Find the registry entry for a path relative to public/data
+ */
+export function findDataFile(relativePath: string): DataFileDefinition | undefined {
+  const path = relativePath.replace(/\\/g, '/');
+  return DATA_FILES.find(def => patternToRegExp(def.pattern).test(path));
+}
+
+/**
+ * Current format version for a registered file (1 if unregistered)
+ */
+export function currentSchemaVersion(relativePath: string): number {
+  return findDataFile(relativePath)?.version ?? 1;
+}
+
+/**
+ * Format version recorded in a file's data
+ */
+export function getSchemaVersion(data: unknown): number {
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const version = (data as Record<string, unknown>).schemaVersion;
+    if (typeof version === 'number') return version;
+  }
+  return 1;
+}
+
+/**
+ * Run every migration between the file's version and the current one.
+ * Throws if the file is newer than the registry knows about.
+ */
+export function migrateData(def: DataFileDefinition, data: unknown): MigrationResult {
+  const from = getSchemaVersion(data);
+  if (from > def.version) {
+    throw new Error(`${def.pattern} is at version ${from}, newer than supported version ${def.version}`);
+  }
+
+  let migrated = data;
+  const applied: string[] = [];
+  for (const migration of def.migrations ?? []) {
+    if (migration.to <= from || migration.to > def.version) continue;
+    // Keep schemaVersion as the first key so it is visible at the top of the file
+    const { schemaVersion: _previous, ...next } = migration.migrate(migrated);
+    migrated = { schemaVersion: migration.to, ...next };
+    applied.push(`v${migration.to}: ${migration.description}`);
+  }
+
+  return { data: migrated, from, to: getSchemaVersion(migrated), applied };
+}
+
+/**
+ * Check data against the file's schema, returning one issue per problem
+ */
+export function validateData(def: DataFileDefinition, data: unknown): DataIssue[] {
+  const result = def.schema.safeParse(data);
+  if (result.success) return [];
+
+  return result.error.issues.map(issue => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  backtestMilestones,
+  calibrate,
+  calibrationStats,
+  extractSeries,
+  buildCalibrationReport,
+  type BacktestRecord,
+} from './backtesting';
+
+/** Monthly series growing by `step` per month from `start` */
+function monthly(count: number, start: number, step: number) {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(Date.UTC(2022, i, 1));
+    return { date: date.toISOString().slice(0, 7), value: start + i * step };
+  });
+}
+
+/**
+ * Monthly series growing 5% a month with noise proportional to the growth,
+ * from a fixed seed
+ */
+function noisyGrowth(count: number) {
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+  let total = 1000;
+  return Array.from({ length: count }, (_, i) => {
+    total += total * 0.05 * (1 + (random() + random() + random() - 1.5));
+    return { date: new Date(Date.UTC(2020, i, 1)).toISOString().slice(0, 7), users: Math.round(total) };
+  });
+}
+
+function record(overrides: Partial<BacktestRecord>): BacktestRecord {
+  return {
+    model: 'auto',
+    cutoff: '2024-01',
+    milestone: 1000,
+    predictedDate: '2024-06-15',
+    earliestDate: '2024-05-01',
+    latestDate: '2024-08-01',
+    confidence: 'high',
+    actualDate: '2024-06',
+    errorDays: 0,
+    withinInterval: true,
+    ...overrides,
+  };
+}
+
+describe('backtestMilestones', () => {
+  it('predicts steady growth to within a step of the actual date', () => {
+    const records = backtestMilestones(monthly(36, 1000, 100), {
+      milestoneType: 'generic',
+      models: ['linear'],
+    });
+
+    const reached = records.filter(r => r.errorDays !== null);
+    expect(reached.length).toBeGreaterThan(0);
+    for (const r of reached) {
+      expect(Math.abs(r.errorDays!)).toBeLessThanOrEqual(31);
+    }
+  });
+
+  it('replays each cutoff with only the data before it', () => {
+    const records = backtestMilestones(monthly(20, 1000, 100), {
+      milestoneType: 'generic',
+      models: ['auto'],
+      minHistory: 12,
+    });
+
+    expect(new Set(records.map(r => r.cutoff))).toEqual(
+      new Set(monthly(20, 1000, 100).slice(11, 19).map(p => p.date))
+    );
+    // At 2022-12 (2100) the next milestones are 2500, 5000 and 10000
+    expect(records.filter(r => r.cutoff === '2022-12').map(r => r.milestone)).toEqual([2500, 5000, 10000]);
+  });
+
+  it('leaves milestones unresolved while the data could still reach them', () => {
+    const records = backtestMilestones(monthly(14, 1000, 100), {
+      milestoneType: 'generic',
+      models: ['linear'],
+    });
+    const far = records.find(r => r.milestone === 10000)!;
+
+    expect(far.actualDate).toBeNull();
+    expect(far.errorDays).toBeNull();
+    expect(far.withinInterval).toBeNull();
+  });
+
+  it('runs one prediction per model', () => {
+    const records = backtestMilestones(monthly(14, 1000, 100), {
+      milestoneType: 'generic',
+      models: ['auto', 'linear', 'holt'],
+    });
+
+    expect(records.length % 3).toBe(0);
+    expect(new Set(records.map(r => r.model))).toEqual(new Set(['auto', 'linear', 'holt']));
+  });
+});
+
+describe('calibrationStats', () => {
+  it('summarizes error and coverage of resolved predictions', () => {
+    const stats = calibrationStats([
+      record({ errorDays: 10, withinInterval: true }),
+      record({ errorDays: -30, withinInterval: false }),
+      record({ actualDate: null, errorDays: null, withinInterval: false }),
+      record({ actualDate: null, errorDays: null, withinInterval: null }),
+      record({ predictedDate: null, earliestDate: null, latestDate: null, errorDays: null, withinInterval: null }),
+    ]);
+
+    expect(stats).toEqual({
+      predicted: 4,
+      unpredicted: 1,
+      reached: 2,
+      meanAbsErrorDays: 20,
+      medianAbsErrorDays: 20,
+      coverage: 0.333,
+    });
+  });
+
+  it('returns null error and coverage without resolved predictions', () => {
+    const stats = calibrationStats([]);
+    expect(stats.meanAbsErrorDays).toBeNull();
+    expect(stats.coverage).toBeNull();
+  });
+});
+
+describe('calibrate', () => {
+  it('reports each model with a breakdown by confidence', () => {
+    const entries = calibrate('stars', [
+      record({ model: 'linear', confidence: 'low', errorDays: 40 }),
+      record({ model: 'auto', confidence: 'high', errorDays: 5 }),
+    ]);
+
+    expect(entries.map(e => e.model)).toEqual(['auto', 'linear']);
+    expect(entries[1].byConfidence.low.meanAbsErrorDays).toBe(40);
+    expect(entries[1].byConfidence.high.predicted).toBe(0);
+  });
+});
+
+describe('buildCalibrationReport', () => {
+  it('reads each metric series from its history file', () => {
+    const file = { monthly: monthly(16, 1000, 100).map(p => ({ date: p.date, stars: p.value })) };
+    const report = buildCalibrationReport(() => file, {
+      metrics: [{
+        id: 'stars',
+        label: 'Stars',
+        file: 'github-history.json',
+        granularity: 'monthly',
+        field: 'stars',
+        milestoneType: 'stars',
+        lookbackMonths: 6,
+        minDataPoints: 4,
+      }],
+      models: ['linear'],
+      now: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    expect(report.generatedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(report.metrics).toEqual([{ id: 'stars', label: 'Stars', points: 16, cutoffs: 4, dataEnd: '2023-04' }]);
+    expect(report.entries).toHaveLength(1);
+  });
+
+  it('keeps interval coverage near nominal on a noisy growth series', () => {
+    const report = buildCalibrationReport(() => ({ monthly: noisyGrowth(48) }), {
+      metrics: [{
+        id: 'users',
+        label: 'Users',
+        file: 'community-history.json',
+        granularity: 'monthly',
+        field: 'users',
+        milestoneType: 'generic',
+        lookbackMonths: 6,
+        minDataPoints: 4,
+      }],
+      models: ['auto'],
+    });
+
+    const [entry] = report.entries;
+    expect(entry.reached).toBeGreaterThanOrEqual(30);
+    expect(Math.abs(entry.coverage! - report.level)).toBeLessThanOrEqual(0.15);
+  });
+
+  it('skips points without the field', () => {
+    expect(extractSeries({ weekly: [{ date: '2026-01-01', total: 5 }, { date: '2026-01-08' }] }, {
+      granularity: 'weekly',
+      field: 'total',
+    })).toEqual([{ date: '2026-01-01', value: 5 }]);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Milestone prediction backtesting
+ *
+ * Replays a stored history: at each past cutoff the series is truncated,
+ * the next milestones from getNextMilestones are predicted as if "now" were
+ * the cutoff, and each prediction is compared with the date the milestone
+ * was actually reached. The calibration report says, per model and per
+ * confidence label, how far off the predicted dates were and how often the
+ * actual date fell inside the prediction interval.
+ */
+
+import { FORECAST_MODELS, type ForecastModel } from './forecasting';
+import {
+  getNextMilestones,
+  parseDate,
+  predictMilestone,
+  type DataPoint,
+  type MilestonePrediction,
+} from './predictions';
+
+/** 'auto' lets the forecaster pick the best backtesting model, as the pages do */
+export type BacktestModel = ForecastModel | 'auto';
+
+export const BACKTEST_MODELS: BacktestModel[] = ['auto', ...FORECAST_MODELS];
+
+export type Confidence = MilestonePrediction['confidence'];
+
+const CONFIDENCES: Confidence[] = ['high', 'medium', 'low'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A stored history and the prediction options its page uses
+ */
+export interface BacktestMetric {
+  id: string;
+  label: string;
+  /** Path under public/data */
+  file: string;
+  granularity: 'daily' | 'weekly' | 'monthly';
+  field: string;
+  milestoneType: Parameters<typeof getNextMilestones>[1];
+  lookbackMonths: number;
+  minDataPoints: number;
+}
+
+export const BACKTEST_METRICS: BacktestMetric[] = [
+  {
+    id: 'github-stars',
+    label: 'GitHub stars',
+    file: 'github-history.json',
+    granularity: 'monthly',
+    field: 'stars',
+    milestoneType: 'stars',
+    lookbackMonths: 6,
+    minDataPoints: 4,
+  },
+  {
+    id: 'community-users',
+    label: 'Forum users',
+    file: 'community-history.json',
+    granularity: 'monthly',
+    field: 'users',
+    milestoneType: 'users',
+    lookbackMonths: 6,
+    minDataPoints: 4,
+  },
+  {
+    id: 'creators-total',
+    label: 'Template creators',
+    file: 'history/creators-stats.json',
+    granularity: 'weekly',
+    field: 'total',
+    milestoneType: 'creators',
+    lookbackMonths: 3,
+    minDataPoints: 4,
+  },
+];
+
+export interface BacktestRecord {
+  model: BacktestModel;
+  /** Date of the last point before the cutoff */
+  cutoff: string;
+  milestone: number;
+  predictedDate: string | null;
+  earliestDate: string | null;
+  latestDate: string | null;
+  confidence: Confidence;
+  /**
+   * When the milestone was crossed, interpolated between the points either
+   * side of it as forecasts are; null if the data never gets there
+   */
+  actualDate: string | null;
+  /** Predicted minus actual, in days (positive = predicted too late) */
+  errorDays: number | null;
+  /** Whether the actual date fell in the interval; null while unresolved */
+  withinInterval: boolean | null;
+}
+
+export interface CalibrationStats {
+  /** Milestones predicted (a date was given) */
+  predicted: number;
+  /** Milestones that could not be predicted */
+  unpredicted: number;
+  /** Predicted milestones that were reached within the data */
+  reached: number;
+  meanAbsErrorDays: number | null;
+  medianAbsErrorDays: number | null;
+  /** Share of resolved predictions whose interval held the actual date */
+  coverage: number | null;
+}
+
+export interface CalibrationEntry extends CalibrationStats {
+  metric: string;
+  model: BacktestModel;
+  byConfidence: Record<Confidence, CalibrationStats>;
+}
+
+export interface CalibrationReport {
+  generatedAt: string;
+  /** Nominal prediction interval coverage */
+  level: number;
+  metrics: Array<{ id: string; label: string; points: number; cutoffs: number; dataEnd: string }>;
+  entries: CalibrationEntry[];
+}
+
+export interface BacktestOptions {
+  milestoneType: BacktestMetric['milestoneType'];
+  lookbackMonths?: number;
+  minDataPoints?: number;
+  models?: BacktestModel[];
+  /** Points the first cutoff keeps (default 12) */
+  minHistory?: number;
+}
+
+// Helpers
+
+function toIsoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function startOfDay(time: number): number {
+  return time - (time % MS_PER_DAY);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Extract a { date, value } series from a history file's granularity array
+ */
+export function extractSeries(data: any, metric: Pick<BacktestMetric, 'granularity' | 'field'>): DataPoint[] {
+  const points: any[] = Array.isArray(data?.[metric.granularity]) ? data[metric.granularity] : [];
+  return points
+    .filter(p => typeof p?.[metric.field] === 'number')
+    .map(p => ({ date: p.date, value: p[metric.field] }));
+}
+
+/**
+ * Time the series first reaches a milestone after index `from - 1`,
+ * interpolated linearly between the points around the crossing
+ */
+function crossingTime(sorted: DataPoint[], from: number, milestone: number): number | null {
+  for (let i = from; i < sorted.length; i++) {
+    if (sorted[i].value < milestone) continue;
+    const before = sorted[i - 1];
+    const time = parseDate(sorted[i].date);
+    if (sorted[i].value === before.value) return time;
+    const previousTime = parseDate(before.date);
+    const fraction = Math.min(1, Math.max(0, (milestone - before.value) / (sorted[i].value - before.value)));
+    return previousTime + fraction * (time - previousTime);
+  }
+  return null;
+}
+
+// Backtest
+
+/**
+ * Predict every upcoming milestone at every cutoff and compare with the
+ * history after it. A milestone that is never reached still counts as a
+ * miss once the whole interval lies before the end of the data.
+ */
+export function backtestMilestones(data: DataPoint[], options: BacktestOptions): BacktestRecord[] {
+  const { milestoneType, lookbackMonths, minDataPoints, models = BACKTEST_MODELS, minHistory = 12 } = options;
+  const sorted = [...data]
+    .filter(d => d.value > 0)
+    .sort((a, b) => parseDate(a.date) - parseDate(b.date));
+  if (sorted.length < 2) return [];
+
+  const dataEnd = parseDate(sorted[sorted.length - 1].date);
+  const records: BacktestRecord[] = [];
+
+  for (let cut = Math.max(minHistory, 2); cut < sorted.length; cut++) {
+    const history = sorted.slice(0, cut);
+    const last = history[history.length - 1];
+    const now = parseDate(last.date);
+
+    for (const milestone of getNextMilestones(last.value, milestoneType)) {
+      const actual = crossingTime(sorted, cut, milestone);
+
+      for (const model of models) {
+        const prediction = predictMilestone(history, milestone, {
+          lookbackMonths,
+          minDataPoints,
+          now,
+          models: model === 'auto' ? undefined : [model],
+        });
+        const predicted = prediction.predictedDate?.getTime() ?? null;
+        // Interval bounds and the crossing are compared by day, as they are reported
+        const earliest = prediction.earliestDate ? startOfDay(prediction.earliestDate.getTime()) : null;
+        const latest = prediction.latestDate ? startOfDay(prediction.latestDate.getTime()) : null;
+        const actualDay = actual === null ? null : startOfDay(actual);
+
+        let withinInterval: boolean | null = null;
+        if (predicted !== null && earliest !== null) {
+          if (actualDay !== null) {
+            withinInterval = actualDay >= earliest && (latest === null || actualDay <= latest);
+          } else if (latest !== null && latest < dataEnd) {
+            withinInterval = false;
+          }
+        }
+
+        records.push({
+          model,
+          cutoff: last.date,
+          milestone,
+          predictedDate: predicted === null ? null : toIsoDate(predicted),
+          earliestDate: earliest === null ? null : toIsoDate(earliest),
+          latestDate: latest === null ? null : toIsoDate(latest),
+          confidence: prediction.confidence,
+          actualDate: actual === null ? null : toIsoDate(actual),
+          errorDays: predicted !== null && actual !== null ? Math.round((predicted - actual) / MS_PER_DAY) : null,
+          withinInterval,
+        });
+      }
+    }
+  }
+
+  return records;
+}
+
+// Calibration
+
+/**
+ * Summarize backtest records: error of reached milestones and interval coverage
+ */
+export function calibrationStats(records: BacktestRecord[]): CalibrationStats {
+  const predicted = records.filter(r => r.predictedDate !== null);
+  const errors = predicted.filter(r => r.errorDays !== null).map(r => Math.abs(r.errorDays!));
+  const resolved = predicted.filter(r => r.withinInterval !== null);
+
+  return {
+    predicted: predicted.length,
+    unpredicted: records.length - predicted.length,
+    reached: errors.length,
+    meanAbsErrorDays: errors.length > 0 ? Math.round(errors.reduce((a, b) => a + b, 0) / errors.length) : null,
+    medianAbsErrorDays: errors.length > 0 ? Math.round(median(errors)) : null,
+    coverage: resolved.length > 0
+      ? Number((resolved.filter(r => r.withinInterval).length / resolved.length).toFixed(3))
+      : null,
+  };
+}
+
+/**
+ * One calibration entry per model, broken down by confidence label
+ */
+export function calibrate(metric: string, records: BacktestRecord[]): CalibrationEntry[] {
+  const models = BACKTEST_MODELS.filter(model => records.some(r => r.model === model));
+  return models.map(model => {
+    const forModel = records.filter(r => r.model === model);
+    return {
+      metric,
+      model,
+      ...calibrationStats(forModel),
+      byConfidence: Object.fromEntries(
+        CONFIDENCES.map(confidence => [
+          confidence,
+          calibrationStats(forModel.filter(r => r.confidence === confidence)),
+        ])
+      ) as Record<Confidence, CalibrationStats>,
+    };
+  });
+}
+
+/**
+ * Backtest every metric and build the calibration report.
+ * `loadFile` reads a path under public/data.
+ */
+export function buildCalibrationReport(
+  loadFile: (file: string) => any,
+  options: { metrics?: BacktestMetric[]; models?: BacktestModel[]; now?: Date } = {}
+): CalibrationReport {
+  const { metrics = BACKTEST_METRICS, models = BACKTEST_MODELS, now = new Date() } = options;
+  const report: CalibrationReport = { generatedAt: now.toISOString(), level: 0.8, metrics: [], entries: [] };
+
+  for (const metric of metrics) {
+    const series = extractSeries(loadFile(metric.file), metric);
+    if (series.length === 0) continue;
+
+    const records = backtestMilestones(series, {
+      milestoneType: metric.milestoneType,
+      lookbackMonths: metric.lookbackMonths,
+      minDataPoints: metric.minDataPoints,
+      models,
+    });
+
+    report.metrics.push({
+      id: metric.id,
+      label: metric.label,
+      points: series.length,
+      cutoffs: new Set(records.map(r => r.cutoff)).size,
+      dataEnd: series[series.length - 1].date,
+    });
+    report.entries.push(...calibrate(metric.id, records));
+  }
+
+  return report;
+}
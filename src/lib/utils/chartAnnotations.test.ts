@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { formatGrowthRate, growthRegimeAnnotations, seriesGrowthRegimes } from './chartAnnotations';
+
+const stepChange = Array.from({ length: 20 }, (_, i) => (i < 10 ? 100 * i : 900 + 2000 * (i - 9)));
+const labels = stepChange.map((_, i) => `2024-${String(i + 1).padStart(2, '0')}`);
+
+describe('formatGrowthRate', () => {
+  it('formats rates per period', () => {
+    expect(formatGrowthRate(5234, 'mo')).toBe('+5.2K/mo');
+    expect(formatGrowthRate(42.4, 'wk')).toBe('+42/wk');
+    expect(formatGrowthRate(-3.25, 'day')).toBe('-3.3/day');
+  });
+});
+
+describe('seriesGrowthRegimes', () => {
+  it('maps regimes back to positions in a series with gaps', () => {
+    const values = [null, ...stepChange];
+    const regimes = seriesGrowthRegimes(values);
+
+    expect(regimes[0].start).toBe(1);
+    expect(regimes[regimes.length - 1].end).toBe(20);
+  });
+});
+
+describe('growthRegimeAnnotations', () => {
+  it('adds a trend per regime and a line at each changepoint', () => {
+    const annotations = growthRegimeAnnotations(labels, stepChange, { color: '#ff6384', period: 'mo', id: 'stars' });
+
+    expect(Object.keys(annotations)).toEqual(['stars-trend-0', 'stars-trend-1', 'stars-change-1']);
+    expect(annotations['stars-change-1'].xMin).toBe(labels[9]);
+    expect(annotations['stars-trend-1'].label.content).toBe('+2.0K/mo');
+    expect(annotations['stars-trend-0'].borderColor).toBe('rgba(255, 99, 132, 0.7)');
+  });
+
+  it('adds nothing without a changepoint', () => {
+    const steady = labels.map((_, i) => 100 * i);
+    expect(growthRegimeAnnotations(labels, steady, { color: '#ff6384', period: 'mo' })).toEqual({});
+  });
+});
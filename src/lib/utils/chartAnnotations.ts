@@ -0,0 +1,104 @@
+/**
+ * Growth regime annotations
+ *
+ * Turns detectGrowthRegimes output into chartjs-plugin-annotation objects:
+ * the fitted trend of each regime, labelled with its growth rate, and a
+ * dashed vertical line at every regime boundary (changepoint).
+ */
+
+import { hexToRgb } from './colors';
+import { formatNumber } from './formatters';
+import { detectGrowthRegimes, type GrowthRegime, type GrowthRegimeOptions } from './statistics';
+
+export interface RegimeAnnotationOptions extends GrowthRegimeOptions {
+  /** Series color (hex) */
+  color: string;
+  /** One step of the series, for rate labels: 'mo', 'wk' or 'day' */
+  period: string;
+  yScaleID?: string;
+  /** Key prefix, to keep several series apart */
+  id?: string;
+}
+
+function rgba(hex: string, alpha: number): string {
+  const { r, g, b } = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+/**
+ * Growth rate label, e.g. "+5.2K/mo"
+ */
+export function formatGrowthRate(slope: number, period: string): string {
+  const sign = slope < 0 ? '-' : '+';
+  const magnitude = Math.abs(slope);
+  const value = magnitude >= 1000 ? formatNumber(magnitude) : magnitude.toFixed(magnitude < 10 ? 1 : 0);
+  return `${sign}${value}/${period}`;
+}
+
+/**
+ * Regimes of a chart series. Steps are point positions, so slopes are per
+ * period of the series; missing values are skipped. `start` and `end` are
+ * indices into `values`.
+ */
+export function seriesGrowthRegimes(
+  values: Array<number | null | undefined>,
+  options: GrowthRegimeOptions = {}
+): GrowthRegime[] {
+  const points = values.flatMap((y, x) => (typeof y === 'number' ? [{ x, y }] : []));
+  return detectGrowthRegimes(points, options).map(regime => ({
+    ...regime,
+    start: points[regime.start].x,
+    end: points[regime.end].x,
+  }));
+}
+
+/**
+ * Annotations for a series' growth regimes. `xs` are the x positions
+ * (category labels or timestamps) matching `values`.
+ */
+export function growthRegimeAnnotations(
+  xs: Array<string | number>,
+  values: Array<number | null | undefined>,
+  options: RegimeAnnotationOptions
+): Record<string, any> {
+  const { color, period, yScaleID = 'y', id = 'regime', ...regimeOptions } = options;
+  const regimes = seriesGrowthRegimes(values, regimeOptions);
+  const annotations: Record<string, any> = {};
+  if (regimes.length < 2) return annotations;
+
+  regimes.forEach((regime, idx) => {
+    annotations[`${id}-trend-${idx}`] = {
+      type: 'line',
+      xMin: xs[regime.start],
+      xMax: xs[regime.end],
+      yMin: regime.intercept + regime.slope * regime.start,
+      yMax: regime.intercept + regime.slope * regime.end,
+      yScaleID,
+      borderColor: rgba(color, 0.7),
+      borderWidth: 2,
+      label: {
+        display: true,
+        content: formatGrowthRate(regime.slope, period),
+        position: 'center',
+        yAdjust: -12,
+        backgroundColor: rgba(color, 0.8),
+        color: '#fff',
+        font: { size: 9 },
+        padding: 2,
+      },
+    };
+
+    if (idx > 0) {
+      annotations[`${id}-change-${idx}`] = {
+        type: 'line',
+        xMin: xs[regime.start],
+        xMax: xs[regime.start],
+        borderColor: rgba(color, 0.4),
+        borderWidth: 1,
+        borderDash: [4, 4],
+      };
+    }
+  });
+
+  return annotations;
+}
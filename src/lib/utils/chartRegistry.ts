@@ -80,6 +80,12 @@ Chart.register(
 // Set default watermark options for all charts
 Chart.defaults.plugins.watermark = defaultWatermarkOptions;
 
+// Helper datasets (e.g. smoothing bands) set `hideInLegend` to stay out of legends and tooltips
+Chart.defaults.plugins.legend.labels.filter = (item, data) =>
+  !(data.datasets[item.datasetIndex!] as { hideInLegend?: boolean })?.hideInLegend;
+Chart.defaults.plugins.tooltip.filter = (item) =>
+  !(item.dataset as { hideInLegend?: boolean }).hideInLegend;
+
 // Re-export Chart for use in components
 export { Chart };
 
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { smoothValues, withSmoothing } from './chartSmoothing';
+
+const line = { label: 'Online', data: [10, 30, 20, null, 40], borderColor: '#ff6384', yAxisID: 'y' };
+
+describe('smoothValues', () => {
+  it('returns null without a method', () => {
+    expect(smoothValues([1, 2], 'none', 3)).toBeNull();
+    expect(smoothValues([1, 2, 3], 'sma', 2)).toEqual([1, 1.5, 2.5]);
+  });
+});
+
+describe('withSmoothing', () => {
+  it('leaves datasets alone when smoothing is off', () => {
+    const datasets = [line];
+    expect(withSmoothing(datasets, { method: 'none', window: 7, band: 'none' })).toBe(datasets);
+  });
+
+  it('fades the raw line and adds the smoothed line and band', () => {
+    const [lower, upper, raw, smoothed] = withSmoothing([line], { method: 'sma', window: 2, band: 'minmax' });
+
+    expect(lower).toMatchObject({ hideInLegend: true, data: [10, 10, 20, null, 40] });
+    expect(upper).toMatchObject({ hideInLegend: true, fill: '-1', data: [10, 30, 30, null, 40] });
+    expect(raw.borderColor).toBe('rgba(255, 99, 132, 0.35)');
+    expect(smoothed).toMatchObject({ label: 'Online (2-pt avg)', borderColor: '#ff6384', yAxisID: 'y', data: [10, 20, 25, null, 40] });
+  });
+
+  it('keeps {x, y} points and skips opted-out datasets', () => {
+    const points = { label: 'Stars', data: [{ x: 1, y: 2 }, { x: 2, y: 4 }], borderColor: 'rgba(1, 2, 3, 1)' };
+    const skipped = { ...line, smoothing: false };
+    const result = withSmoothing([points, skipped], { method: 'ema', window: 3, band: 'none' });
+
+    expect(result).toHaveLength(3);
+    expect(result[1].data).toEqual([{ x: 1, y: 2 }, { x: 2, y: 3 }]);
+    expect(result[0].borderColor).toBe('rgba(1, 2, 3, 0.35)');
+    expect(result[2]).toBe(skipped);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Smoothing overlays for time-series charts
+ *
+ * Adds a smoothed line (moving average, EMA, LOESS or rolling median) and
+ * an optional band (rolling min/max or ±1σ) to Chart.js line datasets.
+ * The raw series stays on the chart, faded, so nothing is hidden.
+ */
+
+import { hexToRgb } from './colors';
+import {
+  exponentialMovingAverage,
+  loess,
+  movingAverage,
+  rollingBand,
+  rollingMedian,
+  type BandType,
+} from './statistics';
+
+export type SmoothingMethod = 'none' | 'sma' | 'ema' | 'loess' | 'median';
+
+export interface SmoothingOptions {
+  method: SmoothingMethod;
+  /** Window in points (LOESS: neighbours per local fit) */
+  window: number;
+  band: BandType | 'none';
+}
+
+export const SMOOTHING_METHODS: Record<SmoothingMethod, string> = {
+  none: 'None',
+  sma: 'Moving average',
+  ema: 'Exponential average',
+  loess: 'LOESS',
+  median: 'Rolling median',
+};
+
+export const SMOOTHING_BANDS: Record<SmoothingOptions['band'], string> = {
+  none: 'No band',
+  minmax: 'Min/max',
+  stddev: '±1σ',
+};
+
+export const SMOOTHING_WINDOWS = [3, 7, 14, 30];
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = { method: 'none', window: 7, band: 'none' };
+
+const SHORT_LABELS: Record<Exclude<SmoothingMethod, 'none'>, string> = {
+  sma: 'avg',
+  ema: 'EMA',
+  loess: 'LOESS',
+  median: 'median',
+};
+
+/**
+ * Smoothed copy of a series, or null for 'none'
+ */
+export function smoothValues(
+  values: Array<number | null | undefined>,
+  method: SmoothingMethod,
+  window: number
+): Array<number | null> | null {
+  switch (method) {
+    case 'sma': return movingAverage(values, window);
+    case 'ema': return exponentialMovingAverage(values, window);
+    case 'loess': return loess(values, window);
+    case 'median': return rollingMedian(values, window);
+    case 'none': return null;
+  }
+}
+
+/** Same color at a new opacity; hex and rgb()/rgba() colors */
+function withAlpha(color: string, alpha: number): string {
+  if (color.startsWith('#')) {
+    const { r, g, b } = hexToRgb(color);
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  }
+  const match = color.match(/^rgba?\(([^,]+),([^,]+),([^,)]+)/);
+  return match ? `rgba(${match[1].trim()}, ${match[2].trim()}, ${match[3].trim()}, ${alpha})` : color;
+}
+
+/** Chart.js data with new y values: plain numbers or {x, y} points */
+function replaceValues(data: any[], values: Array<number | null>): any[] {
+  return data.map((point, i) =>
+    point !== null && typeof point === 'object' ? { ...point, y: values[i] } : values[i]
+  );
+}
+
+/**
+ * Datasets with smoothing applied. Line datasets gain a smoothed line and
+ * band (band datasets are left out of legends and tooltips via
+ * `hideInLegend`); bars keep their bars and get the smoothed line on top.
+ * Datasets with `smoothing: false` are left alone.
+ */
+export function withSmoothing(datasets: any[], options: SmoothingOptions): any[] {
+  if (options.method === 'none' && options.band === 'none') return datasets;
+
+  return datasets.flatMap(dataset => {
+    if (dataset.smoothing === false || !Array.isArray(dataset.data)) return [dataset];
+
+    const values: Array<number | null> = dataset.data.map((point: any) => {
+      const y = point !== null && typeof point === 'object' ? point.y : point;
+      return typeof y === 'number' ? y : null;
+    });
+    const color: string = typeof dataset.borderColor === 'string' ? dataset.borderColor : '#9ca3af';
+    const shared = { yAxisID: dataset.yAxisID, type: 'line', pointRadius: 0, pointHoverRadius: 0, tension: 0.2, spanGaps: true };
+    const result: any[] = [];
+
+    if (options.band !== 'none') {
+      const { lower, upper } = rollingBand(values, options.window, options.band);
+      const label = `${dataset.label} (${SMOOTHING_BANDS[options.band]})`;
+      result.push(
+        { ...shared, label, data: replaceValues(dataset.data, lower), borderColor: 'transparent', fill: false, hideInLegend: true },
+        { ...shared, label, data: replaceValues(dataset.data, upper), borderColor: 'transparent', backgroundColor: withAlpha(color, 0.15), fill: '-1', hideInLegend: true },
+      );
+    }
+
+    const smoothed = smoothValues(values, options.method, options.window);
+    const isBar = dataset.type === 'bar';
+    result.push(smoothed && !isBar
+      ? { ...dataset, borderColor: withAlpha(color, 0.35), borderWidth: 1, pointRadius: 0 }
+      : dataset);
+
+    if (smoothed) {
+      const method = options.method as Exclude<SmoothingMethod, 'none'>;
+      result.push({
+        ...shared,
+        label: `${dataset.label} (${options.window}-pt ${SHORT_LABELS[method]})`,
+        data: replaceValues(dataset.data, smoothed),
+        borderColor: color,
+        borderWidth: 2,
+        fill: false,
+        pointHoverRadius: 4,
+        order: -1,
+      });
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Read the smoothing controls rendered by SmoothingControls.astro
+ */
+export function getSmoothingOptions(idPrefix: string): SmoothingOptions {
+  const method = (document.getElementById(`${idPrefix}-smoothing`) as HTMLSelectElement | null)?.value as SmoothingMethod | undefined;
+  const window = parseInt((document.getElementById(`${idPrefix}-smoothing-window`) as HTMLSelectElement | null)?.value ?? '', 10);
+  const band = (document.getElementById(`${idPrefix}-smoothing-band`) as HTMLSelectElement | null)?.value as SmoothingOptions['band'] | undefined;
+
+  return {
+    method: method && Object.keys(SMOOTHING_METHODS).includes(method) ? method : DEFAULT_SMOOTHING.method,
+    window: SMOOTHING_WINDOWS.includes(window) ? window : DEFAULT_SMOOTHING.window,
+    band: band && Object.keys(SMOOTHING_BANDS).includes(band) ? band : DEFAULT_SMOOTHING.band,
+  };
+}
+
+/**
+ * Show `options` in the smoothing controls (e.g. restored from a URL)
+ */
+export function setSmoothingOptions(idPrefix: string, options: SmoothingOptions): void {
+  const values: Record<string, string> = {
+    smoothing: options.method,
+    'smoothing-window': String(options.window),
+    'smoothing-band': options.band,
+  };
+  for (const [suffix, value] of Object.entries(values)) {
+    const select = document.getElementById(`${idPrefix}-${suffix}`) as HTMLSelectElement | null;
+    if (select) select.value = value;
+  }
+}
+
+/**
+ * Call `onChange` whenever one of the smoothing controls changes
+ */
+export function onSmoothingChange(idPrefix: string, onChange: () => void): void {
+  for (const suffix of ['smoothing', 'smoothing-window', 'smoothing-band']) {
+    document.getElementById(`${idPrefix}-${suffix}`)?.addEventListener('change', onChange);
+  }
+}
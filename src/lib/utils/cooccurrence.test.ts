@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { computeNodePairs, getPairsInCategory, getRelatedNodes, limitPairsPerNode, type NodePair } from './cooccurrence';
+
+/** `count` copies of a node list */
+function repeat(count: number, nodes: string[]): string[][] {
+  return Array.from({ length: count }, () => nodes);
+}
+
+function pair(a: string, b: string, npmi: number, count: number = 10): NodePair {
+  return { a, b, count, lift: 2, pmi: 1, npmi };
+}
+
+describe('computeNodePairs', () => {
+  // slack and gmail always together; webhook and code independent of each other
+  const templates = [
+    ...repeat(10, ['slack', 'gmail', 'webhook', 'code']),
+    ...repeat(10, ['slack', 'gmail', 'webhook']),
+    ...repeat(10, ['code', 'webhook']),
+    ...repeat(10, ['code']),
+    ...repeat(40, []),
+  ];
+
+  it('scores pairs by lift, PMI and NPMI', () => {
+    const { pairs, totalTemplates, nodeCounts } = computeNodePairs(templates, { minSupport: 1 });
+
+    expect(totalTemplates).toBe(80);
+    expect(nodeCounts).toMatchObject({ slack: 20, gmail: 20, webhook: 30, code: 30 });
+
+    const slackGmail = pairs.find(p => p.a === 'gmail' && p.b === 'slack')!;
+    // P(a,b) = 1/4, P(a) = P(b) = 1/4: lift 4, PMI 2, NPMI 1
+    expect(slackGmail).toEqual({ a: 'gmail', b: 'slack', count: 20, lift: 4, pmi: 2, npmi: 1 });
+    expect(pairs[0]).toBe(slackGmail);
+  });
+
+  it('drops pairs without positive association or below the support threshold', () => {
+    const { pairs } = computeNodePairs(templates, { minSupport: 15 });
+
+    // slack + code shares only 10 templates
+    expect(pairs.map(p => `${p.a}+${p.b}`)).toEqual(['gmail+slack', 'gmail+webhook', 'slack+webhook', 'code+webhook']);
+    expect(computeNodePairs(templates, { minSupport: 21 }).pairs).toEqual([]);
+  });
+
+  it('counts a node once per template and skips excluded nodes', () => {
+    const { pairs, nodeCounts } = computeNodePairs(
+      [['a', 'a', 'sticky', 'b'], ['a', 'b'], ['c'], ['c']],
+      { minSupport: 1, excluded: ['sticky'] }
+    );
+
+    expect(nodeCounts).toEqual({ a: 2, b: 2, c: 2 });
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ a: 'a', b: 'b', count: 2, lift: 2 });
+  });
+});
+
+describe('limitPairsPerNode', () => {
+  it('keeps a pair while either node is within its limit', () => {
+    const pairs = [pair('a', 'b', 0.9), pair('a', 'c', 0.8), pair('a', 'd', 0.7), pair('b', 'c', 0.1)];
+    const kept = limitPairsPerNode(pairs, 1);
+
+    // a is full after a+b, but c and d are not; b and c are both full for b+c
+    expect(kept.map(p => `${p.a}+${p.b}`)).toEqual(['a+b', 'a+c', 'a+d']);
+  });
+});
+
+describe('getRelatedNodes', () => {
+  it('lists the other node of each pair, strongest first', () => {
+    const related = getRelatedNodes([pair('a', 'b', 0.2), pair('c', 'd', 0.9), pair('c', 'b', 0.5)], 'b');
+    expect(related.map(r => r.type)).toEqual(['c', 'a']);
+  });
+});
+
+describe('getPairsInCategory', () => {
+  it('keeps pairs with a node in the category', () => {
+    const categories: Record<string, string> = { slack: 'Communication', gmail: 'Communication', code: 'Data Transform' };
+    const pairs = [pair('code', 'x', 0.9), pair('gmail', 'slack', 0.5), pair('code', 'slack', 0.7)];
+
+    expect(getPairsInCategory(pairs, type => categories[type] ?? 'Other', 'Communication').map(p => p.npmi))
+      .toEqual([0.7, 0.5]);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Node co-occurrence
+ *
+ * Counts how often two nodes appear in the same template and scores each
+ * pair by how much more often that happens than chance:
+ * - lift = P(a,b) / (P(a) P(b)); 1 means independent
+ * - PMI = log2(lift)
+ * - NPMI = PMI / -log2(P(a,b)), normalized to [-1, 1], so pairs of rare
+ *   nodes do not dominate the ranking the way they do with lift
+ */
+
+export interface NodePair {
+  a: string;
+  b: string;
+  /** Templates using both nodes */
+  count: number;
+  lift: number;
+  pmi: number;
+  npmi: number;
+}
+
+export interface CooccurrenceOptions {
+  /** Minimum templates a pair must appear in (default 10) */
+  minSupport?: number;
+  /** Node types left out entirely */
+  excluded?: string[];
+}
+
+export interface CooccurrenceResult {
+  totalTemplates: number;
+  /** Templates using each node */
+  nodeCounts: Record<string, number>;
+  /** Pairs with positive association, strongest (NPMI) first */
+  pairs: NodePair[];
+}
+
+/** A pair seen from one of its nodes */
+export interface RelatedNode {
+  type: string;
+  count: number;
+  lift: number;
+  npmi: number;
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function comparePairs(x: NodePair, y: NodePair): number {
+  return y.npmi - x.npmi || y.count - x.count || x.a.localeCompare(y.a) || x.b.localeCompare(y.b);
+}
+
+/**
+ * Score every node pair across the templates' node lists
+ */
+export function computeNodePairs(nodeSets: string[][], options: CooccurrenceOptions = {}): CooccurrenceResult {
+  const { minSupport = 10, excluded = [] } = options;
+  const nodeCounts = new Map<string, number>();
+  const pairCounts = new Map<string, number>();
+
+  for (const nodes of nodeSets) {
+    const unique = [...new Set(nodes)].filter(type => !excluded.includes(type)).sort();
+    for (const type of unique) {
+      nodeCounts.set(type, (nodeCounts.get(type) ?? 0) + 1);
+    }
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        const key = `${unique[i]}\n${unique[j]}`;
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  const total = nodeSets.length;
+  const pairs: NodePair[] = [];
+
+  for (const [key, count] of pairCounts) {
+    if (count < minSupport) continue;
+    const [a, b] = key.split('\n');
+    const pAB = count / total;
+    const lift = pAB / ((nodeCounts.get(a)! / total) * (nodeCounts.get(b)! / total));
+    const pmi = Math.log2(lift);
+    if (pmi <= 0) continue;
+    // A pair in every template has P(a,b) = 1 and no defined NPMI
+    const npmi = pAB < 1 ? pmi / -Math.log2(pAB) : 1;
+    pairs.push({ a, b, count, lift: round(lift), pmi: round(pmi), npmi: round(npmi) });
+  }
+
+  pairs.sort(comparePairs);
+
+  return {
+    totalTemplates: total,
+    nodeCounts: Object.fromEntries([...nodeCounts.entries()].sort((x, y) => y[1] - x[1])),
+    pairs,
+  };
+}
+
+/**
+ * Keep each node's `perNode` strongest pairs (a pair is kept if either node keeps it)
+ */
+export function limitPairsPerNode(pairs: NodePair[], perNode: number): NodePair[] {
+  const kept = new Set<NodePair>();
+  const taken = new Map<string, number>();
+
+  for (const pair of [...pairs].sort(comparePairs)) {
+    const forA = taken.get(pair.a) ?? 0;
+    const forB = taken.get(pair.b) ?? 0;
+    if (forA < perNode || forB < perNode) {
+      kept.add(pair);
+      taken.set(pair.a, forA + 1);
+      taken.set(pair.b, forB + 1);
+    }
+  }
+
+  return pairs.filter(pair => kept.has(pair));
+}
+
+/**
+ * The nodes most strongly associated with `type`
+ */
+export function getRelatedNodes(pairs: NodePair[], type: string, limit: number = 8): RelatedNode[] {
+  return pairs
+    .filter(pair => pair.a === type || pair.b === type)
+    .sort(comparePairs)
+    .slice(0, limit)
+    .map(pair => ({
+      type: pair.a === type ? pair.b : pair.a,
+      count: pair.count,
+      lift: pair.lift,
+      npmi: pair.npmi,
+    }));
+}
+
+/**
+ * Strongest pairs with at least one node in `category`
+ */
+export function getPairsInCategory(
+  pairs: NodePair[],
+  categoryOf: (type: string) => string,
+  category: string,
+  limit: number = 10
+): NodePair[] {
+  return pairs
+    .filter(pair => categoryOf(pair.a) === category || categoryOf(pair.b) === category)
+    .sort(comparePairs)
+    .slice(0, limit);
+}
@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { periodIndex } from './dates';
+
+describe('periodIndex', () => {
+  it('puts dates of the same week or month in one period', () => {
+    expect(periodIndex('2025-03-03', 'weekly')).toBe(periodIndex('2025-03-09', 'weekly'));
+    expect(periodIndex('2025-03-10', 'weekly')).toBe(periodIndex('2025-03-03', 'weekly')! + 1);
+    expect(periodIndex('2025-W10', 'weekly')).toBe(periodIndex('2025-03-03', 'weekly'));
+    expect(periodIndex('2025-03', 'monthly')).toBe(periodIndex('2025-03-31', 'monthly'));
+    expect(periodIndex('soon', 'daily')).toBeNull();
+  });
+});
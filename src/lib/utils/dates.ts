@@ -0,0 +1,40 @@
+/**
+ * Date period helpers
+ *
+ * Shared by the Playground lead/lag analysis and the social image cards,
+ * which both line up history points from files that use different date
+ * formats (YYYY-MM-DD, YYYY-MM and ISO weeks).
+ */
+
+export type PeriodGranularity = 'daily' | 'weekly' | 'monthly';
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Sequential index of the period a date falls in: days, weeks or months
+ * since the epoch. Accepts YYYY-MM-DD, YYYY-MM and YYYY-Www dates.
+ */
+export function periodIndex(date: string, granularity: PeriodGranularity): number | null {
+  const week = date.match(/^(\d{4})-W(\d{2})$/);
+  let time: number;
+  if (week) {
+    // Monday of ISO week 1 is the Monday on or before 4 January
+    const jan4 = Date.UTC(Number(week[1]), 0, 4);
+    const weekday = (new Date(jan4).getUTCDay() + 6) % 7;
+    time = jan4 - weekday * DAY_MS + (Number(week[2]) - 1) * 7 * DAY_MS;
+  } else {
+    time = Date.parse(/^\d{4}-\d{2}$/.test(date) ? `${date}-01` : date);
+  }
+  if (Number.isNaN(time)) return null;
+
+  const day = Math.floor(time / DAY_MS);
+  switch (granularity) {
+    case 'daily': return day;
+    // 1970-01-01 was a Thursday; shift so weeks start on Monday
+    case 'weekly': return Math.floor((day + 3) / 7);
+    case 'monthly': {
+      const d = new Date(time);
+      return d.getUTCFullYear() * 12 + d.getUTCMonth();
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  backtestError,
+  errorBands,
+  forecast,
+  horizonErrors,
+  measureCoverage,
+  normalQuantile,
+  seriesStepDays,
+  timeToReach,
+  type TimedValue,
+} from './forecasting';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2022, 0, 1);
+
+function series(values: number[], stepDays = 30): TimedValue[] {
+  return values.map((value, i) => ({ time: START + i * stepDays * DAY, value }));
+}
+
+describe('normalQuantile', () => {
+  it('matches standard z-scores', () => {
+    expect(normalQuantile(0.9)).toBeCloseTo(1.2816, 3);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 3);
+    expect(normalQuantile(0.1)).toBeCloseTo(-1.2816, 3);
+  });
+});
+
+describe('seriesStepDays', () => {
+  it('uses the median spacing', () => {
+    expect(seriesStepDays(series([1, 2, 3, 4], 7))).toBe(7);
+  });
+});
+
+describe('forecast', () => {
+  it('returns null for very short series', () => {
+    expect(forecast(series([1, 2]), { horizon: 3 })).toBeNull();
+  });
+
+  it('extends a straight line', () => {
+    const result = forecast(series(Array.from({ length: 20 }, (_, i) => 100 + 10 * i)), { horizon: 3 })!;
+
+    expect(result.points.map(p => Math.round(p.value))).toEqual([300, 310, 320]);
+    expect(result.stepDays).toBe(30);
+  });
+
+  it('prefers log-linear for exponential growth', () => {
+    const values = Array.from({ length: 30 }, (_, i) => 1000 * Math.pow(1.05, i));
+    const result = forecast(series(values), { horizon: 6, models: ['linear', 'log-linear'] })!;
+
+    expect(result.model).toBe('log-linear');
+    expect(result.errors['log-linear']!).toBeLessThan(result.errors.linear!);
+    expect(result.points[5].value).toBeCloseTo(1000 * Math.pow(1.05, 35), 0);
+  });
+
+  it('picks holt-winters for trending seasonal data', () => {
+    const values = Array.from({ length: 48 }, (_, i) => 1000 + 20 * i + 150 * Math.sin((2 * Math.PI * i) / 12));
+    const result = forecast(series(values), { horizon: 12 })!;
+
+    expect(result.model).toBe('holt-winters');
+    const expected = 1000 + 20 * 50 + 150 * Math.sin((2 * Math.PI * 50) / 12);
+    expect(Math.abs(result.points[2].value - expected) / expected).toBeLessThan(0.02);
+  });
+
+  it('widens prediction intervals with the horizon', () => {
+    const values = Array.from({ length: 24 }, (_, i) => 100 + 5 * i + (i % 2 === 0 ? 3 : -3));
+    const { points } = forecast(series(values), { horizon: 6, models: ['linear'] })!;
+
+    for (const p of points) {
+      expect(p.lower).toBeLessThan(p.value);
+      expect(p.upper).toBeGreaterThan(p.value);
+    }
+    expect(points[5].upper - points[5].lower).toBeGreaterThan(points[0].upper - points[0].lower);
+  });
+
+  it('reports the out-of-sample coverage of its intervals', () => {
+    const noise = [3, -1, 4, -1, -5, 9, -2, 6, -5, 3, -5, 8, -9, 7, -9, 3, -2, 3, -8, 4];
+    const values = Array.from({ length: 40 }, (_, i) => 100 + 5 * i + noise[i % noise.length]);
+    const result = forecast(series(values), { horizon: 6, models: ['linear'] })!;
+
+    expect(result.coverageSamples).toBeGreaterThan(50);
+    expect(result.coverage).toBeGreaterThanOrEqual(result.level);
+    expect(result.errorQuantile).toBeGreaterThanOrEqual(result.level);
+  });
+
+  it('fits trend models on the trailing window only', () => {
+    // Flat, then growing by 10 per step
+    const values = [...Array(10).fill(100), ...Array.from({ length: 6 }, (_, i) => 110 + 10 * i)];
+    const result = forecast(series(values), { horizon: 1, models: ['linear'], trendWindow: 6 })!;
+    expect(Math.round(result.points[0].value)).toBe(170);
+  });
+});
+
+describe('backtestError', () => {
+  it('is zero for a perfectly linear series', () => {
+    const values = Array.from({ length: 10 }, (_, i) => 50 + 2 * i);
+    expect(backtestError('linear', values, 3, { seasonLength: 12 })).toBeCloseTo(0, 10);
+  });
+
+  it('returns null when the model cannot be fitted', () => {
+    expect(backtestError('holt-winters', [1, 2, 3, 4, 5, 6], 2, { seasonLength: 12 })).toBeNull();
+    expect(backtestError('log-linear', [0, 1, 2, 3, 4, 5], 2, { seasonLength: 12 })).toBeNull();
+  });
+});
+
+describe('horizonErrors', () => {
+  it('records the relative error of every origin at every step', () => {
+    const values = [100, 110, 120, 130, 150];
+    const errors = horizonErrors('linear', values, 2, { seasonLength: 12 });
+
+    // Origins 3 and 4: fitted on 100-120 and 100-130
+    expect(errors.map(e => [e.origin, e.step])).toEqual([[3, 1], [3, 2], [4, 1]]);
+    expect(errors[0].error).toBeCloseTo(0, 10);
+    expect(errors[1].error).toBeCloseTo(10 / 140, 10);
+    expect(errors[2].error).toBeCloseTo(10 / 140, 10);
+  });
+});
+
+describe('errorBands', () => {
+  const errors = [0.01, -0.02, 0.03, -0.04, 0.05].flatMap((error, origin) => [
+    { origin, step: 1, error },
+    { origin, step: 2, error: 2 * error },
+  ]);
+
+  it('bounds each step by the quantile of its absolute errors', () => {
+    const bands = errorBands(errors, 2, 0.5)!;
+    expect(bands[0].upper).toBeCloseTo(0.03, 10);
+    expect(bands[0].lower).toBeCloseTo(-0.03, 10);
+    expect(bands[1].upper).toBeCloseTo(0.06, 10);
+  });
+
+  it('scales the last band with enough errors to later steps', () => {
+    const bands = errorBands(errors, 4, 0.5)!;
+    expect(bands[3].upper).toBeCloseTo(0.12, 10);
+  });
+
+  it('needs enough errors for the first step', () => {
+    expect(errorBands(errors.slice(0, 4), 2, 0.5)).toBeNull();
+  });
+});
+
+describe('measureCoverage', () => {
+  it('checks each origin against bands from errors known before it', () => {
+    const errors = Array.from({ length: 10 }, (_, origin) => ({ origin, step: 1, error: origin < 8 ? 0.01 : 0.5 }));
+    // Origins 5-7 are covered by the first five errors, the jump at 8 and 9 is not
+    expect(measureCoverage(errors, 1, 0.8)).toEqual({ coverage: 0.6, samples: 5 });
+    expect(measureCoverage(errors, 1, 0.8, 8)).toEqual({ coverage: 0, samples: 2 });
+  });
+});
+
+describe('timeToReach', () => {
+  const start = { time: 0, value: 100 };
+  const points = [
+    { time: 10, value: 110, lower: 105, upper: 115 },
+    { time: 20, value: 120, lower: 110, upper: 130 },
+  ];
+
+  it('interpolates within the step that crosses the target', () => {
+    expect(timeToReach(start, points, 115)).toBe(15);
+    expect(timeToReach(start, points, 115, 'upper')).toBe(10);
+  });
+
+  it('returns null when the target is never reached', () => {
+    expect(timeToReach(start, points, 115, 'lower')).toBeNull();
+  });
+});
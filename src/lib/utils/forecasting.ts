@@ -0,0 +1,460 @@
+/**
+ * Forecasting utilities
+ *
+ * Fits several simple models to an evenly spaced series and picks the one
+ * with the lowest backtest error:
+ * - linear: least squares trend over a trailing window
+ * - log-linear: exponential growth (linear trend on log values)
+ * - holt: double exponential smoothing (level + trend)
+ * - holt-winters: triple exponential smoothing (level + trend + additive season)
+ *
+ * Forecasts carry prediction intervals built from the model's own backtest:
+ * the model is refitted at every past origin and the quantiles of its
+ * relative errors at each horizon bound the forecast at that horizon.
+ * Errors of cumulative series compound with the horizon, so one-step
+ * residuals would give intervals far too narrow. Beyond the horizons with
+ * enough backtest errors, the last band widens in proportion to the step.
+ *
+ * The intervals' coverage is measured the same way: at each origin, bands
+ * from the errors already observed then are checked against what followed.
+ */
+
+export type ForecastModel = 'linear' | 'log-linear' | 'holt' | 'holt-winters';
+
+export const FORECAST_MODELS: ForecastModel[] = ['linear', 'log-linear', 'holt', 'holt-winters'];
+
+export interface TimedValue {
+  /** Timestamp in milliseconds */
+  time: number;
+  value: number;
+}
+
+export interface ForecastPoint extends TimedValue {
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastOptions {
+  /** Steps to forecast, in the series' own interval */
+  horizon: number;
+  /** Prediction interval coverage (default 0.8) */
+  level?: number;
+  /** Candidate models (default all) */
+  models?: ForecastModel[];
+  /** Points the linear models are fitted on, counted from the end (default all) */
+  trendWindow?: number;
+  /** Season length in steps (default from the interval: 12 monthly, 52 weekly, 7 daily) */
+  seasonLength?: number;
+}
+
+export interface ForecastResult {
+  model: ForecastModel;
+  /** Backtest MAPE per model that could be evaluated (0.05 = 5%) */
+  errors: Partial<Record<ForecastModel, number>>;
+  /** Median spacing of the input series, in days */
+  stepDays: number;
+  level: number;
+  /** Share of backtest outcomes the intervals held, out of sample; null when too few errors */
+  coverage: number | null;
+  /** Backtest outcomes the coverage was measured on */
+  coverageSamples: number;
+  /** Coverage of the outcomes in the last RECENT_STEPS steps, which shows a change of regime first */
+  recentCoverage: number | null;
+  /** Quantile of absolute backtest errors the intervals use: `level`, or higher when that covered too little */
+  errorQuantile: number;
+  points: ForecastPoint[];
+}
+
+/** One backtest error: the model fitted on values before `origin`, `step` steps ahead */
+export interface HorizonError {
+  origin: number;
+  step: number;
+  /** (actual - predicted) / |predicted| */
+  error: number;
+}
+
+/** Relative error bounds of the interval at one horizon */
+export interface ErrorBand {
+  lower: number;
+  upper: number;
+}
+
+export interface FittedModel {
+  /** Forecasts for steps 1..h after the last value */
+  forecast: (steps: number) => number[];
+  /** One-step-ahead in-sample errors */
+  residuals: number[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Fewest backtest errors a horizon needs before its quantiles are used */
+const MIN_HORIZON_ERRORS = 5;
+
+/** Steps at the end of the series whose outcomes make up the recent coverage */
+const RECENT_STEPS = 12;
+
+/** Error quantiles tried, in order, when the nominal one covered too little */
+const WIDER_QUANTILES = [0.85, 0.9, 0.95, 0.99];
+
+// Helpers
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function rms(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+}
+
+/**
+ * Quantile with linear interpolation between order statistics
+ */
+function quantile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = (sorted.length - 1) * p;
+  const below = Math.floor(index);
+  const above = Math.ceil(index);
+  return sorted[below] + (sorted[above] - sorted[below]) * (index - below);
+}
+
+/**
+ * Standard normal quantile (Abramowitz & Stegun 26.2.23, error < 4.5e-4)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error(`Probability out of range: ${p}`);
+  if (p < 0.5) return -normalQuantile(1 - p);
+  const t = Math.sqrt(-2 * Math.log(1 - p));
+  return t - (2.515517 + 0.802853 * t + 0.010328 * t * t) /
+    (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+}
+
+/**
+ * Median spacing between consecutive points, in days
+ */
+export function seriesStepDays(series: TimedValue[]): number {
+  const times = series.map(p => p.time).sort((a, b) => a - b);
+  if (times.length < 2) return 1;
+  return median(times.slice(1).map((t, i) => (t - times[i]) / MS_PER_DAY)) || 1;
+}
+
+function defaultSeasonLength(stepDays: number): number {
+  if (stepDays >= 28) return 12;
+  if (stepDays >= 7) return 52;
+  return 7;
+}
+
+// Models
+
+function fitLinear(values: number[], transform?: { to: (v: number) => number; from: (v: number) => number }): FittedModel {
+  const to = transform?.to ?? ((v: number) => v);
+  const from = transform?.from ?? ((v: number) => v);
+  const n = values.length;
+  const ys = values.map(to);
+  const meanX = (n - 1) / 2;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  ys.forEach((y, x) => {
+    sxy += (x - meanX) * (y - meanY);
+    sxx += (x - meanX) ** 2;
+  });
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = meanY - slope * meanX;
+
+  return {
+    forecast: steps => Array.from({ length: steps }, (_, i) => from(intercept + slope * (n + i))),
+    residuals: values.map((v, x) => v - from(intercept + slope * x)),
+  };
+}
+
+function runHolt(values: number[], alpha: number, beta: number): FittedModel {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const residuals: number[] = [];
+
+  for (let t = 1; t < values.length; t++) {
+    residuals.push(values[t] - (level + trend));
+    const previousLevel = level;
+    level = alpha * values[t] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+  }
+
+  return {
+    forecast: steps => Array.from({ length: steps }, (_, i) => level + (i + 1) * trend),
+    residuals,
+  };
+}
+
+function runHoltWinters(values: number[], m: number, alpha: number, beta: number, gamma: number): FittedModel {
+  // Initialise from the first two seasons: detrended first season, level at its end
+  const mean = (from: number) => values.slice(from, from + m).reduce((a, b) => a + b, 0) / m;
+  let trend = (mean(m) - mean(0)) / m;
+  const season = values.slice(0, m).map((v, i) => v - (mean(0) + (i - (m - 1) / 2) * trend));
+  let level = mean(0) + ((m - 1) / 2) * trend;
+  const residuals: number[] = [];
+
+  for (let t = m; t < values.length; t++) {
+    const seasonal = season[t - m];
+    residuals.push(values[t] - (level + trend + seasonal));
+    const previousLevel = level;
+    level = alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    season.push(gamma * (values[t] - level) + (1 - gamma) * seasonal);
+  }
+
+  const n = values.length;
+  return {
+    forecast: steps => Array.from({ length: steps }, (_, i) =>
+      level + (i + 1) * trend + season[n - m + (i % m)]
+    ),
+    residuals,
+  };
+}
+
+/**
+ * Pick smoothing parameters with the lowest one-step squared error
+ */
+function bestOf(candidates: FittedModel[]): FittedModel {
+  return candidates.reduce((best, c) => (rms(c.residuals) < rms(best.residuals) ? c : best));
+}
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9];
+const BETAS = [0.05, 0.1, 0.3];
+const GAMMAS = [0.1, 0.3, 0.5];
+
+/** Minimum points each model needs to be fitted */
+function minPoints(model: ForecastModel, seasonLength: number): number {
+  return model === 'holt-winters' ? 2 * seasonLength + 2 : model === 'holt' ? 4 : 3;
+}
+
+/**
+ * Fit one model, or null when the series does not suit it
+ */
+export function fitModel(
+  model: ForecastModel,
+  values: number[],
+  options: { trendWindow?: number; seasonLength: number }
+): FittedModel | null {
+  if (values.length < minPoints(model, options.seasonLength)) return null;
+  const windowed = options.trendWindow ? values.slice(-Math.max(options.trendWindow, 3)) : values;
+
+  switch (model) {
+    case 'linear':
+      return fitLinear(windowed);
+    case 'log-linear':
+      if (windowed.some(v => v <= 0)) return null;
+      return fitLinear(windowed, { to: Math.log, from: Math.exp });
+    case 'holt':
+      return bestOf(ALPHAS.flatMap(a => BETAS.map(b => runHolt(values, a, b))));
+    case 'holt-winters':
+      return bestOf(ALPHAS.flatMap(a => BETAS.flatMap(b =>
+        GAMMAS.map(g => runHoltWinters(values, options.seasonLength, a, b, g))
+      )));
+  }
+}
+
+/**
+ * Mean absolute percentage error of forecasting the last `holdout` values
+ * from the values before them
+ */
+export function backtestError(
+  model: ForecastModel,
+  values: number[],
+  holdout: number,
+  options: { trendWindow?: number; seasonLength: number }
+): number | null {
+  const train = values.slice(0, -holdout);
+  const test = values.slice(-holdout);
+  const fitted = fitModel(model, train, options);
+  if (!fitted) return null;
+
+  const predicted = fitted.forecast(holdout);
+  const errors = test
+    .map((actual, i) => (actual === 0 ? null : Math.abs((actual - predicted[i]) / actual)))
+    .filter((e): e is number => e !== null && Number.isFinite(e));
+  return errors.length > 0 ? errors.reduce((a, b) => a + b, 0) / errors.length : null;
+}
+
+// Intervals
+
+/**
+ * Refit the model at every origin with enough points before it and record
+ * its relative error at each step up to `horizon`
+ */
+export function horizonErrors(
+  model: ForecastModel,
+  values: number[],
+  horizon: number,
+  options: { trendWindow?: number; seasonLength: number }
+): HorizonError[] {
+  const errors: HorizonError[] = [];
+  for (let origin = minPoints(model, options.seasonLength); origin < values.length; origin++) {
+    const fitted = fitModel(model, values.slice(0, origin), options);
+    if (!fitted) continue;
+    fitted.forecast(Math.min(horizon, values.length - origin)).forEach((predicted, i) => {
+      if (predicted === 0 || !Number.isFinite(predicted)) return;
+      errors.push({ origin, step: i + 1, error: (values[origin + i] - predicted) / Math.abs(predicted) });
+    });
+  }
+  return errors;
+}
+
+/**
+ * Interval bands for steps 1..horizon from backtest errors: the central
+ * `level` quantiles per step, never narrower than the step before and
+ * always holding the point forecast. Steps past the last one with
+ * MIN_HORIZON_ERRORS errors scale that band linearly. Null without enough
+ * errors for step 1.
+ */
+export function errorBands(errors: HorizonError[], horizon: number, level: number): ErrorBand[] | null {
+  const byStep: number[][] = Array.from({ length: horizon }, () => []);
+  for (const e of errors) {
+    if (e.step <= horizon) byStep[e.step - 1].push(e.error);
+  }
+
+  let reliable = 0;
+  while (reliable < horizon && byStep[reliable].length >= MIN_HORIZON_ERRORS) reliable++;
+  if (reliable === 0) return null;
+
+  const bands: ErrorBand[] = [];
+  let lower = 0;
+  let upper = 0;
+  for (let step = 1; step <= horizon; step++) {
+    if (step <= reliable) {
+      const q = quantile(byStep[step - 1].map(Math.abs), level);
+      lower = Math.min(lower, -q);
+      upper = Math.max(upper, q);
+      bands.push({ lower, upper });
+    } else {
+      const scale = step / reliable;
+      bands.push({ lower: bands[reliable - 1].lower * scale, upper: bands[reliable - 1].upper * scale });
+    }
+  }
+  return bands;
+}
+
+/**
+ * Out-of-sample coverage of the bands: at each origin, bands built from
+ * the errors whose actual values were known by then are checked against
+ * that origin's errors. Only outcomes at value index `fromIndex` or later
+ * count.
+ */
+export function measureCoverage(
+  errors: HorizonError[],
+  horizon: number,
+  level: number,
+  fromIndex: number = 0
+): { coverage: number | null; samples: number } {
+  const byOrigin = new Map<number, HorizonError[]>();
+  for (const e of errors) byOrigin.set(e.origin, [...(byOrigin.get(e.origin) ?? []), e]);
+
+  let hits = 0;
+  let samples = 0;
+  for (const [origin, outcomes] of byOrigin) {
+    const bands = errorBands(errors.filter(e => e.origin + e.step <= origin), horizon, level);
+    if (!bands) continue;
+    for (const e of outcomes) {
+      if (e.origin + e.step - 1 < fromIndex) continue;
+      samples++;
+      if (e.error >= bands[e.step - 1].lower && e.error <= bands[e.step - 1].upper) hits++;
+    }
+  }
+  return { coverage: samples > 0 ? hits / samples : null, samples };
+}
+
+/**
+ * Forecast a series with the model that backtests best
+ */
+export function forecast(series: TimedValue[], options: ForecastOptions): ForecastResult | null {
+  const sorted = [...series].sort((a, b) => a.time - b.time);
+  if (sorted.length < 3) return null;
+
+  const { horizon, level = 0.8, models = FORECAST_MODELS, trendWindow } = options;
+  const values = sorted.map(p => p.value);
+  const stepDays = seriesStepDays(sorted);
+  const seasonLength = options.seasonLength ?? defaultSeasonLength(stepDays);
+  const fitOptions = { trendWindow, seasonLength };
+
+  // Hold out ~20% (3-12 points), leaving enough to fit on
+  const holdout = Math.min(12, Math.max(3, Math.floor(values.length / 5)));
+  const errors: Partial<Record<ForecastModel, number>> = {};
+  for (const model of models) {
+    if (values.length - holdout < minPoints(model, seasonLength)) continue;
+    const error = backtestError(model, values, holdout, fitOptions);
+    if (error !== null) errors[model] = error;
+  }
+
+  const ranked = (Object.keys(errors) as ForecastModel[]).sort((a, b) => errors[a]! - errors[b]!);
+  const candidates = ranked.length > 0 ? ranked : models;
+
+  for (const model of candidates) {
+    const fitted = fitModel(model, values, fitOptions);
+    if (!fitted) continue;
+
+    const backtest = horizonErrors(model, values, horizon, fitOptions);
+    // Widen the error quantile until the bands held `level` of past outcomes
+    let bandLevel = level;
+    let measured = measureCoverage(backtest, horizon, level);
+    for (const q of WIDER_QUANTILES.filter(q => q > level)) {
+      if (measured.coverage === null || measured.coverage >= level) break;
+      bandLevel = q;
+      measured = measureCoverage(backtest, horizon, q);
+    }
+    const bands = errorBands(backtest, horizon, bandLevel);
+    const { coverage, samples } = measured;
+
+    // Too short to backtest: residual spread, growing linearly like the errors of a wrong trend
+    const z = normalQuantile(0.5 + level / 2);
+    const sigma = rms(fitted.residuals);
+    const last = sorted[sorted.length - 1].time;
+
+    return {
+      model,
+      errors,
+      stepDays,
+      level,
+      coverage: bands ? coverage : null,
+      coverageSamples: bands ? samples : 0,
+      errorQuantile: bandLevel,
+      recentCoverage: bands ? measureCoverage(backtest, horizon, bandLevel, values.length - RECENT_STEPS).coverage : null,
+      points: fitted.forecast(horizon).map((value, i) => {
+        const band = bands?.[i];
+        return {
+          time: last + (i + 1) * stepDays * MS_PER_DAY,
+          value,
+          lower: band ? value + band.lower * Math.abs(value) : value - z * sigma * (i + 1),
+          upper: band ? value + band.upper * Math.abs(value) : value + z * sigma * (i + 1),
+        };
+      }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Time at which a forecast first reaches a target, interpolating within
+ * the step. `start` is the last observed point. Null if never reached.
+ */
+export function timeToReach(
+  start: TimedValue,
+  points: ForecastPoint[],
+  target: number,
+  key: 'value' | 'lower' | 'upper' = 'value'
+): number | null {
+  let previous = { time: start.time, value: start.value };
+  for (const point of points) {
+    const value = point[key];
+    if (value >= target) {
+      if (value === previous.value) return point.time;
+      const fraction = Math.min(1, Math.max(0, (target - previous.value) / (value - previous.value)));
+      return previous.time + fraction * (point.time - previous.time);
+    }
+    previous = { time: point.time, value };
+  }
+  return null;
+}
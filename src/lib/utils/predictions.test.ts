@@ -1,7 +1,11 @@
 import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BACKTEST_METRICS, BACKTEST_MODELS, type CalibrationReport } from './backtesting';
 import {
   predictMilestone,
   formatPredictedDate,
+  formatPredictedRange,
   formatDaysUntil,
   getNextMilestones,
 } from './predictions';
@@ -75,6 +79,62 @@ describe('predictMilestone', () => {
     const result = predictMilestone(data, 200);
     expect(result.currentValue).toBe(130);
   });
+
+  it('returns a date range around the predicted date', () => {
+    // Monthly growth of ~1000 with noise, ending last month
+    const now = new Date();
+    const data = Array.from({ length: 24 }, (_, i) => {
+      const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 24 + i, 1));
+      return { date: date.toISOString().slice(0, 7), value: 10000 + 1000 * i + (i % 3) * 150 };
+    });
+
+    const result = predictMilestone(data, 40000);
+    expect(result.model).not.toBeNull();
+    expect(result.predictedDate).not.toBeNull();
+    expect(result.earliestDate!.getTime()).toBeLessThanOrEqual(result.predictedDate!.getTime());
+    expect(result.latestDate!.getTime()).toBeGreaterThanOrEqual(result.predictedDate!.getTime());
+  });
+
+  it('predicts from a past point in time', () => {
+    const data = Array.from({ length: 12 }, (_, i) => ({
+      date: `2023-${String(i + 1).padStart(2, '0')}`,
+      value: 1000 + 100 * i,
+    }));
+
+    const result = predictMilestone(data, 2500, { now: Date.UTC(2023, 11, 15), models: ['linear'] });
+    expect(result.model).toBe('linear');
+    expect(result.predictedDate!.toISOString().slice(0, 7)).toBe('2024-04');
+    expect(result.daysUntil).toBeGreaterThan(100);
+  });
+});
+
+describe('prediction calibration report', () => {
+  const dataDir = join(process.cwd(), 'public', 'data');
+  const readData = (file: string) => JSON.parse(readFileSync(join(dataDir, file), 'utf-8'));
+  const report: CalibrationReport = readData('prediction-calibration.json');
+
+  it('covers every metric and model', () => {
+    for (const metric of BACKTEST_METRICS) {
+      expect(report.entries.filter(e => e.metric === metric.id).map(e => e.model)).toEqual(BACKTEST_MODELS);
+    }
+  });
+
+  it('picks a model no worse than the worst single model', () => {
+    for (const metric of BACKTEST_METRICS) {
+      const entries = report.entries.filter(e => e.metric === metric.id && e.medianAbsErrorDays !== null);
+      const auto = entries.find(e => e.model === 'auto')!;
+      const worst = Math.max(...entries.map(e => e.medianAbsErrorDays!));
+      expect(auto.medianAbsErrorDays).toBeLessThanOrEqual(worst);
+    }
+  });
+
+  it('makes predictions that resolve for every metric', () => {
+    for (const metric of BACKTEST_METRICS) {
+      const auto = report.entries.find(e => e.metric === metric.id && e.model === 'auto')!;
+      expect(auto.reached).toBeGreaterThan(0);
+      expect(auto.coverage).not.toBeNull();
+    }
+  });
 });
 
 describe('formatPredictedDate', () => {
@@ -92,6 +152,31 @@ describe('formatPredictedDate', () => {
   });
 });
 
+describe('formatPredictedRange', () => {
+  it('returns "Unknown" without an earliest date', () => {
+    expect(formatPredictedRange(null, null)).toBe('Unknown');
+  });
+
+  it('formats months within one year', () => {
+    expect(formatPredictedRange(new Date('2027-03-10T00:00:00Z'), new Date('2027-05-20T00:00:00Z')))
+      .toBe('between March and May 2027');
+  });
+
+  it('formats a single month', () => {
+    expect(formatPredictedRange(new Date('2027-03-02T00:00:00Z'), new Date('2027-03-28T00:00:00Z')))
+      .toBe('in March 2027');
+  });
+
+  it('includes both years across a year boundary', () => {
+    expect(formatPredictedRange(new Date('2026-11-10T00:00:00Z'), new Date('2027-02-01T00:00:00Z')))
+      .toBe('between Nov 2026 and Feb 2027');
+  });
+
+  it('leaves the range open without a latest date', () => {
+    expect(formatPredictedRange(new Date('2027-03-10T00:00:00Z'), null)).toBe('Mar 2027 or later');
+  });
+});
+
 describe('formatDaysUntil', () => {
   it('returns empty string for null', () => {
     expect(formatDaysUntil(null)).toBe('');
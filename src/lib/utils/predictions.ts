@@ -1,28 +1,53 @@
 /**
  * Prediction utilities for milestone forecasting
  *
- * Uses linear regression on recent data to predict when milestones will be reached.
+ * Forecasts the series with the best backtesting model from forecasting.ts
+ * and reads off when the forecast (and its prediction interval) crosses
+ * each milestone. Linear regression on recent data gives the growth rate.
+ * Confidence says how often the model's intervals held the outcome when
+ * the series' own history was replayed.
  */
 
-interface DataPoint {
+import { forecast, seriesStepDays, timeToReach, type ForecastModel } from './forecasting';
+
+export interface DataPoint {
   date: string;
   value: number;
 }
 
-interface MilestonePrediction {
+export interface MilestonePrediction {
   milestone: number;
   predictedDate: Date | null;
   daysUntil: number | null;
   confidence: 'high' | 'medium' | 'low';
   growthPerDay: number;
   currentValue: number;
+  /** Prediction interval bounds; latestDate is null when the lower bound never gets there */
+  earliestDate: Date | null;
+  latestDate: Date | null;
+  /** Forecasting model the prediction came from */
+  model: ForecastModel | null;
 }
 
+/** Predictions further out than this are not shown */
+const MAX_DAYS_AHEAD = 730;
+
+/**
+ * What a forecast's own backtest must show for each confidence label: the
+ * outcomes measured, the widest error quantile at which the intervals
+ * still held the nominal share of them, and how far below nominal the
+ * coverage of recent outcomes may be
+ */
+const CONFIDENCE_COVERAGE = {
+  high: { samples: 20, errorQuantile: 0.9, recentShortfall: 0.1 },
+  medium: { samples: 10, errorQuantile: 0.99, recentShortfall: 0.3 },
+};
+
 /**
  * Parse date string to timestamp
  * Supports: YYYY-MM-DD, YYYY-MM, YYYY-Www formats
  */
-function parseDate(dateStr: string): number {
+export function parseDate(dateStr: string): number {
   // Weekly format: 2024-W03
   if (dateStr.includes('-W')) {
     const [year, week] = dateStr.split('-W').map(Number);
@@ -86,28 +111,36 @@ export function predictMilestone(
   options: {
     lookbackMonths?: number;
     minDataPoints?: number;
+    /** Timestamp the prediction is made at (default now; backtests replay past dates) */
+    now?: number;
+    /** Candidate forecasting models (default all) */
+    models?: ForecastModel[];
   } = {}
 ): MilestonePrediction {
-  const { lookbackMonths = 6, minDataPoints = 4 } = options;
+  const { lookbackMonths = 6, minDataPoints = 4, now = Date.now(), models } = options;
 
   // Sort by date
   const sorted = [...data]
     .filter(d => d.value > 0)
     .sort((a, b) => parseDate(a.date) - parseDate(b.date));
 
+  const unpredictable = (confidence: MilestonePrediction['confidence'], growthPerDay = 0): MilestonePrediction => ({
+    milestone,
+    predictedDate: null,
+    daysUntil: null,
+    confidence,
+    growthPerDay,
+    currentValue: sorted[sorted.length - 1]?.value || 0,
+    earliestDate: null,
+    latestDate: null,
+    model: null,
+  });
+
   if (sorted.length < minDataPoints) {
-    return {
-      milestone,
-      predictedDate: null,
-      daysUntil: null,
-      confidence: 'low',
-      growthPerDay: 0,
-      currentValue: sorted[sorted.length - 1]?.value || 0,
-    };
+    return unpredictable('low');
   }
 
   // Filter to recent data (lookback period)
-  const now = Date.now();
   const lookbackMs = lookbackMonths * 30 * 24 * 60 * 60 * 1000;
   const recentData = sorted.filter(d => now - parseDate(d.date) <= lookbackMs);
 
@@ -124,78 +157,67 @@ export function predictMilestone(
     y: d.value,
   }));
 
-  // Perform linear regression
-  const { slope, intercept, r2 } = linearRegression(points);
-
-  // Current value (most recent)
-  const currentValue = sorted[sorted.length - 1].value;
-  const currentDays = (now - firstTimestamp) / msPerDay;
-
-  // Growth per day
-  const growthPerDay = slope;
+  // Growth per day from linear regression over the lookback window
+  const { slope: growthPerDay } = linearRegression(points);
 
   // If milestone already reached
-  if (currentValue >= milestone) {
-    return {
-      milestone,
-      predictedDate: null,
-      daysUntil: null,
-      confidence: 'high',
-      growthPerDay,
-      currentValue,
-    };
+  if (sorted[sorted.length - 1].value >= milestone) {
+    return unpredictable('high', growthPerDay);
   }
 
   // If no growth or negative growth
   if (growthPerDay <= 0) {
-    return {
-      milestone,
-      predictedDate: null,
-      daysUntil: null,
-      confidence: 'low',
-      growthPerDay,
-      currentValue,
-    };
+    return unpredictable('low', growthPerDay);
+  }
+
+  // Forecast the full history; trend models only look at the lookback window
+  const series = sorted.map(d => ({ time: parseDate(d.date), value: d.value }));
+  const stepDays = seriesStepDays(series);
+  const result = forecast(series, {
+    horizon: Math.ceil(MAX_DAYS_AHEAD / stepDays) + 1,
+    trendWindow: dataToUse.length,
+    models,
+  });
+  if (!result) {
+    return unpredictable('low', growthPerDay);
   }
 
-  // Calculate days until milestone
-  // milestone = slope * daysFromFirst + intercept
-  // daysFromFirst = (milestone - intercept) / slope
-  const daysFromFirstToMilestone = (milestone - intercept) / slope;
-  const daysUntil = Math.ceil(daysFromFirstToMilestone - currentDays);
+  const last = series[series.length - 1];
+  const expected = timeToReach(last, result.points, milestone);
+  const earliest = timeToReach(last, result.points, milestone, 'upper');
+  const latest = timeToReach(last, result.points, milestone, 'lower');
 
-  // Predicted date
-  const predictedDate = new Date(now + daysUntil * msPerDay);
+  const daysUntil = expected === null ? null : Math.ceil((expected - now) / msPerDay);
 
-  // Determine confidence based on R² and data quality
+  // Cap predictions at 2 years out (beyond that, too uncertain)
+  if (expected === null || daysUntil === null || daysUntil > MAX_DAYS_AHEAD) {
+    return unpredictable('low', growthPerDay);
+  }
+
+  // Confidence from how often the intervals held in the series' own backtest
+  const meets = ({ samples, errorQuantile, recentShortfall }: typeof CONFIDENCE_COVERAGE.high) =>
+    result.coverage !== null && result.coverage >= result.level &&
+    result.coverageSamples >= samples && result.errorQuantile <= errorQuantile &&
+    (result.recentCoverage === null || result.recentCoverage >= result.level - recentShortfall);
   let confidence: 'high' | 'medium' | 'low';
-  if (r2 >= 0.9 && dataToUse.length >= 8) {
+  if (meets(CONFIDENCE_COVERAGE.high)) {
     confidence = 'high';
-  } else if (r2 >= 0.7 && dataToUse.length >= 5) {
+  } else if (meets(CONFIDENCE_COVERAGE.medium)) {
     confidence = 'medium';
   } else {
     confidence = 'low';
   }
 
-  // Cap predictions at 2 years out (beyond that, too uncertain)
-  if (daysUntil > 730) {
-    return {
-      milestone,
-      predictedDate: null,
-      daysUntil: null,
-      confidence: 'low',
-      growthPerDay,
-      currentValue,
-    };
-  }
-
   return {
     milestone,
-    predictedDate,
+    predictedDate: new Date(expected),
     daysUntil: daysUntil > 0 ? daysUntil : null,
     confidence,
     growthPerDay,
-    currentValue,
+    currentValue: last.value,
+    earliestDate: earliest === null ? null : new Date(earliest),
+    latestDate: latest === null ? null : new Date(latest),
+    model: result.model,
   };
 }
 
@@ -212,6 +234,30 @@ export function formatPredictedDate(date: Date | null): string {
   });
 }
 
+/**
+ * Format a prediction interval as a month range,
+ * e.g. "between March and May 2027" or "between Nov 2026 and Feb 2027"
+ */
+export function formatPredictedRange(earliest: Date | null, latest: Date | null): string {
+  if (!earliest) return 'Unknown';
+
+  const month = (date: Date, style: 'long' | 'short') =>
+    date.toLocaleDateString('en-US', { month: style, timeZone: 'UTC' });
+  const monthYear = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+  if (!latest) return `${monthYear(earliest)} or later`;
+
+  const sameYear = earliest.getUTCFullYear() === latest.getUTCFullYear();
+  if (sameYear && earliest.getUTCMonth() === latest.getUTCMonth()) {
+    return `in ${month(earliest, 'long')} ${earliest.getUTCFullYear()}`;
+  }
+  if (sameYear) {
+    return `between ${month(earliest, 'long')} and ${month(latest, 'long')} ${latest.getUTCFullYear()}`;
+  }
+  return `between ${monthYear(earliest)} and ${monthYear(latest)}`;
+}
+
 /**
  * Format days until milestone
  */
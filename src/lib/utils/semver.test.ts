@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersion, satisfies } from './semver';
+
+describe('parseVersion', () => {
+  it('parses full versions and ignores prerelease tags', () => {
+    expect(parseVersion('1.2.3')).toEqual([1, 2, 3]);
+    expect(parseVersion('v2.0.1-beta.1')).toEqual([2, 0, 1]);
+    expect(parseVersion('1.2')).toBeNull();
+    expect(parseVersion('latest')).toBeNull();
+  });
+});
+
+describe('satisfies', () => {
+  it('matches wildcards and exact versions', () => {
+    expect(satisfies('1.98.0', '*')).toBe(true);
+    expect(satisfies('1.98.0', '')).toBe(true);
+    expect(satisfies('1.98.0', '1.x')).toBe(true);
+    expect(satisfies('1.98.0', '1.98.0')).toBe(true);
+    expect(satisfies('1.98.0', '1.97.0')).toBe(false);
+  });
+
+  it('matches caret and tilde ranges', () => {
+    expect(satisfies('1.98.0', '^1.0.0')).toBe(true);
+    expect(satisfies('2.0.0', '^1.0.0')).toBe(false);
+    expect(satisfies('0.2.5', '^0.2.1')).toBe(true);
+    expect(satisfies('0.3.0', '^0.2.1')).toBe(false);
+    expect(satisfies('0.0.4', '^0.0.3')).toBe(false);
+    expect(satisfies('1.2.9', '~1.2.3')).toBe(true);
+    expect(satisfies('1.3.0', '~1.2.3')).toBe(false);
+  });
+
+  it('matches comparisons, hyphen ranges and alternatives', () => {
+    expect(satisfies('1.98.0', '>=1.0.0 <2.0.0')).toBe(true);
+    expect(satisfies('1.98.0', '>= 1.0.0')).toBe(true);
+    expect(satisfies('1.98.0', '<1.50')).toBe(false);
+    expect(satisfies('1.2.9', '>1.2')).toBe(false);
+    expect(satisfies('1.5.0', '1.0.0 - 1.5')).toBe(true);
+    expect(satisfies('1.6.0', '1.0.0 - 1.5')).toBe(false);
+    expect(satisfies('2.1.0', '^0.x || ^2.0.0')).toBe(true);
+  });
+
+  it('returns null for input it does not understand', () => {
+    expect(satisfies('1.0.0', 'latest')).toBeNull();
+    expect(satisfies('next', '*')).toBeNull();
+  });
+});
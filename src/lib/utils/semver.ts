@@ -0,0 +1,137 @@
+/**
+ * Minimal semver range matching
+ *
+ * Enough of npm's range syntax to check a package's peerDependencies
+ * against a released version: exact versions, x-ranges ('1.x', '*'),
+ * caret and tilde ranges, comparisons ('>=1.2 <2'), hyphen ranges and
+ * '||' alternatives. Prerelease tags are ignored.
+ */
+
+type Version = [number, number, number];
+
+interface Comparator {
+  op: '>=' | '>' | '<=' | '<' | '=';
+  version: Version;
+}
+
+/**
+ * Parse '1.2.3', 'v1.2' or '1.x'; missing and wildcard parts are null
+ */
+function parsePartial(text: string): Array<number | null> | null {
+  const match = text.trim().replace(/^v/i, '').match(/^(\d+|[x*])(?:\.(\d+|[x*]))?(?:\.(\d+|[x*]))?(?:[-+].*)?$/i);
+  if (!match) return null;
+  return [match[1], match[2], match[3]].map(part =>
+    part === undefined || /^[x*]$/i.test(part) ? null : Number(part)
+  );
+}
+
+export function parseVersion(text: string): Version | null {
+  const parts = parsePartial(text);
+  if (!parts || parts.some(part => part === null)) return null;
+  return parts as Version;
+}
+
+function compare(a: Version, b: Version): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+/** Lowest version a partial matches, and the first version above it */
+function bounds(parts: Array<number | null>): { low: Version; high: Version | null } {
+  const fixed = parts.findIndex(part => part === null);
+  const low = parts.map(part => part ?? 0) as Version;
+  if (fixed === -1) return { low, high: null };
+  if (fixed === 0) return { low, high: null };
+  const high = [...low] as Version;
+  high[fixed - 1]++;
+  for (let i = fixed; i < 3; i++) high[i] = 0;
+  return { low, high };
+}
+
+/**
+ * Comparators for one space-separated range, or null if it can't be parsed
+ */
+function parseRange(range: string): Comparator[] | null {
+  const hyphen = range.match(/^\s*(\S+)\s+-\s+(\S+)\s*$/);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) return null;
+    const upper = bounds(to);
+    return [
+      { op: '>=', version: bounds(from).low },
+      upper.high ? { op: '<', version: upper.high } : { op: '<=', version: upper.low },
+    ];
+  }
+
+  const comparators: Comparator[] = [];
+  const tokens = range.replace(/(>=|<=|[<>=^~])\s+/g, '$1').trim().split(/\s+/).filter(Boolean);
+  for (const token of tokens) {
+    const match = token.match(/^(>=|<=|>|<|=|\^|~)?(.*)$/)!;
+    const op = match[1] ?? '';
+    const parts = parsePartial(match[2]);
+    if (!parts) return null;
+    const { low, high } = bounds(parts);
+
+    if (op === '^') {
+      // Up to the next change of the first non-zero part
+      const index = low.findIndex((part, i) => part !== 0 || parts[i] === null || i === 2);
+      const next = [...low] as Version;
+      const bump = parts[index] === null ? index - 1 : index;
+      if (bump < 0) {
+        comparators.push({ op: '>=', version: low });
+        continue;
+      }
+      next[bump]++;
+      for (let i = bump + 1; i < 3; i++) next[i] = 0;
+      comparators.push({ op: '>=', version: low }, { op: '<', version: next });
+    } else if (op === '~') {
+      const next = [...low] as Version;
+      const bump = parts[1] === null ? 0 : 1;
+      next[bump]++;
+      for (let i = bump + 1; i < 3; i++) next[i] = 0;
+      comparators.push({ op: '>=', version: low }, { op: '<', version: next });
+    } else if (op === '' || op === '=') {
+      if (parts[0] === null) continue; // '*' matches everything
+      if (high) comparators.push({ op: '>=', version: low }, { op: '<', version: high });
+      else comparators.push({ op: '=', version: low });
+    } else if (op === '>') {
+      comparators.push(high ? { op: '>=', version: high } : { op: '>', version: low });
+    } else if (op === '<=') {
+      comparators.push(high ? { op: '<', version: high } : { op: '<=', version: low });
+    } else {
+      comparators.push({ op: op as Comparator['op'], version: low });
+    }
+  }
+  return comparators;
+}
+
+function test(version: Version, comparator: Comparator): boolean {
+  const order = compare(version, comparator.version);
+  switch (comparator.op) {
+    case '>=': return order >= 0;
+    case '>': return order > 0;
+    case '<=': return order <= 0;
+    case '<': return order < 0;
+    case '=': return order === 0;
+  }
+}
+
+/**
+ * Whether version is in range; null if either can't be parsed
+ */
+export function satisfies(version: string, range: string): boolean | null {
+  const parsed = parseVersion(version);
+  if (!parsed) return null;
+
+  let understood = false;
+  for (const alternative of range.split('||')) {
+    const comparators = parseRange(alternative);
+    if (!comparators) continue;
+    understood = true;
+    if (comparators.every(c => test(parsed, c))) return true;
+  }
+  return understood ? false : null;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  correlationPValue,
+  detectGrowthRegimes,
+  exponentialMovingAverage,
+  linearRegression,
+  loess,
+  movingAverage,
+  rollingBand,
+  rollingMedian,
+} from './statistics';
+
+const toPoints = (values: number[]) => values.map((y, x) => ({ x, y }));
+
+describe('linearRegression', () => {
+  it('fits a straight line', () => {
+    const result = linearRegression(toPoints([1, 3, 5, 7]));
+    expect(result?.slope).toBeCloseTo(2);
+    expect(result?.intercept).toBeCloseTo(1);
+    expect(result?.rSquared).toBeCloseTo(1);
+  });
+});
+
+describe('detectGrowthRegimes', () => {
+  it('keeps steady growth in one regime', () => {
+    const values = Array.from({ length: 30 }, (_, i) => 100 + 20 * i + (i % 3));
+    const regimes = detectGrowthRegimes(toPoints(values));
+
+    expect(regimes).toHaveLength(1);
+    expect(regimes[0]).toMatchObject({ start: 0, end: 29 });
+    expect(regimes[0].slope).toBeCloseTo(20, 0);
+  });
+
+  it('finds a step change in the growth rate', () => {
+    const values = Array.from({ length: 30 }, (_, i) => (i < 15 ? 10 * i : 140 + 50 * (i - 14)));
+    const regimes = detectGrowthRegimes(toPoints(values));
+
+    expect(regimes.map(r => [r.start, r.end])).toEqual([[0, 13], [14, 29]]);
+    expect(regimes[0].slope).toBeCloseTo(10);
+    expect(regimes[1].slope).toBeCloseTo(50);
+  });
+
+  it('finds several regimes, each at least minLength long', () => {
+    const slopes = [5, 40, 10];
+    const values: number[] = [];
+    let value = 0;
+    for (const slope of slopes) {
+      for (let i = 0; i < 12; i++) {
+        value += slope + ((values.length * 7) % 3) - 1;
+        values.push(value);
+      }
+    }
+    const regimes = detectGrowthRegimes(toPoints(values), { minLength: 6 });
+
+    expect(regimes).toHaveLength(3);
+    expect(regimes.map(r => Math.round(r.slope / 5) * 5)).toEqual([5, 40, 10]);
+    for (const r of regimes) {
+      expect(r.end - r.start + 1).toBeGreaterThanOrEqual(6);
+    }
+  });
+
+  it('respects maxRegimes', () => {
+    const values = Array.from({ length: 40 }, (_, i) => i * i);
+    expect(detectGrowthRegimes(toPoints(values), { maxRegimes: 2 }).length).toBeLessThanOrEqual(2);
+  });
+
+  it('handles tiny series', () => {
+    expect(detectGrowthRegimes([])).toEqual([]);
+    expect(detectGrowthRegimes(toPoints([1, 2, 3]))).toHaveLength(1);
+  });
+});
+
+describe('rolling statistics', () => {
+  it('averages a trailing window and keeps gaps', () => {
+    expect(movingAverage([1, 2, 3, null, 5], 3)).toEqual([1, 1.5, 2, null, 4]);
+  });
+
+  it('ignores single spikes with the rolling median', () => {
+    expect(rollingMedian([10, 10, 500, 10, 10], 3)).toEqual([10, 10, 10, 10, 10]);
+  });
+
+  it('weights recent values in the exponential average', () => {
+    const ema = exponentialMovingAverage([0, 10, 10], 3);
+    expect(ema).toEqual([0, 5, 7.5]);
+  });
+
+  it('builds min/max and standard deviation bands', () => {
+    expect(rollingBand([1, 5, 3], 2, 'minmax')).toEqual({ lower: [1, 1, 3], upper: [1, 5, 5] });
+    const { lower, upper } = rollingBand([2, 4], 2, 'stddev');
+    expect([lower[1], upper[1]]).toEqual([2, 4]);
+  });
+});
+
+describe('loess', () => {
+  it('reproduces a straight line', () => {
+    const line = Array.from({ length: 10 }, (_, i) => 3 * i + 1);
+    loess(line, 5).forEach((v, i) => expect(v).toBeCloseTo(line[i]));
+  });
+
+  it('smooths noise around a trend and skips missing points', () => {
+    const noisy = Array.from({ length: 40 }, (_, i) => (i === 5 ? null : 2 * i + (i % 2 ? 6 : -6)));
+    const smoothed = loess(noisy, 10);
+
+    expect(smoothed[5]).toBeNull();
+    expect(Math.abs(smoothed[20]! - 40)).toBeLessThan(1.5);
+  });
+});
+
+describe('correlationPValue', () => {
+  it('is small for strong correlations over many points and large for weak ones', () => {
+    expect(correlationPValue(0.8, 50)!).toBeLessThan(0.001);
+    expect(correlationPValue(0.1, 20)!).toBeGreaterThan(0.5);
+    expect(correlationPValue(0.5, 3)).toBeNull();
+  });
+});
@@ -1,7 +1,9 @@
 /**
  * Statistics utilities for playground charts
  *
- * Includes linear regression for trend lines and correlation calculations.
+ * Includes linear regression for trend lines, correlation calculations
+ * and their significance, changepoint detection (piecewise-linear growth
+ * regimes) and rolling statistics for smoothing noisy series.
  */
 
 export interface Point {
@@ -88,6 +90,29 @@ export function pearsonCorrelation(x: number[], y: number[]): number {
   return numerator / denominator;
 }
 
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26,
+ * accurate to about 1e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value for a Pearson correlation of `r` over `n` pairs, from
+ * the Fisher z-transform. Null for fewer than 4 pairs.
+ */
+export function correlationPValue(r: number, n: number): number | null {
+  if (n < 4) return null;
+  const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+  const z = Math.atanh(clamped) * Math.sqrt(n - 3);
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
 /**
  * Calculate basic statistics for a numeric array
  */
@@ -161,3 +186,210 @@ export function createHistogramBins(
 
   return bins;
 }
+
+export interface GrowthRegime {
+  /** Indices of the regime's first and last point (inclusive) */
+  start: number;
+  end: number;
+  /** Growth per x unit within the regime */
+  slope: number;
+  intercept: number;
+}
+
+export interface GrowthRegimeOptions {
+  /** Most regimes to split the series into (default 5) */
+  maxRegimes?: number;
+  /** Fewest points per regime (default 4) */
+  minLength?: number;
+}
+
+/**
+ * Split a series into growth regimes: piecewise-linear segments, each with
+ * its own slope. The best split for every regime count comes from dynamic
+ * programming on the segments' squared error; BIC then picks the count, so
+ * a new regime only appears where the growth rate clearly changes.
+ */
+export function detectGrowthRegimes(points: Point[], options: GrowthRegimeOptions = {}): GrowthRegime[] {
+  const { maxRegimes = 5, minLength = 4 } = options;
+  const n = points.length;
+  if (n < 2) return [];
+
+  // Prefix sums of centered values keep the squared-error arithmetic stable
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sums = { x: [0], y: [0], xx: [0], xy: [0], yy: [0] };
+  points.forEach(({ x, y }, i) => {
+    const dx = x - meanX;
+    const dy = y - meanY;
+    sums.x.push(sums.x[i] + dx);
+    sums.y.push(sums.y[i] + dy);
+    sums.xx.push(sums.xx[i] + dx * dx);
+    sums.xy.push(sums.xy[i] + dx * dy);
+    sums.yy.push(sums.yy[i] + dy * dy);
+  });
+
+  /** Least squares fit of points[from..to] */
+  const fit = (from: number, to: number) => {
+    const count = to - from + 1;
+    const sx = sums.x[to + 1] - sums.x[from];
+    const sy = sums.y[to + 1] - sums.y[from];
+    const cxx = sums.xx[to + 1] - sums.xx[from] - (sx * sx) / count;
+    const cxy = sums.xy[to + 1] - sums.xy[from] - (sx * sy) / count;
+    const cyy = sums.yy[to + 1] - sums.yy[from] - (sy * sy) / count;
+    const slope = cxx > 0 ? cxy / cxx : 0;
+    const intercept = meanY + sy / count - slope * (meanX + sx / count);
+    return { slope, intercept, sse: Math.max(0, cyy - slope * cxy) };
+  };
+
+  const maxK = Math.max(1, Math.min(maxRegimes, Math.floor(n / minLength)));
+
+  // cost[k][j]: least squared error of points[0..j] in k + 1 regimes
+  const cost: number[][] = [points.map((_, j) => (j + 1 >= minLength ? fit(0, j).sse : Infinity))];
+  const splits: number[][] = [points.map(() => 0)];
+  for (let k = 1; k < maxK; k++) {
+    cost.push(points.map(() => Infinity));
+    splits.push(points.map(() => 0));
+    for (let j = (k + 1) * minLength - 1; j < n; j++) {
+      for (let s = k * minLength; s <= j - minLength + 1; s++) {
+        const total = cost[k - 1][s - 1] + fit(s, j).sse;
+        if (total < cost[k][j]) {
+          cost[k][j] = total;
+          splits[k][j] = s;
+        }
+      }
+    }
+  }
+
+  // Bayesian information criterion: each regime adds a slope, an intercept and a boundary
+  const floor = (cost[0][n - 1] || 1) * 1e-9;
+  let best = 0;
+  let bestScore = Infinity;
+  cost.forEach((row, k) => {
+    if (!Number.isFinite(row[n - 1])) return;
+    const score = n * Math.log((row[n - 1] + floor) / n) + (3 * (k + 1) - 1) * Math.log(n);
+    if (score < bestScore) {
+      bestScore = score;
+      best = k;
+    }
+  });
+
+  const regimes: GrowthRegime[] = [];
+  let end = n - 1;
+  for (let k = best; k >= 0; k--) {
+    const start = k === 0 ? 0 : splits[k][end];
+    const { slope, intercept } = fit(start, end);
+    regimes.unshift({ start, end, slope, intercept });
+    end = start - 1;
+  }
+  return regimes;
+}
+
+// Rolling statistics and smoothing. Values are chart series, so missing
+// points (null) stay missing in the output and windows count positions.
+
+type Series = Array<number | null | undefined>;
+
+/**
+ * calculateStats over the trailing window of `window` positions ending at
+ * each point (fewer at the start), or null where the point is missing
+ */
+export function rollingStats(values: Series, window: number): Array<ReturnType<typeof calculateStats> | null> {
+  return values.map((value, i) => {
+    if (typeof value !== 'number') return null;
+    const inWindow = values
+      .slice(Math.max(0, i - window + 1), i + 1)
+      .filter((v): v is number => typeof v === 'number');
+    return calculateStats(inWindow);
+  });
+}
+
+/**
+ * Simple moving average over a trailing window
+ */
+export function movingAverage(values: Series, window: number): Array<number | null> {
+  return rollingStats(values, window).map(stats => stats?.mean ?? null);
+}
+
+/**
+ * Rolling median over a trailing window; unlike the average, single spikes
+ * barely move it
+ */
+export function rollingMedian(values: Series, window: number): Array<number | null> {
+  return rollingStats(values, window).map(stats => stats?.median ?? null);
+}
+
+/**
+ * Exponential moving average with the usual span weighting,
+ * alpha = 2 / (window + 1)
+ */
+export function exponentialMovingAverage(values: Series, window: number): Array<number | null> {
+  const alpha = 2 / (window + 1);
+  let average: number | null = null;
+  return values.map(value => {
+    if (typeof value !== 'number') return null;
+    average = average === null ? value : alpha * value + (1 - alpha) * average;
+    return average;
+  });
+}
+
+/**
+ * LOESS: at each point, a weighted linear fit of its `window` nearest
+ * points (at least 3), with tricube weights on distance
+ */
+export function loess(values: Series, window: number): Array<number | null> {
+  const points = values.flatMap((y, x) => (typeof y === 'number' ? [{ x, y }] : []));
+  const k = Math.min(points.length, Math.max(3, window));
+  const result: Array<number | null> = values.map(() => null);
+  if (points.length < 3) {
+    points.forEach(p => { result[p.x] = p.y; });
+    return result;
+  }
+
+  points.forEach((point, i) => {
+    // Grow the neighbourhood outwards from the point, nearest first
+    let lo = i;
+    let hi = i;
+    while (hi - lo + 1 < k) {
+      if (lo === 0) hi++;
+      else if (hi === points.length - 1) lo--;
+      else if (point.x - points[lo - 1].x <= points[hi + 1].x - point.x) lo--;
+      else hi++;
+    }
+    const neighbours = points.slice(lo, hi + 1);
+    const maxDistance = Math.max(point.x - neighbours[0].x, neighbours[neighbours.length - 1].x - point.x) * 1.001 || 1;
+
+    let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+    for (const { x, y } of neighbours) {
+      const w = (1 - (Math.abs(x - point.x) / maxDistance) ** 3) ** 3;
+      sw += w;
+      sx += w * x;
+      sy += w * y;
+      sxx += w * x * x;
+      sxy += w * x * y;
+    }
+    const denominator = sw * sxx - sx * sx;
+    const slope = denominator !== 0 ? (sw * sxy - sx * sy) / denominator : 0;
+    result[point.x] = (sy - slope * sx) / sw + slope * point.x;
+  });
+
+  return result;
+}
+
+export type BandType = 'minmax' | 'stddev';
+
+/**
+ * Band around a series over a trailing window: rolling min/max, or the
+ * rolling mean ± `k` standard deviations
+ */
+export function rollingBand(
+  values: Series,
+  window: number,
+  type: BandType,
+  k = 1
+): { lower: Array<number | null>; upper: Array<number | null> } {
+  const stats = rollingStats(values, window);
+  return {
+    lower: stats.map(s => (s ? (type === 'minmax' ? s.min : s.mean - k * s.stdDev) : null)),
+    upper: stats.map(s => (s ? (type === 'minmax' ? s.max : s.mean + k * s.stdDev) : null)),
+  };
+}
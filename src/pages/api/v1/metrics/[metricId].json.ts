@@ -0,0 +1,21 @@
+/**
+ * GET /api/v1/metrics/{metricId}.json
+ *
+ * Full history of a metric at its default granularity.
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { buildMetricResponse, getMetricEndpoints } from '@/lib/playground/api';
+
+export const getStaticPaths = (() => {
+  // One entry per metric (endpoints are listed per granularity)
+  const byMetric = new Map(getMetricEndpoints().map(({ metricId, data }) => [metricId, data]));
+  return Array.from(byMetric, ([metricId, data]) => ({ params: { metricId }, props: { data } }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ params, props }) => {
+  const response = buildMetricResponse(params.metricId!, props.data);
+  return new Response(JSON.stringify(response), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,24 @@
+/**
+ * GET /api/v1/metrics/{metricId}/{granularity}.json
+ *
+ * Full history of a metric at one granularity (daily, weekly or monthly).
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { buildMetricResponse, getMetricEndpoints, type ApiGranularity } from '@/lib/playground/api';
+
+export const getStaticPaths = (() => {
+  return getMetricEndpoints().map(({ metricId, granularity, data }) => ({
+    params: { metricId, granularity },
+    props: { data },
+  }));
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ params, props }) => {
+  const response = buildMetricResponse(params.metricId!, props.data, {
+    granularity: params.granularity as ApiGranularity,
+  });
+  return new Response(JSON.stringify(response), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,34 @@
+/**
+ * GET /api/v1/metrics/{metricId}/{granularity}/{range}.json
+ *
+ * A metric at one granularity, limited to a range preset (1m, 3m, 6m, 1y,
+ * 2y) counted back from the build date.
+ */
+
+import type { APIRoute, GetStaticPaths } from 'astro';
+import {
+  API_RANGES,
+  buildMetricResponse,
+  getMetricEndpoints,
+  type ApiGranularity,
+  type ApiRange,
+} from '@/lib/playground/api';
+
+export const getStaticPaths = (() => {
+  return getMetricEndpoints().flatMap(({ metricId, granularity, data }) =>
+    API_RANGES.map(range => ({
+      params: { metricId, granularity, range },
+      props: { data },
+    }))
+  );
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute = ({ params, props }) => {
+  const response = buildMetricResponse(params.metricId!, props.data, {
+    granularity: params.granularity as ApiGranularity,
+    range: params.range as ApiRange,
+  });
+  return new Response(JSON.stringify(response), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,14 @@
+/**
+ * GET /api/v1/sources.json
+ *
+ * Index of all time-series sources and their metric endpoints.
+ */
+
+import type { APIRoute } from 'astro';
+import { buildSourcesResponse } from '@/lib/playground/api';
+
+export const GET: APIRoute = () => {
+  return new Response(JSON.stringify(buildSourcesResponse(), null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
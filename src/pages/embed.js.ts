@@ -0,0 +1,14 @@
+/**
+ * GET /embed.js
+ *
+ * Defines the <n8n-pulse-chart> element for embedding charts on other sites.
+ */
+
+import type { APIRoute } from 'astro';
+import { buildEmbedScript } from '@/lib/embed/element';
+
+export const GET: APIRoute = ({ site }) => {
+  return new Response(buildEmbedScript(site?.origin ?? 'https://n8n-pulse.gui.do'), {
+    headers: { 'Content-Type': 'text/javascript' },
+  });
+};